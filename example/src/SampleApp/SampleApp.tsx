@@ -97,13 +97,22 @@ function SampleApp() {
         exportable: {
             additionalColumns: [sampleAdditionalExportColumn]
         },
+        importable: true,
         defaultSize: "l",
         properties: ["name", "header_image", "status", "content", "reviewed",  "gold_text"],
         description: "Collection of blog entries included in our [awesome blog](https://www.google.com)",
         textSearchDelegate: blogSearchDelegate,
         initialFilter: {
             "status": ["==", "published"]
-        }
+        },
+        savedViews: [
+            {
+                name: "Drafts",
+                filter: { "status": ["==", "draft"] },
+                properties: ["name", "status", "reviewed"],
+                size: "s"
+            }
+        ]
     });
 
     const testCollection = buildCollection({
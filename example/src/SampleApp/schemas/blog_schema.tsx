@@ -13,6 +13,15 @@ export const blogSchema = buildSchema({
         name: "Preview",
         builder: (props) => <BlogEntryPreview {...props}/>
     }],
+    publishing: {
+        draftsSuffix: "__drafts",
+        publishAtProperty: "publish_date"
+    },
+    onPrePublish: ({ values }) => ({
+        ...values,
+        status: "published",
+        publish_date: values.publish_date ?? new Date()
+    }),
     properties: {
         name: buildProperty({
             title: "Name",
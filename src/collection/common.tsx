@@ -3,6 +3,7 @@ import {
     ArrayProperty,
     CollectionSize,
     EntityCollection,
+    isPersistedComputedProperty,
     Property,
     StringProperty
 } from "../models";
@@ -35,8 +36,18 @@ export function getCellAlignment(property: Property): "right" | "left" | "center
     }
 }
 
+/**
+ * Computed values that are not persisted can't be used in queries
+ * @param property
+ */
+export function isPropertySortable(property: Property): boolean {
+    return !property.compute || isPersistedComputedProperty(property);
+}
+
 export function isPropertyFilterable(property: Property): boolean {
-    if (property.dataType === "boolean") {
+    if (!isPropertySortable(property)) {
+        return false;
+    } else if (property.dataType === "boolean") {
         return true;
     } else if (property.dataType === "number") {
         return true;
@@ -44,8 +55,13 @@ export function isPropertyFilterable(property: Property): boolean {
         return true;
     } else if (property.dataType === "timestamp") {
         return true;
+    } else if (property.dataType === "reference") {
+        return true;
+    } else if (property.dataType === "geopoint") {
+        return true;
     } else if (property.dataType === "array") {
-        if (property.of)
+        // bounding boxes can't be applied to arrays of geopoints
+        if (property.of && property.of.dataType !== "geopoint")
             return isPropertyFilterable(property.of);
         else
             return false;
@@ -4,7 +4,8 @@ import Measure, { ContentRect } from "react-measure";
 import "react-base-table/styles.css";
 import { Box, Paper, Typography } from "@material-ui/core";
 import AssignmentIcon from "@material-ui/icons/Assignment";
-import { useHistory } from "react-router-dom";
+import { useHistory, useLocation } from "react-router-dom";
+import { useClipboard } from "use-clipboard-hook";
 
 import {
     AdditionalColumnDelegate,
@@ -13,9 +14,15 @@ import {
     CollectionSize,
     CompositeIndex,
     Entity,
+    FilterCondition,
     FilterValues,
+    getFilterConditions,
+    isLocalizedProperty,
+    isPersistedComputedProperty,
+    localizeProperty,
     Property,
-    WhereFilterOp
+    resolvePropertyConditions,
+    SavedCollectionView
 } from "../../models";
 import {
     CMSColumn,
@@ -23,6 +30,7 @@ import {
     getPropertyColumnWidth,
     getRowHeight,
     isPropertyFilterable,
+    isPropertySortable,
     Sort
 } from "../common";
 import CollectionTableToolbar from "../internal/CollectionTableToolbar";
@@ -40,9 +48,23 @@ import { useTableStyles } from "./styles";
 import { getPreviewSizeFrom } from "../../preview/util";
 import PropertyTableCell, { OnCellChangeParams } from "../internal/PropertyTableCell";
 import { CustomFieldValidator, mapPropertyToYup } from "../../form/validation";
-import { useCollectionFetch } from "../../hooks";
+import { useCollectionFetch, useTranslation } from "../../hooks";
 import { useTextSearch } from "../../hooks/useTextSearch";
 import CollectionTableHeader from "../internal/CollectionTableHeader";
+import SavedViewsMenu from "../internal/SavedViewsMenu";
+import { HighlightedText } from "../internal/HighlightedText";
+import {
+    decodeSharedView,
+    encodeSharedView,
+    SHARED_VIEW_PARAM,
+    useSavedViews
+} from "../../hooks/useSavedViews";
+import {
+    useAuthController,
+    useCMSAppContext,
+    useSnackbarController
+} from "../../contexts";
+import { canReadProperty } from "../../util/permissions";
 
 const DEFAULT_PAGE_SIZE = 50;
 
@@ -68,6 +90,7 @@ export default function CollectionTable<M extends { [Key: string]: any },
     AdditionalKey extends string = string>({
                                                initialFilter,
                                                initialSort,
+                                               savedViews,
                                                collectionPath,
                                                schema,
                                                displayedProperties,
@@ -85,17 +108,46 @@ export default function CollectionTable<M extends { [Key: string]: any },
                                                paginationEnabled,
                                                onEntityClick,
                                                onCellValueChange,
+                                               initialSearchString,
+                                               initialItemCount,
+                                               onStateChange,
+                                               onEntitiesDisplayed,
                                                pageSize = DEFAULT_PAGE_SIZE
                                            }: CollectionTableProps<M, AdditionalKey>) {
 
 
-    const [size, setSize] = React.useState<CollectionSize>(defaultSize);
+    const location = useLocation();
+    const { cmsAppConfig, contentLocale, dataSource } = useCMSAppContext();
+
+    // View shared in the URL, only applied when views are enabled
+    const [sharedView] = React.useState<SavedCollectionView<M> | undefined>(() => savedViews
+        ? decodeSharedView<M>(new URLSearchParams(location.search).get(SHARED_VIEW_PARAM), collectionPath, dataSource.buildReference)
+        : undefined);
+    const startFilter = sharedView ? sharedView.filter : initialFilter;
+    const startSort = sharedView ? sharedView.sort : initialSort;
+
+    const [size, setSize] = React.useState<CollectionSize>(sharedView?.size ?? defaultSize);
+
+    const [itemCount, setItemCount] = React.useState<number | undefined>(paginationEnabled ? (initialItemCount ?? pageSize) : undefined);
 
-    const [itemCount, setItemCount] = React.useState<number | undefined>(paginationEnabled ? pageSize : undefined);
+    const [filterValues, setFilterValues] = React.useState<FilterValues<M>>(startFilter || {});
+    const [sortByProperty, setSortProperty] = React.useState<Extract<keyof M, string> | undefined>(startSort ? startSort[0] : undefined);
+    const [currentSort, setCurrentSort] = React.useState<Sort>(startSort ? startSort[1] : undefined);
 
-    const [filterValues, setFilterValues] = React.useState<FilterValues<M>>(initialFilter || {});
-    const [sortByProperty, setSortProperty] = React.useState<Extract<keyof M, string> | undefined>(initialSort ? initialSort[0] : undefined);
-    const [currentSort, setCurrentSort] = React.useState<Sort>(initialSort ? initialSort[1] : undefined);
+    // Columns set by the selected view, if any
+    const [viewProperties, setViewProperties] = React.useState<string[] | undefined>(sharedView?.properties);
+    const usedProperties = viewProperties ?? displayedProperties;
+
+    const userViewsController = useSavedViews<M>(collectionPath);
+    const snackbarContext = useSnackbarController();
+    const { t } = useTranslation();
+    const authController = useAuthController();
+    const { copy } = useClipboard({
+        onSuccess: () => snackbarContext.open({
+            type: "success",
+            message: t("viewLinkCopied")
+        })
+    });
 
     const [tableSize, setTableSize] = React.useState<ContentRect | undefined>();
 
@@ -111,10 +163,26 @@ export default function CollectionTable<M extends { [Key: string]: any },
     const [formPopupOpen, setFormPopupOpen] = React.useState<boolean>(false);
     const [preventOutsideClick, setPreventOutsideClick] = React.useState<boolean>(false);
 
-    const [searchString, setSearchString] = React.useState<string | undefined>();
+    const [searchString, setSearchString] = React.useState<string | undefined>(initialSearchString);
 
     const textSearchEnabled = !!textSearchDelegate;
 
+    // Notify state changes made by the user, skipping the initial state
+    const stateInitialised = useRef<boolean>(false);
+    useEffect(() => {
+        if (!stateInitialised.current) {
+            stateInitialised.current = true;
+            return;
+        }
+        if (onStateChange)
+            onStateChange({
+                filterValues,
+                sort: sortByProperty && currentSort ? [sortByProperty, currentSort] : undefined,
+                searchString,
+                itemCount: paginationEnabled ? itemCount : undefined
+            });
+    }, [filterValues, sortByProperty, currentSort, searchString, itemCount]);
+
     const filterIsSet = filterValues && Object.keys(filterValues).length > 0;
 
     const {
@@ -134,12 +202,17 @@ export default function CollectionTable<M extends { [Key: string]: any },
 
     const {
         textSearchData,
-        textSearchLoading
+        textSearchLoading,
+        textSearchHighlights,
+        textSearchTotal,
+        textSearchNoMoreToLoad,
+        loadMoreTextSearchResults
     } = useTextSearch({
         searchString,
         textSearchDelegate,
         collectionPath,
-        schema
+        schema,
+        pageSize
     });
 
     const textSearchInProgress = Boolean(searchString);
@@ -147,9 +220,16 @@ export default function CollectionTable<M extends { [Key: string]: any },
     const currentData: Entity<M>[] = textSearchInProgress ? textSearchData : data;
     const loading = textSearchInProgress ? textSearchLoading : dataLoading;
 
+    useEffect(() => {
+        if (onEntitiesDisplayed)
+            onEntitiesDisplayed(currentData);
+    }, [currentData]);
+
     const actions = toolbarActionsBuilder && toolbarActionsBuilder({
         size,
-        data: currentData
+        data: currentData,
+        filterValues,
+        sort: sortByProperty && currentSort ? [sortByProperty, currentSort] : undefined
     });
 
     const history = useHistory();
@@ -163,6 +243,11 @@ export default function CollectionTable<M extends { [Key: string]: any },
     });
 
     const loadNextPage = () => {
+        if (textSearchInProgress) {
+            if (!textSearchLoading && !textSearchNoMoreToLoad)
+                loadMoreTextSearchResults();
+            return;
+        }
         if (!paginationEnabled || dataLoading || noMoreToLoad)
             return;
         if (itemCount !== undefined)
@@ -220,15 +305,19 @@ export default function CollectionTable<M extends { [Key: string]: any },
 
     const columns = useMemo(() => {
         const allColumns: CMSColumn[] = (Object.keys(schema.properties) as (keyof M)[])
-            .map((key) => {
-                const property: Property<any> = buildPropertyFrom<any, M>(schema.properties[key], schema.defaultValues ?? {}, collectionPath);
+            .map((key) => ({
+                key,
+                property: buildPropertyFrom<any, M>(schema.properties[key], schema.defaultValues ?? {}, collectionPath) as Property<any>
+            }))
+            .filter(({ property }) => canReadProperty(property, authController))
+            .map(({ key, property }) => {
                 return ({
                     id: key as string,
                     type: "property",
                     property,
                     align: getCellAlignment(property),
                     label: property.title || key as string,
-                    sortable: true,
+                    sortable: isPropertySortable(property),
                     filterable: isPropertyFilterable(property),
                     width: getPropertyColumnWidth(property, size)
                 });
@@ -248,12 +337,12 @@ export default function CollectionTable<M extends { [Key: string]: any },
             allColumns.push(...items);
         }
 
-        return displayedProperties
+        return usedProperties
             .map((p) => {
                 return allColumns.find(c => c.id === p);
             }).filter(c => !!c) as CMSColumn[];
 
-    }, [displayedProperties]);
+    }, [usedProperties, authController.roles]);
 
 
     const onColumnSort = (key: Extract<keyof M, string>) => {
@@ -284,6 +373,38 @@ export default function CollectionTable<M extends { [Key: string]: any },
 
     const clearFilter = () => setFilterValues({});
 
+    const buildCurrentView = (name: string): SavedCollectionView<M> => ({
+        name,
+        filter: filterValues,
+        sort: sortByProperty && currentSort ? [sortByProperty, currentSort] : undefined,
+        properties: usedProperties,
+        size
+    });
+
+    const applyView = (view: SavedCollectionView<M>) => {
+        setFilterValues(view.filter ?? {});
+        setSortProperty(view.sort ? view.sort[0] : undefined);
+        setCurrentSort(view.sort ? view.sort[1] : undefined);
+        setViewProperties(view.properties);
+        if (view.size)
+            setSize(view.size);
+        resetPagination();
+        scrollToTop();
+    };
+
+    const shareView = () => {
+        const encoded = encodeSharedView(buildCurrentView(t("sharedView")), collectionPath);
+        copy(`${window.location.origin}${location.pathname}?${SHARED_VIEW_PARAM}=${encodeURIComponent(encoded)}`);
+    };
+
+    const viewsMenu = savedViews &&
+        <SavedViewsMenu predefinedViews={savedViews}
+                        userViews={userViewsController.views}
+                        onViewSelected={applyView}
+                        onViewSaved={(name) => userViewsController.saveView(buildCurrentView(name))}
+                        onViewDeleted={userViewsController.deleteView}
+                        onShareView={shareView}/>;
+
     const buildIdColumn = (props: {
         entity: Entity<M>,
         size: CollectionSize,
@@ -334,9 +455,17 @@ export default function CollectionTable<M extends { [Key: string]: any },
             const propertyOrBuilder = schema.properties[name];
             const property: Property<any> = buildPropertyFrom<CMSType, M>(propertyOrBuilder, entity.values, entity.id);
             const usedPropertyBuilder = typeof propertyOrBuilder === "function";
+            // computed values that are not persisted are computed when displayed
+            const value = property.compute && !isPersistedComputedProperty(property)
+                ? property.compute(entity.values, entity.values)
+                : entity.values[name];
 
             const inlineEditingEnabled = checkInlineEditing(entity);
 
+            const highlight = textSearchInProgress
+                ? textSearchHighlights[entity.id]?.[name as string]
+                : undefined;
+
             if (!inlineEditingEnabled) {
                 return (
                     <TableCell
@@ -344,14 +473,16 @@ export default function CollectionTable<M extends { [Key: string]: any },
                         size={size}
                         align={column.align}
                         disabled={true}>
-                        <PreviewComponent
-                            width={column.width}
-                            height={column.height}
-                            name={`preview_${name}_${rowIndex}_${columnIndex}`}
-                            property={property}
-                            value={entity.values[name]}
-                            size={getPreviewSizeFrom(size)}
-                        />
+                        {highlight
+                            ? <HighlightedText highlight={highlight}/>
+                            : <PreviewComponent
+                                width={column.width}
+                                height={column.height}
+                                name={`preview_${name}_${rowIndex}_${columnIndex}`}
+                                property={property}
+                                value={value}
+                                size={getPreviewSizeFrom(size)}
+                            />}
                     </TableCell>
                 );
             } else {
@@ -405,9 +536,10 @@ export default function CollectionTable<M extends { [Key: string]: any },
                     }) : undefined;
 
                 const validation = mapPropertyToYup({
-                    property,
+                    property: resolvePropertyConditions(property, entity.values),
                     customFieldValidator,
-                    name
+                    name,
+                    locales: cmsAppConfig.localization?.locales
                 });
 
                 const onValueChange = onCellValueChange
@@ -424,17 +556,19 @@ export default function CollectionTable<M extends { [Key: string]: any },
                         align={column.align}
                         name={name as string}
                         validation={validation}
+                        entityValues={entity.values}
                         onValueChange={onValueChange}
                         selected={selected}
                         focused={isFocused}
                         setPreventOutsideClick={setPreventOutsideClick}
                         setFocused={setFocused}
-                        value={entity?.values ? entity.values[name] : undefined}
+                        value={value}
                         property={property}
                         openPopup={openPopup}
                         select={onSelect}
                         width={column.width}
-                        height={column.height}/>
+                        height={column.height}
+                        highlight={highlight}/>
                     :
                     <SkeletonComponent property={property}
                                        size={getPreviewSizeFrom(size)}/>;
@@ -468,24 +602,32 @@ export default function CollectionTable<M extends { [Key: string]: any },
 
         const column = columns[columnIndex - 1];
 
-        const filterForThisProperty: [WhereFilterOp, any] | undefined =
-            column && column.type === "property" && filterValues && filterValues[column.id] ?
-                filterValues[column.id]
+        // localized properties are filtered by their value in the current locale
+        const localized = column && column.type === "property" && column.property
+            && isLocalizedProperty(column.property) && contentLocale;
+        const filterKey = localized ? `${column.id}.${contentLocale}` : column?.id;
+        const headerColumn = localized
+            ? { ...column, property: localizeProperty(column.property!, contentLocale!) }
+            : column;
+
+        const filterForThisProperty: FilterCondition | FilterCondition[] | undefined =
+            column && column.type === "property" && filterValues && filterValues[filterKey] ?
+                filterValues[filterKey]
                 : undefined;
 
-        const onPropertyFilterUpdate = (filterForProperty?: [WhereFilterOp, any]) => {
+        const onPropertyFilterUpdate = (filterForProperty?: FilterCondition | FilterCondition[]) => {
 
-            let newFilterValue = filterValues ? { ...filterValues } : {};
+            let newFilterValue: FilterValues<any> = filterValues ? { ...filterValues } : {};
 
             if (!filterForProperty) {
-                delete newFilterValue[column.id];
+                delete newFilterValue[filterKey];
             } else {
-                newFilterValue[column.id] = filterForProperty;
+                newFilterValue[filterKey] = filterForProperty;
             }
 
             const isNewFilterCombinationValid = isFilterCombinationValid(newFilterValue, indexes, sortByProperty, currentSort);
             if (!isNewFilterCombinationValid) {
-                newFilterValue = filterForProperty ? { [column.id]: filterForProperty } as FilterValues<M> : {};
+                newFilterValue = filterForProperty ? { [filterKey]: filterForProperty } : {};
             }
 
             setFilterValues(newFilterValue);
@@ -507,7 +649,7 @@ export default function CollectionTable<M extends { [Key: string]: any },
                         filter={filterForThisProperty}
                         sort={sortByProperty === column.id ? currentSort : undefined}
                         onColumnSort={onColumnSort}
-                        column={column}/>
+                        column={headerColumn}/>
 
                 }
             </ErrorBoundary>
@@ -639,12 +781,15 @@ export default function CollectionTable<M extends { [Key: string]: any },
 
                 <CollectionTableToolbar schema={schema}
                                         filterIsSet={filterIsSet}
+                                        initialSearchString={initialSearchString}
                                         onTextSearch={textSearchEnabled ? setSearchString : undefined}
                                         clearFilter={clearFilter}
                                         actions={actions}
+                                        viewsMenu={viewsMenu}
                                         size={size}
                                         onSizeChanged={setSize}
                                         title={title}
+                                        textSearchResultCount={textSearchInProgress && !textSearchLoading ? textSearchTotal ?? currentData.length : undefined}
                                         loading={loading}/>
 
                 <PopupFormField
@@ -677,12 +822,30 @@ export default function CollectionTable<M extends { [Key: string]: any },
 
 function isFilterCombinationValid<M extends { [Key: string]: any }>(filterValues: FilterValues<M>, indexes?: CompositeIndex<Extract<keyof M, string>>[], sortKey?: keyof M, sortDirection?: "asc" | "desc"): boolean {
 
+    const conditions: [string, FilterCondition][] = Object.entries(filterValues)
+        .flatMap(([key, filter]) => getFilterConditions(filter as FilterCondition | FilterCondition[])
+            .map((condition): [string, FilterCondition] => [key, condition]));
+    const ops = conditions.map(([_, [op]]) => op);
+
     // Order by clause cannot contain a field with an equality filter available
-    const values: [WhereFilterOp, any][] = Object.values(filterValues) as [WhereFilterOp, any][];
-    if (sortKey && values.map((v) => v[0]).includes("==")) {
+    if (sortKey && ops.includes("==")) {
         return false;
     }
 
+    // Firestore allows inequality filters on a single field, which must be
+    // the first field the results are sorted by
+    const inequalityKeys = new Set(conditions
+        .filter(([_, [op]]) => ["<", "<=", ">", ">=", "!=", "not-in"].includes(op))
+        .map(([key]) => key));
+    if (inequalityKeys.size > 1 || (sortKey && inequalityKeys.size === 1 && !inequalityKeys.has(sortKey as string)))
+        return false;
+
+    if (ops.filter((op) => op === "in" || op === "not-in" || op === "array-contains-any").length > 1)
+        return false;
+
+    if (ops.includes("not-in") && ops.includes("!="))
+        return false;
+
     const filterKeys = Object.keys(filterValues);
     const filtersCount = filterKeys.length;
     if (!indexes && filtersCount > 1)
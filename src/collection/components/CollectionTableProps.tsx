@@ -6,6 +6,7 @@ import {
     EntitySchema,
     FilterValues,
     Property,
+    SavedCollectionView,
     TextSearchDelegate
 } from "../../models";
 import React from "react";
@@ -40,6 +41,13 @@ export interface CollectionTableProps<M extends { [Key: string]: any }, Addition
      */
     initialSort?: [Extract<keyof M, string>, "asc" | "desc"];
 
+    /**
+     * Predefined views of this collection. If set, a views menu is displayed
+     * in the toolbar, which also allows users to save and share their own
+     * views
+     */
+    savedViews?: SavedCollectionView<M>[];
+
     /**
      * If enabled, content is loaded in batch
      */
@@ -88,9 +96,15 @@ export interface CollectionTableProps<M extends { [Key: string]: any }, Addition
 
     /**
      * Additional components builder such as buttons in the
-     * collection toolbar
+     * collection toolbar. It receives the current filters and sort of the
+     * table as well
      */
-    toolbarActionsBuilder?: (props: { size: CollectionSize, data: Entity<any>[] }) => React.ReactNode;
+    toolbarActionsBuilder?: (props: {
+        size: CollectionSize,
+        data: Entity<any>[],
+        filterValues?: FilterValues<M>,
+        sort?: [Extract<keyof M, string>, "asc" | "desc"]
+    }) => React.ReactNode;
 
     /**
      * Builder for creating the buttons in each row
@@ -125,6 +139,46 @@ export interface CollectionTableProps<M extends { [Key: string]: any }, Addition
      * Callback when anywhere on the table is clicked
      */
     onEntityClick?(entity: Entity<M>): void;
+
+    /**
+     * Text search applied when the table is mounted
+     */
+    initialSearchString?: string;
+
+    /**
+     * Number of entities loaded when the table is mounted, if pagination
+     * is enabled
+     */
+    initialItemCount?: number;
+
+    /**
+     * Callback when the user changes the filters, sort, text search or
+     * loads more entities. It is not called when the table is mounted.
+     * @param state
+     */
+    onStateChange?(state: CollectionTableState<M>): void;
+
+    /**
+     * Callback when the entities displayed in the table change, e.g. when a
+     * new page is loaded or the results of a text search are displayed
+     * @param entities
+     */
+    onEntitiesDisplayed?(entities: Entity<M>[]): void;
+}
+
+/**
+ * Filters, sort, text search and pagination of a collection table,
+ * which can be persisted, e.g. in the URL
+ * @category Collection components
+ */
+export interface CollectionTableState<M extends { [Key: string]: any }> {
+    filterValues?: FilterValues<M>;
+    sort?: [Extract<keyof M, string>, "asc" | "desc"];
+    searchString?: string;
+    /**
+     * Number of entities loaded, if pagination is enabled
+     */
+    itemCount?: number;
 }
 
 /**
@@ -0,0 +1,394 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    IconButton,
+    LinearProgress,
+    MenuItem,
+    Select,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    Tooltip
+} from "@material-ui/core";
+import { Add, Delete } from "@material-ui/icons";
+import { Form, Formik } from "formik";
+import { ValidationError } from "yup";
+
+import {
+    applyBulkEdits,
+    BulkEdit,
+    BulkEditOperation,
+    Entity,
+    EntitySchema,
+    EntityValues,
+    FormContext,
+    getBulkEditOperations,
+    NumberProperty,
+    Properties,
+    Property
+} from "../../models";
+import { bulkEditOperationLabels } from "../../models/bulk_edit";
+import { computeSchemaProperties, saveEntity } from "../../models/firestore";
+import { isReadOnly } from "../../models/utils";
+import { buildPropertyField } from "../../form/form_factory";
+import { getYupEntitySchema } from "../../form/validation";
+import { canEditProperty } from "../../util/permissions";
+import {
+    useAuthController,
+    useCMSAppContext,
+    useSnackbarController
+} from "../../contexts";
+import { useTranslation } from "../../hooks";
+import { TranslateFunction } from "../../i18n";
+
+const BATCH_SIZE = 20;
+
+/**
+ * Displayed errors after applying the edits
+ */
+const MAX_DISPLAYED_ERRORS = 50;
+
+interface BulkEditRow {
+    property?: string;
+    operation: BulkEditOperation;
+}
+
+interface BulkEditFailure {
+    id: string;
+    errors: string[];
+}
+
+export interface BulkEditDialogProps<M extends { [Key: string]: any }> {
+    open: boolean;
+    onClose: () => void;
+    entities: Entity<M>[];
+    collectionPath: string;
+    schema: EntitySchema<M>;
+    /**
+     * Store revisions of the edited entities
+     */
+    history?: boolean;
+    /**
+     * Called after the edits have been applied
+     */
+    onEntitiesEdited?: (entities: Entity<M>[]) => void;
+}
+
+/**
+ * Dialog used to change properties of multiple entities at once
+ * @category Collection components
+ */
+export default function BulkEditDialog<M extends { [Key: string]: any }>({
+                                                                             open,
+                                                                             onClose,
+                                                                             entities,
+                                                                             collectionPath,
+                                                                             schema,
+                                                                             history,
+                                                                             onEntitiesEdited
+                                                                         }: BulkEditDialogProps<M>) {
+
+    const context = useCMSAppContext();
+    const authController = useAuthController();
+    const snackbarContext = useSnackbarController();
+    const { t } = useTranslation();
+
+    const [rows, setRows] = useState<BulkEditRow[]>([{ operation: "set" }]);
+    const [applying, setApplying] = useState<boolean>(false);
+    const [applied, setApplied] = useState<boolean>(false);
+    const [editedCount, setEditedCount] = useState<number>(0);
+    const [failures, setFailures] = useState<BulkEditFailure[]>([]);
+
+    const properties: Properties<M> = computeSchemaProperties(schema, collectionPath);
+    const editableKeys = (Object.entries(properties) as [string, Property][])
+        .filter(([_, property]) => !isReadOnly(property) && !property.disabled && canEditProperty(property, authController))
+        .map(([key]) => key);
+
+    const reset = () => {
+        setRows([{ operation: "set" }]);
+        setApplied(false);
+        setEditedCount(0);
+        setFailures([]);
+    };
+
+    const handleClose = () => {
+        if (applying) return;
+        reset();
+        onClose();
+    };
+
+    const editEntity = async (entity: Entity<M>, edits: BulkEdit[]): Promise<string[]> => {
+        let values: Partial<EntityValues<M>> | undefined;
+        let editedValues: Partial<EntityValues<M>>;
+        try {
+            // the values may have changed since the entities were selected
+            values = (await context.dataSource.fetchEntity<M>({
+                path: collectionPath,
+                entityId: entity.id,
+                schema
+            })).values;
+            if (!values)
+                return [t("entityNotFound")];
+            editedValues = applyBulkEdits<M>(values, edits);
+        } catch (e: any) {
+            return [e?.message];
+        }
+
+        const editedProperties = Object.entries<Property>(properties as Record<string, Property>)
+            .filter(([key]) => edits.some((edit) => edit.property === key))
+            .map(([key, property]) => ({ [key]: property }))
+            .reduce((a, b) => ({ ...a, ...b }), {}) as Properties<M>;
+        try {
+            await getYupEntitySchema(editedProperties, { ...values, ...editedValues }, collectionPath, undefined, entity.id, context.cmsAppConfig.localization?.locales)
+                .validate(editedValues, { abortEarly: false });
+        } catch (e: any) {
+            return e instanceof ValidationError && e.inner.length > 0
+                ? e.inner.map((error) => error.message)
+                : [e?.message];
+        }
+
+        const errors: string[] = [];
+        await saveEntity({
+            collectionPath,
+            id: entity.id,
+            values: editedValues,
+            schema,
+            status: "existing",
+            onSaveFailure: (e) => errors.push(e.message),
+            onPreSaveHookError: (e) => errors.push(e.message),
+            context,
+            history,
+            user: authController.loggedUser
+        });
+        return errors;
+    };
+
+    const applyEdits = async (formValues: Record<string, any>) => {
+        const edits: BulkEdit[] = rows
+            .filter((row) => row.property)
+            .map((row) => ({
+                property: row.property as string,
+                operation: row.operation,
+                value: formValues[row.property as string]
+            }));
+
+        setApplying(true);
+        setApplied(true);
+        const failed: BulkEditFailure[] = [];
+        let edited = 0;
+        for (let i = 0; i < entities.length; i += BATCH_SIZE) {
+            const batch = entities.slice(i, i + BATCH_SIZE);
+            const results = await Promise.all(batch.map((entity) => editEntity(entity, edits)));
+            results.forEach((errors, index) => {
+                if (errors.length === 0) edited++;
+                else failed.push({ id: batch[index].id, errors });
+            });
+            setEditedCount(edited);
+            setFailures([...failed]);
+        }
+        setApplying(false);
+
+        snackbarContext.open({
+            type: failed.length > 0 ? "warning" : "success",
+            message: failed.length > 0
+                ? t("bulkEditResultWithFailures", { schema: schema.name, count: edited, failed: failed.length })
+                : t("bulkEditResult", { schema: schema.name, count: edited })
+        });
+        if (onEntitiesEdited)
+            onEntitiesEdited(entities.filter((entity) => !failed.some((f) => f.id === entity.id)));
+    };
+
+    const formContext: FormContext<M> = {
+        entitySchema: schema,
+        values: {} as EntityValues<M>
+    };
+
+    const incrementProperty: NumberProperty = {
+        title: t("incrementBy"),
+        dataType: "number"
+    };
+
+    const progressView = (
+        <>
+            <DialogContentText>
+                {applying
+                    ? t("updatingEntities", { done: editedCount + failures.length, count: entities.length })
+                    : t("entitiesUpdated", { count: editedCount })}
+            </DialogContentText>
+            <LinearProgress variant="determinate"
+                            value={entities.length > 0 ? (editedCount + failures.length) * 100 / entities.length : 100}/>
+            {!applying && failures.length > 0 && <Box mt={2}>
+                {buildFailuresTable(failures, t)}
+            </Box>}
+        </>
+    );
+
+    return (
+        <Dialog open={open}
+                onClose={handleClose}
+                maxWidth={"md"}
+                fullWidth>
+
+            <Formik initialValues={{} as Record<string, any>}
+                    onSubmit={(values, actions) => {
+                        applyEdits(values).finally(() => actions.setSubmitting(false));
+                    }}>
+                {({ setFieldValue, isSubmitting }) => (
+                    <Form noValidate>
+
+                        <DialogTitle>
+                            {t("bulkEditTitle", { schema: schema.name, count: entities.length })}
+                        </DialogTitle>
+
+                        <DialogContent>
+
+                            {applied && progressView}
+
+                            {!applied && <>
+                                {rows.map((row, index) => {
+                                    const property = row.property ? properties[row.property] as Property : undefined;
+                                    const availableKeys = editableKeys.filter((key) => key === row.property || !rows.some((r) => r.property === key));
+                                    const operations = property ? getBulkEditOperations(property) : ["set" as BulkEditOperation];
+                                    const updateRow = (updated: BulkEditRow) => {
+                                        if (row.property)
+                                            setFieldValue(row.property, undefined);
+                                        setRows(rows.map((r, i) => i === index ? updated : r));
+                                    };
+                                    return (
+                                        <Box key={`bulk_edit_row_${index}`}
+                                             display={"flex"}
+                                             alignItems={"flex-start"}
+                                             mb={2}>
+                                            <Box width={200} mr={2} pt={2}>
+                                                <Select value={row.property ?? ""}
+                                                        displayEmpty
+                                                        fullWidth
+                                                        onChange={(evt: any) => updateRow({
+                                                            property: evt.target.value || undefined,
+                                                            operation: "set"
+                                                        })}>
+                                                    <MenuItem value={""}>
+                                                        <em>{t("selectProperty")}</em>
+                                                    </MenuItem>
+                                                    {availableKeys.map((key) =>
+                                                        <MenuItem key={`bulk_edit_property_${index}_${key}`}
+                                                                  value={key}>
+                                                            {(properties[key] as Property).title ?? key}
+                                                        </MenuItem>
+                                                    )}
+                                                </Select>
+                                            </Box>
+                                            <Box width={180} mr={2} pt={2}>
+                                                <Select value={row.operation}
+                                                        fullWidth
+                                                        disabled={!property || operations.length === 1}
+                                                        onChange={(evt: any) => updateRow({
+                                                            ...row,
+                                                            operation: evt.target.value
+                                                        })}>
+                                                    {operations.map((operation) =>
+                                                        <MenuItem key={`bulk_edit_operation_${index}_${operation}`}
+                                                                  value={operation}>
+                                                            {t(bulkEditOperationLabels[operation])}
+                                                        </MenuItem>
+                                                    )}
+                                                </Select>
+                                            </Box>
+                                            <Box flexGrow={1}>
+                                                {row.property && property && buildPropertyField<any, M>({
+                                                    name: row.property,
+                                                    property: row.operation === "increment" ? incrementProperty : property,
+                                                    context: formContext,
+                                                    includeDescription: false,
+                                                    underlyingValueHasChanged: false,
+                                                    disabled: isSubmitting,
+                                                    tableMode: false,
+                                                    partOfArray: false,
+                                                    autoFocus: false,
+                                                    dependsOnOtherProperties: false
+                                                })}
+                                            </Box>
+                                            <Box pt={1}>
+                                                <Tooltip title={t("remove")}>
+                                                    <span>
+                                                        <IconButton
+                                                            disabled={rows.length === 1}
+                                                            onClick={() => {
+                                                                if (row.property)
+                                                                    setFieldValue(row.property, undefined);
+                                                                setRows(rows.filter((_, i) => i !== index));
+                                                            }}>
+                                                            <Delete/>
+                                                        </IconButton>
+                                                    </span>
+                                                </Tooltip>
+                                            </Box>
+                                        </Box>
+                                    );
+                                })}
+                                <Button color={"primary"}
+                                        startIcon={<Add/>}
+                                        disabled={rows.length >= editableKeys.length}
+                                        onClick={() => setRows([...rows, { operation: "set" }])}>
+                                    {t("addProperty")}
+                                </Button>
+                            </>}
+
+                        </DialogContent>
+
+                        <DialogActions>
+                            <Button color="primary"
+                                    disabled={applying}
+                                    onClick={handleClose}>
+                                {applied ? t("close") : t("cancel")}
+                            </Button>
+                            {!applied &&
+                            <Button color="primary"
+                                    variant="contained"
+                                    type="submit"
+                                    disabled={isSubmitting || !rows.some((row) => row.property)}>
+                                {t("applyTo", { count: entities.length })}
+                            </Button>}
+                        </DialogActions>
+
+                    </Form>
+                )}
+            </Formik>
+        </Dialog>
+    );
+}
+
+function buildFailuresTable(failures: BulkEditFailure[], t: TranslateFunction) {
+    return (
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>{t("id")}</TableCell>
+                    <TableCell>{t("errors")}</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {failures.slice(0, MAX_DISPLAYED_ERRORS).map((failure) =>
+                    <TableRow key={`bulk_edit_error_${failure.id}`}>
+                        <TableCell>{failure.id}</TableCell>
+                        <TableCell>{failure.errors.join(", ")}</TableCell>
+                    </TableRow>
+                )}
+                {failures.length > MAX_DISPLAYED_ERRORS &&
+                <TableRow>
+                    <TableCell colSpan={2}>
+                        {t("andMore", { count: failures.length - MAX_DISPLAYED_ERRORS })}
+                    </TableCell>
+                </TableRow>}
+            </TableBody>
+        </Table>
+    );
+}
@@ -1,5 +1,6 @@
 import { CollectionSize, Entity, EntitySchema } from "../../models";
 import { useTableStyles } from "../components/styles";
+import { useTranslation } from "../../hooks";
 
 import React, { MouseEvent } from "react";
 import "react-base-table/styles.css";
@@ -13,7 +14,14 @@ import {
     Tooltip,
     Typography
 } from "@material-ui/core";
-import { Delete, FileCopy, KeyboardTab, MoreVert } from "@material-ui/icons";
+import {
+    Delete,
+    FileCopy,
+    KeyboardTab,
+    LibraryAdd,
+    MoreVert,
+    RestoreFromTrash
+} from "@material-ui/icons";
 import { Skeleton } from "@material-ui/lab";
 
 /**
@@ -24,8 +32,10 @@ import { Skeleton } from "@material-ui/lab";
  * @param size
  * @param toggleEntitySelection
  * @param onCopyClicked
+ * @param onDeepCopyClicked
  * @param onEditClicked
  * @param onDeleteClicked
+ * @param onRestoreClicked
  * @constructor
  *
  * @category Collection components
@@ -37,8 +47,10 @@ export default function CollectionRowActions<M extends { [Key: string]: any }>({
                                                                      size,
                                                                      toggleEntitySelection,
                                                                      onCopyClicked,
+                                                                     onDeepCopyClicked,
                                                                      onEditClicked,
-                                                                     onDeleteClicked
+                                                                     onDeleteClicked,
+                                                                     onRestoreClicked
                                                                  }:
                                                                      {
                                                                          entity: Entity<M>,
@@ -48,14 +60,19 @@ export default function CollectionRowActions<M extends { [Key: string]: any }>({
                                                                          toggleEntitySelection?: (entity: Entity<M>) => void
                                                                          onEditClicked?: (entity: Entity<M>) => void,
                                                                          onCopyClicked?: (entity: Entity<M>) => void,
+                                                                         onDeepCopyClicked?: (entity: Entity<M>) => void,
                                                                          onDeleteClicked?: (entity: Entity<M>) => void,
+                                                                         onRestoreClicked?: (entity: Entity<M>) => void,
                                                                      }) {
 
     const editEnabled = Boolean(onEditClicked);
     const copyEnabled = Boolean(onCopyClicked);
+    const deepCopyEnabled = Boolean(onDeepCopyClicked);
     const deleteEnabled = Boolean(onDeleteClicked);
+    const restoreEnabled = Boolean(onRestoreClicked);
 
     const classes = useTableStyles();
+    const { t } = useTranslation();
 
     const [anchorEl, setAnchorEl] = React.useState<any | null>(null);
 
@@ -81,6 +98,13 @@ export default function CollectionRowActions<M extends { [Key: string]: any }>({
         setAnchorEl(null);
     };
 
+    const onRestoreClick = (event: MouseEvent) => {
+        event.stopPropagation();
+        if (onRestoreClicked)
+            onRestoreClicked(entity);
+        setAnchorEl(null);
+    };
+
     const onCopyClick = (event: MouseEvent) => {
         event.stopPropagation();
         if (onCopyClicked)
@@ -88,14 +112,21 @@ export default function CollectionRowActions<M extends { [Key: string]: any }>({
         setAnchorEl(null);
     };
 
+    const onDeepCopyClick = (event: MouseEvent) => {
+        event.stopPropagation();
+        if (onDeepCopyClicked)
+            onDeepCopyClicked(entity);
+        setAnchorEl(null);
+    };
+
     return (
         <div className={classes.cellButtonsWrap}>
 
-            {(editEnabled || deleteEnabled || selectionEnabled) &&
+            {(editEnabled || deleteEnabled || restoreEnabled || selectionEnabled) &&
             <div className={classes.cellButtons}
             >
                 {editEnabled &&
-                <Tooltip title={"Edit"}>
+                <Tooltip title={t("edit")}>
                     <IconButton
                         onClick={(event: MouseEvent) => {
                             event.stopPropagation();
@@ -109,14 +140,14 @@ export default function CollectionRowActions<M extends { [Key: string]: any }>({
                 }
 
                 {selectionEnabled &&
-                <Tooltip title={"Select"}>
+                <Tooltip title={t("select")}>
                     <Checkbox
                         checked={isSelected}
                         onChange={onCheckboxChange}
                     />
                 </Tooltip>}
 
-                {(copyEnabled || deleteEnabled) &&
+                {(copyEnabled || deleteEnabled || restoreEnabled) &&
                 <IconButton
                     onClick={openMenu}
                 >
@@ -124,24 +155,38 @@ export default function CollectionRowActions<M extends { [Key: string]: any }>({
                 </IconButton>
                 }
 
-                {(copyEnabled || deleteEnabled) && <Menu
+                {(copyEnabled || deleteEnabled || restoreEnabled) && <Menu
                     anchorEl={anchorEl}
                     open={Boolean(anchorEl)}
                     onClose={closeMenu}
                     elevation={2}
                 >
+                    {restoreEnabled && <MenuItem onClick={onRestoreClick}>
+                        <ListItemIcon>
+                            <RestoreFromTrash/>
+                        </ListItemIcon>
+                        <ListItemText primary={t("restore")}/>
+                    </MenuItem>}
+
                     {deleteEnabled && <MenuItem onClick={onDeleteClick}>
                         <ListItemIcon>
                             <Delete/>
                         </ListItemIcon>
-                        <ListItemText primary="Delete"/>
+                        <ListItemText primary={t("delete")}/>
                     </MenuItem>}
 
                     {copyEnabled && <MenuItem onClick={onCopyClick}>
                         <ListItemIcon>
                             <FileCopy/>
                         </ListItemIcon>
-                        <ListItemText primary="Copy"/>
+                        <ListItemText primary={t("copy")}/>
+                    </MenuItem>}
+
+                    {deepCopyEnabled && <MenuItem onClick={onDeepCopyClick}>
+                        <ListItemIcon>
+                            <LibraryAdd/>
+                        </ListItemIcon>
+                        <ListItemText primary={t("copyWithSubcollections")}/>
                     </MenuItem>}
 
                 </Menu>}
@@ -1,7 +1,16 @@
 import React, { useRef, useState } from "react";
 import "react-base-table/styles.css";
 
-import { EntitySchema, Property, WhereFilterOp } from "../../models";
+import firebase from "firebase/app";
+import {
+    ArrayProperty,
+    EntitySchema,
+    buildGeoPointBoundsFilter,
+    FilterCondition,
+    getFilterConditions,
+    getGeoPointBounds,
+    Property
+} from "../../models";
 import ErrorBoundary from "../../core/internal/ErrorBoundary";
 import { CMSColumn, Sort } from "../common";
 import {
@@ -20,12 +29,17 @@ import {
 import ArrowUpwardIcon from "@material-ui/icons/ArrowUpward";
 import ArrowDownwardIcon from "@material-ui/icons/ArrowDownward";
 import ArrowDropDownCircleIcon from "@material-ui/icons/ArrowDropDownCircle";
+import RemoveCircleOutlineIcon from "@material-ui/icons/RemoveCircleOutline";
+import { Add } from "@material-ui/icons";
 import StringNumberFilterField from "./filters/StringNumberFilterField";
 import BooleanFilterField from "./filters/BooleanFilterField";
 import { getIconForProperty } from "../../util/property_icons";
 import { useTableStyles } from "../components/styles";
 import clsx from "clsx";
 import DateTimeFilterField from "./filters/DateTimeFilterfield";
+import ReferenceFilterField from "./filters/ReferenceFilterField";
+import GeoPointFilterField from "./filters/GeoPointFilterField";
+import { useTranslation } from "../../hooks";
 
 export const useStyles = makeStyles<Theme, { onHover: boolean, align: "right" | "left" | "center" }>
 (theme => createStyles({
@@ -67,8 +81,8 @@ export default function CollectionTableHeader<M extends { [Key: string]: any },
                                            }: {
     column: CMSColumn;
     onColumnSort: (key: Extract<keyof M, string>) => void;
-    onFilterUpdate: (filterForProperty?: [WhereFilterOp, any]) => void;
-    filter?: [WhereFilterOp, any];
+    onFilterUpdate: (filterForProperty?: FilterCondition | FilterCondition[]) => void;
+    filter?: FilterCondition | FilterCondition[];
     sort: Sort;
 }) {
 
@@ -90,7 +104,7 @@ export default function CollectionTableHeader<M extends { [Key: string]: any },
 
     const id = open ? `popover_${column.id}` : undefined;
 
-    const update = (filterForProperty?: [WhereFilterOp, any]) => {
+    const update = (filterForProperty?: FilterCondition | FilterCondition[]) => {
         onFilterUpdate(filterForProperty);
         setOpen(false);
     };
@@ -192,10 +206,28 @@ export default function CollectionTableHeader<M extends { [Key: string]: any },
 interface FilterFormProps<M> {
     id: keyof M;
     property: Property;
-    onFilterUpdate: (filter?: [WhereFilterOp, any]) => void;
-    filter?: [WhereFilterOp, any];
+    onFilterUpdate: (filter?: FilterCondition | FilterCondition[]) => void;
+    filter?: FilterCondition | FilterCondition[];
+}
+
+/**
+ * Condition being edited in the filter form. The key is kept stable so the
+ * filter fields keep their state when other conditions are removed
+ */
+interface FilterFormCondition {
+    key: number;
+    condition?: FilterCondition;
 }
 
+/**
+ * Properties that can be filtered by ranges, combining multiple conditions
+ * @param property
+ */
+function allowsMultipleConditions(property: Property): boolean {
+    if (property.dataType === "number" || property.dataType === "string")
+        return !property.config?.enumValues;
+    return property.dataType === "timestamp";
+}
 
 function FilterForm<M>({
                         id,
@@ -206,38 +238,92 @@ function FilterForm<M>({
 
 
     const tableClasses = useTableStyles();
+    const { t } = useTranslation();
 
-    const [filterInternal, setFilterInternal] = useState<[WhereFilterOp, any] | undefined>(filter);
+    const [conditions, setConditions] = useState<FilterFormCondition[]>(() => {
+        const initialConditions = getFilterConditions(filter);
+        return initialConditions.length
+            ? initialConditions.map((condition, index) => ({
+                key: index,
+                condition
+            }))
+            : [{ key: 0 }];
+    });
 
-    function createFilterField(property: Property): JSX.Element {
+    const multipleConditions = allowsMultipleConditions(property);
+
+    function createFilterField(property: Property, value: FilterCondition | undefined, setValue: (value?: FilterCondition) => void): JSX.Element {
 
         if (property.dataType === "number" || property.dataType === "string") {
-            return <StringNumberFilterField value={filterInternal}
-                                            setValue={setFilterInternal}
+            return <StringNumberFilterField value={value}
+                                            setValue={setValue}
                                             name={id as string}
                                             property={property}/>;
         } else if (property.dataType === "array" && property.of) {
-            return createFilterField(property.of);
+            // array filters use the array operators, such as `array-contains`
+            if (property.of.dataType === "number" || property.of.dataType === "string")
+                return <StringNumberFilterField value={value}
+                                                setValue={setValue}
+                                                name={id as string}
+                                                property={property as ArrayProperty<string[] | number[]>}/>;
+            else if (property.of.dataType === "timestamp")
+                return <DateTimeFilterField value={value}
+                                            setValue={setValue}
+                                            name={id as string}
+                                            property={property as ArrayProperty<Date[]>}/>;
+            else if (property.of.dataType === "reference")
+                return <ReferenceFilterField value={value}
+                                             setValue={setValue}
+                                             name={id as string}
+                                             property={property as ArrayProperty<firebase.firestore.DocumentReference[]>}/>;
         } else if (property.dataType === "boolean") {
-            return <BooleanFilterField value={filterInternal}
-                                       setValue={setFilterInternal}
+            return <BooleanFilterField value={value}
+                                       setValue={setValue}
                                        name={id as string}
                                        property={property}/>;
         } else if (property.dataType === "timestamp") {
-            return <DateTimeFilterField value={filterInternal}
-                                        setValue={setFilterInternal}
+            return <DateTimeFilterField value={value}
+                                        setValue={setValue}
                                         name={id as string}
                                         property={property}/>;
+        } else if (property.dataType === "reference") {
+            return <ReferenceFilterField value={value}
+                                         setValue={setValue}
+                                         name={id as string}
+                                         property={property}/>;
         }
 
         return (
-            <div>{`Currently the field ${property.dataType} is not supported`}</div>
+            <div>{t("filterNotSupported", { dataType: property.dataType })}</div>
         );
     }
 
+    const updateCondition = (key: number, condition?: FilterCondition) => {
+        setConditions(conditions.map((c) => c.key === key ? {
+            key,
+            condition
+        } : c));
+    };
+
+    const addCondition = () => {
+        const maxKey = Math.max(...conditions.map((c) => c.key));
+        setConditions([...conditions, { key: maxKey + 1 }]);
+    };
+
+    const removeCondition = (key: number) => {
+        setConditions(conditions.filter((c) => c.key !== key));
+    };
 
     const submit = (e: any) => {
-        onFilterUpdate(filterInternal);
+        const validConditions = conditions
+            .map((c) => c.condition)
+            .filter((c) => !!c) as FilterCondition[];
+        if (validConditions.length === 0)
+            onFilterUpdate(undefined);
+        else if (validConditions.length === 1)
+            onFilterUpdate(validConditions[0]);
+        else
+            onFilterUpdate(validConditions);
     };
 
     const reset = (e: any) => {
@@ -255,7 +341,41 @@ function FilterForm<M>({
             <Divider/>
 
             <Box p={2}>
-                {createFilterField(property)}
+                {property.dataType === "geopoint" &&
+                <GeoPointFilterField
+                    value={getGeoPointBounds(conditions.map((c) => c.condition).filter((c) => !!c) as FilterCondition[])}
+                    setValue={(bounds) => setConditions(bounds
+                        ? buildGeoPointBoundsFilter(...bounds).map((condition, index) => ({
+                            key: index,
+                            condition
+                        }))
+                        : [{ key: 0 }])}
+                    name={id as string}
+                    property={property}/>}
+
+                {property.dataType !== "geopoint" && conditions.map(({ key, condition }, index) => (
+                    <Box key={`filter_condition_${key}`}
+                         display={"flex"}
+                         alignItems={"center"}
+                         mt={index > 0 ? 2 : 0}>
+                        {createFilterField(property, condition, (value) => updateCondition(key, value))}
+                        {index > 0 &&
+                        <IconButton size={"small"}
+                                    onClick={() => removeCondition(key)}>
+                            <RemoveCircleOutlineIcon fontSize={"small"}/>
+                        </IconButton>}
+                    </Box>
+                ))}
+
+                {multipleConditions &&
+                <Box mt={1}>
+                    <Button color="primary"
+                            size={"small"}
+                            startIcon={<Add/>}
+                            onClick={addCondition}>
+                        {t("addFilterCondition")}
+                    </Button>
+                </Box>}
             </Box>
 
             <Box display="flex"
@@ -267,12 +387,12 @@ function FilterForm<M>({
                         color="primary"
                         type="reset"
                         aria-label="filter clear"
-                        onClick={reset}>Clear</Button>
+                        onClick={reset}>{t("clearFilter")}</Button>
                 </Box>
                 <Button
                     variant="outlined"
                     color="primary"
-                    onClick={submit}>Filter</Button>
+                    onClick={submit}>{t("filter")}</Button>
             </Box>
         </>
     );
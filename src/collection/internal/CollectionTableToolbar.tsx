@@ -12,6 +12,7 @@ import {
     Select,
     Theme,
     Tooltip,
+    Typography,
     useMediaQuery,
     useTheme
 } from "@material-ui/core";
@@ -95,9 +96,15 @@ interface CollectionTableToolbarProps<M extends { [Key: string]: any }> {
     size: CollectionSize;
     filterIsSet: boolean;
     actions?: React.ReactNode;
+    viewsMenu?: React.ReactNode;
     loading: boolean;
     title?: React.ReactNode,
+    initialSearchString?: string;
     onTextSearch?: (searchString?: string) => void;
+    /**
+     * Number of results of the current text search, if any
+     */
+    textSearchResultCount?: number;
     onSizeChanged: (size: CollectionSize) => void;
     clearFilter(): void;
 }
@@ -179,15 +186,29 @@ export default function CollectionTableToolbar<M extends { [Key: string]: any }>
 
                 {sizeSelect}
 
+                {props.viewsMenu}
+
                 {filterView}
 
             </Box>
 
 
             {props.onTextSearch &&
-            <SearchBar
-                key={"search-bar"}
-                onTextSearch={props.onTextSearch}/>
+            <Box display={"flex"}
+                 alignItems="center">
+                <SearchBar
+                    key={"search-bar"}
+                    initialValue={props.initialSearchString}
+                    onTextSearch={props.onTextSearch}/>
+                {props.textSearchResultCount !== undefined &&
+                <Box ml={1}>
+                    <Typography variant={"caption"}
+                                color={"textSecondary"}
+                                noWrap>
+                        {`${props.textSearchResultCount} ${props.textSearchResultCount === 1 ? "result" : "results"}`}
+                    </Typography>
+                </Box>}
+            </Box>
             }
 
             <div className={classes.actions}>
@@ -0,0 +1,161 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    LinearProgress
+} from "@material-ui/core";
+
+import {
+    copyEntityWithSubcollections,
+    Entity,
+    EntityCollection,
+    EntitySchema
+} from "../../models";
+import { createCustomIdField } from "../../form/form_factory";
+import {
+    useAuthController,
+    useCMSAppContext,
+    useSnackbarController
+} from "../../contexts";
+import { useTranslation } from "../../hooks";
+
+export interface DeepCopyDialogProps<M extends { [Key: string]: any }> {
+    entity: Entity<M>;
+    collectionPath: string;
+    schema: EntitySchema<M>;
+    subcollections: EntityCollection[];
+    /**
+     * Store a revision of the copy
+     */
+    history?: boolean;
+    onClose: () => void;
+    /**
+     * Called after the entity and its subcollections have been copied
+     */
+    onEntityCopied?: (entity: Entity<M>) => void;
+}
+
+/**
+ * Dialog used to copy an entity together with its subcollections
+ * @category Collection components
+ */
+export default function DeepCopyDialog<M extends { [Key: string]: any }>({
+                                                                            entity,
+                                                                            collectionPath,
+                                                                            schema,
+                                                                            subcollections,
+                                                                            history,
+                                                                            onClose,
+                                                                            onEntityCopied
+                                                                        }: DeepCopyDialogProps<M>) {
+
+    const context = useCMSAppContext();
+    const authController = useAuthController();
+    const snackbarContext = useSnackbarController();
+    const { t } = useTranslation();
+
+    const [customId, setCustomId] = useState<string | undefined>();
+    const [customIdError, setCustomIdError] = useState<boolean>(false);
+    const [copying, setCopying] = useState<boolean>(false);
+    const [progress, setProgress] = useState<[number, number]>();
+    const [error, setError] = useState<Error>();
+
+    const customIdField = createCustomIdField(schema, "copy", setCustomId, customIdError, undefined);
+
+    const handleClose = () => {
+        if (!copying) onClose();
+    };
+
+    const handleCopy = () => {
+        if (schema.customId && !customId) {
+            setCustomIdError(true);
+            return;
+        }
+        setCustomIdError(false);
+        setError(undefined);
+        setCopying(true);
+        copyEntityWithSubcollections({
+            entity,
+            collectionPath,
+            schema,
+            subcollections,
+            id: customId,
+            context,
+            history,
+            user: authController.loggedUser,
+            onProgress: (copied, total) => setProgress([copied, total])
+        })
+            .then((copy) => {
+                setCopying(false);
+                snackbarContext.open({
+                    type: "success",
+                    message: t("copiedWithSubcollections", { schema: schema.name })
+                });
+                onClose();
+                if (onEntityCopied)
+                    onEntityCopied(copy);
+            })
+            .catch((e) => {
+                console.error(e);
+                setCopying(false);
+                setError(e);
+            });
+    };
+
+    return (
+        <Dialog open={true}
+                onClose={handleClose}
+                maxWidth={"sm"}
+                fullWidth>
+
+            <DialogTitle>
+                {t("copyWithSubcollectionsTitle", { schema: schema.name })}
+            </DialogTitle>
+
+            <DialogContent>
+                <DialogContentText>
+                    {t("copyWithSubcollectionsDescription", {
+                        subcollections: subcollections.map((subcollection) => subcollection.name).join(", ")
+                    })}
+                </DialogContentText>
+
+                {customIdField}
+
+                {progress &&
+                <Box mt={2}>
+                    <DialogContentText>
+                        {t("copyProgress", { copied: progress[0], total: progress[1] })}
+                    </DialogContentText>
+                    <LinearProgress variant="determinate"
+                                    value={progress[1] > 0 ? progress[0] * 100 / progress[1] : 100}/>
+                </Box>}
+
+                {error &&
+                <Box mt={2}>
+                    <DialogContentText color={"error"}>
+                        {t("errorCopying", { error: error.message })}
+                    </DialogContentText>
+                </Box>}
+            </DialogContent>
+
+            <DialogActions>
+                <Button color="primary"
+                        disabled={copying}
+                        onClick={handleClose}>
+                    {t("cancel")}
+                </Button>
+                <Button color="primary"
+                        variant="contained"
+                        disabled={copying}
+                        onClick={handleCopy}>
+                    {t("copy")}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
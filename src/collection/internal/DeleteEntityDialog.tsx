@@ -1,17 +1,44 @@
-import { Entity, EntitySchema } from "../../models";
+import {
+    DataSource,
+    DependencyResolution,
+    Entity,
+    EntityCollection,
+    EntityDependencies,
+    EntitySchema,
+    findEntityDependencies,
+    hasEntityDependencies,
+    resolveEntityDependencies
+} from "../../models";
 import React, { useState } from "react";
 import { deleteEntity } from "../../models/firestore";
+import { purgeEntity } from "../../models/trash";
 import {
+    Box,
     Button,
     Dialog,
     DialogActions,
     DialogContent,
-    DialogTitle
+    DialogContentText,
+    DialogTitle,
+    FormControlLabel,
+    LinearProgress,
+    Radio,
+    RadioGroup,
+    Typography
 } from "@material-ui/core";
 import EntityPreview from "../../core/components/EntityPreview";
 import CircularProgressCenter from "../../core/internal/CircularProgressCenter";
-import { useCMSAppContext, useSnackbarController } from "../../contexts";
+import {
+    useAuthController,
+    useCMSAppContext,
+    useSnackbarController
+} from "../../contexts";
+import { useTranslation } from "../../hooks";
 
+/**
+ * Referencing entities listed in the dialog
+ */
+const MAX_DISPLAYED_DEPENDENCIES = 10;
 
 export interface DeleteEntityDialogProps<M extends { [Key: string]: any }> {
     entityOrEntitiesToDelete?: Entity<M> | Entity<M>[],
@@ -20,6 +47,33 @@ export interface DeleteEntityDialogProps<M extends { [Key: string]: any }> {
     open: boolean;
     onClose: () => void;
 
+    /**
+     * Move the entities to this collection instead of deleting them
+     */
+    trashPath?: string;
+
+    /**
+     * The entities are in the trash, delete them permanently
+     */
+    purge?: boolean;
+
+    /**
+     * Collection the purged entities were moved to the trash from, where
+     * their subcollections and the references to them are
+     */
+    liveCollectionPath?: string;
+
+    /**
+     * List the entities in subcollections and the entities referencing the
+     * deleted ones, and let the user decide what to do with them
+     */
+    checkDependencies?: boolean;
+
+    /**
+     * Subcollections of the collection of the entities
+     */
+    subcollections?: EntityCollection[];
+
     onEntityDelete?(collectionPath: string, entity: Entity<M>): void;
 
     onMultipleEntitiesDelete?(collectionPath: string, entities: Entity<M>[]): void;
@@ -33,16 +87,23 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
                                                                             onEntityDelete,
                                                                             onMultipleEntitiesDelete,
                                                                             collectionPath,
+                                                                            trashPath,
+                                                                            purge,
+                                                                            liveCollectionPath,
+                                                                            checkDependencies,
+                                                                            subcollections,
                                                                             ...other
                                                                         }
                                                                             : DeleteEntityDialogProps<M>) {
 
     const snackbarContext = useSnackbarController();
+    const { t } = useTranslation();
     const [loading, setLoading] = useState(false);
 
     const entityOrEntitiesRef = React.useRef<Entity<M> | Entity<M>[]>();
     const [multipleEntities, setMultipleEntities] = React.useState<boolean>();
     const context = useCMSAppContext();
+    const authController = useAuthController();
 
     React.useEffect(() => {
         if (entityOrEntitiesToDelete) {
@@ -54,6 +115,59 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
     }, [entityOrEntitiesToDelete]);
 
     const entityOrEntities = entityOrEntitiesRef.current;
+    const entitiesCount = Array.isArray(entityOrEntities) ? entityOrEntities.length : 1;
+
+    const [dependencies, setDependencies] = useState<EntityDependencies[]>();
+    const [dependenciesError, setDependenciesError] = useState<Error>();
+    const [resolution, setResolution] = useState<DependencyResolution>("block");
+
+    // entities in the trash are referenced with their path in the live collection
+    const purgedFromPath = purge ? liveCollectionPath : undefined;
+    const dependenciesCollectionPath = purgedFromPath ?? collectionPath;
+
+    React.useEffect(() => {
+        setDependencies(undefined);
+        setDependenciesError(undefined);
+        setResolution("block");
+        if (!open || !checkDependencies || !entityOrEntitiesToDelete)
+            return;
+
+        const entities = (Array.isArray(entityOrEntitiesToDelete) ? entityOrEntitiesToDelete : [entityOrEntitiesToDelete])
+            .map((entity) => purgedFromPath ? toLiveEntity(entity, purgedFromPath, context.dataSource) : entity);
+        const deletedPaths = entities.map((entity) => entity.reference.path);
+        let cancelled = false;
+        Promise.all(entities.map((entity) => findEntityDependencies({
+            entity,
+            collectionPath: dependenciesCollectionPath,
+            subcollections,
+            collections: context.navigation?.collections,
+            dataSource: context.dataSource
+        }).then((entityDependencies) => ({
+            ...entityDependencies,
+            // entities deleted together don't depend on each other
+            referencingEntities: entityDependencies.referencingEntities
+                .filter((referencing) => !deletedPaths.includes(referencing.entity.reference.path))
+        }))))
+            .then((result) => {
+                if (!cancelled) setDependencies(result);
+            })
+            .catch((e) => {
+                console.error(e);
+                if (!cancelled) setDependenciesError(e);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [open, entityOrEntitiesToDelete, checkDependencies, purgedFromPath, dependenciesCollectionPath, subcollections, context.navigation, context.dataSource]);
+
+    const subcollectionEntitiesCount = dependencies
+        ? dependencies.reduce((count, d) => count + d.subcollectionEntities.length, 0)
+        : 0;
+    const referencingEntities = dependencies
+        ? dependencies.flatMap((d) => d.referencingEntities)
+        : [];
+    const withDependencies = !!dependencies && dependencies.some(hasEntityDependencies);
+    const loadingDependencies = checkDependencies && !dependencies && !dependenciesError;
 
     const handleCancel = () => {
         onClose();
@@ -66,7 +180,7 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
     const onDeleteFailure = (entity: Entity<any>, e: Error) => {
         snackbarContext.open({
             type: "error",
-            title: `${schema.name}: Error deleting`,
+            title: t("errorDeleting", { schema: schema.name }),
             message: e?.message
         });
 
@@ -77,7 +191,7 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
     const onPreDeleteHookError = (entity: Entity<any>, e: Error) => {
         snackbarContext.open({
             type: "error",
-            title: `${schema.name}: Error before deleting`,
+            title: t("errorBeforeDeleting", { schema: schema.name }),
             message: e?.message
         });
         console.error(e);
@@ -86,23 +200,64 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
     const onDeleteSuccessHookError = (entity: Entity<any>, e: Error) => {
         snackbarContext.open({
             type: "error",
-            title: `${schema.name}: Error after deleting (entity is deleted)`,
+            title: t("errorAfterDeleting", { schema: schema.name }),
             message: e?.message
         });
         console.error(e);
     };
 
-    function performDelete(entity: Entity<M>): Promise<boolean> {
-        return deleteEntity({
-            entity,
-            schema,
-            collectionPath,
-            onDeleteSuccess,
-            onDeleteFailure,
-            onPreDeleteHookError,
-            onDeleteSuccessHookError,
-            context
-        });
+    async function performDelete(entity: Entity<M>): Promise<boolean> {
+        const deleted = purge
+            ? await purgeEntity({
+                entity,
+                trashPath: collectionPath,
+                schema,
+                context,
+                user: authController.loggedUser
+            }).then(() => true)
+                .catch((e) => {
+                    onDeleteFailure(entity, e);
+                    return false;
+                })
+            : await deleteEntity({
+                entity,
+                schema,
+                collectionPath,
+                onDeleteSuccess,
+                onDeleteFailure,
+                onPreDeleteHookError,
+                onDeleteSuccessHookError,
+                context,
+                user: authController.loggedUser,
+                trashPath
+            });
+
+        const entityDependencies = dependencies && dependencies[getEntities().indexOf(entity)];
+        if (!deleted || !entityDependencies)
+            return deleted;
+        try {
+            await resolveEntityDependencies({
+                entity: purgedFromPath ? toLiveEntity(entity, purgedFromPath, context.dataSource) : entity,
+                dependencies: entityDependencies,
+                resolution,
+                context,
+                user: authController.loggedUser
+            });
+            return true;
+        } catch (e: any) {
+            snackbarContext.open({
+                type: "error",
+                title: t("errorUpdatingDependencies", { schema: schema.name }),
+                message: e?.message
+            });
+            console.error(e);
+            return false;
+        }
+    }
+
+    function getEntities(): Entity<M>[] {
+        if (!entityOrEntitiesToDelete) return [];
+        return Array.isArray(entityOrEntitiesToDelete) ? entityOrEntitiesToDelete : [entityOrEntitiesToDelete];
     }
 
     const handleOk = async () => {
@@ -121,17 +276,20 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
                     if (results.every(Boolean)) {
                         snackbarContext.open({
                             type: "success",
-                            message: `${schema.name}: multiple deleted`
+                            message: t(trashPath ? "multipleMovedToTrash" : "multipleDeleted", {
+                                schema: schema.name,
+                                count: results.length
+                            })
                         });
                     } else if (results.some(Boolean)) {
                         snackbarContext.open({
                             type: "warning",
-                            message: `${schema.name}: Some of the entities have been deleted, but not all`
+                            message: t("someNotDeleted", { schema: schema.name })
                         });
                     } else {
                         snackbarContext.open({
                             type: "error",
-                            message: `${schema.name}: Error deleting entities`
+                            message: t("errorDeletingEntities", { schema: schema.name })
                         });
                     }
                     onClose();
@@ -145,7 +303,7 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
                             onEntityDelete(collectionPath, entityOrEntities as Entity<M>);
                         snackbarContext.open({
                             type: "success",
-                            message: `${schema.name} deleted`
+                            message: t(trashPath ? "movedToTrash" : "deleted", { schema: schema.name })
                         });
                         onClose();
                     }
@@ -155,12 +313,68 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
     };
 
     const content = entityOrEntities && (multipleEntities ?
-        <div>Multiple entities</div> :
+        <div>{t("multipleEntities", { count: entitiesCount })}</div> :
         <EntityPreview entity={entityOrEntities as Entity<M>}
                        schema={schema}/>);
 
-    const dialogTitle = multipleEntities ? `${schema.name}: Confirm multiple delete?`
-        : `Would you like to delete this ${schema.name}?`;
+    const dependenciesView = checkDependencies && (
+        <DialogContent dividers>
+            {loadingDependencies && <>
+                <DialogContentText>{t("checkingDependencies")}</DialogContentText>
+                <LinearProgress/>
+            </>}
+            {dependenciesError &&
+            <DialogContentText>
+                {t("errorCheckingDependencies", { error: dependenciesError.message })}
+            </DialogContentText>}
+            {dependencies && !withDependencies &&
+            <DialogContentText>{t("noDependencies", { count: entitiesCount })}</DialogContentText>}
+            {withDependencies && <>
+                {subcollectionEntitiesCount > 0 &&
+                <DialogContentText>
+                    {t("subcollectionEntities", { count: subcollectionEntitiesCount })}
+                </DialogContentText>}
+                {referencingEntities.length > 0 && <>
+                    <DialogContentText>
+                        {t(multipleEntities ? "referencingTheseEntities" : "referencingThisEntity", { count: referencingEntities.length })}
+                    </DialogContentText>
+                    <Box mb={2}>
+                        {referencingEntities.slice(0, MAX_DISPLAYED_DEPENDENCIES).map((referencing) =>
+                            <Typography key={`referencing_${referencing.entity.reference.path}`}
+                                        variant={"body2"}>
+                                {`${referencing.entity.reference.path} (${referencing.properties.join(", ")})`}
+                            </Typography>
+                        )}
+                        {referencingEntities.length > MAX_DISPLAYED_DEPENDENCIES &&
+                        <Typography variant={"body2"}>
+                            {t("andMore", { count: referencingEntities.length - MAX_DISPLAYED_DEPENDENCIES })}
+                        </Typography>}
+                    </Box>
+                </>}
+                <RadioGroup value={resolution}
+                            onChange={(evt) => setResolution(evt.target.value as DependencyResolution)}>
+                    <FormControlLabel value={"cascade"}
+                                      control={<Radio color={"primary"}/>}
+                                      label={t("cascadeDependencies")}/>
+                    <FormControlLabel value={"nullify"}
+                                      control={<Radio color={"primary"}/>}
+                                      label={t("nullifyDependencies")}/>
+                    <FormControlLabel value={"block"}
+                                      control={<Radio color={"primary"}/>}
+                                      label={t("blockDependencies")}/>
+                </RadioGroup>
+            </>}
+        </DialogContent>
+    );
+
+    let dialogTitle: string;
+    const titleParams = { schema: schema.name, count: entitiesCount };
+    if (trashPath)
+        dialogTitle = t(multipleEntities ? "trashMultipleTitle" : "trashTitle", titleParams);
+    else if (purge)
+        dialogTitle = t(multipleEntities ? "purgeMultipleTitle" : "purgeTitle", titleParams);
+    else
+        dialogTitle = t(multipleEntities ? "deleteMultipleTitle" : "deleteTitle", titleParams);
 
     return (
         <Dialog
@@ -178,16 +392,20 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
                 {content}
             </DialogContent>}
 
+            {!loading && dependenciesView}
+
             {loading && <CircularProgressCenter/>}
 
             {!loading &&
             <DialogActions>
                 <Button autoFocus onClick={handleCancel}
                         color="primary">
-                    Cancel
+                    {t("cancel")}
                 </Button>
-                <Button onClick={handleOk} color="primary">
-                    Ok
+                <Button onClick={handleOk}
+                        disabled={loadingDependencies || (withDependencies && resolution === "block")}
+                        color="primary">
+                    {t("ok")}
                 </Button>
             </DialogActions>}
 
@@ -195,3 +413,9 @@ export default function DeleteEntityDialog<M extends { [Key: string]: any }>({
     );
 }
 
+function toLiveEntity<M>(entity: Entity<M>, liveCollectionPath: string, dataSource: DataSource): Entity<M> {
+    return {
+        ...entity,
+        reference: dataSource.buildReference(`${liveCollectionPath}/${entity.id}`)
+    };
+}
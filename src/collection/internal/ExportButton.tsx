@@ -1,145 +1,174 @@
-import React, { useEffect } from "react";
+import React, { useRef, useState } from "react";
 import {
-    buildPropertyFrom,
+    buildExportFile,
     Entity,
     EntitySchema,
+    EXPORT_FORMATS,
     ExportConfig,
-    Properties,
+    ExportFormat,
+    expandLocalizedProperties,
+    fetchEntitiesInPages,
+    FilterValues,
+    isLocalizedProperty,
     Property
 } from "../../models";
+import { computeSchemaProperties } from "../../models/firestore";
 import {
-    computeSchemaProperties,
-    fetchCollection
-} from "../../models/firestore";
-import {
+    Box,
     Button,
-    CircularProgress,
     Dialog,
     DialogActions,
     DialogContent,
     DialogContentText,
     DialogTitle,
+    FormControl,
     IconButton,
+    InputLabel,
+    LinearProgress,
+    MenuItem,
+    Select,
     Tooltip
 } from "@material-ui/core";
-import firebase from "firebase/app";
-import "firebase/firestore";
 import GetAppIcon from "@material-ui/icons/GetApp";
 import MuiAlert from "@material-ui/lab/Alert/Alert";
-import { CSVLink } from "react-csv";
+import { useAuthController, useCMSAppContext } from "../../contexts";
+import { applyPropertyPermissions } from "../../util/permissions";
+import { useTranslation } from "../../hooks";
 
 type ExportButtonProps<M extends { [Key: string]: any }> = {
     schema: EntitySchema<M>;
     collectionPath: string;
     exportConfig?: ExportConfig;
+    /**
+     * Filters of the current view of the collection
+     */
+    filterValues?: FilterValues<M>;
+    /**
+     * Sort of the current view of the collection
+     */
+    sort?: [Extract<keyof M, string>, "asc" | "desc"];
+    /**
+     * Entities selected by the user, if selection is enabled
+     */
+    selectedEntities?: Entity<M>[];
 }
 
-const INITIAL_DOCUMENTS_LIMIT = 200;
+/**
+ * Which entities are exported
+ */
+type ExportScope = "all" | "view" | "selected";
+
+const formatLabels: Record<ExportFormat, string> = {
+    csv: "CSV",
+    json: "JSON",
+    ndjson: "NDJSON",
+    xlsx: "Excel (XLSX)"
+};
+
+const PAGE_SIZE = 500;
 
 export default function ExportButton<M extends { [Key: string]: any }>({
                                                                            schema,
                                                                            collectionPath,
-                                                                           exportConfig
+                                                                           exportConfig,
+                                                                           filterValues,
+                                                                           sort,
+                                                                           selectedEntities
                                                                        }: ExportButtonProps<M>
 ) {
 
+    const { dataSource, cmsAppConfig } = useCMSAppContext();
+    const authController = useAuthController();
+    const { t } = useTranslation();
 
-    const csvLinkEl = React.useRef<any>(null);
-
-    const [data, setData] = React.useState<Entity<M>[]>();
-    const [additionalData, setAdditionalData] = React.useState<Record<string, any>[]>();
-    const [dataLoading, setDataLoading] = React.useState<boolean>(false);
-    const [dataLoadingError, setDataLoadingError] = React.useState<Error | undefined>();
-
-    // If in the initial load, we get more than INITIAL_DOCUMENTS_LIMIT results
-    const [hasLargeAmountOfData, setHasLargeAmountOfData] = React.useState<boolean>(false);
-
-    // did the user agree to export a large amount of data
-    const [fetchLargeDataAccepted, setFetchLargeDataAccepted] = React.useState<boolean>(false);
+    const [open, setOpen] = useState(false);
+    const [format, setFormat] = useState<ExportFormat>("csv");
+    const [scope, setScope] = useState<ExportScope>("all");
+    // locale of the localized properties, or all of them
+    const [exportLocale, setExportLocale] = useState<string>("all");
 
-    const [open, setOpen] = React.useState(false);
+    const [exporting, setExporting] = useState<boolean>(false);
+    const [fetchedCount, setFetchedCount] = useState<number>(0);
+    const [exportError, setExportError] = useState<Error | undefined>();
+    const cancelled = useRef<boolean>(false);
 
-    useEffect(() => {
+    const properties = applyPropertyPermissions(computeSchemaProperties(schema, collectionPath), authController);
+    const locales = cmsAppConfig.localization?.locales ?? [];
+    const hasLocalizedProperties = Object.values(properties)
+        .some((property) => isLocalizedProperty(property as Property));
 
-        if (!open) return;
-
-        setDataLoading(true);
-
-        const updateEntities = async (entities: Entity<M>[]) => {
-            if (entities.length >= INITIAL_DOCUMENTS_LIMIT) {
-                setHasLargeAmountOfData(true);
-            }
-            setData(entities);
-            await fetchAdditionalColumns(entities);
-            setDataLoading(false);
-            setDataLoadingError(undefined);
-
-            // this is hack used to trigger the CSV download after
-            // fetching additional data
-            if (data && entities.length > data.length && fetchLargeDataAccepted && csvLinkEl.current)
-                setTimeout(() => {
-                    csvLinkEl.current.link.click();
-                });
-        };
-
-        const fetchAdditionalColumns = async (entities: Entity<M>[]) => {
-
-            if (!exportConfig?.additionalColumns) {
-                return;
-            }
-
-            const additionalColumns = exportConfig.additionalColumns;
-
-            const resolvedColumnsValues: Record<string, any>[] = await Promise.all(entities.map(async (entity) => {
-                return (await Promise.all(additionalColumns.map(async (column) => {
-                    return { [column.key]: await column.builder({ entity }) };
-                }))).reduce((a, b) => ({ ...a, ...b }), {});
-            }));
-
-            setAdditionalData(resolvedColumnsValues);
-        };
-
-        const onFetchError = (error: Error) => {
-            console.error("ERROR", error);
-            setDataLoading(false);
-            setDataLoadingError(error);
-        };
-
-        fetchCollection<M>(
-            collectionPath,
-            schema,
-            undefined,
-            fetchLargeDataAccepted ? undefined : INITIAL_DOCUMENTS_LIMIT,
-            undefined,
-            undefined,
-            undefined)
-            .then(updateEntities)
-            .catch(onFetchError);
-
-    }, [collectionPath, fetchLargeDataAccepted, schema, open]);
+    const viewIsSet = Boolean(sort) || (filterValues && Object.keys(filterValues).length > 0);
+    const hasSelection = Boolean(selectedEntities && selectedEntities.length > 0);
 
     const handleClickOpen = () => {
+        setScope(hasSelection ? "selected" : (viewIsSet ? "view" : "all"));
+        setExportError(undefined);
         setOpen(true);
     };
 
     const handleClose = () => {
+        cancelled.current = true;
         setOpen(false);
     };
 
-    const properties = computeSchemaProperties(schema, collectionPath);
-    const exportableData: any[] | undefined = data && data.map(e => ({ id: e.id, ...processProperties(e.values as any, properties) }));
-    if (exportableData && additionalData) {
-        additionalData.forEach((additional, index) => exportableData[index] = { ...exportableData[index], ...additional });
-    }
+    const fetchEntities = (): Promise<Entity<M>[]> => {
+        if (scope === "selected" && selectedEntities)
+            return Promise.resolve(selectedEntities);
+        return fetchEntitiesInPages<M>({
+            dataSource,
+            path: collectionPath,
+            schema,
+            filter: scope === "view" ? filterValues : undefined,
+            orderBy: scope === "view" ? sort?.[0] : undefined,
+            order: scope === "view" ? sort?.[1] : undefined,
+            pageSize: PAGE_SIZE,
+            onProgress: setFetchedCount,
+            isCancelled: () => cancelled.current
+        });
+    };
 
-    const headers = getExportHeaders(properties, collectionPath, exportConfig);
+    const fetchAdditionalValues = async (entities: Entity<M>[]): Promise<Record<string, any>[] | undefined> => {
+        if (!exportConfig?.additionalColumns)
+            return undefined;
+        const additionalColumns = exportConfig.additionalColumns;
+        return Promise.all(entities.map(async (entity) => {
+            return (await Promise.all(additionalColumns.map(async (column) => {
+                return { [column.key]: await column.builder({ entity }) };
+            }))).reduce((a, b) => ({ ...a, ...b }), {});
+        }));
+    };
 
-    const needsToAcceptFetchAllData = hasLargeAmountOfData && !fetchLargeDataAccepted;
+    const onExport = async () => {
+        cancelled.current = false;
+        setFetchedCount(0);
+        setExportError(undefined);
+        setExporting(true);
+        try {
+            const entities = await fetchEntities();
+            if (cancelled.current)
+                return;
+            const additionalValues = await fetchAdditionalValues(entities);
+            const content = buildExportFile({
+                entities,
+                additionalValues,
+                properties: expandLocalizedProperties(properties, exportLocale === "all" ? locales : [exportLocale]),
+                format,
+                exportConfig
+            });
+            downloadFile(content, `${schema.name}.${EXPORT_FORMATS[format].extension}`, EXPORT_FORMATS[format].mimeType);
+            setOpen(false);
+        } catch (e: any) {
+            console.error("Error exporting data", e);
+            setExportError(e);
+        } finally {
+            setExporting(false);
+        }
+    };
 
     return (
         <>
 
-            <Tooltip title={"Export"}>
+            <Tooltip title={t("export")}>
                 <IconButton
                     color={"primary"}
                     onClick={handleClickOpen}>
@@ -150,68 +179,91 @@ export default function ExportButton<M extends { [Key: string]: any }>({
             <Dialog
                 open={open}
                 onClose={handleClose}
+                maxWidth={"xs"}
+                fullWidth
             >
-                <DialogTitle>Export data</DialogTitle>
+                <DialogTitle>{t("exportData")}</DialogTitle>
 
                 <DialogContent>
                     <DialogContentText>
+                        {t("exportDescription")}
+                    </DialogContentText>
 
-                        <div>Download the the content of this table as a CSV
-                        </div>
-                        <br/>
-
-                        {needsToAcceptFetchAllData
-                        &&
-                        <MuiAlert elevation={1}
-                                  variant="filled"
-                                  severity={"warning"}>
-                            <div>
-                                This collections has a large number
-                                of documents (more
-                                than {INITIAL_DOCUMENTS_LIMIT}).
-                            </div>
-                            <div>
-                                Would you like to proceed?
-                            </div>
-
-                        </MuiAlert>}
+                    <Box mb={2}>
+                        <FormControl fullWidth>
+                            <InputLabel>{t("exportFormat")}</InputLabel>
+                            <Select value={format}
+                                    disabled={exporting}
+                                    onChange={(evt: any) => setFormat(evt.target.value)}>
+                                {(Object.keys(formatLabels) as ExportFormat[]).map((f) =>
+                                    <MenuItem key={`export_format_${f}`} value={f}>
+                                        {f === "ndjson" ? t("ndjsonFormat") : formatLabels[f]}
+                                    </MenuItem>
+                                )}
+                            </Select>
+                        </FormControl>
+                    </Box>
+
+                    <Box mb={2}>
+                        <FormControl fullWidth>
+                            <InputLabel>{t("exportEntities")}</InputLabel>
+                            <Select value={scope}
+                                    disabled={exporting}
+                                    onChange={(evt: any) => setScope(evt.target.value)}>
+                                <MenuItem value={"all"}>{t("all")}</MenuItem>
+                                {viewIsSet &&
+                                <MenuItem value={"view"}>{t("exportCurrentView")}</MenuItem>}
+                                {hasSelection &&
+                                <MenuItem value={"selected"}>
+                                    {t("exportSelected", { count: selectedEntities?.length ?? 0 })}
+                                </MenuItem>}
+                            </Select>
+                        </FormControl>
+                    </Box>
+
+                    {hasLocalizedProperties && locales.length > 0 &&
+                    <Box mb={2}>
+                        <FormControl fullWidth>
+                            <InputLabel>{t("exportLanguages")}</InputLabel>
+                            <Select value={exportLocale}
+                                    disabled={exporting}
+                                    onChange={(evt: any) => setExportLocale(evt.target.value)}>
+                                <MenuItem value={"all"}>{t("all")}</MenuItem>
+                                {locales.map((locale) =>
+                                    <MenuItem key={`export_locale_${locale}`} value={locale}>
+                                        {locale}
+                                    </MenuItem>
+                                )}
+                            </Select>
+                        </FormControl>
+                    </Box>}
+
+                    {exporting && <>
+                        <LinearProgress/>
+                        <DialogContentText variant={"caption"}>
+                            {t("entitiesFetched", { count: fetchedCount })}
+                        </DialogContentText>
+                    </>}
+
+                    {exportError &&
+                    <MuiAlert elevation={1}
+                              variant="filled"
+                              severity={"error"}>
+                        {t("errorExporting", { error: exportError.message })}
+                    </MuiAlert>}
 
-                    </DialogContentText>
                 </DialogContent>
 
                 <DialogActions>
                     <Button color="primary" onClick={handleClose}>
-                        Cancel
+                        {t("cancel")}
                     </Button>
 
-                    {dataLoading && <CircularProgress size={16} thickness={8}/>}
-
-                    {exportableData &&
-                    <CSVLink headers={headers}
-                             data={exportableData}
-                             ref={csvLinkEl}
-                             filename={schema.name}
-                             style={{
-                                 textDecoration: "none"
-                             }}
-                             asyncOnClick={true}
-                             onClick={(event, done) => {
-                                 if (needsToAcceptFetchAllData) {
-                                     setFetchLargeDataAccepted(true);
-                                     done(false);
-                                 } else {
-                                     handleClose();
-                                     done(true);
-                                 }
-                             }}
-                             target="_blank"
-                    >
-                        <Button color="primary">
-                            Download
-                        </Button>
-                    </CSVLink>
-                    }
-
+                    <Button color="primary"
+                            disabled={exporting}
+                            onClick={onExport}>
+                        {t("download")}
+                    </Button>
                 </DialogActions>
             </Dialog>
 
@@ -219,77 +271,11 @@ export default function ExportButton<M extends { [Key: string]: any }>({
     );
 }
 
-type Header = { label: string, key: string };
-
-function getExportHeaders<M extends { [Key: string]: any }>(properties: Properties<M>,
-                                                            collectionPath: string,
-                                                            exportConfig?: ExportConfig): Header[] {
-    const headers = [
-        { label: "id", key: "id" },
-        ...Object.entries(properties)
-            .map(([childKey, propertyOrBuilder]) => {
-                const property = buildPropertyFrom(propertyOrBuilder, {}, collectionPath, undefined);
-                return getHeaders(property, childKey, "");
-            })
-            .flat()
-    ];
-
-    if (exportConfig?.additionalColumns) {
-        headers.push(...exportConfig.additionalColumns.map((column) => ({
-            label: column.key,
-            key: column.key
-        })));
-    }
-
-    return headers;
+function downloadFile(content: string | Uint8Array, filename: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
 }
-
-function getHeaders(property: Property, propertyKey: string, prefix: string = ""): Header[] {
-    let currentKey = prefix ? `${prefix}.${propertyKey}` : propertyKey;
-    if (property.dataType === "map" && property.properties) {
-        return Object.entries(property.properties)
-            .map(([childKey, p]) => getHeaders(p, childKey, currentKey))
-            .flat();
-    } else {
-        return [{ label: currentKey, key: currentKey }];
-    }
-}
-
-
-function processProperty(inputValue: any,
-                         property: Property): any {
-
-    let value;
-    if (property.dataType === "map" && property.properties) {
-        value = processProperties(inputValue, property.properties);
-    } else if (property.dataType === "array") {
-        if (property.of && Array.isArray(inputValue)) {
-            value = inputValue.map((e) => processProperty(e, property.of as Property));
-        } else {
-            value = inputValue;
-        }
-    } else if (property.dataType === "reference") {
-        const ref = inputValue ? inputValue as firebase.firestore.DocumentReference : undefined;
-        value = ref ? ref.path : null;
-    } else if (property.dataType === "timestamp") {
-        value = inputValue ? inputValue.getTime() : null;
-    } else {
-        value = inputValue;
-    }
-
-    return value;
-}
-
-function processProperties<M extends { [Key: string]: any }>
-(inputValues: Record<keyof M, any>, properties: Properties<M>): Record<keyof M, any> {
-    const updatedValues = Object.entries(properties)
-        .map(([key, property]) => {
-            const inputValue = inputValues && (inputValues as any)[key];
-            const updatedValue = processProperty(inputValue, property as Property);
-            if (updatedValue === undefined) return {};
-            return ({ [key]: updatedValue });
-        })
-        .reduce((a, b) => ({ ...a, ...b }), {}) as Record<keyof M, any>;
-    return { ...inputValues, ...updatedValues };
-}
-
@@ -0,0 +1,36 @@
+import React from "react";
+import { createStyles, makeStyles, Theme } from "@material-ui/core";
+import { TextSearchHighlight } from "../../models";
+
+const useStyles = makeStyles((theme: Theme) =>
+    createStyles({
+        root: {
+            whiteSpace: "pre-wrap"
+        },
+        matched: {
+            fontWeight: theme.typography.fontWeightMedium,
+            backgroundColor: theme.palette.type === "dark" ? "rgba(255, 213, 79, 0.3)" : "rgba(255, 213, 79, 0.5)",
+            color: "inherit",
+            borderRadius: 2
+        }
+    })
+);
+
+/**
+ * Text of a text search result, with the parts matching the query
+ * highlighted
+ * @ignore
+ */
+export function HighlightedText({ highlight }: { highlight: TextSearchHighlight }) {
+    const classes = useStyles();
+    return (
+        <span className={classes.root}>
+            {highlight.map(({ text, matched }, index) =>
+                matched
+                    ? <mark key={`highlight_${index}`}
+                            className={classes.matched}>{text}</mark>
+                    : <React.Fragment key={`highlight_${index}`}>{text}</React.Fragment>
+            )}
+        </span>
+    );
+}
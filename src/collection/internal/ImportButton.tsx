@@ -0,0 +1,434 @@
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    IconButton,
+    LinearProgress,
+    MenuItem,
+    Select,
+    Step,
+    StepLabel,
+    Stepper,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    Tooltip,
+    Typography
+} from "@material-ui/core";
+import PublishIcon from "@material-ui/icons/Publish";
+import MuiAlert from "@material-ui/lab/Alert/Alert";
+import { ValidationError } from "yup";
+
+import {
+    convertImportedRow,
+    EntitySchema,
+    EntityValues,
+    expandLocalizedProperties,
+    getDefaultImportMapping,
+    getImportColumns,
+    getImportTargets,
+    ImportConfig,
+    ImportFormat,
+    ImportMapping,
+    parseImportFile
+} from "../../models";
+import { computeSchemaProperties, saveEntity } from "../../models/firestore";
+import { getYupEntitySchema } from "../../form/validation";
+import {
+    useAuthController,
+    useCMSAppContext,
+    useSnackbarController
+} from "../../contexts";
+import { getEditableProperties } from "../../util/permissions";
+import { useTranslation } from "../../hooks";
+import { TranslateFunction, TranslationKey } from "../../i18n";
+
+type ImportButtonProps<M extends { [Key: string]: any }> = {
+    schema: EntitySchema<M>;
+    collectionPath: string;
+    importConfig?: ImportConfig;
+    /**
+     * Store revisions of the imported entities
+     */
+    history?: boolean;
+}
+
+type ImportStep = "file" | "mapping" | "preview" | "import";
+
+const steps: ImportStep[] = ["file", "mapping", "preview", "import"];
+
+const stepLabels: Record<ImportStep, TranslationKey> = {
+    file: "selectFile",
+    mapping: "mapColumns",
+    preview: "preview",
+    import: "import"
+};
+
+const DEFAULT_BATCH_SIZE = 20;
+
+/**
+ * Displayed errors in the preview
+ */
+const MAX_DISPLAYED_ERRORS = 50;
+
+interface ImportRow<M> {
+    /**
+     * Position of the row in the file, starting with 1
+     */
+    index: number;
+    id?: string;
+    values: Partial<EntityValues<M>>;
+    errors: string[];
+}
+
+export default function ImportButton<M extends { [Key: string]: any }>({
+                                                                           schema,
+                                                                           collectionPath,
+                                                                           importConfig,
+                                                                           history
+                                                                       }: ImportButtonProps<M>
+) {
+
+    const context = useCMSAppContext();
+    const authController = useAuthController();
+    const snackbarContext = useSnackbarController();
+    const { t } = useTranslation();
+
+    const [open, setOpen] = useState<boolean>(false);
+    const [step, setStep] = useState<ImportStep>("file");
+    const [fileError, setFileError] = useState<string | undefined>();
+
+    const [data, setData] = useState<Record<string, any>[]>([]);
+    const [mapping, setMapping] = useState<ImportMapping>({});
+    const [rows, setRows] = useState<ImportRow<M>[]>([]);
+    const [validating, setValidating] = useState<boolean>(false);
+
+    const [importedCount, setImportedCount] = useState<number>(0);
+    const [failedRows, setFailedRows] = useState<ImportRow<M>[]>([]);
+    const [importing, setImporting] = useState<boolean>(false);
+
+    // localized properties are imported from a column per locale, and
+    // only the properties the user can edit are imported
+    const properties = expandLocalizedProperties(
+        getEditableProperties(computeSchemaProperties(schema, collectionPath), authController),
+        context.cmsAppConfig.localization?.locales ?? []);
+    const columns = getImportColumns(data);
+    const targets = getImportTargets(properties);
+    const validRows = rows.filter((row) => row.errors.length === 0);
+    const invalidRows = rows.filter((row) => row.errors.length > 0);
+    const batchSize = importConfig?.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    const handleClickOpen = () => {
+        setStep("file");
+        setData([]);
+        setRows([]);
+        setFileError(undefined);
+        setImportedCount(0);
+        setFailedRows([]);
+        setOpen(true);
+    };
+
+    const handleClose = () => {
+        if (!importing)
+            setOpen(false);
+    };
+
+    const onFileSelected = async (file?: File) => {
+        if (!file) return;
+        const format: ImportFormat = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+        try {
+            const parsed = parseImportFile(await file.text(), format);
+            if (parsed.length === 0) {
+                setFileError(t("importEmptyFile"));
+                return;
+            }
+            setFileError(undefined);
+            setData(parsed);
+            setMapping(getDefaultImportMapping(getImportColumns(parsed), properties));
+            setStep("mapping");
+        } catch (e: any) {
+            console.error(e);
+            setFileError(t("errorReadingFile", { error: e?.message }));
+        }
+    };
+
+    const validateRows = async () => {
+        setValidating(true);
+        const validatedRows = await Promise.all(data.map(async (row, index) => {
+            const { id, values } = convertImportedRow({
+                row,
+                mapping,
+                properties,
+                buildReference: context.dataSource.buildReference
+            });
+            const yupSchema = getYupEntitySchema(schema.properties, values, collectionPath, undefined, id, context.cmsAppConfig.localization?.locales);
+            let errors: string[] = [];
+            try {
+                await yupSchema.validate(values, { abortEarly: false });
+            } catch (e: any) {
+                errors = e instanceof ValidationError && e.inner.length > 0
+                    ? e.inner.map((error) => error.message)
+                    : [e?.message];
+            }
+            return { index: index + 1, id, values, errors };
+        }));
+        setRows(validatedRows);
+        setValidating(false);
+        setStep("preview");
+    };
+
+    const saveRow = async (row: ImportRow<M>): Promise<boolean> => {
+        // rows with the id of a missing entity create it
+        let exists = false;
+        if (row.id) {
+            try {
+                exists = !!(await context.dataSource.fetchEntity({
+                    path: collectionPath,
+                    entityId: row.id,
+                    schema
+                })).values;
+            } catch (e: any) {
+                row.errors.push(e.message);
+                return false;
+            }
+        }
+        let saved = false;
+        await saveEntity({
+            collectionPath,
+            id: row.id,
+            values: row.values,
+            schema,
+            status: exists ? "existing" : "new",
+            onSaveSuccess: () => saved = true,
+            onSaveFailure: (e) => row.errors.push(e.message),
+            onPreSaveHookError: (e) => row.errors.push(e.message),
+            context,
+            history,
+            user: authController.loggedUser
+        });
+        return saved;
+    };
+
+    const importRows = async () => {
+        setStep("import");
+        setImporting(true);
+        const failed: ImportRow<M>[] = [];
+        let imported = 0;
+        for (let i = 0; i < validRows.length; i += batchSize) {
+            const batch = validRows.slice(i, i + batchSize);
+            const results = await Promise.all(batch.map(saveRow));
+            results.forEach((saved, index) => {
+                if (saved) imported++;
+                else failed.push(batch[index]);
+            });
+            setImportedCount(imported);
+            setFailedRows([...failed]);
+        }
+        setImporting(false);
+        snackbarContext.open({
+            type: failed.length > 0 ? "warning" : "success",
+            message: failed.length > 0
+                ? t("importResultWithFailures", { schema: schema.name, count: imported, failed: failed.length })
+                : t("importResult", { schema: schema.name, count: imported })
+        });
+    };
+
+    const fileStep = (
+        <>
+            <DialogContentText>
+                {t("importFileDescription")}
+            </DialogContentText>
+            <Button variant="outlined"
+                    color="primary"
+                    component="label">
+                {t("selectFile")}
+                <input type="file"
+                       accept=".csv,.json,text/csv,application/json"
+                       hidden
+                       onChange={(e) => onFileSelected(e.target.files?.[0])}/>
+            </Button>
+            {fileError && <Box mt={2}>
+                <MuiAlert elevation={1} variant="filled" severity={"error"}>
+                    {fileError}
+                </MuiAlert>
+            </Box>}
+        </>
+    );
+
+    const mappingStep = (
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>{t("importColumn")}</TableCell>
+                    <TableCell>{t("importExample")}</TableCell>
+                    <TableCell>{t("property")}</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {columns.map((column) => {
+                    const example = data.find((row) => row[column] !== undefined)?.[column];
+                    return (
+                        <TableRow key={`import_column_${column}`}>
+                            <TableCell>{column}</TableCell>
+                            <TableCell>
+                                <Typography variant={"caption"} noWrap>
+                                    {typeof example === "object" ? JSON.stringify(example) : String(example ?? "")}
+                                </Typography>
+                            </TableCell>
+                            <TableCell>
+                                <Select value={mapping[column] ?? ""}
+                                        displayEmpty
+                                        fullWidth
+                                        onChange={(evt: any) => setMapping({
+                                            ...mapping,
+                                            [column]: evt.target.value || undefined
+                                        })}>
+                                    <MenuItem value={""}>
+                                        <em>{t("doNotImport")}</em>
+                                    </MenuItem>
+                                    {targets.map((target) =>
+                                        <MenuItem key={`import_target_${column}_${target}`}
+                                                  value={target}>
+                                            {target}
+                                        </MenuItem>
+                                    )}
+                                </Select>
+                            </TableCell>
+                        </TableRow>
+                    );
+                })}
+            </TableBody>
+        </Table>
+    );
+
+    const previewStep = (
+        <>
+            <DialogContentText>
+                {t("importValidEntities", { valid: validRows.length, count: rows.length })}
+                {invalidRows.length > 0 && ` ${t("importInvalidSkipped")}`}
+            </DialogContentText>
+            {invalidRows.length > 0 && buildErrorsTable(invalidRows, t)}
+        </>
+    );
+
+    const importStep = (
+        <>
+            <DialogContentText>
+                {importing
+                    ? t("importingEntities", { done: importedCount + failedRows.length, count: validRows.length })
+                    : t("entitiesImported", { count: importedCount })}
+            </DialogContentText>
+            <LinearProgress variant="determinate"
+                            value={validRows.length > 0 ? (importedCount + failedRows.length) * 100 / validRows.length : 100}/>
+            {!importing && failedRows.length > 0 && <Box mt={2}>
+                {buildErrorsTable(failedRows, t)}
+            </Box>}
+        </>
+    );
+
+    return (
+        <>
+
+            <Tooltip title={t("import")}>
+                <IconButton
+                    color={"primary"}
+                    onClick={handleClickOpen}>
+                    <PublishIcon/>
+                </IconButton>
+            </Tooltip>
+
+            <Dialog
+                open={open}
+                onClose={handleClose}
+                maxWidth={"md"}
+                fullWidth
+            >
+                <DialogTitle>{t("importTitle", { schema: schema.name })}</DialogTitle>
+
+                <Stepper activeStep={steps.indexOf(step)}>
+                    {steps.map((s) =>
+                        <Step key={`import_step_${s}`}>
+                            <StepLabel>{t(stepLabels[s])}</StepLabel>
+                        </Step>
+                    )}
+                </Stepper>
+
+                <DialogContent>
+                    {step === "file" && fileStep}
+                    {step === "mapping" && mappingStep}
+                    {step === "preview" && previewStep}
+                    {step === "import" && importStep}
+                </DialogContent>
+
+                <DialogActions>
+
+                    {(step === "mapping" || step === "preview") &&
+                    <Button color="primary"
+                            onClick={() => setStep(step === "preview" ? "mapping" : "file")}>
+                        {t("back")}
+                    </Button>}
+
+                    <Button color="primary"
+                            disabled={importing}
+                            onClick={handleClose}>
+                        {step === "import" ? t("close") : t("cancel")}
+                    </Button>
+
+                    {step === "mapping" &&
+                    <Button color="primary"
+                            variant="contained"
+                            disabled={validating || !Object.values(mapping).some(Boolean)}
+                            onClick={validateRows}>
+                        {t("next")}
+                    </Button>}
+
+                    {step === "preview" &&
+                    <Button color="primary"
+                            variant="contained"
+                            disabled={validRows.length === 0}
+                            onClick={importRows}>
+                        {t("importCount", { count: validRows.length })}
+                    </Button>}
+
+                </DialogActions>
+            </Dialog>
+
+        </>
+    );
+}
+
+function buildErrorsTable<M>(rows: ImportRow<M>[], t: TranslateFunction) {
+    return (
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>{t("importRow")}</TableCell>
+                    <TableCell>{t("id")}</TableCell>
+                    <TableCell>{t("errors")}</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {rows.slice(0, MAX_DISPLAYED_ERRORS).map((row) =>
+                    <TableRow key={`import_error_${row.index}`}>
+                        <TableCell>{row.index}</TableCell>
+                        <TableCell>{row.id}</TableCell>
+                        <TableCell>{row.errors.join(", ")}</TableCell>
+                    </TableRow>
+                )}
+                {rows.length > MAX_DISPLAYED_ERRORS &&
+                <TableRow>
+                    <TableCell colSpan={3}>
+                        {t("andMore", { count: rows.length - MAX_DISPLAYED_ERRORS })}
+                    </TableCell>
+                </TableRow>}
+            </TableBody>
+        </Table>
+    );
+}
@@ -2,10 +2,15 @@ import {
     ArrayProperty,
     CMSType,
     EntitySchema,
+    EntityValues,
+    isLocalizedProperty,
+    isPropertyVisible,
+    matchesPropertyConditions,
     NumberProperty,
     Property,
     ReferenceProperty,
     StringProperty,
+    TextSearchHighlight,
     TimestampProperty
 } from "../../models";
 import React, { useCallback, useEffect, useState } from "react";
@@ -18,16 +23,20 @@ import ErrorBoundary from "../../core/internal/ErrorBoundary";
 import { PreviewComponent } from "../../preview";
 import { CellStyleProps } from "../components/styles";
 import { TableReferenceField } from "./fields/TableReferenceField";
+import { TableGeoPointInput } from "./fields/TableGeoPointInput";
 
 import firebase from "firebase/app";
 import "firebase/firestore";
 
 import { getPreviewSizeFrom } from "../../preview/util";
-import { useClearRestoreValue } from "../../hooks";
+import { useClearRestoreValue, useTranslation } from "../../hooks";
 import deepEqual from "deep-equal";
 import { isReadOnly } from "../../models/utils";
 import TableCell from "./TableCell";
 import { AnySchema } from "yup";
+import { HighlightedText } from "./HighlightedText";
+import { useAuthController, useCMSAppContext } from "../../contexts";
+import { canEditProperty, canReadProperty } from "../../util/permissions";
 
 
 export interface PropertyTableCellProps<T extends CMSType, M extends { [Key: string]: any }> {
@@ -43,7 +52,16 @@ export interface PropertyTableCellProps<T extends CMSType, M extends { [Key: str
     height: number;
     width: number;
     validation: AnySchema;
+    /**
+     * Values of the entity, used to evaluate the `visibleWhen` and
+     * `disabledWhen` conditions of the property
+     */
+    entityValues?: EntityValues<M>;
     onValueChange?: (params: OnCellChangeParams<T>) => void
+    /**
+     * Parts of the value matching the current text search
+     */
+    highlight?: TextSearchHighlight;
 }
 
 /**
@@ -63,10 +81,12 @@ const PropertyTableCell = <T extends CMSType, M extends { [Key: string]: any }>(
                                                                                                    value,
                                                                                                    property,
                                                                                                    validation,
+                                                                                                   entityValues,
                                                                                                    size,
                                                                                                    align,
                                                                                                    width,
-                                                                                                   height
+                                                                                                   height,
+                                                                                                   highlight
                                                                                                }: PropertyTableCellProps<T, M> & CellStyleProps) => {
 
     const [internalValue, setInternalValue] = useState<any | null>(value);
@@ -80,11 +100,23 @@ const PropertyTableCell = <T extends CMSType, M extends { [Key: string]: any }>(
     const [error, setError] = useState<Error | undefined>();
     const [saved, setSaved] = useState<boolean>(false);
 
+    const authController = useAuthController();
+    const { contentLocale } = useCMSAppContext();
+    const { t } = useTranslation();
+    const canRead = canReadProperty(property, authController);
+    const canEdit = canEditProperty(property, authController);
+
+    const visible = !entityValues || isPropertyVisible(property, entityValues);
+    const disabledByConditions = Boolean(entityValues && property.disabledWhen
+        && matchesPropertyConditions(property.disabledWhen, entityValues));
+
     const customField = Boolean(property.config?.field);
     const customPreview = Boolean(property.config?.preview);
-    const readOnly = isReadOnly(property);
-    const disabledTooltip: string | undefined = typeof property.disabled === "object" ? property.disabled.disabledMessage : undefined;
-    let disabled = Boolean(property.disabled);
+    const readOnly = isReadOnly(property) || !canRead || !visible;
+    const disabledTooltip: string | undefined = typeof property.disabled === "object"
+        ? property.disabled.disabledMessage
+        : (!canEdit ? t("noEditPermission") : undefined);
+    let disabled = Boolean(property.disabled) || !canEdit || disabledByConditions;
 
     const onBlur = () => {
         setFocused(false);
@@ -144,7 +176,25 @@ const PropertyTableCell = <T extends CMSType, M extends { [Key: string]: any }>(
     let showExpandIcon = false;
 
     if (!readOnly && !customField && (!customPreview || selected)) {
-        if (selected && property.dataType === "number") {
+        if (isLocalizedProperty(property)) {
+            // the text of the current locale is edited in place, other
+            // localized properties are edited in the popup form
+            const stringProperty = property as StringProperty;
+            if (selected && contentLocale && property.dataType === "string"
+                && !stringProperty.config?.enumValues && !stringProperty.config?.storageMeta && !stringProperty.config?.markdown) {
+                innerComponent = <TableInput error={error}
+                                             disabled={disabled}
+                                             multiline={!!stringProperty.config?.multiline}
+                                             focused={focused}
+                                             value={internalValue ? internalValue[contentLocale] : undefined}
+                                             updateValue={(text) => updateValue({
+                                                 ...internalValue,
+                                                 [contentLocale]: text
+                                             })}
+                />;
+                allowScroll = true;
+            }
+        } else if (selected && property.dataType === "number") {
             const numberProperty = property as NumberProperty;
             if (numberProperty.config?.enumValues) {
                 innerComponent = <TableSelect name={name as string}
@@ -199,6 +249,15 @@ const PropertyTableCell = <T extends CMSType, M extends { [Key: string]: any }>(
                 />;
                 allowScroll = true;
             }
+        } else if (selected && property.dataType === "geopoint") {
+            innerComponent = <TableGeoPointInput error={error}
+                                                 disabled={disabled}
+                                                 focused={focused}
+                                                 onBlur={onBlur}
+                                                 value={internalValue as firebase.firestore.GeoPoint | null}
+                                                 updateValue={updateValue}
+            />;
+            allowScroll = true;
         } else if (property.dataType === "boolean") {
             innerComponent = <TableSwitch error={error}
                                           disabled={disabled}
@@ -266,7 +325,11 @@ const PropertyTableCell = <T extends CMSType, M extends { [Key: string]: any }>(
         }
     }
 
-    if (!innerComponent) {
+    if (!canRead || !visible) {
+        innerComponent = <></>;
+    } else if (!innerComponent && highlight && !selected) {
+        innerComponent = <HighlightedText highlight={highlight}/>;
+    } else if (!innerComponent) {
         allowScroll = false;
         showExpandIcon = selected && !innerComponent && !disabled && !readOnly;
         innerComponent = (
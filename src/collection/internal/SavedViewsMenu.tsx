@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import {
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    Divider,
+    IconButton,
+    ListItemIcon,
+    ListItemSecondaryAction,
+    ListItemText,
+    ListSubheader,
+    Menu,
+    MenuItem,
+    TextField,
+    Tooltip
+} from "@material-ui/core";
+import BookmarksIcon from "@material-ui/icons/Bookmarks";
+import BookmarkBorderIcon from "@material-ui/icons/BookmarkBorder";
+import DeleteIcon from "@material-ui/icons/Delete";
+import LinkIcon from "@material-ui/icons/Link";
+
+import { SavedCollectionView } from "../../models";
+import { useTranslation } from "../../hooks";
+
+interface SavedViewsMenuProps<M extends { [Key: string]: any }> {
+    /**
+     * Views declared in the collection config
+     */
+    predefinedViews: SavedCollectionView<M>[];
+    /**
+     * Views saved by the user
+     */
+    userViews: SavedCollectionView<M>[];
+    onViewSelected: (view: SavedCollectionView<M>) => void;
+    onViewSaved: (name: string) => void;
+    onViewDeleted: (name: string) => void;
+    onShareView: () => void;
+}
+
+/**
+ * Toolbar menu used to save the current state of a collection table as a
+ * named view, and to switch between views
+ * @ignore
+ */
+export default function SavedViewsMenu<M extends { [Key: string]: any }>({
+                                                                             predefinedViews,
+                                                                             userViews,
+                                                                             onViewSelected,
+                                                                             onViewSaved,
+                                                                             onViewDeleted,
+                                                                             onShareView
+                                                                         }: SavedViewsMenuProps<M>) {
+
+    const { t } = useTranslation();
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    const [saveDialogOpen, setSaveDialogOpen] = useState<boolean>(false);
+    const [viewName, setViewName] = useState<string>("");
+
+    const closeMenu = () => setAnchorEl(null);
+
+    const selectView = (view: SavedCollectionView<M>) => {
+        onViewSelected(view);
+        closeMenu();
+    };
+
+    const openSaveDialog = () => {
+        setViewName("");
+        setSaveDialogOpen(true);
+        closeMenu();
+    };
+
+    const saveView = () => {
+        if (!viewName.trim())
+            return;
+        onViewSaved(viewName.trim());
+        setSaveDialogOpen(false);
+    };
+
+    const nameIsPredefined = predefinedViews.some((view) => view.name === viewName.trim());
+
+    return (
+        <>
+            <Tooltip title={t("views")}>
+                <IconButton onClick={(e) => setAnchorEl(e.currentTarget)}>
+                    <BookmarksIcon/>
+                </IconButton>
+            </Tooltip>
+
+            <Menu
+                anchorEl={anchorEl}
+                open={Boolean(anchorEl)}
+                onClose={closeMenu}
+                getContentAnchorEl={null}
+                anchorOrigin={{ vertical: "bottom", horizontal: "left" }}>
+
+                {predefinedViews.length > 0 &&
+                <ListSubheader disableSticky>{t("collectionViews")}</ListSubheader>}
+                {predefinedViews.map((view) =>
+                    <MenuItem key={`predefined_view_${view.name}`}
+                              onClick={() => selectView(view)}>
+                        {view.name}
+                    </MenuItem>
+                )}
+
+                {userViews.length > 0 &&
+                <ListSubheader disableSticky>{t("myViews")}</ListSubheader>}
+                {userViews.map((view) =>
+                    <MenuItem key={`user_view_${view.name}`}
+                              onClick={() => selectView(view)}>
+                        <ListItemText primary={view.name}/>
+                        <ListItemSecondaryAction>
+                            <IconButton size={"small"}
+                                        edge={"end"}
+                                        onClick={() => onViewDeleted(view.name)}>
+                                <Tooltip title={t("deleteView", { name: view.name })}>
+                                    <DeleteIcon fontSize={"small"}/>
+                                </Tooltip>
+                            </IconButton>
+                        </ListItemSecondaryAction>
+                    </MenuItem>
+                )}
+
+                {(predefinedViews.length > 0 || userViews.length > 0) &&
+                <Divider/>}
+
+                <MenuItem onClick={openSaveDialog}>
+                    <ListItemIcon>
+                        <BookmarkBorderIcon fontSize={"small"}/>
+                    </ListItemIcon>
+                    {t("saveCurrentView")}
+                </MenuItem>
+
+                <MenuItem onClick={() => {
+                    onShareView();
+                    closeMenu();
+                }}>
+                    <ListItemIcon>
+                        <LinkIcon fontSize={"small"}/>
+                    </ListItemIcon>
+                    {t("copyViewLink")}
+                </MenuItem>
+            </Menu>
+
+            <Dialog open={saveDialogOpen}
+                    onClose={() => setSaveDialogOpen(false)}
+                    maxWidth={"xs"}
+                    fullWidth>
+                <form noValidate onSubmit={(e) => {
+                    e.preventDefault();
+                    saveView();
+                }}>
+                    <DialogTitle>{t("saveView")}</DialogTitle>
+                    <DialogContent>
+                        <TextField
+                            autoFocus
+                            fullWidth
+                            label={t("viewName")}
+                            value={viewName}
+                            error={nameIsPredefined}
+                            helperText={nameIsPredefined ? t("viewNameExists") : undefined}
+                            onChange={(e) => setViewName(e.target.value)}/>
+                    </DialogContent>
+                    <DialogActions>
+                        <Button onClick={() => setSaveDialogOpen(false)}
+                                color="primary">
+                            {t("cancel")}
+                        </Button>
+                        <Button type={"submit"}
+                                disabled={!viewName.trim() || nameIsPredefined}
+                                color="primary">
+                            {t("save")}
+                        </Button>
+                    </DialogActions>
+                </form>
+            </Dialog>
+        </>
+    );
+}
@@ -63,14 +63,15 @@ const useStyles = makeStyles((theme: Theme) =>
 
 
 interface SearchBarProps {
+    initialValue?: string;
     onTextSearch: (searchString?: string) => void;
 }
 
-export default function SearchBar({ onTextSearch }: SearchBarProps) {
+export default function SearchBar({ initialValue, onTextSearch }: SearchBarProps) {
 
     const classes = useStyles();
 
-    const [searchText, setSearchText] = useState<string>("");
+    const [searchText, setSearchText] = useState<string>(initialValue ?? "");
     const [active, setActive] = useState<boolean>(false);
 
     /**
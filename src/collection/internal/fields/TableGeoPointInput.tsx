@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from "react";
+import { Input } from "@material-ui/core";
+import clsx from "clsx";
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+import { formatGeoPoint, parseGeoPoint } from "../../../models";
+import { toGeoPoint } from "../../../models/geopoints";
+import { useInputStyles } from "./styles";
+
+export function TableGeoPointInput(props: {
+    error: Error | undefined;
+    value: firebase.firestore.GeoPoint | null;
+    updateValue: (newValue: (firebase.firestore.GeoPoint | null)) => void;
+    focused: boolean;
+    disabled: boolean;
+    onBlur?: React.FocusEventHandler<HTMLInputElement | HTMLTextAreaElement>;
+}) {
+
+    const { value, updateValue, focused, onBlur, disabled } = props;
+    const propStringValue = value ? formatGeoPoint(value) : "";
+    const [internalValue, setInternalValue] = useState<string>(propStringValue);
+
+    useEffect(
+        () => {
+            const doUpdate = () => {
+                if (internalValue === propStringValue)
+                    return;
+                if (!internalValue) {
+                    updateValue(null);
+                    return;
+                }
+                const coordinates = parseGeoPoint(internalValue);
+                // invalid coordinates are kept, so they are reported by the validation
+                if (coordinates)
+                    updateValue(toGeoPoint(coordinates) as firebase.firestore.GeoPoint);
+            };
+            const handler = setTimeout(doUpdate, 300);
+
+            return () => {
+                clearTimeout(handler);
+            };
+        },
+        [internalValue]
+    );
+
+    useEffect(
+        () => {
+            if (!focused && propStringValue !== internalValue)
+                setInternalValue(propStringValue);
+        },
+        [value, focused]
+    );
+
+    const ref = React.createRef<HTMLInputElement>();
+    const classes = useInputStyles();
+
+    useEffect(() => {
+        if (ref.current && focused) {
+            ref.current.focus({ preventScroll: true });
+        }
+    }, [focused]);
+
+    return (
+        <Input
+            inputRef={ref}
+            style={{
+                width: "100%",
+                fontSize: "unset",
+                fontFamily: "unset",
+                background: "unset",
+                border: "unset",
+                resize: "none",
+                outline: "none",
+                padding: 0
+            }}
+            placeholder={"lat,lng"}
+            disabled={disabled}
+            className={clsx(classes.input)}
+            disableUnderline
+            value={internalValue}
+            onBlur={onBlur}
+            onChange={(evt) => setInternalValue(evt.target.value)}
+        />
+    );
+}
@@ -7,6 +7,7 @@ import {
     Theme
 } from "@material-ui/core";
 import React from "react";
+import { useTranslation } from "../../../hooks";
 
 export const useStyles = makeStyles((theme: Theme) =>
     createStyles({
@@ -35,6 +36,7 @@ export default function BooleanFilterField({
                                            }: BooleanFieldProps) {
 
     const classes = useStyles();
+    const { t } = useTranslation();
 
     function updateFilter(val?: boolean) {
         if (val !== undefined) {
@@ -70,7 +72,7 @@ export default function BooleanFilterField({
                     }}
                 />
             }
-            label={!valueSet ? "No filter" : (valueSetToTrue ? `${property.title} is true` : `${property.title} is false`)}
+            label={!valueSet ? t("noFilter") : t(valueSetToTrue ? "filterIsTrue" : "filterIsFalse", { property: property.title ?? name })}
         />
     );
 
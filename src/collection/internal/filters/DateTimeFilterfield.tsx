@@ -16,6 +16,8 @@ import Tooltip from "@material-ui/core/Tooltip/Tooltip";
 import { KeyboardDateTimePicker } from "@material-ui/pickers";
 import CalendarTodayIcon from "@material-ui/icons/CalendarToday";
 import { useInputStyles } from "../fields/styles";
+import { useTranslation } from "../../../hooks";
+import { getFilterOperationLabel } from "./filter_operations";
 
 interface DateTimeFilterFieldProps {
     name: string,
@@ -25,18 +27,6 @@ interface DateTimeFilterFieldProps {
 }
 
 
-const operationLabels = {
-    "==": "==",
-    "!=": "!=",
-    ">": ">",
-    "<": "<",
-    ">=": ">=",
-    "<=": "<=",
-    "in": "in",
-    "array-contains": "Contains",
-    "array-contains-any": "Any"
-};
-
 const multipleSelectOperations = ["array-contains-any", "in"];
 
 
@@ -49,12 +39,13 @@ export default function DateTimeFilterField({
 
 
     const classes = useInputStyles();
+    const { t } = useTranslation();
 
     const isArray = property.dataType === "array";
     if (isArray && !(property as ArrayProperty).of) {
         throw Error(`You need to specify an 'of' prop (or specify a custom field) in your array property ${name}`);
     }
-    const possibleOperations: (keyof typeof operationLabels) [] = isArray ?
+    const possibleOperations: WhereFilterOp[] = isArray ?
         ["array-contains"] :
         ["==", "!=", ">", "<", ">=", "<="];
 
@@ -101,7 +92,7 @@ export default function DateTimeFilterField({
                         {possibleOperations.map((op) =>
                             <MenuItem
                                 key={`filter_op_${name}_${op}`}
-                                value={op}>{operationLabels[op]}</MenuItem>
+                                value={op}>{getFilterOperationLabel(op, t)}</MenuItem>
                         )}
 
                     </MuiSelect>
@@ -132,7 +123,7 @@ export default function DateTimeFilterField({
                 <IconButton
                     onClick={(e) => updateFilter(operation, undefined)}
                     size={"small"}>
-                    <Tooltip title={`Clear ${property.title}`}>
+                    <Tooltip title={t("clearPropertyFilter", { property: property.title ?? name })}>
                         <ClearIcon fontSize={"small"}/>
                     </Tooltip>
                 </IconButton>
@@ -0,0 +1,106 @@
+import React, { useState } from "react";
+import {
+    formatGeoPoint,
+    GeopointProperty,
+    GeoPointCoordinates,
+    isValidGeoPoint,
+    parseGeoPoint
+} from "../../../models";
+import { Box, FormHelperText, IconButton, Input } from "@material-ui/core";
+import ClearIcon from "@material-ui/icons/Clear";
+import Tooltip from "@material-ui/core/Tooltip/Tooltip";
+import { useTranslation } from "../../../hooks";
+
+interface GeoPointFilterFieldProps {
+    name: string,
+    value?: [southWest: GeoPointCoordinates, northEast: GeoPointCoordinates];
+    setValue: (value?: [southWest: GeoPointCoordinates, northEast: GeoPointCoordinates]) => void;
+    property: GeopointProperty,
+}
+
+/**
+ * Filter the geopoints inside a bounding box, given by its south-west and
+ * north-east corners written as `lat,lng`
+ * @ignore
+ */
+export default function GeoPointFilterField({
+                                                name,
+                                                property,
+                                                value,
+                                                setValue
+                                            }: GeoPointFilterFieldProps) {
+
+    const { t } = useTranslation();
+    const [southWest, setSouthWest] = useState<string>(value ? formatGeoPoint(value[0]) : "");
+    const [northEast, setNorthEast] = useState<string>(value ? formatGeoPoint(value[1]) : "");
+
+    const southWestCoordinates = parseGeoPoint(southWest);
+    const northEastCoordinates = parseGeoPoint(northEast);
+    const southWestError = !!southWest && (!southWestCoordinates || !isValidGeoPoint(southWestCoordinates));
+    const northEastError = !!northEast && (!northEastCoordinates || !isValidGeoPoint(northEastCoordinates));
+    const latitudeError = !!southWestCoordinates && !!northEastCoordinates
+        && southWestCoordinates.latitude > northEastCoordinates.latitude;
+
+    function updateFilter(newSouthWest: string, newNorthEast: string) {
+        setSouthWest(newSouthWest);
+        setNorthEast(newNorthEast);
+
+        const southWestValue = parseGeoPoint(newSouthWest);
+        const northEastValue = parseGeoPoint(newNorthEast);
+        if (southWestValue && northEastValue
+            && isValidGeoPoint(southWestValue) && isValidGeoPoint(northEastValue)
+            && southWestValue.latitude <= northEastValue.latitude) {
+            setValue([southWestValue, northEastValue]);
+        } else {
+            setValue(undefined);
+        }
+    }
+
+    return (
+
+        <Box width={340}>
+            <Box display={"flex"} alignItems={"center"}>
+                <Box flexGrow={1}>
+                    <Input
+                        fullWidth
+                        placeholder={t("southWestCorner")}
+                        error={southWestError || latitudeError}
+                        value={southWest}
+                        onChange={(evt) => updateFilter(evt.target.value, northEast)}
+                    />
+                </Box>
+
+                <Box flexGrow={1} ml={1}>
+                    <Input
+                        fullWidth
+                        placeholder={t("northEastCorner")}
+                        error={northEastError || latitudeError}
+                        value={northEast}
+                        onChange={(evt) => updateFilter(southWest, evt.target.value)}
+                    />
+                </Box>
+
+                {(southWest || northEast) && <Box ml={1}>
+                    <IconButton
+                        onClick={(e) => updateFilter("", "")}
+                        size={"small"}>
+                        <Tooltip title={t("clearPropertyFilter", { property: property.title ?? name })}>
+                            <ClearIcon fontSize={"small"}/>
+                        </Tooltip>
+                    </IconButton>
+                </Box>}
+            </Box>
+
+            {(southWestError || northEastError) &&
+            <FormHelperText error>
+                {t("invalidCoordinates")}
+            </FormHelperText>}
+
+            {latitudeError &&
+            <FormHelperText error>
+                {t("invalidBoundingBox")}
+            </FormHelperText>}
+        </Box>
+    );
+
+}
@@ -0,0 +1,134 @@
+import {
+    ArrayProperty,
+    Entity,
+    ReferenceProperty,
+    WhereFilterOp
+} from "../../../models";
+import {
+    Box,
+    Button,
+    FormControl,
+    IconButton,
+    MenuItem,
+    Select as MuiSelect
+} from "@material-ui/core";
+import ClearIcon from "@material-ui/icons/Clear";
+import React, { useState } from "react";
+import Tooltip from "@material-ui/core/Tooltip/Tooltip";
+import firebase from "firebase/app";
+import ReferenceDialog from "../../../core/components/ReferenceDialog";
+import { ReferencePreview } from "../../../preview";
+import { useSchemasRegistry } from "../../../contexts/SchemaRegistry";
+import { useTranslation } from "../../../hooks";
+import { getFilterOperationLabel } from "./filter_operations";
+
+interface ReferenceFilterFieldProps {
+    name: string,
+    value?: [op: WhereFilterOp, fieldValue: any];
+    setValue: (value?: [op: WhereFilterOp, newValue: any]) => void;
+    property: ArrayProperty<firebase.firestore.DocumentReference[]> | ReferenceProperty,
+}
+
+export default function ReferenceFilterField({
+                                                 name,
+                                                 property,
+                                                 value,
+                                                 setValue
+                                             }: ReferenceFilterFieldProps) {
+
+    const isArray = property.dataType === "array";
+    if (isArray && !(property as ArrayProperty).of) {
+        throw Error(`You need to specify an 'of' prop (or specify a custom field) in your array property ${name}`);
+    }
+    const referenceProperty: ReferenceProperty = property.dataType === "array"
+        ? (property as ArrayProperty).of as ReferenceProperty
+        : property;
+
+    const schemaRegistry = useSchemasRegistry();
+    const { t } = useTranslation();
+    const collectionConfig = schemaRegistry.getCollectionConfig(referenceProperty.collectionPath);
+
+    const possibleOperations: WhereFilterOp[] = isArray ?
+        ["array-contains"] :
+        ["==", "!="];
+
+    const [fieldOperation, fieldValue] = value ? value : [possibleOperations[0], undefined];
+    const [operation, setOperation] = useState<WhereFilterOp>(fieldOperation);
+    const [internalValue, setInternalValue] = useState<firebase.firestore.DocumentReference | undefined>(fieldValue);
+    const [open, setOpen] = useState<boolean>(false);
+
+    function updateFilter(op: WhereFilterOp, val: firebase.firestore.DocumentReference | undefined) {
+        setOperation(op);
+        setInternalValue(val);
+        if (op && val) {
+            setValue(
+                [op, val]
+            );
+        } else {
+            setValue(
+                undefined
+            );
+        }
+    }
+
+    const onSingleEntitySelected = (entity: Entity<any> | null) => {
+        updateFilter(operation, entity?.reference ?? undefined);
+        setOpen(false);
+    };
+
+    return (
+
+        <Box display={"flex"} width={340} alignItems={"center"}>
+            <Box width={80}>
+                <FormControl fullWidth>
+                    <MuiSelect value={operation}
+                               fullWidth
+                               onChange={(evt: any) => {
+                                   updateFilter(evt.target.value, internalValue);
+                               }}>
+                        {possibleOperations.map((op) =>
+                            <MenuItem
+                                key={`filter_op_${name}_${op}`}
+                                value={op}>{getFilterOperationLabel(op, t)}</MenuItem>
+                        )}
+
+                    </MuiSelect>
+                </FormControl>
+            </Box>
+
+            <Box flexGrow={1} ml={1}>
+                {internalValue ?
+                    <ReferencePreview value={internalValue}
+                                      property={referenceProperty}
+                                      onClick={() => setOpen(true)}
+                                      size={"tiny"}/>
+                    :
+                    <Button color="primary"
+                            disabled={!collectionConfig}
+                            onClick={() => setOpen(true)}>
+                        {t("selectReference", { name: collectionConfig?.schema.name ?? referenceProperty.collectionPath })}
+                    </Button>
+                }
+            </Box>
+
+            {internalValue !== undefined && <Box ml={1}>
+                <IconButton
+                    onClick={(e) => updateFilter(operation, undefined)}
+                    size={"small"}>
+                    <Tooltip title={t("clearPropertyFilter", { property: property.title ?? name })}>
+                        <ClearIcon fontSize={"small"}/>
+                    </Tooltip>
+                </IconButton>
+            </Box>}
+
+            {collectionConfig && <ReferenceDialog open={open}
+                                                  collection={collectionConfig}
+                                                  multiselect={false}
+                                                  collectionPath={referenceProperty.collectionPath}
+                                                  onClose={() => setOpen(false)}
+                                                  onSingleEntitySelected={onSingleEntitySelected}/>}
+
+        </Box>
+    );
+
+}
@@ -17,6 +17,8 @@ import React, { useState } from "react";
 import Tooltip from "@material-ui/core/Tooltip/Tooltip";
 import { enumToObjectEntries, isEnumValueDisabled } from "../../../util/enums";
 import { EnumValuesChip } from "../../../preview/components/CustomChip";
+import { useTranslation } from "../../../hooks";
+import { getFilterOperationLabel } from "./filter_operations";
 
 interface StringNumberFilterFieldProps {
     name: string,
@@ -25,19 +27,7 @@ interface StringNumberFilterFieldProps {
     property: ArrayProperty<string[] | number[]> | StringProperty | NumberProperty,
 }
 
-const operationLabels = {
-    "==": "==",
-    "!=": "!=",
-    ">": ">",
-    "<": "<",
-    ">=": ">=",
-    "<=": "<=",
-    "in": "in",
-    "array-contains": "Contains",
-    "array-contains-any": "Any"
-};
-
-const multipleSelectOperations = ["array-contains-any", "in"];
+const multipleSelectOperations = ["array-contains-any", "in", "not-in"];
 
 export default function StringNumberFilterField({
                                                     name,
@@ -46,6 +36,8 @@ export default function StringNumberFilterField({
                                                     setValue
                                                 }: StringNumberFilterFieldProps) {
 
+    const { t } = useTranslation();
+
     const isArray = property.dataType === "array";
     if (isArray && !(property as ArrayProperty).of) {
         throw Error(`You need to specify an 'of' prop (or specify a custom field) in your array property ${name}`);
@@ -57,14 +49,14 @@ export default function StringNumberFilterField({
     const dataType = usedProperty.dataType;
     const enumValues = usedProperty.config?.enumValues;
 
-    const possibleOperations: (keyof typeof operationLabels) [] = isArray ?
+    const possibleOperations: WhereFilterOp[] = isArray ?
         ["array-contains"] :
         ["==", "!=", ">", "<", ">=", "<="];
 
     if (enumValues)
         isArray ?
             possibleOperations.push("array-contains-any") :
-            possibleOperations.push("in");
+            possibleOperations.push("in", "not-in");
 
     const [fieldOperation, fieldValue] = value ? value : [possibleOperations[0], undefined];
     const [operation, setOperation] = useState<WhereFilterOp>(fieldOperation);
@@ -113,7 +105,7 @@ export default function StringNumberFilterField({
                         {possibleOperations.map((op) =>
                             <MenuItem
                                 key={`filter_op_${name}_${op}`}
-                                value={op}>{operationLabels[op]}</MenuItem>
+                                value={op}>{getFilterOperationLabel(op, t)}</MenuItem>
                         )}
 
                     </MuiSelect>
@@ -141,8 +133,14 @@ export default function StringNumberFilterField({
                         fullWidth
                         key={`filter-select-${multiple}-${name}`}
                         multiple={multiple}
-                        value={internalValue !== undefined ? internalValue : isArray ? [] : ""}
-                        onChange={(evt: any) => updateFilter(operation, property.dataType === "number" ? parseInt(evt.target.value) : evt.target.value)}
+                        value={internalValue !== undefined ? internalValue : multiple ? [] : ""}
+                        onChange={(evt: any) => {
+                            const newValue = evt.target.value;
+                            if (dataType === "number")
+                                updateFilter(operation, Array.isArray(newValue) ? newValue.map((v) => parseInt(v)) : parseInt(newValue));
+                            else
+                                updateFilter(operation, newValue);
+                        }}
                         renderValue={multiple ? (selected: any) =>
                             (
                                 <div>
@@ -176,7 +174,7 @@ export default function StringNumberFilterField({
                 <IconButton
                     onClick={(e) => updateFilter(operation, undefined)}
                     size={"small"}>
-                    <Tooltip title={`Clear ${property.title}`}>
+                    <Tooltip title={t("clearPropertyFilter", { property: property.title ?? name })}>
                         <ClearIcon fontSize={"small"}/>
                     </Tooltip>
                 </IconButton>
@@ -0,0 +1,20 @@
+import { WhereFilterOp } from "../../../models";
+import { TranslateFunction, TranslationKey } from "../../../i18n";
+
+const translatedOperations: Partial<Record<WhereFilterOp, TranslationKey>> = {
+    "not-in": "filterNotIn",
+    "array-contains": "filterContains",
+    "array-contains-any": "filterAny"
+};
+
+/**
+ * Label of a filter operation in the filter fields. Comparisons are
+ * displayed as they are, and the rest are translated
+ * @param op
+ * @param t
+ * @ignore
+ */
+export function getFilterOperationLabel(op: WhereFilterOp, t: TranslateFunction): string {
+    const key = translatedOperations[op];
+    return key ? t(key) : op;
+}
@@ -26,6 +26,7 @@ import {
     getYupEntitySchema
 } from "../../../form/validation";
 import OutsideAlerter from "../../../core/internal/OutsideAlerter";
+import { useCMSAppContext } from "../../../contexts";
 import { useWindowSize } from "../../../hooks/useWindowSize";
 import { isReadOnly } from "../../../models/utils";
 import { OnCellValueChangeParams } from "../../components/CollectionTableProps";
@@ -112,6 +113,7 @@ function PopupFormField<M extends { [Key: string]: any }>({
 
     const classes = useStyles();
     const windowSize = useWindowSize();
+    const { cmsAppConfig } = useCMSAppContext();
 
     const ref = React.useRef<HTMLDivElement>(null);
     const containerRef = React.useRef<HTMLDivElement>(null);
@@ -158,7 +160,8 @@ function PopupFormField<M extends { [Key: string]: any }>({
         entity?.values ?? {},
         collectionPath,
         customFieldValidator,
-        entity?.id);
+        entity?.id,
+        cmsAppConfig.localization?.locales);
 
     function getInitialLocation() {
         if (!cellRect) throw Error("getInitialLocation error");
@@ -2,7 +2,15 @@ import firebase from "firebase/app";
 import "firebase/auth";
 
 import React, { useContext, useEffect } from "react";
-import { Authenticator } from "../models";
+import {
+    Authenticator,
+    checkCMSUserAccess,
+    CMSUser,
+    DataSource,
+    needsEmailVerification,
+    RolesResolver,
+    UserManagementConfig
+} from "../models";
 
 interface AuthProviderProps {
     authController: AuthController,
@@ -21,6 +29,12 @@ export interface AuthController {
      */
     loggedUser: firebase.User | null;
 
+    /**
+     * Roles of the logged user, assigned by the `roles` resolver of the CMS,
+     * or stored in the users collection if user management is enabled
+     */
+    roles: string[];
+
     /**
      * Has the user completed the steps to access the main view, after the
      * login screen
@@ -59,6 +73,13 @@ export interface AuthController {
      */
     notAllowedError: boolean;
 
+    /**
+     * The user that tried to log in needs to verify their email, and a
+     * verification email was sent to them. They are signed out, so they
+     * can log in again once verified
+     */
+    emailVerificationSent: boolean;
+
     /**
      * Skip login
      */
@@ -87,6 +108,7 @@ export interface AuthController {
 
 export const AuthContext = React.createContext<AuthController>({
     loggedUser: null,
+    roles: [],
     authProviderError: null,
     canAccessMainView: false,
     setAuthProviderError: (error: Error) => {
@@ -96,6 +118,7 @@ export const AuthContext = React.createContext<AuthController>({
     },
     loginSkipped: false,
     notAllowedError: false,
+    emailVerificationSent: false,
     skipLogin: () => {
     },
     signOut: () => {
@@ -134,19 +157,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = (
 
 interface AuthHandlerProps {
     authentication?: boolean | Authenticator;
+    roles?: RolesResolver;
+    userManagement?: UserManagementConfig;
+    dataSource: DataSource;
 }
 
 export const useAuthHandler = (
     {
-        authentication
+        authentication,
+        roles: rolesResolver,
+        userManagement,
+        dataSource
     }: AuthHandlerProps): AuthController => {
 
     const [loggedUser, setLoggedUser] = React.useState<firebase.User | null>(null);
+    const [roles, setRoles] = React.useState<string[]>([]);
     const [authProviderError, setAuthProviderError] = React.useState<any>();
 
     const [authLoading, setAuthLoading] = React.useState(true);
     const [loginSkipped, setLoginSkipped] = React.useState<boolean>(false);
     const [notAllowedError, setNotAllowedError] = React.useState<boolean>(false);
+    const [emailVerificationSent, setEmailVerificationSent] = React.useState<boolean>(false);
     const [extra, setExtra] = React.useState<any>();
 
     useEffect(() => {
@@ -159,20 +190,67 @@ export const useAuthHandler = (
     const onAuthStateChanged = async (user: firebase.User | null) => {
 
         setNotAllowedError(false);
+        if (user)
+            setEmailVerificationSent(false);
+
+        if (userManagement && user && needsEmailVerification(user, userManagement)) {
+            await sendEmailVerification(user);
+            setAuthLoading(false);
+            return;
+        }
 
-        if (authentication instanceof Function && user) {
-            const allowed = await authentication(user);
-            if (allowed)
+        // roles are set before the user, so the navigation is built with them
+        if ((authentication instanceof Function || userManagement) && user) {
+            const allowed = authentication instanceof Function ? await authentication(user) : true;
+            const cmsUser = allowed && userManagement ? await checkUserManagementAccess(user) : undefined;
+            if (allowed && (!userManagement || cmsUser)) {
+                setRoles(await resolveRoles(user, cmsUser));
                 setLoggedUser(user);
-            else
+            } else
                 setNotAllowedError(true);
         } else {
+            setRoles(user ? await resolveRoles(user) : []);
             setLoggedUser(user);
         }
 
         setAuthLoading(false);
     };
 
+    async function sendEmailVerification(user: firebase.User) {
+        try {
+            await user.sendEmailVerification();
+            setEmailVerificationSent(true);
+        } catch (e) {
+            console.error("Error sending the verification email", e);
+            setAuthProviderError(e);
+        }
+        await firebase.auth().signOut();
+    }
+
+    async function checkUserManagementAccess(user: firebase.User): Promise<CMSUser | undefined> {
+        try {
+            return await checkCMSUserAccess({
+                user,
+                dataSource,
+                config: userManagement!
+            });
+        } catch (e) {
+            console.error("Error checking the access of the user", e);
+            return undefined;
+        }
+    }
+
+    async function resolveRoles(user: firebase.User, cmsUser?: CMSUser): Promise<string[]> {
+        if (!rolesResolver)
+            return cmsUser?.roles ?? [];
+        try {
+            return await rolesResolver({ user, dataSource });
+        } catch (e) {
+            console.error("Error resolving the roles of the user", e);
+            return [];
+        }
+    }
+
     function skipLogin() {
         setNotAllowedError(false);
         setLoginSkipped(true);
@@ -186,6 +264,7 @@ export const useAuthHandler = (
                 setNotAllowedError(false);
                 setLoginSkipped(false);
                 setLoggedUser(null);
+                setRoles([]);
                 setAuthProviderError(null);
             });
     }
@@ -195,12 +274,14 @@ export const useAuthHandler = (
 
     return {
         loggedUser,
+        roles,
         authProviderError,
         setAuthProviderError,
         authLoading,
         setAuthLoading,
         loginSkipped,
         notAllowedError,
+        emailVerificationSent,
         skipLogin,
         signOut,
         canAccessMainView,
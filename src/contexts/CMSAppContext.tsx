@@ -1,10 +1,14 @@
-import React, { useContext } from "react";
-import { Navigation } from "../models";
+import React, { useContext, useState } from "react";
+import { DataSource, Navigation } from "../models";
 import {
     SchemasRegistryController,
     useSchemasRegistry
 } from "./SchemaRegistry";
 import { CMSAppProviderProps } from "../core/CMSAppProvider";
+import { Snackbar } from "@material-ui/core";
+import MuiAlert from "@material-ui/lab/Alert/Alert";
+import { buildTranslate } from "../i18n";
+import { matchContentLocale } from "../models/localization";
 
 
 /**
@@ -17,14 +21,29 @@ export interface CMSAppContext {
     schemasRegistryController: SchemasRegistryController;
     cmsAppConfig: CMSAppProviderProps;
     firebaseConfig: Object;
+    dataSource: DataSource;
     theme: any;
+    /**
+     * Locale in which localized properties are displayed in tables and
+     * previews, from the `localization` config
+     */
+    contentLocale?: string;
+    setContentLocale: (locale: string) => void;
+    /**
+     * Called when the audit record of a write made from the CMS can't be
+     * saved. The CMS displays an error until the user closes it
+     */
+    onAuditLogError?: (error: Error) => void;
 }
 
 const CMSAppContextInstance = React.createContext<CMSAppContext>({
     schemasRegistryController: {} as any,
     cmsAppConfig: {} as any,
     theme: {} as any,
-    firebaseConfig: {}
+    firebaseConfig: {},
+    dataSource: {} as any,
+    setContentLocale: () => {
+    }
 });
 
 /**
@@ -46,6 +65,7 @@ interface CMSAppContextProps {
     cmsAppConfig: CMSAppProviderProps;
     children: React.ReactNode;
     firebaseConfig: Object;
+    dataSource: DataSource;
     navigation?: Navigation;
     navigationLoadingError?: Error;
     theme: any;
@@ -54,6 +74,7 @@ interface CMSAppContextProps {
 export const CMSAppContextProvider: React.FC<CMSAppContextProps> = ({
                                                                         children,
                                                                         firebaseConfig,
+                                                                        dataSource,
                                                                         cmsAppConfig,
                                                                         navigation,
                                                                         navigationLoadingError,
@@ -61,19 +82,41 @@ export const CMSAppContextProvider: React.FC<CMSAppContextProps> = ({
                                                                     }) => {
 
     const schemasRegistryController = useSchemasRegistry();
+    // the locale of the CMS, if it is one of the content locales
+    const [contentLocale, setContentLocale] = useState<string | undefined>(
+        () => matchContentLocale(cmsAppConfig.locale, cmsAppConfig.localization)
+    );
+    // displayed apart from the other snackbars, so the success message of
+    // the write doesn't replace it
+    const [auditLogError, setAuditLogError] = useState<Error | undefined>();
 
     return (
         <CMSAppContextInstance.Provider
             value={{
                 cmsAppConfig,
                 firebaseConfig,
+                dataSource,
                 navigation,
                 navigationLoadingError,
                 schemasRegistryController,
-                theme
+                theme,
+                contentLocale,
+                setContentLocale,
+                onAuditLogError: setAuditLogError
             }}
         >
             {children}
+
+            <Snackbar open={Boolean(auditLogError)}
+                      anchorOrigin={{ vertical: "top", horizontal: "center" }}>
+                <MuiAlert elevation={1}
+                          variant="filled"
+                          onClose={() => setAuditLogError(undefined)}
+                          severity={"error"}>
+                    <div>{buildTranslate(cmsAppConfig.locale, cmsAppConfig.translations)("auditLogError")}</div>
+                    {auditLogError?.message && <div>{auditLogError.message}</div>}
+                </MuiAlert>
+            </Snackbar>
         </CMSAppContextInstance.Provider>
     );
 };
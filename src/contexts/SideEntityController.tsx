@@ -137,8 +137,11 @@ export const SideEntityProvider: React.FC<SideEntityProviderProps> = ({
         if (locationPanels && locationPanels.length > 0) {
             history.go(-1);
         } else {
-            const newPath = getCMSPathFrom(lastSidePanel.collectionPath);
-            history.replace(newPath);
+            // keep the state of the collection, stored in the query params
+            history.replace({
+                pathname: getCMSPathFrom(lastSidePanel.collectionPath),
+                search: location.search
+            });
         }
 
     };
@@ -190,7 +193,7 @@ export const SideEntityProvider: React.FC<SideEntityProviderProps> = ({
                 selectedSubpath
             };
             history.replace(
-                getEntityPath(entityId, collectionPath, selectedSubpath),
+                withSearch(getEntityPath(entityId, collectionPath, selectedSubpath), mainLocation.search),
                 {
                     main_location: mainLocation,
                     panels: [...sidePanels.slice(0, -1), updatedPanel]
@@ -206,7 +209,7 @@ export const SideEntityProvider: React.FC<SideEntityProviderProps> = ({
                 selectedSubpath
             };
             history.push(
-                newPath,
+                withSearch(newPath, mainLocation.search),
                 {
                     main_location: mainLocation,
                     panels: [...sidePanels, newPanel]
@@ -228,6 +231,19 @@ export const SideEntityProvider: React.FC<SideEntityProviderProps> = ({
     );
 };
 
+/**
+ * Keep the query params of the main location, which hold the state of the
+ * collection, in the URL of the side panels
+ */
+function withSearch(path: string, search?: string): string {
+    if (!search)
+        return path;
+    const hashIndex = path.indexOf("#");
+    return hashIndex < 0
+        ? path + search
+        : path.substring(0, hashIndex) + search + path.substring(hashIndex);
+}
+
 function buildSidePanelsFromUrl(path: string, allCollections: EntityCollection[], newFlag: boolean): ExtendedPanelProps[] {
 
     const navigationViewsForPath: NavigationViewEntry<any>[] = getNavigationEntriesFromPathInternal({
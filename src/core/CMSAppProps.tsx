@@ -4,13 +4,19 @@ import "firebase/auth";
 import "firebase/storage";
 import "firebase/firestore";
 import {
+    AuditLogConfig,
     Authenticator,
+    DataSource,
     EntityCollection,
     Locale,
+    LocalizationConfig,
     Navigation,
     NavigationBuilder,
-    SchemaResolver
+    RolesResolver,
+    SchemaResolver,
+    UserManagementConfig
 } from "../models";
+import { Translations } from "../i18n";
 
 /**
  * Main entry point that defines the CMS configuration
@@ -47,6 +53,29 @@ export interface CMSAppProps {
      */
     authentication?: boolean | Authenticator;
 
+    /**
+     * Resolve the roles of the logged user, e.g. from custom claims with
+     * `rolesFromCustomClaims()` or from a collection with
+     * `rolesFromCollection()`. Roles are available in permission builders,
+     * `useRoles` and the `AuthController`
+     */
+    roles?: RolesResolver;
+
+    /**
+     * Enable the built-in user management. Only the users stored in the users
+     * collection can log in, their roles are read from it (unless you set a
+     * `roles` resolver), and admins get a "Users" view where they can invite
+     * users, assign roles and disable access
+     */
+    userManagement?: UserManagementConfig;
+
+    /**
+     * Enable the audit log. Every entity saved or deleted from the CMS
+     * appends a record with the user, operation and changed fields to the
+     * audit log collection, and admins get a read-only "Audit log" view
+     */
+    auditLog?: AuditLogConfig;
+
     /**
      * List of sign in options that will be displayed in the login
      * view if `authentication` is enabled. You can pass google providers strings,
@@ -104,10 +133,25 @@ export interface CMSAppProps {
     dateTimeFormat?: string;
 
     /**
-     * Locale of the CMS, currently only affecting dates
+     * Locale of the CMS, used for the language of the user interface and
+     * the format of dates. Languages without a bundled translation
+     * fall back to English
      */
     locale?: Locale;
 
+    /**
+     * Strings of the user interface replacing the ones bundled with the
+     * CMS for the current locale, e.g. `{ save: "Submit" }`
+     */
+    translations?: Partial<Translations>;
+
+    /**
+     * Locales of the content of localized properties, and the fallbacks
+     * used when a value is missing. Users can switch the locale displayed
+     * in tables and previews from the main toolbar
+     */
+    localization?: LocalizationConfig;
+
     /**
      * Used to override schemas based on the collection path and entityId.
      * This resolver allows to override the schema for specific entities, or
@@ -116,5 +160,11 @@ export interface CMSAppProps {
      * You can also override schemas in place, when using `useSideEntityController`
      */
     schemaResolver?: SchemaResolver;
+
+    /**
+     * Connector in charge of reading and writing the entities of the CMS.
+     * Defaults to a Firestore data source, using the initialised Firebase app.
+     */
+    dataSource?: DataSource;
 }
 
@@ -1,4 +1,4 @@
-import React, { PropsWithChildren, useEffect } from "react";
+import React, { PropsWithChildren, useEffect, useMemo } from "react";
 
 import firebase from "firebase/app";
 import "firebase/analytics";
@@ -7,13 +7,22 @@ import "firebase/storage";
 import "firebase/firestore";
 
 import {
+    AuditLogConfig,
     Authenticator,
+    CMSView,
+    DataSource,
     EntityCollection,
+    FirestoreDataSource,
     Locale,
+    LocalizationConfig,
     Navigation,
     NavigationBuilder,
-    SchemaResolver
+    RolesResolver,
+    SchemaResolver,
+    UserManagementConfig
 } from "../models";
+import { DEFAULT_ADMIN_ROLES } from "../models/user_management";
+import { buildTranslate, TranslateFunction, Translations } from "../i18n";
 import {
     AuthController,
     AuthProvider,
@@ -26,6 +35,8 @@ import { SideEntityProvider } from "../contexts/SideEntityController";
 import { BreadcrumbsProvider } from "../contexts/BreacrumbsContext";
 import { BrowserRouter as Router } from "react-router-dom";
 import { EntitySideDialogs } from "./internal/EntitySideDialogs";
+import { UsersView } from "./internal/UsersView";
+import { AuditLogView } from "./internal/AuditLogView";
 
 import { pink, red } from "@material-ui/core/colors";
 import { createMuiTheme } from "@material-ui/core";
@@ -55,6 +66,29 @@ export interface CMSAppProviderProps {
      */
     authentication?: boolean | Authenticator;
 
+    /**
+     * Resolve the roles of the logged user, e.g. from custom claims with
+     * `rolesFromCustomClaims()` or from a collection with
+     * `rolesFromCollection()`. Roles are available in permission builders,
+     * `useRoles` and the `AuthController`
+     */
+    roles?: RolesResolver;
+
+    /**
+     * Enable the built-in user management. Only the users stored in the users
+     * collection can log in, their roles are read from it (unless you set a
+     * `roles` resolver), and admins get a "Users" view where they can invite
+     * users, assign roles and disable access
+     */
+    userManagement?: UserManagementConfig;
+
+    /**
+     * Enable the audit log. Every entity saved or deleted from the CMS
+     * appends a record with the user, operation and changed fields to the
+     * audit log collection, and admins get a read-only "Audit log" view
+     */
+    auditLog?: AuditLogConfig;
+
     /**
      * List of sign in options that will be displayed in the login
      * view if `authentication` is enabled. You can pass google providers strings,
@@ -86,10 +120,25 @@ export interface CMSAppProviderProps {
     dateTimeFormat?: string;
 
     /**
-     * Locale of the CMS, currently only affecting dates
+     * Locale of the CMS, used for the language of the user interface and
+     * the format of dates. Languages without a bundled translation
+     * fall back to English
      */
     locale?: Locale;
 
+    /**
+     * Strings of the user interface replacing the ones bundled with the
+     * CMS for the current locale, e.g. `{ save: "Submit" }`
+     */
+    translations?: Partial<Translations>;
+
+    /**
+     * Locales of the content of localized properties, and the fallbacks
+     * used when a value is missing. Users can switch the locale displayed
+     * in tables and previews from the main toolbar
+     */
+    localization?: LocalizationConfig;
+
     /**
      * Primary color of the theme of the CMS
      */
@@ -106,6 +155,12 @@ export interface CMSAppProviderProps {
      * '"Roboto", "Helvetica", "Arial", sans-serif'
      */
     fontFamily?: string
+
+    /**
+     * Connector in charge of reading and writing the entities of the CMS.
+     * Defaults to a Firestore data source, using the initialised Firebase app.
+     */
+    dataSource?: DataSource;
 }
 
 /**
@@ -125,13 +180,20 @@ export function CMSAppProvider(props: PropsWithChildren<CMSAppProviderProps>) {
         children,
         navigation: navigationOrBuilder,
         authentication,
+        roles,
+        userManagement,
+        auditLog,
         firebaseConfig,
         schemaResolver,
         primaryColor,
         secondaryColor,
-        fontFamily
+        fontFamily,
+        locale,
+        translations
     } = props;
 
+    const dataSource = useMemo(() => props.dataSource ?? FirestoreDataSource(), [props.dataSource]);
+
 
     const mode: "light" | "dark" = "light";
     const theme = makeTheme({ mode, primaryColor, secondaryColor, fontFamily });
@@ -140,18 +202,22 @@ export function CMSAppProvider(props: PropsWithChildren<CMSAppProviderProps>) {
     const [navigationLoadingError, setNavigationLoadingError] = React.useState<Error | undefined>(undefined);
 
     const authController: AuthController = useAuthHandler({
-        authentication
+        authentication,
+        roles,
+        userManagement,
+        dataSource
     });
 
     useEffect(() => {
         if (!authController.canAccessMainView) {
             return;
         }
+        const t = buildTranslate(locale, translations);
         getNavigation(navigationOrBuilder, authController.loggedUser, authController)
             .then((result: Navigation) => {
-                setNavigation(result);
+                setNavigation(addBuiltInViews(result, t, userManagement, auditLog));
             }).catch(setNavigationLoadingError);
-    }, [authController.loggedUser, authController.canAccessMainView, navigationOrBuilder]);
+    }, [authController.loggedUser, authController.canAccessMainView, navigationOrBuilder, userManagement, auditLog, locale, translations]);
 
     return (
         <AuthProvider authController={authController}>
@@ -162,6 +228,7 @@ export function CMSAppProvider(props: PropsWithChildren<CMSAppProviderProps>) {
 
                     <CMSAppContextProvider cmsAppConfig={props}
                                            firebaseConfig={firebaseConfig}
+                                           dataSource={dataSource}
                                            navigation={navigation}
                                            navigationLoadingError={navigationLoadingError}
                                            theme={theme}>
@@ -199,6 +266,35 @@ async function getNavigation(navigationOrCollections: Navigation | NavigationBui
     }
 }
 
+function addBuiltInViews(navigation: Navigation,
+                         t: TranslateFunction,
+                         userManagement?: UserManagementConfig,
+                         auditLog?: AuditLogConfig): Navigation {
+    const views: CMSView[] = [];
+    if (userManagement)
+        views.push({
+            path: userManagement.path ?? "users",
+            name: t("usersView"),
+            description: t("usersViewDescription"),
+            roles: userManagement.adminRoles ?? DEFAULT_ADMIN_ROLES,
+            view: <UsersView config={userManagement}/>
+        });
+    if (auditLog)
+        views.push({
+            path: auditLog.path ?? "audit_log",
+            name: t("auditLogView"),
+            description: t("auditLogViewDescription"),
+            roles: auditLog.roles ?? DEFAULT_ADMIN_ROLES,
+            view: <AuditLogView config={auditLog}/>
+        });
+    if (views.length === 0)
+        return navigation;
+    return {
+        ...navigation,
+        views: [...(navigation.views ?? []), ...views]
+    };
+}
+
 const makeTheme = (
     { mode, primaryColor, secondaryColor, fontFamily }: {
         mode: "light" | "dark";
@@ -19,6 +19,7 @@ import "firebase/storage";
 import "firebase/firestore";
 import { CMSView, EntityCollection } from "../models";
 import { computeNavigation } from "./navigation";
+import { useAuthController, useCMSAppContext } from "../contexts";
 
 
 const drawerWidth = 280;
@@ -59,10 +60,12 @@ export function CMSDrawer({
                           }: CMSDrawerProps) {
 
     const classes = useStyles();
+    const authController = useAuthController();
+    const context = useCMSAppContext();
     const {
         navigationEntries,
         groups
-    } = computeNavigation(collections, cmsViews, false);
+    } = computeNavigation(collections, cmsViews, false, { authController, context });
 
     const ungroupedNavigationViews = Object.values(navigationEntries).filter(e => !e.group);
 
@@ -7,6 +7,8 @@ import { addInitialSlash, buildCollectionPath } from "./navigation";
 import CollectionRoute from "./internal/CollectionRoute";
 import CMSViewRoute from "./internal/CMSViewRoute";
 import HomeRoute from "./internal/HomeRoute";
+import { useAuthController, useCMSAppContext } from "../contexts";
+import { canAccessView, canRead } from "../util/permissions";
 
 export function CMSRouterSwitch({ collections, views }: {
     collections: EntityCollection[],
@@ -14,6 +16,8 @@ export function CMSRouterSwitch({ collections, views }: {
 }) {
 
     const location: any = useLocation();
+    const authController = useAuthController();
+    const context = useCMSAppContext();
     const mainLocation = location.state && location.state["main_location"] ? location.state["main_location"] : location;
 
     function buildCMSViewRoute(path: string, cmsView: CMSView) {
@@ -28,17 +32,20 @@ export function CMSRouterSwitch({ collections, views }: {
 
     let customRoutes: JSX.Element[] = [];
     if (views) {
-        views.forEach((cmsView) => {
-            if (Array.isArray(cmsView.path))
-                customRoutes.push(...cmsView.path.map(path => buildCMSViewRoute(path, cmsView)));
-            else
-                customRoutes.push(buildCMSViewRoute(cmsView.path, cmsView));
-        });
+        views
+            .filter((cmsView) => canAccessView(cmsView, authController))
+            .forEach((cmsView) => {
+                if (Array.isArray(cmsView.path))
+                    customRoutes.push(...cmsView.path.map(path => buildCMSViewRoute(path, cmsView)));
+                else
+                    customRoutes.push(buildCMSViewRoute(cmsView.path, cmsView));
+            });
     }
 
     return (
         <Switch location={mainLocation}>
-            {[...collections]
+            {collections
+                .filter((collection) => canRead(collection.permissions, authController, collection.relativePath, context))
                 // we reorder collections so that nested paths are included first
                 .sort((a, b) => b.relativePath.length - a.relativePath.length)
                 .map(entityCollection => (
@@ -12,6 +12,7 @@ import firebase from "firebase/app";
 import "firebase/auth";
 
 import { useAuthController } from "../contexts";
+import { useTranslation } from "../hooks";
 
 import * as firebaseui from "firebaseui";
 import "firebaseui/dist/firebaseui.css";
@@ -43,6 +44,7 @@ export function LoginView({
     const classes = useStyles();
 
     const authController = useAuthController();
+    const { t } = useTranslation();
 
     useEffect(() => {
         const ui = firebaseui.auth.AuthUI.getInstance() || new firebaseui.auth.AuthUI(firebase.auth());
@@ -72,9 +74,7 @@ export function LoginView({
                 errorView =
                     <>
                         <Box p={2}>
-                            You need to enable the corresponding login provider
-                            in
-                            your Firebase project
+                            {t("loginProviderNotEnabled")}
                         </Box>
 
                         {firebaseConfig &&
@@ -84,7 +84,7 @@ export function LoginView({
                                target="_blank">
                                 <Button variant="outlined"
                                         color="primary">
-                                    Open Firebase configuration
+                                    {t("openFirebaseConfiguration")}
                                 </Button>
                             </a>
                         </Box>}
@@ -120,7 +120,7 @@ export function LoginView({
             {skipLoginButtonEnabled &&
             <Box m={2}>
                 <Button onClick={authController.skipLogin}>
-                    Skip login
+                    {t("skipLogin")}
                 </Button>
             </Box>
             }
@@ -129,8 +129,12 @@ export function LoginView({
 
                 {authController.notAllowedError &&
                 <Box p={2}>
-                    It looks like you don't have access to the CMS, based
-                    on the specified Authenticator configuration
+                    {t("loginNotAllowed")}
+                </Box>}
+
+                {authController.emailVerificationSent &&
+                <Box p={2}>
+                    {t("loginEmailNotVerified")}
                 </Box>}
 
                 {buildErrorView()}
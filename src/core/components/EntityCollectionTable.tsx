@@ -1,15 +1,23 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
     Box,
     Button,
     IconButton,
+    MenuItem,
     Popover,
+    Select,
     Tooltip,
     Typography,
     useMediaQuery,
     useTheme
 } from "@material-ui/core";
-import { Add, Delete } from "@material-ui/icons";
+import {
+    Add,
+    Delete,
+    DeleteSweep,
+    Edit,
+    RestoreFromTrash
+} from "@material-ui/icons";
 
 
 import {
@@ -18,6 +26,10 @@ import {
     Entity,
     EntityCollection,
     EntitySchema,
+    FilterValues,
+    getDraftsPath,
+    getTrashPath,
+    restoreEntity,
     saveEntity
 } from "../../models";
 import CollectionTable from "../../collection/components/CollectionTable";
@@ -25,13 +37,18 @@ import CollectionTable from "../../collection/components/CollectionTable";
 import {
     useAuthController,
     useCMSAppContext,
-    useSideEntityController
+    useSideEntityController,
+    useSnackbarController
 } from "../../contexts";
+import { useTranslation } from "../../hooks";
 
 import CollectionRowActions
     from "../../collection/internal/CollectionRowActions";
 import DeleteEntityDialog from "../../collection/internal/DeleteEntityDialog";
+import BulkEditDialog from "../../collection/internal/BulkEditDialog";
+import DeepCopyDialog from "../../collection/internal/DeepCopyDialog";
 import ExportButton from "../../collection/internal/ExportButton";
+import ImportButton from "../../collection/internal/ImportButton";
 import {
     getSubcollectionColumnId,
     useColumnIds
@@ -39,15 +56,37 @@ import {
 
 import { canCreate, canDelete, canEdit } from "../../util/permissions";
 import {
+    CollectionTableState,
     OnCellValueChange,
     UniqueFieldValidator
 } from "../../collection/components/CollectionTableProps";
 import { checkUniqueField } from "../../models/firestore";
 import { Markdown } from "../../preview";
+import {
+    PublishingStatusChip,
+    usePublishingCounterparts
+} from "../internal/PublishingStatusChip";
+
+const PUBLISHING_STATUS_COLUMN_ID = "publishing_status";
+
+/**
+ * Entities displayed in the table of a schema with publishing config
+ */
+type PublishingView = "published" | "drafts" | "scheduled";
 
 type EntityCollectionProps<M extends { [Key: string]: any }> = {
     collectionPath: string;
     collectionConfig: EntityCollection<M>;
+    /**
+     * Filters, sort, text search and pagination applied when the table is
+     * mounted, replacing the initial filter and sort of the collection
+     */
+    initialState?: CollectionTableState<M>;
+    /**
+     * Callback when the user changes the filters, sort, text search or
+     * pagination of the table
+     */
+    onStateChange?(state: CollectionTableState<M>): void;
 }
 
 /**
@@ -64,12 +103,16 @@ type EntityCollectionProps<M extends { [Key: string]: any }> = {
  *
  * @param collectionPath
  * @param collectionConfig
+ * @param initialState
+ * @param onStateChange
  * @constructor
  * @category Core components
  */
 export default function EntityCollectionTable<M extends { [Key: string]: any }>({
                                                                                                    collectionPath,
-                                                                                                   collectionConfig
+                                                                                                   collectionConfig,
+                                                                                                   initialState,
+                                                                                                   onStateChange
                                                                                                }: EntityCollectionProps<M>
 ) {
 
@@ -85,17 +128,62 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
 
     const context = useCMSAppContext();
     const authController = useAuthController();
+    const snackbarController = useSnackbarController();
+    const { t } = useTranslation();
 
     const [deleteEntityClicked, setDeleteEntityClicked] = React.useState<Entity<M> | Entity<M>[] | undefined>(undefined);
     const [selectedEntities, setSelectedEntities] = useState<Entity<M>[]>([]);
+    const [bulkEditEntities, setBulkEditEntities] = useState<Entity<M>[] | undefined>(undefined);
+    const [deepCopyEntity, setDeepCopyEntity] = useState<Entity<M> | undefined>(undefined);
+
+    const publishing = collectionConfig.schema.publishing;
+    const [publishingView, setPublishingView] = useState<PublishingView>("published");
+    const showDrafts = publishingView !== "published";
+
+    const softDelete = collectionConfig.softDelete;
+    const trashPath = softDelete ? getTrashPath(collectionPath, softDelete) : undefined;
+    const [showTrash, setShowTrash] = useState<boolean>(false);
+    // entities moved to the trash can be restored, so their dependencies are
+    // only resolved when they are deleted permanently
+    const checkDependencies = !showDrafts && (!trashPath || showTrash);
+
+    // the publishing status of the displayed entities depends on their
+    // counterparts in the live or drafts collection
+    const [displayedEntities, setDisplayedEntities] = useState<Entity<M>[]>([]);
+    const publishingCounterparts = usePublishingCounterparts<M>({
+        entities: displayedEntities,
+        collectionPath,
+        schema: collectionConfig.schema,
+        isDraft: showDrafts
+    });
+
+    let tableCollectionPath = collectionPath;
+    if (trashPath && showTrash)
+        tableCollectionPath = trashPath;
+    else if (publishing && showDrafts)
+        tableCollectionPath = getDraftsPath(collectionPath, publishing);
+
+    // scheduled drafts are the ones with a publish date in the future
+    const scheduledProperty = publishingView === "scheduled" && !showTrash ? publishing?.publishAtProperty as Extract<keyof M, string> | undefined : undefined;
+    const tableState = scheduledProperty || showTrash ? undefined : initialState;
+    // the current date is taken every time the scheduled view is opened
+    const initialFilter: FilterValues<M> | undefined = useMemo(() => scheduledProperty
+            ? { [scheduledProperty]: [">", new Date()] } as FilterValues<M>
+            : (tableState ? tableState.filterValues : collectionConfig.initialFilter),
+        [scheduledProperty, publishingView, showTrash, tableState, collectionConfig.initialFilter]);
+    const initialSort: [Extract<keyof M, string>, "asc" | "desc"] | undefined = scheduledProperty
+        ? [scheduledProperty, "asc"]
+        : (tableState ? tableState.sort : collectionConfig.initialSort);
 
     const exportable = collectionConfig.exportable === undefined || collectionConfig.exportable;
+    const importable = Boolean(collectionConfig.importable) && canCreate(collectionConfig.permissions, authController, collectionPath, context);
     const inlineEditing = collectionConfig.inlineEditing === undefined || collectionConfig.inlineEditing;
 
     const selectionEnabled = collectionConfig.selectionEnabled === undefined || collectionConfig.selectionEnabled;
     const paginationEnabled = collectionConfig.pagination === undefined || Boolean(collectionConfig.pagination);
     const pageSize = typeof collectionConfig.pagination === "number" ? collectionConfig.pagination : undefined;
-    const displayedProperties = useColumnIds(collectionConfig, true);
+    const columnIds = useColumnIds(collectionConfig, true);
+    const displayedProperties = useMemo(() => publishing ? [PUBLISHING_STATUS_COLUMN_ID, ...columnIds] : columnIds, [columnIds]);
 
     const [anchorEl, setAnchorEl] = React.useState<HTMLElement | null>(null);
 
@@ -124,7 +212,23 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
         };
     }) ?? [];
 
-    const additionalColumns = [...collectionConfig.additionalColumns ?? [], ...subcollectionColumns];
+    const publishingColumns: AdditionalColumnDelegate<any>[] = publishing ? [{
+        id: PUBLISHING_STATUS_COLUMN_ID,
+        title: t("statusColumn"),
+        width: 140,
+        builder: (entity: Entity<any>) => (
+            <PublishingStatusChip entity={entity}
+                                  counterpart={entity.id in publishingCounterparts ? publishingCounterparts[entity.id] : null}
+                                  schema={collectionConfig.schema}
+                                  isDraft={showDrafts}
+                                  small={true}/>
+        )
+    }] : [];
+
+    // entities in the trash have no publishing status or subcollections to open
+    const additionalColumns = showTrash
+        ? collectionConfig.additionalColumns ?? []
+        : [...publishingColumns, ...collectionConfig.additionalColumns ?? [], ...subcollectionColumns];
 
     const onEntityClick = (entity: Entity<M>) => {
         sideEntityController.open({
@@ -156,11 +260,47 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
         setSelectedEntities([]);
     };
 
+    const toggleTrash = () => {
+        setSelectedEntities([]);
+        setShowTrash(!showTrash);
+    };
+
+    const onRestore = (entities: Entity<M>[]) => {
+        Promise.all(entities.map((entity) => restoreEntity({
+            entity,
+            collectionPath,
+            schema: collectionConfig.schema,
+            context,
+            history: collectionConfig.history,
+            user: authController.loggedUser,
+            onRestoreFailure: (e: Error) => snackbarController.open({
+                type: "error",
+                title: t("errorRestoring", { schema: collectionConfig.schema.name }),
+                message: e?.message
+            })
+        }))).then((results) => {
+            setSelectedEntities(selectedEntities.filter((e) => !entities.includes(e)));
+            if (results.some(Boolean))
+                snackbarController.open({
+                    type: "success",
+                    message: results.length > 1
+                        ? t("multipleRestored", {
+                            schema: collectionConfig.schema.name,
+                            count: results.filter(Boolean).length
+                        })
+                        : t("restored", { schema: collectionConfig.schema.name })
+                });
+        });
+    };
+
     const checkInlineEditing = (entity: Entity<any>) => {
+        if (showTrash)
+            return false;
         if (!canEdit(collectionConfig.permissions, entity, authController, collectionPath, context)) {
             return false;
         }
-        return inlineEditing;
+        // changes in publishing schemas need to go through drafts
+        return inlineEditing && !publishing;
     };
 
     const onCellChanged: OnCellValueChange<any, M> = ({
@@ -182,7 +322,9 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
             onSaveFailure: ((e: Error) => {
                 setError(e);
             }),
-            context
+            context,
+            history: collectionConfig.history,
+            user: authController.loggedUser
         }
     );
 
@@ -207,7 +349,7 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
                     e.stopPropagation();
                 } : undefined}
             >
-                {`${collectionConfig.name}`}
+                {showTrash ? t("collectionTrash", { name: collectionConfig.name }) : `${collectionConfig.name}`}
             </Typography>
             <Typography
                 style={{
@@ -220,7 +362,7 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
                 }}
                 variant={"caption"}
                 color={"textSecondary"}>
-                {`/${collectionPath}`}
+                {`/${tableCollectionPath}`}
             </Typography>
 
             {collectionConfig.description &&
@@ -268,7 +410,7 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
                                                             value,
                                                             property,
                                                             entityId
-                                                        }) => checkUniqueField(collectionPath, name, value, property, entityId);
+                                                        }) => checkUniqueField(collectionPath, name, value, property, entityId, context.dataSource);
 
     const tableRowActionsBuilder = ({
                                         entity,
@@ -308,6 +450,23 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
             overrideSchemaResolver: false
         });
 
+        const deepCopyEnabled = createEnabled && !publishing && !showDrafts
+            && Boolean(collectionConfig.subcollections?.length);
+
+        if (showTrash) {
+            return (
+                <CollectionRowActions
+                    entity={entity}
+                    isSelected={isSelected}
+                    selectionEnabled={selectionEnabled}
+                    size={size}
+                    toggleEntitySelection={toggleEntitySelection}
+                    onRestoreClicked={createEnabled ? (entity) => onRestore([entity]) : undefined}
+                    onDeleteClicked={deleteEnabled ? setDeleteEntityClicked : undefined}
+                />
+            );
+        }
+
         return (
             <CollectionRowActions
                 entity={entity}
@@ -317,6 +476,7 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
                 toggleEntitySelection={toggleEntitySelection}
                 onEditClicked={onEditClicked}
                 onCopyClicked={editEnabled ? onCopyClicked : undefined}
+                onDeepCopyClicked={deepCopyEnabled ? setDeepCopyEntity : undefined}
                 onDeleteClicked={deleteEnabled ? setDeleteEntityClicked : undefined}
             />
         );
@@ -325,17 +485,24 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
 
     function toolbarActionsBuilder({
                                        size,
-                                       data
-                                   }: { size: CollectionSize, data: Entity<any>[] }) {
-
-        const addButton = canCreate(collectionConfig.permissions, authController, collectionPath, context) && onNewClick && (largeLayout ?
+                                       data,
+                                       filterValues,
+                                       sort
+                                   }: {
+        size: CollectionSize,
+        data: Entity<any>[],
+        filterValues?: FilterValues<M>,
+        sort?: [Extract<keyof M, string>, "asc" | "desc"]
+    }) {
+
+        const addButton = !showTrash && canCreate(collectionConfig.permissions, authController, collectionPath, context) && onNewClick && (largeLayout ?
             <Button
                 onClick={onNewClick}
                 startIcon={<Add/>}
                 size="large"
                 variant="contained"
                 color="primary">
-                Add {collectionConfig.schema.name}
+                {t("addEntity", { schema: collectionConfig.schema.name })}
             </Button>
             : <Button
                 onClick={onNewClick}
@@ -354,7 +521,7 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
         const multipleDeleteButton = selectionEnabled &&
 
             <Tooltip
-                title={multipleDeleteEnabled ? "Multiple delete" : "You have selected one entity you cannot delete"}>
+                title={multipleDeleteEnabled ? t("multipleDelete") : t("cannotDeleteSelected")}>
                 <span>
                     {largeLayout && <Button
                         disabled={!(selectedEntities?.length) || !multipleDeleteEnabled}
@@ -375,6 +542,36 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
                 </span>
             </Tooltip>;
 
+        // changes in publishing schemas need to go through drafts
+        const multipleEditEnabled = selectedEntities.every((entity) => canEdit(collectionConfig.permissions, entity, authController, collectionPath, context));
+        const onMultipleEditClick = (event: React.MouseEvent) => {
+            event.stopPropagation();
+            setBulkEditEntities(selectedEntities);
+        };
+        const multipleEditButton = selectionEnabled && !showTrash && !publishing &&
+
+            <Tooltip
+                title={multipleEditEnabled ? t("bulkEdit") : t("cannotEditSelected")}>
+                <span>
+                    {largeLayout && <Button
+                        disabled={!(selectedEntities?.length) || !multipleEditEnabled}
+                        startIcon={<Edit/>}
+                        onClick={onMultipleEditClick}
+                        color={"primary"}
+                    >
+                        <p style={{ minWidth: 24 }}>({selectedEntities?.length})</p>
+                    </Button>}
+
+                    {!largeLayout &&
+                    <IconButton
+                        color={"primary"}
+                        disabled={!(selectedEntities?.length) || !multipleEditEnabled}
+                        onClick={onMultipleEditClick}>
+                        <Edit/>
+                    </IconButton>}
+                </span>
+            </Tooltip>;
+
         const extraActions = collectionConfig.extraActions ? collectionConfig.extraActions({
             collectionPath: collectionPath,
             collection: collectionConfig,
@@ -385,12 +582,64 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
         const exportButton = exportable &&
             <ExportButton schema={collectionConfig.schema}
                           exportConfig={typeof collectionConfig.exportable === "object" ? collectionConfig.exportable : undefined}
+                          filterValues={filterValues}
+                          sort={sort}
+                          selectedEntities={selectionEnabled ? selectedEntities : undefined}
+                          collectionPath={tableCollectionPath}/>;
+
+        const importButton = importable && !showTrash &&
+            <ImportButton schema={collectionConfig.schema}
+                          importConfig={typeof collectionConfig.importable === "object" ? collectionConfig.importable : undefined}
+                          history={collectionConfig.history}
                           collectionPath={collectionPath}/>;
 
+        const publishingViewSelect = publishing && !showTrash &&
+            <Select
+                value={publishingView}
+                onChange={(evt: any) => setPublishingView(evt.target.value)}>
+                <MenuItem value={"published"}>{t("publishedEntities")}</MenuItem>
+                <MenuItem value={"drafts"}>{t("draftEntities")}</MenuItem>
+                {publishing.publishAtProperty &&
+                <MenuItem value={"scheduled"}>{t("scheduledEntities")}</MenuItem>}
+            </Select>;
+
+        const trashButton = trashPath &&
+            <Tooltip title={showTrash ? t("backToCollection") : t("deletedEntities")}>
+                <Button
+                    onClick={toggleTrash}
+                    startIcon={<DeleteSweep/>}
+                    variant={showTrash ? "outlined" : "text"}
+                    color={"primary"}>
+                    {t("trash")}
+                </Button>
+            </Tooltip>;
+
+        const multipleRestoreEnabled = canCreate(collectionConfig.permissions, authController, collectionPath, context);
+        const multipleRestoreButton = showTrash && selectionEnabled &&
+            <Tooltip title={t("restoreSelected")}>
+                <span>
+                    <Button
+                        disabled={!(selectedEntities?.length) || !multipleRestoreEnabled}
+                        startIcon={<RestoreFromTrash/>}
+                        onClick={(event: React.MouseEvent) => {
+                            event.stopPropagation();
+                            onRestore(selectedEntities);
+                        }}
+                        color={"primary"}>
+                        {t("restore")}
+                    </Button>
+                </span>
+            </Tooltip>;
+
         return (
             <>
+                {publishingViewSelect}
+                {trashButton}
                 {extraActions}
+                {multipleRestoreButton}
+                {multipleEditButton}
                 {multipleDeleteButton}
+                {importButton}
                 {exportButton}
                 {addButton}
             </>
@@ -401,34 +650,63 @@ export default function EntityCollectionTable<M extends { [Key: string]: any }>(
         <>
 
             <CollectionTable
+                key={`collection_table_${collectionPath}_${publishingView}${showTrash ? "_trash" : ""}`}
                 title={title}
                 frozenIdColumn={largeLayout}
-                collectionPath={collectionPath}
+                collectionPath={tableCollectionPath}
                 schema={collectionConfig.schema}
                 additionalColumns={additionalColumns}
                 defaultSize={collectionConfig.defaultSize}
                 displayedProperties={displayedProperties}
-                initialFilter={collectionConfig.initialFilter}
-                initialSort={collectionConfig.initialSort}
+                initialFilter={initialFilter}
+                initialSort={initialSort}
+                initialSearchString={tableState?.searchString}
+                initialItemCount={tableState?.itemCount}
+                onStateChange={showTrash ? undefined : onStateChange}
+                onEntitiesDisplayed={publishing && !showTrash ? setDisplayedEntities : undefined}
+                savedViews={collectionConfig.savedViews ?? []}
                 textSearchDelegate={collectionConfig.textSearchDelegate}
                 paginationEnabled={paginationEnabled}
                 pageSize={pageSize}
                 indexes={collectionConfig.indexes}
                 inlineEditing={checkInlineEditing}
                 uniqueFieldValidator={uniqueFieldValidator}
-                onEntityClick={onEntityClick}
+                onEntityClick={showTrash ? undefined : onEntityClick}
                 onCellValueChange={onCellChanged}
                 tableRowActionsBuilder={tableRowActionsBuilder}
                 toolbarActionsBuilder={toolbarActionsBuilder}
             />
 
             <DeleteEntityDialog entityOrEntitiesToDelete={deleteEntityClicked}
-                                collectionPath={collectionPath}
+                                collectionPath={tableCollectionPath}
                                 schema={collectionConfig.schema}
+                                trashPath={trashPath && !showDrafts && !showTrash ? trashPath : undefined}
+                                purge={showTrash}
+                                liveCollectionPath={collectionPath}
+                                checkDependencies={checkDependencies}
+                                subcollections={collectionConfig.subcollections}
                                 open={!!deleteEntityClicked}
                                 onEntityDelete={internalOnEntityDelete}
                                 onMultipleEntitiesDelete={internalOnMultipleEntitiesDelete}
                                 onClose={() => setDeleteEntityClicked(undefined)}/>
+
+            {bulkEditEntities &&
+            <BulkEditDialog open={true}
+                            entities={bulkEditEntities}
+                            collectionPath={collectionPath}
+                            schema={collectionConfig.schema}
+                            history={collectionConfig.history}
+                            onEntitiesEdited={() => setSelectedEntities([])}
+                            onClose={() => setBulkEditEntities(undefined)}/>}
+
+            {deepCopyEntity && collectionConfig.subcollections &&
+            <DeepCopyDialog entity={deepCopyEntity}
+                            collectionPath={collectionPath}
+                            schema={collectionConfig.schema}
+                            subcollections={collectionConfig.subcollections}
+                            history={collectionConfig.history}
+                            onEntityCopied={onEntityClick}
+                            onClose={() => setDeepCopyEntity(undefined)}/>}
         </>
     );
 }
@@ -24,7 +24,8 @@ import PreviewComponent from "../../preview/PreviewComponent";
 import OpenInNewIcon from "@material-ui/icons/OpenInNew";
 import { getIconForProperty, getIdIcon } from "../../util/property_icons";
 import ErrorBoundary from "../internal/ErrorBoundary";
-import { useCMSAppContext } from "../../contexts";
+import { useAuthController, useCMSAppContext } from "../../contexts";
+import { canReadProperty } from "../../util/permissions";
 import { CMSAppContext } from "../../contexts/CMSAppContext";
 
 export const useStyles = makeStyles((theme: Theme) =>
@@ -67,6 +68,8 @@ export default function EntityPreview<M extends { [Key: string]: any }>(
     const classes = useStyles();
 
     const appConfig: CMSAppContext | undefined = useCMSAppContext();
+    const authController = useAuthController();
+
     return (
         <TableContainer>
             <Table aria-label="entity table">
@@ -105,6 +108,8 @@ export default function EntityPreview<M extends { [Key: string]: any }>(
                     {schema && Object.entries(schema.properties).map(([key, propertyOrBuilder]) => {
                         const value = (entity.values as any)[key];
                         const property: Property = buildPropertyFrom(propertyOrBuilder as PropertyOrBuilder<any, M>, entity.values, entity.id);
+                        if (!canReadProperty(property, authController))
+                            return null;
                         return (
                             <TableRow
                                 key={"entity_prev" + property.title + key}>
@@ -1,9 +1,4 @@
-import {
-    CollectionSize,
-    Entity,
-    EntityCollection,
-    fetchEntity
-} from "../../models";
+import { CollectionSize, Entity, EntityCollection } from "../../models";
 import {
     Button,
     createStyles,
@@ -21,6 +16,7 @@ import CollectionTable from "../../collection/components/CollectionTable";
 import CollectionRowActions
     from "../../collection/internal/CollectionRowActions";
 import { useColumnIds } from "../../collection/common";
+import { useCMSAppContext } from "../../contexts";
 
 
 export const useStyles = makeStyles(theme => createStyles({
@@ -105,6 +101,7 @@ export default function ReferenceDialog(
     }: ReferenceDialogProps) {
 
     const classes = useStyles();
+    const { dataSource } = useCMSAppContext();
 
     const schema = collection.schema;
     const textSearchDelegate = collection.textSearchDelegate;
@@ -121,7 +118,11 @@ export default function ReferenceDialog(
     useEffect(() => {
         if (selectedEntityIds) {
             Promise.all(
-                selectedEntityIds.map((id) => fetchEntity(collectionPath, id, schema)))
+                selectedEntityIds.map((id) => dataSource.fetchEntity({
+                    path: collectionPath,
+                    entityId: id,
+                    schema
+                })))
                 .then((entities) => {
                     setSelectedEntities(entities);
                 });
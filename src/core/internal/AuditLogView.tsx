@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from "react";
+import {
+    Box,
+    Button,
+    Chip,
+    makeStyles,
+    MenuItem,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Theme,
+    Typography
+} from "@material-ui/core";
+import { createStyles } from "@material-ui/styles";
+import { KeyboardDateTimePicker } from "@material-ui/pickers";
+import CalendarTodayIcon from "@material-ui/icons/CalendarToday";
+import format from "date-fns/format";
+import * as locales from "date-fns/locale";
+
+import {
+    AuditLogConfig,
+    AuditLogFilter,
+    AuditOperation,
+    AuditRecord,
+    Entity,
+    fetchAuditRecords
+} from "../../models";
+import { useCMSAppContext } from "../../contexts";
+import { useTranslation } from "../../hooks";
+import { TranslationKey } from "../../i18n";
+import { defaultDateFormat } from "../../util/dates";
+import ErrorView from "../components/ErrorView";
+import CircularProgressCenter from "./CircularProgressCenter";
+
+const PAGE_SIZE = 50;
+
+const operationLabels: Record<AuditOperation, TranslationKey> = {
+    create: "operationCreate",
+    update: "operationUpdate",
+    delete: "operationDelete"
+};
+
+const useStyles = makeStyles((theme: Theme) =>
+    createStyles({
+        root: {
+            padding: theme.spacing(3),
+            overflow: "auto",
+            height: "100%"
+        },
+        filters: {
+            display: "flex",
+            flexWrap: "wrap",
+            gap: theme.spacing(2),
+            marginBottom: theme.spacing(2)
+        },
+        filterField: {
+            minWidth: 220
+        },
+        chip: {
+            margin: theme.spacing(.25)
+        }
+    })
+);
+
+/**
+ * Read-only view of the records of the audit log, with filters by user,
+ * collection and date range
+ * @ignore
+ */
+export function AuditLogView({ config }: { config: AuditLogConfig }) {
+
+    const classes = useStyles();
+    const context = useCMSAppContext();
+    const { t } = useTranslation();
+
+    const [userEmail, setUserEmail] = useState<string>("");
+    const [filter, setFilter] = useState<AuditLogFilter>({});
+    const [records, setRecords] = useState<Entity<AuditRecord>[]>();
+    const [loading, setLoading] = useState<boolean>(false);
+    const [noMoreToLoad, setNoMoreToLoad] = useState<boolean>(false);
+    const [error, setError] = useState<Error>();
+
+    const dateUtilsLocale = context.cmsAppConfig.locale ? locales[context.cmsAppConfig.locale] : undefined;
+    const dateFormat: string = context.cmsAppConfig.dateTimeFormat ?? defaultDateFormat;
+
+    const collectionPaths = (context.navigation?.collections ?? [])
+        .map((collection) => collection.relativePath);
+
+    // wait for the user to stop typing before querying
+    useEffect(() => {
+        const handler = setTimeout(() => setFilter((current) => ({
+            ...current,
+            userEmail: userEmail.trim() || undefined
+        })), 500);
+        return () => clearTimeout(handler);
+    }, [userEmail]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setRecords(undefined);
+        setError(undefined);
+        setLoading(true);
+        fetchAuditRecords({
+            dataSource: context.dataSource,
+            config,
+            filter,
+            limit: PAGE_SIZE
+        })
+            .then((result) => {
+                if (cancelled) return;
+                setRecords(result);
+                setNoMoreToLoad(result.length < PAGE_SIZE);
+            })
+            .catch((e) => !cancelled && setError(e))
+            .finally(() => !cancelled && setLoading(false));
+        return () => {
+            cancelled = true;
+        };
+    }, [config, context.dataSource, filter]);
+
+    const loadMore = () => {
+        if (!records || records.length === 0) return;
+        setLoading(true);
+        fetchAuditRecords({
+            dataSource: context.dataSource,
+            config,
+            filter,
+            limit: PAGE_SIZE,
+            startAfter: records[records.length - 1]
+        })
+            .then((result) => {
+                setRecords([...records, ...result]);
+                setNoMoreToLoad(result.length < PAGE_SIZE);
+            })
+            .catch(setError)
+            .finally(() => setLoading(false));
+    };
+
+    return (
+        <Box className={classes.root}>
+
+            <Typography variant={"h6"} gutterBottom>
+                {t("auditLogView")}
+            </Typography>
+
+            <Box className={classes.filters}>
+                <TextField label={t("userEmail")}
+                           className={classes.filterField}
+                           value={userEmail}
+                           onChange={(evt) => setUserEmail(evt.target.value)}/>
+                <TextField select
+                           label={t("collection")}
+                           className={classes.filterField}
+                           value={filter.collectionPath ?? ""}
+                           onChange={(evt) => setFilter({
+                               ...filter,
+                               collectionPath: evt.target.value || undefined
+                           })}>
+                    <MenuItem value={""}>{t("allCollections")}</MenuItem>
+                    {collectionPaths.map((path) =>
+                        <MenuItem key={`collection_${path}`} value={path}>
+                            {path}
+                        </MenuItem>
+                    )}
+                </TextField>
+                <KeyboardDateTimePicker
+                    clearable
+                    label={t("dateFrom")}
+                    className={classes.filterField}
+                    keyboardIcon={<CalendarTodayIcon fontSize={"small"}/>}
+                    format={dateFormat}
+                    value={filter.from ?? null}
+                    onChange={(date) => setFilter({
+                        ...filter,
+                        from: date ?? undefined
+                    })}/>
+                <KeyboardDateTimePicker
+                    clearable
+                    label={t("dateTo")}
+                    className={classes.filterField}
+                    keyboardIcon={<CalendarTodayIcon fontSize={"small"}/>}
+                    format={dateFormat}
+                    value={filter.to ?? null}
+                    onChange={(date) => setFilter({
+                        ...filter,
+                        to: date ?? undefined
+                    })}/>
+            </Box>
+
+            {error && <ErrorView error={error.message}/>}
+
+            {!error && !records && <CircularProgressCenter/>}
+
+            {!error && records && records.length === 0 &&
+            <Typography variant={"body2"} color={"textSecondary"}>
+                {t("noRecords")}
+            </Typography>}
+
+            {!error && records && records.length > 0 &&
+            <TableContainer component={Paper} variant={"outlined"}>
+                <Table size={"small"}>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>{t("date")}</TableCell>
+                            <TableCell>{t("user")}</TableCell>
+                            <TableCell>{t("operation")}</TableCell>
+                            <TableCell>{t("collection")}</TableCell>
+                            <TableCell>{t("entityId")}</TableCell>
+                            <TableCell>{t("changedFields")}</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {records.map((record) => {
+                            const values = record.values;
+                            return (
+                                <TableRow key={`audit_${record.id}`}>
+                                    <TableCell>
+                                        {values.timestamp
+                                            ? format(values.timestamp, dateFormat, { locale: dateUtilsLocale })
+                                            : "-"}
+                                    </TableCell>
+                                    <TableCell>{values.user_email ?? values.user_uid ?? "-"}</TableCell>
+                                    <TableCell>{operationLabels[values.operation] ? t(operationLabels[values.operation]) : values.operation}</TableCell>
+                                    <TableCell>{values.collection_path}</TableCell>
+                                    <TableCell className={"mono"}>{values.entity_id}</TableCell>
+                                    <TableCell>
+                                        {(values.changed_fields ?? []).map((field) =>
+                                            <Chip key={`field_${field}`}
+                                                  size={"small"}
+                                                  className={classes.chip}
+                                                  label={field}/>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })}
+                    </TableBody>
+                </Table>
+            </TableContainer>}
+
+            {!error && records && records.length > 0 && !noMoreToLoad &&
+            <Box display={"flex"} justifyContent={"center"} mt={2}>
+                <Button color={"primary"}
+                        disabled={loading}
+                        onClick={loadMore}>
+                    {t("loadMore")}
+                </Button>
+            </Box>}
+
+        </Box>
+    );
+}
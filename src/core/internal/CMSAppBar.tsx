@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import {
     AppBar,
     Avatar,
@@ -12,6 +12,8 @@ import {
     IconButton,
     Link,
     makeStyles,
+    Menu,
+    MenuItem,
     Slide,
     Theme,
     Toolbar,
@@ -19,8 +21,13 @@ import {
 } from "@material-ui/core";
 import MenuIcon from "@material-ui/icons/Menu";
 import NavigateNextIcon from "@material-ui/icons/NavigateNext";
+import TranslateIcon from "@material-ui/icons/Translate";
 import { Link as ReactLink } from "react-router-dom";
-import { useAuthController, useBreadcrumbsContext } from "../../contexts";
+import {
+    useAuthController,
+    useBreadcrumbsContext,
+    useCMSAppContext
+} from "../../contexts";
 import ErrorBoundary from "./ErrorBoundary";
 
 const useStyles = makeStyles((theme: Theme) =>
@@ -128,6 +135,8 @@ export const CMSAppBar: React.FunctionComponent<CMSAppBarProps> = ({
                         }
                     </ErrorBoundary>}
 
+                    <ContentLocaleMenu/>
+
                     <Box p={1} mr={1}>
                         {authController.loggedUser && authController.loggedUser.photoURL ?
                             <Avatar
@@ -148,3 +157,42 @@ export const CMSAppBar: React.FunctionComponent<CMSAppBarProps> = ({
         </Slide>
     );
 };
+
+/**
+ * Select the locale in which localized properties are displayed, if the
+ * CMS has more than one
+ */
+function ContentLocaleMenu() {
+
+    const { cmsAppConfig, contentLocale, setContentLocale } = useCMSAppContext();
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+    const locales = cmsAppConfig.localization?.locales;
+    if (!locales || locales.length < 2)
+        return null;
+
+    return (
+        <Box mr={1}>
+            <Button color="inherit"
+                    startIcon={<TranslateIcon/>}
+                    onClick={(e) => setAnchorEl(e.currentTarget)}>
+                {contentLocale}
+            </Button>
+            <Menu anchorEl={anchorEl}
+                  keepMounted
+                  open={Boolean(anchorEl)}
+                  onClose={() => setAnchorEl(null)}>
+                {locales.map((locale) =>
+                    <MenuItem key={`content_locale_${locale}`}
+                              selected={locale === contentLocale}
+                              onClick={() => {
+                                  setContentLocale(locale);
+                                  setAnchorEl(null);
+                              }}>
+                        {locale}
+                    </MenuItem>
+                )}
+            </Menu>
+        </Box>
+    );
+}
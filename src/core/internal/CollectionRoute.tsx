@@ -1,9 +1,12 @@
-import React from "react";
-import { EntityCollection, EntitySchema } from "../../models";
+import React, { useMemo } from "react";
+import { EntityCollection } from "../../models";
 import { createStyles, makeStyles } from "@material-ui/core";
-import { useRouteMatch } from "react-router-dom";
-import { useBreadcrumbsContext } from "../../contexts";
+import { useHistory, useLocation, useRouteMatch } from "react-router-dom";
+import { useBreadcrumbsContext, useCMSAppContext } from "../../contexts";
 import { EntityCollectionTable } from "../components/EntityCollectionTable";
+import { CollectionTableState } from "../../collection/components/CollectionTableProps";
+import { decodeCollectionUrlState, encodeCollectionUrlState } from "../url_state";
+import { SHARED_VIEW_PARAM } from "../../hooks/useSavedViews";
 
 export const useStyles = makeStyles(() =>
     createStyles({
@@ -37,6 +40,30 @@ function CollectionRoute<M extends { [Key: string]: any }>({
         });
     }, [url]);
 
+    // When side panels are open, this is the location of the main view
+    const location = useLocation();
+    const history = useHistory();
+    const { dataSource } = useCMSAppContext();
+
+    const initialState = useMemo(() => {
+        const state = decodeCollectionUrlState<M>(location.search, dataSource.buildReference);
+        return Object.keys(state).length > 0 ? state : undefined;
+    }, []);
+
+    const onStateChange = (state: CollectionTableState<M>) => {
+        const currentLocation: any = history.location;
+        const search = encodeCollectionUrlState(state, location.search, [SHARED_VIEW_PARAM]);
+        const mainLocation = currentLocation.state && currentLocation.state["main_location"];
+        history.replace({
+            pathname: currentLocation.pathname,
+            hash: currentLocation.hash,
+            search,
+            state: mainLocation
+                ? { ...currentLocation.state, main_location: { ...mainLocation, search } }
+                : currentLocation.state
+        });
+    };
+
     const classes = useStyles();
 
     return (
@@ -44,7 +71,9 @@ function CollectionRoute<M extends { [Key: string]: any }>({
 
             <EntityCollectionTable
                 collectionPath={collectionPath}
-                collectionConfig={collectionConfig}/>
+                collectionConfig={collectionConfig}
+                initialState={initialState}
+                onStateChange={onStateChange}/>
 
         </div>
     );
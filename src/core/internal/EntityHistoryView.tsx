@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from "react";
+import {
+    Box,
+    Button,
+    CircularProgress,
+    createStyles,
+    List,
+    ListItem,
+    ListItemText,
+    makeStyles,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    Theme,
+    Typography
+} from "@material-ui/core";
+import format from "date-fns/format";
+import * as locales from "date-fns/locale";
+
+import {
+    Entity,
+    EntityRevision,
+    EntitySchema,
+    fetchEntityRevisions,
+    getChangedProperties,
+    Properties,
+    Property
+} from "../../models";
+import { computeSchemaProperties } from "../../models/firestore";
+import { useCMSAppContext } from "../../contexts";
+import { useTranslation } from "../../hooks";
+import { defaultDateFormat } from "../../util/dates";
+import PreviewComponent from "../../preview/PreviewComponent";
+import ErrorBoundary from "./ErrorBoundary";
+import ErrorView from "../components/ErrorView";
+import CircularProgressCenter from "./CircularProgressCenter";
+
+const useStyles = makeStyles((theme: Theme) =>
+    createStyles({
+        root: {
+            display: "flex",
+            height: "100%"
+        },
+        revisions: {
+            width: "40%",
+            overflow: "auto",
+            borderRight: "1px solid #eeeeee"
+        },
+        diff: {
+            flexGrow: 1,
+            overflow: "auto",
+            padding: theme.spacing(2)
+        },
+        valueCell: {
+            width: "40%",
+            verticalAlign: "top"
+        }
+    })
+);
+
+interface EntityHistoryViewProps<M extends { [Key: string]: any }> {
+    entity: Entity<M>;
+    schema: EntitySchema<M>;
+    collectionPath: string;
+    onRestore: (revision: EntityRevision<M>) => Promise<void>;
+    readOnly?: boolean;
+}
+
+/**
+ * List of the stored revisions of an entity, with a property by property
+ * comparison with the previous revision
+ * @ignore
+ */
+export function EntityHistoryView<M extends { [Key: string]: any }>({
+                                                                        entity,
+                                                                        schema,
+                                                                        collectionPath,
+                                                                        onRestore,
+                                                                        readOnly
+                                                                    }: EntityHistoryViewProps<M>) {
+
+    const classes = useStyles();
+    const context = useCMSAppContext();
+    const { t } = useTranslation();
+
+    const [revisions, setRevisions] = useState<EntityRevision<M>[]>();
+    const [revisionsError, setRevisionsError] = useState<Error>();
+    const [selectedIndex, setSelectedIndex] = useState<number>(0);
+    const [restoring, setRestoring] = useState<boolean>(false);
+
+    const dateUtilsLocale = context.cmsAppConfig.locale ? locales[context.cmsAppConfig.locale] : undefined;
+    const dateFormat: string = context.cmsAppConfig.dateTimeFormat ?? defaultDateFormat;
+
+    useEffect(() => {
+        fetchEntityRevisions<M>({ entity, dataSource: context.dataSource })
+            .then((result) => {
+                setRevisions(result);
+                setRevisionsError(undefined);
+            })
+            .catch(setRevisionsError);
+    }, [entity, context.dataSource]);
+
+    if (revisionsError) {
+        return <ErrorView error={revisionsError.message}/>;
+    }
+
+    if (!revisions) {
+        return <CircularProgressCenter/>;
+    }
+
+    if (revisions.length === 0) {
+        return <Box m={3}>
+            {t("noRevisions", { schema: schema.name })}
+        </Box>;
+    }
+
+    const selectedRevision = revisions[selectedIndex];
+    const previousRevision = revisions[selectedIndex + 1];
+    const properties: Properties<M> = computeSchemaProperties(schema, collectionPath, entity.id, selectedRevision.values);
+    const changedProperties = getChangedProperties(properties, previousRevision?.values, selectedRevision.values);
+
+    const restore = () => {
+        setRestoring(true);
+        onRestore(selectedRevision)
+            .finally(() => setRestoring(false));
+    };
+
+    return (
+        <div className={classes.root}>
+
+            <List className={classes.revisions} dense>
+                {revisions.map((revision, index) => {
+                    const author = revision.author?.displayName ?? revision.author?.email;
+                    return (
+                        <ListItem
+                            key={`revision_${revision.id}`}
+                            button
+                            selected={index === selectedIndex}
+                            onClick={() => setSelectedIndex(index)}>
+                            <ListItemText
+                                primary={revision.savedOn ? format(revision.savedOn, dateFormat, { locale: dateUtilsLocale }) : revision.id}
+                                secondary={author ? `${author} (${revision.status})` : revision.status}/>
+                        </ListItem>
+                    );
+                })}
+            </List>
+
+            <div className={classes.diff}>
+
+                <Box display={"flex"} alignItems={"center"} mb={2}>
+                    <Box flexGrow={1}>
+                        <Typography variant={"subtitle2"}>
+                            {previousRevision ? t("changesFromPreviousVersion") : t("initialVersion")}
+                        </Typography>
+                    </Box>
+                    {!readOnly && <Button variant="outlined"
+                                          color="primary"
+                                          disabled={restoring}
+                                          onClick={restore}>
+                        {restoring ? <CircularProgress size={16}
+                                                       thickness={8}/> : t("restoreVersion")}
+                    </Button>}
+                </Box>
+
+                {changedProperties.length === 0 ?
+                    <Typography variant={"body2"} color={"textSecondary"}>
+                        {t("noChangesInVersion")}
+                    </Typography>
+                    :
+                    <Table size={"small"}>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>{t("property")}</TableCell>
+                                <TableCell>{t("valueBefore")}</TableCell>
+                                <TableCell>{t("valueAfter")}</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {changedProperties.map((key) => {
+                                const property = properties[key] as Property;
+                                return (
+                                    <TableRow key={`diff_${key as string}`}>
+                                        <TableCell>
+                                            <Typography variant={"caption"}
+                                                        color={"textSecondary"}>
+                                                {property.title ?? key}
+                                            </Typography>
+                                        </TableCell>
+                                        <TableCell className={classes.valueCell}>
+                                            <ErrorBoundary>
+                                                <PreviewComponent
+                                                    name={key as string}
+                                                    value={previousRevision?.values && (previousRevision.values as any)[key]}
+                                                    property={property}
+                                                    size={"small"}/>
+                                            </ErrorBoundary>
+                                        </TableCell>
+                                        <TableCell className={classes.valueCell}>
+                                            <ErrorBoundary>
+                                                <PreviewComponent
+                                                    name={key as string}
+                                                    value={(selectedRevision.values as any)[key]}
+                                                    property={property}
+                                                    size={"small"}/>
+                                            </ErrorBoundary>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                }
+            </div>
+        </div>
+    );
+}
@@ -21,10 +21,17 @@ import {
     EntityCollection,
     EntitySchema,
     EntityStatus,
+    EntityRevision,
     EntityValues,
-    listenEntity,
+    discardDraft,
+    getDraftsPath,
+    getPublishingStatus,
+    HISTORY_COLLECTION,
     PermissionsBuilder,
-    saveEntity
+    publishEntity,
+    saveDraft,
+    saveEntity,
+    unpublishEntity
 } from "../../models";
 import {
     useAuthController,
@@ -32,11 +39,12 @@ import {
     useSideEntityController,
     useSnackbarController
 } from "../../contexts";
+import { useSchemasRegistry } from "../../contexts/SchemaRegistry";
 import { EntityCollectionTable } from "../components/EntityCollectionTable";
 import { removeInitialSlash } from "../navigation";
 import CircularProgressCenter from "./CircularProgressCenter";
 import EntityPreview from "../components/EntityPreview";
-import { canEdit } from "../../util/permissions";
+import { canEdit, canRead } from "../../util/permissions";
 
 import {
     CONTAINER_FULL_WIDTH,
@@ -45,6 +53,8 @@ import {
     TAB_WIDTH_LG
 } from "./common";
 import ErrorBoundary from "./ErrorBoundary";
+import { EntityHistoryView } from "./EntityHistoryView";
+import { useTranslation } from "../../hooks";
 
 
 const useStylesSide = makeStyles((theme: Theme) =>
@@ -144,20 +154,26 @@ function EntityView<M extends { [Key: string]: any }>({
                                                           copy,
                                                           permissions,
                                                           schema,
-                                                          subcollections
+                                                          subcollections: allSubcollections
                                                       }: EntitySideViewProps<M>) {
 
     const classes = useStylesSide();
 
     const sideEntityController = useSideEntityController();
     const snackbarContext = useSnackbarController();
+    const { t } = useTranslation();
 
     const context = useCMSAppContext();
     const authController = useAuthController();
 
+    const subcollections = allSubcollections?.filter((subcollection) =>
+        canRead(subcollection.permissions, authController, `${collectionPath}/${entityId}/${removeInitialSlash(subcollection.relativePath)}`, context));
+
     const [entity, setEntity] = useState<Entity<M>>();
     const [status, setStatus] = useState<EntityStatus>(copy ? "copy" : (entityId ? "existing" : "new"));
     const [loading, setLoading] = useState<boolean>(true);
+    const [draftEntity, setDraftEntity] = useState<Entity<M>>();
+    const [draftLoading, setDraftLoading] = useState<boolean>(!!schema.publishing);
     const [readOnly, setReadOnly] = useState<boolean>(false);
     const [tabsPosition, setTabsPosition] = React.useState(-1);
 
@@ -165,27 +181,35 @@ function EntityView<M extends { [Key: string]: any }>({
     const [isModified, setModified] = useState(false);
     const [modifiedValues, setModifiedValues] = useState<EntityValues<any> | undefined>();
 
+    const publishing = schema.publishing;
+    const publishingStatus = publishing ? getPublishingStatus(entity, draftEntity) : undefined;
+
     const customViews = schema.views;
     const customViewsCount = customViews?.length ?? 0;
 
+    const schemasRegistry = useSchemasRegistry();
+    const historyEnabled = Boolean(schemasRegistry.getCollectionConfig(collectionPath)?.history);
+    const historyTabsCount = historyEnabled ? 1 : 0;
+
     const theme = useTheme();
     const largeLayout = useMediaQuery(theme.breakpoints.up("lg"));
 
     useEffect(() => {
         if (entityId) {
-            const cancelSubscription = listenEntity<M>(
-                collectionPath,
+            const cancelSubscription = context.dataSource.listenEntity<M>({
+                path: collectionPath,
                 entityId,
                 schema,
-                (e) => {
+                onUpdate: (e) => {
                     if (e) {
                         setStatus(copy ? "copy" : "existing");
                         setEntity(e);
                         setReadOnly(!canEdit(permissions, e, authController, collectionPath, context));
-                        console.debug("Updated entity from Firestore", e);
+                        console.debug("Updated entity from data source", e);
                     }
                     setLoading(false);
-                });
+                }
+            });
             return () => cancelSubscription();
         } else {
             setStatus("new");
@@ -195,6 +219,26 @@ function EntityView<M extends { [Key: string]: any }>({
         };
     }, [collectionPath, entityId]);
 
+    useEffect(() => {
+        if (publishing && entityId) {
+            const cancelSubscription = context.dataSource.listenEntity<M>({
+                path: getDraftsPath(collectionPath, publishing),
+                entityId,
+                schema,
+                onUpdate: (e) => {
+                    setDraftEntity(e?.values ? e : undefined);
+                    console.debug("Updated draft from data source", e);
+                    setDraftLoading(false);
+                }
+            });
+            return () => cancelSubscription();
+        } else {
+            setDraftLoading(false);
+        }
+        return () => {
+        };
+    }, [collectionPath, entityId]);
+
     useEffect(() => {
         if (!selectedSubpath)
             setTabsPosition(-1);
@@ -206,11 +250,16 @@ function EntityView<M extends { [Key: string]: any }>({
             setTabsPosition(index);
         }
 
+        if (historyEnabled && selectedSubpath === HISTORY_COLLECTION) {
+            setTabsPosition(customViewsCount);
+        }
+
         if (subcollections && selectedSubpath) {
             const index = subcollections
                 .map((c) => c.relativePath)
                 .findIndex((p) => p === selectedSubpath);
-            setTabsPosition(index + customViewsCount);
+            if (index >= 0)
+                setTabsPosition(index + customViewsCount + historyTabsCount);
         }
     }, [selectedSubpath]);
 
@@ -218,7 +267,7 @@ function EntityView<M extends { [Key: string]: any }>({
         function beforeunload(e: any) {
             if (isModified) {
                 e.preventDefault();
-                e.returnValue = `You have unsaved changes in this ${schema.name}. Are you sure you want to leave this page?`;
+                e.returnValue = t("unsavedChanges", { schema: schema.name });
             }
         }
 
@@ -241,7 +290,7 @@ function EntityView<M extends { [Key: string]: any }>({
         const onPreSaveHookError = (e: Error) => {
             snackbarContext.open({
                 type: "error",
-                title: "Error before saving",
+                title: t("errorBeforeSaving"),
                 message: e?.message
             });
             console.error(e);
@@ -250,7 +299,7 @@ function EntityView<M extends { [Key: string]: any }>({
         const onSaveSuccessHookError = (e: Error) => {
             snackbarContext.open({
                 type: "error",
-                title: `${schema.name}: Error after saving (entity is saved)`,
+                title: t("errorAfterSaving", { schema: schema.name }),
                 message: e?.message
             });
             console.error(e);
@@ -259,11 +308,14 @@ function EntityView<M extends { [Key: string]: any }>({
         const onSaveSuccess = (updatedEntity: Entity<M>) => {
 
             console.log("onSaveSuccess");
-            setEntity(updatedEntity);
+            if (publishing)
+                setDraftEntity(updatedEntity);
+            else
+                setEntity(updatedEntity);
 
             snackbarContext.open({
                 type: "success",
-                message: `${schema.name}: Saved correctly`
+                message: t(publishing ? "draftSaved" : "savedCorrectly", { schema: schema.name })
             });
 
             setStatus("existing");
@@ -278,7 +330,7 @@ function EntityView<M extends { [Key: string]: any }>({
 
             snackbarContext.open({
                 type: "error",
-                title: `${schema.name}: Error saving`,
+                title: t("errorSaving", { schema: schema.name }),
                 message: e?.message
             });
 
@@ -291,6 +343,19 @@ function EntityView<M extends { [Key: string]: any }>({
             return;
         }
 
+        if (publishing) {
+            return saveDraft({
+                collectionPath,
+                id,
+                values,
+                schema,
+                status,
+                context
+            })
+                .then(onSaveSuccess)
+                .catch(onSaveFailure);
+        }
+
         return saveEntity({
             collectionPath,
             id,
@@ -301,7 +366,123 @@ function EntityView<M extends { [Key: string]: any }>({
             onSaveFailure,
             onPreSaveHookError,
             onSaveSuccessHookError,
+            context,
+            history: historyEnabled,
+            user: authController.loggedUser
+        });
+    }
+
+    function onPublish(id: string | undefined, values: EntityValues<M>): Promise<void> {
+        return publishEntity({
+            collectionPath,
+            id,
+            values,
+            schema,
+            status,
+            onPublishSuccess: (publishedEntity: Entity<M>) => {
+                setEntity(publishedEntity);
+                setDraftEntity(undefined);
+                setStatus("existing");
+                setModified(false);
+                snackbarContext.open({
+                    type: "success",
+                    message: t("published", { schema: schema.name })
+                });
+                if (tabsPosition === -1)
+                    sideEntityController.close();
+            },
+            onPublishFailure: (e: Error) => {
+                snackbarContext.open({
+                    type: "error",
+                    title: t("errorPublishing", { schema: schema.name }),
+                    message: e?.message
+                });
+                console.error(e);
+            },
+            onPrePublishHookError: (e: Error) => {
+                snackbarContext.open({
+                    type: "error",
+                    title: t("errorBeforePublishing"),
+                    message: e?.message
+                });
+                console.error(e);
+            },
+            onPublishHookError: (e: Error) => {
+                snackbarContext.open({
+                    type: "error",
+                    title: t("errorAfterPublishing", { schema: schema.name }),
+                    message: e?.message
+                });
+                console.error(e);
+            },
+            context,
+            history: historyEnabled,
+            user: authController.loggedUser
+        });
+    }
+
+    function onUnpublish(): Promise<void> {
+        if (!entity)
+            return Promise.resolve();
+        return unpublishEntity({
+            entity,
+            collectionPath,
+            schema,
+            context,
+            user: authController.loggedUser
+        }).then(() => snackbarContext.open({
+            type: "success",
+            message: t("unpublished", { schema: schema.name })
+        }));
+    }
+
+    function onDiscardDraft(): Promise<void> {
+        const draftId = draftEntity?.id ?? entityId;
+        if (!draftId)
+            return Promise.resolve();
+        const neverPublished = publishingStatus === "draft";
+        return discardDraft({
+            entityId: draftId,
+            collectionPath,
+            schema,
             context
+        }).then(() => {
+            snackbarContext.open({
+                type: "success",
+                message: t("draftDiscarded", { schema: schema.name })
+            });
+            setModified(false);
+            if (neverPublished)
+                sideEntityController.close();
+        });
+    }
+
+    function onRevisionRestore(revision: EntityRevision<M>): Promise<void> {
+        if (!entity)
+            return Promise.resolve();
+        return saveEntity({
+            collectionPath,
+            id: entity.id,
+            values: revision.values,
+            schema,
+            status: "existing",
+            onSaveSuccess: () => snackbarContext.open({
+                type: "success",
+                message: t("versionRestored", { schema: schema.name })
+            }),
+            onSaveFailure: (e: Error) => snackbarContext.open({
+                type: "error",
+                title: t("errorRestoringVersion", { schema: schema.name }),
+                message: e?.message
+            }),
+            onPreSaveHookError: (e: Error) => snackbarContext.open({
+                type: "error",
+                title: t("errorBeforeSaving"),
+                message: e?.message
+            }),
+            context,
+            history: historyEnabled,
+            user: authController.loggedUser
         });
     }
 
@@ -314,8 +495,12 @@ function EntityView<M extends { [Key: string]: any }>({
 
     const containerRef = React.useRef<HTMLDivElement>(null);
 
+    // the form edits the draft, if there is one
+    const formEntity = draftEntity ?? entity;
+
     const form = !readOnly ? (
         <EntityForm
+            key={draftEntity ? "draft_form" : "entity_form"}
             status={status}
             collectionPath={collectionPath}
             schema={schema}
@@ -323,11 +508,17 @@ function EntityView<M extends { [Key: string]: any }>({
             onDiscard={onDiscard}
             onValuesChanged={setModifiedValues}
             onModified={setModified}
-            entity={entity}
-            containerRef={containerRef}/>
+            entity={formEntity}
+            containerRef={containerRef}
+            publishing={publishing ? {
+                status: publishingStatus,
+                onPublish,
+                onUnpublish,
+                onDiscardDraft
+            } : undefined}/>
     ) : (
         <EntityPreview
-            entity={entity as any}
+            entity={formEntity as any}
             schema={schema}/>
     );
 
@@ -354,6 +545,32 @@ function EntityView<M extends { [Key: string]: any }>({
         }
     );
 
+    const historyView = historyEnabled && (
+        <Box
+            className={classes.subcollectionPanel}
+            key={"history_view"}
+            role="tabpanel"
+            flexGrow={1}
+            hidden={tabsPosition !== customViewsCount}>
+            {entity ?
+                <EntityHistoryView entity={entity}
+                                   schema={schema}
+                                   collectionPath={collectionPath}
+                                   readOnly={readOnly}
+                                   onRestore={onRevisionRestore}/>
+                :
+                <Box m={3}
+                     display={"flex"}
+                     alignItems={"center"}
+                     justifyContent={"center"}>
+                    <Box>
+                        {t("historyAvailableOnceSaved")}
+                    </Box>
+                </Box>
+            }
+        </Box>
+    );
+
     const subCollectionsViews = subcollections && subcollections.map(
         (subcollectionView, colIndex) => {
             const collectionPath = entity ? `${entity?.reference.path}/${removeInitialSlash(subcollectionView.relativePath)}` : undefined;
@@ -364,7 +581,7 @@ function EntityView<M extends { [Key: string]: any }>({
                     key={`subcol_${subcollectionView.name}_${colIndex}`}
                     role="tabpanel"
                     flexGrow={1}
-                    hidden={tabsPosition !== colIndex + customViewsCount}>
+                    hidden={tabsPosition !== colIndex + customViewsCount + historyTabsCount}>
                     {entity && collectionPath ?
                         <EntityCollectionTable collectionPath={collectionPath}
                                                collectionConfig={subcollectionView}
@@ -393,8 +610,12 @@ function EntityView<M extends { [Key: string]: any }>({
             return customViews[value].path;
         }
 
+        if (historyEnabled && value === customViewsCount) {
+            return HISTORY_COLLECTION;
+        }
+
         if (subcollections) {
-            return subcollections[value - customViewsCount].relativePath;
+            return subcollections[value - customViewsCount - historyTabsCount].relativePath;
         }
 
         throw Error("Something is wrong in getSelectedSubpath");
@@ -439,7 +660,7 @@ function EntityView<M extends { [Key: string]: any }>({
 
             <Box flexGrow={1}/>
 
-            {loading &&
+            {(loading || draftLoading) &&
             <CircularProgress size={16} thickness={8}/>}
 
             <Tabs
@@ -465,6 +686,16 @@ function EntityView<M extends { [Key: string]: any }>({
                             label={view.name}/>
                 )}
 
+                {historyEnabled &&
+                <Tab
+                    classes={{
+                        root: classes.tab
+                    }}
+                    wrapped={true}
+                    key={"entity_detail_history_tab"}
+                    label={t("history")}/>
+                }
+
                 {subcollections && subcollections.map(
                     (subcollection) =>
                         <Tab
@@ -484,7 +715,7 @@ function EntityView<M extends { [Key: string]: any }>({
     return <div
         className={clsx(classes.container, { [classes.containerWide]: tabsPosition !== -1 })}>
         {
-            loading ?
+            loading || draftLoading ?
                 <CircularProgressCenter/>
                 :
                 <>
@@ -503,6 +734,8 @@ function EntityView<M extends { [Key: string]: any }>({
 
                         {customViewsView}
 
+                        {historyView}
+
                         {subCollectionsViews}
 
                     </div>
@@ -511,7 +744,7 @@ function EntityView<M extends { [Key: string]: any }>({
                     <Prompt
                         message={(location, action) => {
                             if (action === "POP" && isModified)
-                                return `You have unsaved changes in this ${schema.name}. Are you sure you want to leave this page?`;
+                                return t("unsavedChanges", { schema: schema.name });
                             else return true;
                         }
                         }
@@ -23,7 +23,11 @@ import {
     computeNavigation,
     TopNavigationEntry
 } from "../navigation";
-import { useBreadcrumbsContext } from "../../contexts";
+import {
+    useAuthController,
+    useBreadcrumbsContext,
+    useCMSAppContext
+} from "../../contexts";
 import { CMSView, EntityCollection } from "../../models";
 import { Markdown } from "../../preview";
 
@@ -54,6 +58,8 @@ function HomeRoute({
 
     const classes = useStyles();
     const { url } = useRouteMatch();
+    const authController = useAuthController();
+    const context = useCMSAppContext();
 
     const breadcrumb: BreadcrumbEntry = {
         title: "Home",
@@ -71,7 +77,7 @@ function HomeRoute({
     const {
         navigationEntries,
         groups
-    } = computeNavigation(collections, cmsViews, true);
+    } = computeNavigation(collections, cmsViews, true, { authController, context });
 
     const allGroups: Array<string | null> = [...groups];
     if (navigationEntries.filter(e => !e.group).length > 0) {
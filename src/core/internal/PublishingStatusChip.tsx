@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Skeleton } from "@material-ui/lab";
+
+import {
+    ChipColor,
+    Entity,
+    EntitySchema,
+    getDraftsPath,
+    getPublishingStatus,
+    isScheduled,
+    PublishingStatus
+} from "../../models";
+import { areValuesEqual } from "../../models/history";
+import { useCMSAppContext } from "../../contexts";
+import { useTranslation } from "../../hooks";
+import { TranslationKey } from "../../i18n";
+import CustomChip from "../../preview/components/CustomChip";
+
+const statusLabels: Record<PublishingStatus, TranslationKey> = {
+    draft: "statusDraft",
+    published: "statusPublished",
+    modified: "statusModified"
+};
+
+const statusColors: Record<PublishingStatus, ChipColor> = {
+    draft: "grayLighter",
+    published: "greenLighter",
+    modified: "orangeLighter"
+};
+
+/**
+ * Fetch the counterparts in the live or drafts collection of the entities
+ * displayed in a table, once for every page loaded. Counterparts are fetched
+ * again only for the entities whose values change.
+ * @param entities Entities displayed in the table
+ * @param collectionPath Path of the live collection
+ * @param schema
+ * @param isDraft Are the entities drafts, or live documents
+ * @return counterparts by entity id, `undefined` if they don't exist
+ * @ignore
+ */
+export function usePublishingCounterparts<M extends { [Key: string]: any }>({
+                                                                                entities,
+                                                                                collectionPath,
+                                                                                schema,
+                                                                                isDraft
+                                                                            }: {
+    entities: Entity<M>[],
+    collectionPath: string,
+    schema: EntitySchema<M>,
+    isDraft: boolean
+}): Record<string, Entity<M> | undefined> {
+
+    const { dataSource } = useCMSAppContext();
+    const [counterparts, setCounterparts] = useState<Record<string, Entity<M> | undefined>>({});
+    // entities the counterparts were fetched for
+    const fetchedEntities = useRef<Record<string, Entity<M>>>({});
+
+    useEffect(() => {
+        fetchedEntities.current = {};
+        setCounterparts({});
+    }, [dataSource, collectionPath, isDraft]);
+
+    useEffect(() => {
+        if (!schema.publishing)
+            return;
+        const path = isDraft ? collectionPath : getDraftsPath(collectionPath, schema.publishing);
+        const pending = entities.filter((entity) => {
+            const fetched = fetchedEntities.current[entity.id];
+            return !fetched || !areValuesEqual(fetched.values, entity.values);
+        });
+        if (!pending.length)
+            return;
+        pending.forEach((entity) => fetchedEntities.current[entity.id] = entity);
+
+        let cancelled = false;
+        Promise.all(pending.map((entity) => dataSource.fetchEntity<M>({
+            path,
+            entityId: entity.id,
+            schema
+        }).then((counterpart) => counterpart.values ? counterpart : undefined, (e) => {
+            console.error(e);
+            return undefined;
+        }))).then((results) => {
+            if (cancelled)
+                return;
+            setCounterparts((current) => ({
+                ...current,
+                ...pending
+                    .map((entity, index) => ({ [entity.id]: results[index] }))
+                    .reduce((a, b) => ({ ...a, ...b }), {})
+            }));
+        });
+        return () => {
+            cancelled = true;
+            pending.forEach((entity) => {
+                if (fetchedEntities.current[entity.id] === entity)
+                    delete fetchedEntities.current[entity.id];
+            });
+        };
+    }, [dataSource, collectionPath, isDraft, entities]);
+
+    return counterparts;
+}
+
+interface PublishingStatusChipProps<M extends { [Key: string]: any }> {
+    entity: Entity<M>;
+    /**
+     * Entity in the live collection if this one is a draft, or the draft
+     * otherwise. `undefined` if it does not exist, and `null` while loading
+     */
+    counterpart: Entity<M> | undefined | null;
+    schema: EntitySchema<M>;
+    /**
+     * Is the entity a draft, or a live document
+     */
+    isDraft: boolean;
+    small: boolean;
+}
+
+/**
+ * Chip displaying the publishing status of an entity, given its counterpart
+ * in the live or drafts collection
+ * @see usePublishingCounterparts
+ * @ignore
+ */
+export function PublishingStatusChip<M extends { [Key: string]: any }>({
+                                                                           entity,
+                                                                           counterpart,
+                                                                           schema,
+                                                                           isDraft,
+                                                                           small
+                                                                       }: PublishingStatusChipProps<M>) {
+
+    const { t } = useTranslation();
+
+    if (counterpart === null)
+        return <Skeleton variant="text"/>;
+
+    const status = isDraft
+        ? getPublishingStatus(counterpart, entity)
+        : getPublishingStatus(entity, counterpart);
+
+    if (!status)
+        return null;
+
+    const draft = isDraft ? entity : counterpart;
+    if (draft?.values && schema.publishing && isScheduled(draft, schema.publishing)) {
+        return <CustomChip colorSeed={"scheduled"}
+                           colorSchemaKey={"blueLighter"}
+                           label={t("statusScheduled")}
+                           outlined={false}
+                           small={small}/>;
+    }
+
+    return <CustomChip colorSeed={status}
+                       colorSchemaKey={statusColors[status]}
+                       label={t(statusLabels[status])}
+                       outlined={false}
+                       small={small}/>;
+}
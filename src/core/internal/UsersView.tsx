@@ -0,0 +1,373 @@
+import React, { useEffect, useState } from "react";
+import {
+    Box,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogContentText,
+    DialogTitle,
+    FormControl,
+    Input,
+    InputLabel,
+    makeStyles,
+    MenuItem,
+    Paper,
+    Select,
+    Switch,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    TextField,
+    Theme,
+    Tooltip,
+    Typography
+} from "@material-ui/core";
+import { createStyles } from "@material-ui/styles";
+import PersonAddIcon from "@material-ui/icons/PersonAdd";
+import format from "date-fns/format";
+import * as locales from "date-fns/locale";
+
+import {
+    CMSUser,
+    Entity,
+    getAuditChangedFields,
+    getCMSUserId,
+    inviteCMSUser,
+    saveAuditRecord,
+    saveEntity,
+    UserManagementConfig
+} from "../../models";
+import { onAuditRecordError } from "../../models/audit_log";
+import {
+    cmsUserSchema,
+    DEFAULT_USERS_COLLECTION
+} from "../../models/user_management";
+import {
+    useAuthController,
+    useCMSAppContext,
+    useSnackbarController
+} from "../../contexts";
+import { useTranslation } from "../../hooks";
+import { defaultDateFormat } from "../../util/dates";
+import ErrorView from "../components/ErrorView";
+import CircularProgressCenter from "./CircularProgressCenter";
+
+const useStyles = makeStyles((theme: Theme) =>
+    createStyles({
+        root: {
+            padding: theme.spacing(3),
+            overflow: "auto",
+            height: "100%"
+        },
+        chip: {
+            marginRight: theme.spacing(.5)
+        },
+        rolesSelect: {
+            minWidth: 160
+        }
+    })
+);
+
+/**
+ * View where admins can invite users to the CMS, assign their roles, and
+ * disable their access
+ * @ignore
+ */
+export function UsersView({ config }: { config: UserManagementConfig }) {
+
+    const classes = useStyles();
+    const context = useCMSAppContext();
+    const authController = useAuthController();
+    const snackbarController = useSnackbarController();
+    const { t } = useTranslation();
+
+    const collectionPath = config.collectionPath ?? DEFAULT_USERS_COLLECTION;
+    const availableRoles = config.roles ?? [];
+
+    const [users, setUsers] = useState<Entity<CMSUser>[]>();
+    const [usersError, setUsersError] = useState<Error>();
+    const [inviteOpen, setInviteOpen] = useState<boolean>(false);
+
+    const dateUtilsLocale = context.cmsAppConfig.locale ? locales[context.cmsAppConfig.locale] : undefined;
+    const dateFormat: string = context.cmsAppConfig.dateTimeFormat ?? defaultDateFormat;
+
+    const currentUserId = authController.loggedUser?.email ? getCMSUserId(authController.loggedUser.email) : undefined;
+
+    useEffect(() => {
+        return context.dataSource.listenCollection<CMSUser>({
+            path: collectionPath,
+            schema: cmsUserSchema,
+            onUpdate: (entities) => {
+                setUsers([...entities].sort((a, b) => a.id.localeCompare(b.id)));
+                setUsersError(undefined);
+            },
+            onError: setUsersError
+        });
+    }, [collectionPath, context.dataSource]);
+
+    const onUpdateUserError = (e: Error) => {
+        console.error("Error updating user", e);
+        snackbarController.open({
+            type: "error",
+            title: t("errorUpdatingUser"),
+            message: e?.message
+        });
+    };
+
+    // saved like any entity, so role and access changes are audited
+    const updateUser = (entity: Entity<CMSUser>, values: Partial<CMSUser>) => {
+        saveEntity<CMSUser>({
+            collectionPath,
+            id: entity.id,
+            values: { ...entity.values, ...values },
+            schema: cmsUserSchema,
+            status: "existing",
+            context,
+            user: authController.loggedUser,
+            onSaveFailure: onUpdateUserError
+        }).catch(onUpdateUserError);
+    };
+
+    const inviteUser = async (email: string, roles: string[]) => {
+        const entity = await inviteCMSUser({
+            dataSource: context.dataSource,
+            config,
+            email,
+            roles,
+            invitedBy: authController.loggedUser?.email ?? undefined
+        });
+        const auditLog = context.cmsAppConfig.auditLog;
+        if (auditLog) {
+            await saveAuditRecord({
+                dataSource: context.dataSource,
+                config: auditLog,
+                operation: "create",
+                collectionPath,
+                entityId: entity.id,
+                changedFields: getAuditChangedFields(cmsUserSchema.properties, undefined, entity.values),
+                user: authController.loggedUser
+            }).catch((e) => onAuditRecordError(context, e));
+        }
+        snackbarController.open({
+            type: "success",
+            message: t("userInvited", { email })
+        });
+    };
+
+    const formatDate = (date?: Date) => date
+        ? format(date, dateFormat, { locale: dateUtilsLocale })
+        : "-";
+
+    if (usersError) {
+        return <ErrorView error={usersError.message}/>;
+    }
+
+    if (!users) {
+        return <CircularProgressCenter/>;
+    }
+
+    return (
+        <Box className={classes.root}>
+
+            <Box display={"flex"}
+                 alignItems={"center"}
+                 justifyContent={"space-between"}
+                 mb={2}>
+                <Typography variant={"h6"}>
+                    {t("usersView")}
+                </Typography>
+                <Button variant={"contained"}
+                        color={"primary"}
+                        startIcon={<PersonAddIcon/>}
+                        onClick={() => setInviteOpen(true)}>
+                    {t("inviteUser")}
+                </Button>
+            </Box>
+
+            <TableContainer component={Paper} variant={"outlined"}>
+                <Table size={"small"}>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>{t("email")}</TableCell>
+                            <TableCell>{t("userName")}</TableCell>
+                            <TableCell>{t("roles")}</TableCell>
+                            <TableCell>{t("access")}</TableCell>
+                            <TableCell>{t("lastLogin")}</TableCell>
+                            <TableCell>{t("invited")}</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {users.map((entity) => {
+                            const user = entity.values;
+                            const isCurrentUser = entity.id === currentUserId;
+                            return (
+                                <TableRow key={`user_${entity.id}`}>
+                                    <TableCell>{user.email ?? entity.id}</TableCell>
+                                    <TableCell>{user.display_name ?? "-"}</TableCell>
+                                    <TableCell>
+                                        <RolesSelect
+                                            value={user.roles ?? []}
+                                            availableRoles={availableRoles}
+                                            disabled={isCurrentUser}
+                                            onChange={(roles) => updateUser(entity, { roles })}/>
+                                    </TableCell>
+                                    <TableCell>
+                                        <Tooltip title={isCurrentUser
+                                            ? t("cannotDisableOwnAccess")
+                                            : (user.disabled ? t("enableAccess") : t("disableAccess"))}>
+                                            <span>
+                                                <Switch
+                                                    color={"primary"}
+                                                    checked={!user.disabled}
+                                                    disabled={isCurrentUser}
+                                                    onChange={(evt) => updateUser(entity, { disabled: !evt.target.checked })}/>
+                                            </span>
+                                        </Tooltip>
+                                    </TableCell>
+                                    <TableCell>{formatDate(user.last_login)}</TableCell>
+                                    <TableCell>
+                                        {formatDate(user.invited_on)}
+                                        {user.invited_by &&
+                                        <Typography variant={"caption"}
+                                                    display={"block"}
+                                                    color={"textSecondary"}>
+                                            {t("invitedBy", { email: user.invited_by })}
+                                        </Typography>}
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+
+            <InviteUserDialog
+                open={inviteOpen}
+                availableRoles={availableRoles}
+                onClose={() => setInviteOpen(false)}
+                onInvite={inviteUser}/>
+
+        </Box>
+    );
+}
+
+function RolesSelect({
+                         value,
+                         availableRoles,
+                         disabled,
+                         onChange
+                     }: {
+    value: string[],
+    availableRoles: string[],
+    disabled?: boolean,
+    onChange: (roles: string[]) => void
+}) {
+    const classes = useStyles();
+    // keep roles that are no longer configured, so they can be removed
+    const roles = Array.from(new Set([...availableRoles, ...value]));
+    return (
+        <Select multiple
+                value={value}
+                disabled={disabled}
+                className={classes.rolesSelect}
+                input={<Input/>}
+                onChange={(evt: any) => onChange(evt.target.value as string[])}
+                renderValue={(selected: any) => (selected as string[]).map((role) =>
+                    <Chip key={`role_${role}`}
+                          size={"small"}
+                          className={classes.chip}
+                          label={role}/>
+                )}>
+            {roles.map((role) =>
+                <MenuItem key={`role_option_${role}`} value={role}>
+                    {role}
+                </MenuItem>
+            )}
+        </Select>
+    );
+}
+
+function InviteUserDialog({
+                              open,
+                              availableRoles,
+                              onClose,
+                              onInvite
+                          }: {
+    open: boolean,
+    availableRoles: string[],
+    onClose: () => void,
+    onInvite: (email: string, roles: string[]) => Promise<void>
+}) {
+
+    const [email, setEmail] = useState<string>("");
+    const [roles, setRoles] = useState<string[]>([]);
+    const [inviting, setInviting] = useState<boolean>(false);
+    const [error, setError] = useState<Error>();
+    const { t } = useTranslation();
+
+    const emailIsValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+    const handleClose = () => {
+        setEmail("");
+        setRoles([]);
+        setError(undefined);
+        onClose();
+    };
+
+    const invite = () => {
+        setInviting(true);
+        setError(undefined);
+        onInvite(email.trim(), roles)
+            .then(handleClose)
+            .catch(setError)
+            .finally(() => setInviting(false));
+    };
+
+    return (
+        <Dialog open={open}
+                onClose={handleClose}
+                maxWidth={"xs"}
+                fullWidth>
+            <DialogTitle>{t("inviteUser")}</DialogTitle>
+            <DialogContent>
+                <DialogContentText>
+                    {t("inviteUserDescription")}
+                </DialogContentText>
+                <Box mb={2}>
+                    <TextField label={t("email")}
+                               type={"email"}
+                               fullWidth
+                               autoFocus
+                               value={email}
+                               disabled={inviting}
+                               error={Boolean(error)}
+                               helperText={error?.message}
+                               onChange={(evt) => setEmail(evt.target.value)}/>
+                </Box>
+                {availableRoles.length > 0 &&
+                <FormControl fullWidth>
+                    <InputLabel>{t("roles")}</InputLabel>
+                    <RolesSelect value={roles}
+                                 availableRoles={availableRoles}
+                                 disabled={inviting}
+                                 onChange={setRoles}/>
+                </FormControl>}
+            </DialogContent>
+            <DialogActions>
+                <Button color="primary" onClick={handleClose}>
+                    {t("cancel")}
+                </Button>
+                <Button color="primary"
+                        disabled={!emailIsValid || inviting}
+                        onClick={invite}>
+                    {t("invite")}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+}
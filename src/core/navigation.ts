@@ -4,6 +4,8 @@ import {
     EntityCustomView,
     EntitySchema
 } from "../models";
+import { AuthController, CMSAppContext } from "../contexts";
+import { canAccessView, canRead } from "../util/permissions";
 
 const DATA_PATH = `/c`;
 
@@ -59,6 +61,10 @@ export function removeInitialAndTrailingSlashes(s: string) {
     return removeInitialSlash(removeTrailingSlash(s));
 }
 
+export function removeQueryAndHash(s: string) {
+    return s.split(/[?#]/)[0];
+}
+
 export function addInitialSlash(s: string) {
     if (s.startsWith("/"))
         return s;
@@ -163,11 +169,13 @@ export function getNavigationEntriesFromPathInternal<M extends { [Key: string]:
 }): NavigationViewEntry<M> [] {
 
     const {
-        path,
         allCollections,
         currentFullPath
     } = props;
 
+    // query params and hash hold the state of the views, not navigation
+    const path = removeQueryAndHash(props.path);
+
     const subpaths = removeInitialAndTrailingSlashes(path).split("/");
     const subpathCombinations = getCollectionPathsCombinations(subpaths);
 
@@ -236,18 +244,35 @@ export interface TopNavigationEntry {
     group?: string;
 }
 
-export function computeNavigation(navigation: EntityCollection[], cmsViews: CMSView[] | undefined, includeHiddenViews: boolean): {
+/**
+ * Entries of the main navigation. If an auth controller and context are
+ * provided, collections and views the logged user can't access are excluded
+ * @param navigation
+ * @param cmsViews
+ * @param includeHiddenViews
+ * @param permissionsContext
+ */
+export function computeNavigation(navigation: EntityCollection[],
+                                  cmsViews: CMSView[] | undefined,
+                                  includeHiddenViews: boolean,
+                                  permissionsContext?: { authController: AuthController, context: CMSAppContext }): {
     navigationEntries: TopNavigationEntry[],
     groups: string[]
 } {
+    const accessibleCollections = permissionsContext
+        ? navigation.filter((collection) => canRead(collection.permissions, permissionsContext.authController, collection.relativePath, permissionsContext.context))
+        : navigation;
+    const accessibleViews = permissionsContext
+        ? (cmsViews ?? []).filter((cmsView) => canAccessView(cmsView, permissionsContext.authController))
+        : cmsViews;
     const navigationEntries: TopNavigationEntry[] = [
-        ...navigation.map(view => ({
+        ...accessibleCollections.map(view => ({
             url: buildCollectionPath(view),
             name: view.name,
             description: view.description,
             group: view.group
         })),
-        ...(cmsViews ?? []).map(cmsView =>
+        ...(accessibleViews ?? []).map(cmsView =>
             includeHiddenViews || !cmsView.hideFromNavigation ?
                 ({
                     url: addInitialSlash(Array.isArray(cmsView.path) ? cmsView.path[0] : cmsView.path),
@@ -0,0 +1,88 @@
+import firebase from "firebase/app";
+import { CollectionTableState } from "../collection/components/CollectionTableProps";
+import { FilterValues } from "../models";
+import { deserializeValue, serializeValue } from "../util/serialization";
+
+const FILTER_PARAM = "filter";
+const SORT_PARAM = "sort";
+const SEARCH_PARAM = "search";
+const LIMIT_PARAM = "limit";
+
+/**
+ * Read the state of a collection table from the query string of a URL.
+ * Invalid params are ignored.
+ * @param search query string, e.g. `?sort=price:desc`
+ * @param buildReference Used to create the references in filters
+ */
+export function decodeCollectionUrlState<M extends { [Key: string]: any }>(search: string,
+                                                                           buildReference: (path: string) => firebase.firestore.DocumentReference): CollectionTableState<M> {
+
+    const params = new URLSearchParams(search);
+    const state: CollectionTableState<M> = {};
+
+    const filter = params.get(FILTER_PARAM);
+    if (filter) {
+        try {
+            state.filterValues = deserializeValue(JSON.parse(filter), buildReference) as FilterValues<M>;
+        } catch (e) {
+            console.error("Error reading filter from URL", e);
+        }
+    }
+
+    const sort = params.get(SORT_PARAM);
+    if (sort) {
+        const separatorIndex = sort.lastIndexOf(":");
+        const direction = sort.substring(separatorIndex + 1);
+        if (separatorIndex > 0 && (direction === "asc" || direction === "desc"))
+            state.sort = [sort.substring(0, separatorIndex) as Extract<keyof M, string>, direction];
+    }
+
+    const searchString = params.get(SEARCH_PARAM);
+    if (searchString)
+        state.searchString = searchString;
+
+    const limit = Number(params.get(LIMIT_PARAM));
+    if (Number.isInteger(limit) && limit > 0)
+        state.itemCount = limit;
+
+    return state;
+}
+
+/**
+ * Write the state of a collection table into a query string. The output is
+ * stable: the same state always produces the same string, regardless of the
+ * order in which filters were set. Params not related to the collection
+ * state are kept, except the ones listed in `removedParams`.
+ * @param state
+ * @param currentSearch current query string of the URL
+ * @param removedParams
+ */
+export function encodeCollectionUrlState<M extends { [Key: string]: any }>(state: CollectionTableState<M>,
+                                                                           currentSearch: string = "",
+                                                                           removedParams: string[] = []): string {
+
+    const params = new URLSearchParams(currentSearch);
+    [FILTER_PARAM, SORT_PARAM, SEARCH_PARAM, LIMIT_PARAM, ...removedParams]
+        .forEach((param) => params.delete(param));
+
+    const filterValues = state.filterValues ?? {};
+    const filterKeys = Object.keys(filterValues).sort();
+    if (filterKeys.length > 0) {
+        const sortedFilter = filterKeys
+            .map((key) => ({ [key]: serializeValue(filterValues[key]) }))
+            .reduce((a, b) => ({ ...a, ...b }), {});
+        params.set(FILTER_PARAM, JSON.stringify(sortedFilter));
+    }
+
+    if (state.sort)
+        params.set(SORT_PARAM, `${state.sort[0]}:${state.sort[1]}`);
+
+    if (state.searchString)
+        params.set(SEARCH_PARAM, state.searchString);
+
+    if (state.itemCount)
+        params.set(LIMIT_PARAM, String(state.itemCount));
+
+    const result = params.toString();
+    return result.length > 0 ? `?${result}` : "";
+}
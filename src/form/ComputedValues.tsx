@@ -0,0 +1,36 @@
+import { useEffect, useRef } from "react";
+import { useFormikContext } from "formik";
+import deepEqual from "deep-equal";
+import { computeValues, Properties } from "../models";
+
+/**
+ * Update the values of the computed properties while the other values
+ * of the form are edited
+ * @ignore
+ */
+export const ComputedValues = ({ properties }: { properties: Properties<any> }) => {
+    const { values, setValues } = useFormikContext<any>();
+
+    // the form builds its properties again in every render, so only
+    // changes in the values trigger a new computation
+    const propertiesRef = useRef<Properties<any>>(properties);
+    propertiesRef.current = properties;
+
+    // values set by the last computation. They are not computed again, so
+    // properties computing a different value every time, like dates,
+    // don't keep updating the form
+    const computedValuesRef = useRef<any>();
+
+    useEffect(() => {
+        if (values === computedValuesRef.current)
+            return;
+        const computedValues = computeValues(propertiesRef.current, values);
+        if (computedValues !== values && !deepEqual(values, computedValues)) {
+            computedValuesRef.current = computedValues;
+            setValues(computedValues, false);
+        }
+    }, [values, setValues]);
+
+    // This component does not render anything by itself.
+    return null;
+};
@@ -14,9 +14,13 @@ import {
     EntitySchema,
     EntityStatus,
     EntityValues,
+    computeValues,
     FormContext,
+    isPropertyVisible,
     Properties,
-    Property
+    isScheduled,
+    Property,
+    PublishingStatus
 } from "../models";
 import { Form, Formik, FormikHelpers } from "formik";
 import { buildPropertyField, createCustomIdField } from "./form_factory";
@@ -28,7 +32,17 @@ import {
 import { CustomFieldValidator, getYupEntitySchema } from "./validation";
 import deepEqual from "deep-equal";
 import { ErrorFocus } from "./ErrorFocus";
+import { ComputedValues } from "./ComputedValues";
 import { isReadOnly } from "../models/utils";
+import { useAuthController, useCMSAppContext } from "../contexts";
+import { useTranslation } from "../hooks";
+import {
+    applyPropertyPermissions,
+    getEditableProperties
+} from "../util/permissions";
+import format from "date-fns/format";
+import * as locales from "date-fns/locale";
+import { defaultDateFormat } from "../util/dates";
 
 export const useStyles = makeStyles(theme => createStyles({
     stickyButtons: {
@@ -107,6 +121,30 @@ interface EntityFormProps<M extends { [Key: string]: any }> {
      */
     onValuesChanged(values?:EntityValues<M>): void;
 
+    /**
+     * Draft/published workflow actions. If set, the submit button saves a
+     * draft and additional buttons to publish, unpublish and discard the
+     * draft are displayed
+     */
+    publishing?: EntityFormPublishingProps<M>;
+
+}
+
+interface EntityFormPublishingProps<M extends { [Key: string]: any }> {
+
+    /**
+     * Undefined if the entity has not been saved yet
+     */
+    status?: PublishingStatus;
+
+    /**
+     * The callback function called when Publish is clicked and validation is correct
+     */
+    onPublish(id: string | undefined, values: EntityValues<M>): Promise<void>;
+
+    onUnpublish(): Promise<void>;
+
+    onDiscardDraft(): Promise<void>;
 }
 
 function EntityForm<M extends { [Key: string]: any }>({
@@ -118,10 +156,18 @@ function EntityForm<M extends { [Key: string]: any }>({
                                                                                                                   onDiscard,
                                                                                                                   onModified,
                                                                                                                   containerRef,
-                                                                                                                  onValuesChanged
+                                                                                                                  onValuesChanged,
+                                                                                                                  publishing
                                                                                                               }: EntityFormProps<M>) {
 
     const classes = useStyles();
+    const { dataSource, cmsAppConfig } = useCMSAppContext();
+    const { t } = useTranslation();
+    const authController = useAuthController();
+
+    // computed properties that are not persisted are not in the saved values
+    const withComputedValues = (values: EntityValues<M>) =>
+        computeValues(computeSchemaProperties(schema, collectionPath, entity?.id, values), values) as EntityValues<M>;
 
     /**
      * Base values are the ones this view is initialized from, we use them to
@@ -129,9 +175,9 @@ function EntityForm<M extends { [Key: string]: any }>({
      */
     let baseFirestoreValues: EntityValues<M>;
     if ((status === "existing" || status === "copy") && entity) {
-        baseFirestoreValues = entity.values ?? {};
+        baseFirestoreValues = withComputedValues(entity.values ?? {});
     } else if (status === "new") {
-        baseFirestoreValues = initEntityValues(schema, collectionPath);
+        baseFirestoreValues = withComputedValues(initEntityValues(schema, collectionPath));
     } else {
         throw new Error("Form configured wrong");
     }
@@ -139,8 +185,14 @@ function EntityForm<M extends { [Key: string]: any }>({
     const [customId, setCustomId] = React.useState<string | undefined>(undefined);
     const [customIdError, setCustomIdError] = React.useState<boolean>(false);
     const [savingError, setSavingError] = React.useState<any>();
+    const [publishingActionPending, setPublishingActionPending] = React.useState<boolean>(false);
 
-    const initialValuesRef = React.useRef<EntityValues<M>>(entity?.values ?? baseFirestoreValues);
+    /**
+     * Both Save and Publish submit the form, so validation runs for both
+     */
+    const submitActionRef = React.useRef<"save" | "publish">("save");
+
+    const initialValuesRef = React.useRef<EntityValues<M>>(entity?.values ? withComputedValues(entity.values) : baseFirestoreValues);
     const initialValues = initialValuesRef.current;
     const [internalValue, setInternalValue] = useState<EntityValues<M> | undefined>(initialValues);
 
@@ -188,7 +240,11 @@ function EntityForm<M extends { [Key: string]: any }>({
             throw Error("New FormType added, check EntityForm");
         }
 
-        onEntitySave(schema, collectionPath, id, values)
+        const savePromise = publishing && submitActionRef.current === "publish"
+            ? publishing.onPublish(id, values)
+            : onEntitySave(schema, collectionPath, id, values);
+
+        savePromise
             .then(_ => {
                 initialValuesRef.current = values;
                 formikActions.setTouched({});
@@ -207,20 +263,98 @@ function EntityForm<M extends { [Key: string]: any }>({
                                                             name,
                                                             value,
                                                             property
-                                                        }) => checkUniqueField(collectionPath, name, value, property, entity?.id);
+                                                        }) => checkUniqueField(collectionPath, name, value, property, entity?.id, dataSource);
 
+    // values the user can't see or change are not validated, since they
+    // could not fix the errors
     const validationSchema = getYupEntitySchema(
-        schema.properties,
+        getEditableProperties(
+            computeSchemaProperties(schema, collectionPath, entity?.id, internalValue as Partial<EntityValues<M>> ?? {}),
+            authController),
         internalValue as Partial<EntityValues<M>> ?? {},
         collectionPath,
         uniqueFieldValidator,
-        entity?.id);
+        entity?.id,
+        cmsAppConfig.localization?.locales);
+
+    function runPublishingAction(action: () => Promise<void>) {
+        setSavingError(null);
+        setPublishingActionPending(true);
+        action()
+            .catch(e => {
+                console.error(e);
+                setSavingError(e);
+            })
+            .finally(() => setPublishingActionPending(false));
+    }
+
+    function buildScheduledMessage(values: EntityValues<M>) {
+        const publishAtProperty = schema.publishing?.publishAtProperty;
+        if (!schema.publishing || !publishAtProperty || !isScheduled({
+            id: entity?.id ?? "",
+            values
+        }, schema.publishing))
+            return null;
+        const dateUtilsLocale = cmsAppConfig.locale ? locales[cmsAppConfig.locale] : undefined;
+        const dateFormat: string = cmsAppConfig.dateTimeFormat ?? defaultDateFormat;
+        const publishAt: Date = (values as any)[publishAtProperty];
+        return (
+            <Typography variant={"caption"} color={"textSecondary"}>
+                {t("scheduledPublication", { date: format(publishAt, dateFormat, { locale: dateUtilsLocale }) })}
+            </Typography>
+        );
+    }
 
-    function buildButtons(isSubmitting: boolean, modified: boolean) {
-        const disabled = isSubmitting || (!modified && status === "existing");
+    function buildPublishingButtons(isSubmitting: boolean, modified: boolean) {
+        if (!publishing) return null;
+        const disabled = isSubmitting || publishingActionPending;
+        const hasDraft = publishing.status === "draft" || publishing.status === "modified";
+        const isLive = publishing.status === "published" || publishing.status === "modified";
+        return (
+            <>
+                {isLive && status === "existing" &&
+                <Button
+                    variant="text"
+                    color="primary"
+                    disabled={disabled}
+                    className={classes.button}
+                    onClick={() => runPublishingAction(publishing.onUnpublish)}
+                >
+                    {t("unpublish")}
+                </Button>}
+
+                {hasDraft && status === "existing" &&
+                <Button
+                    variant="text"
+                    color="primary"
+                    disabled={disabled}
+                    className={classes.button}
+                    onClick={() => runPublishingAction(publishing.onDiscardDraft)}
+                >
+                    {t("discardDraft")}
+                </Button>}
+
+                <Button
+                    variant="outlined"
+                    color="primary"
+                    type="submit"
+                    disabled={disabled || (!modified && !hasDraft && status === "existing")}
+                    className={classes.button}
+                    onClick={() => submitActionRef.current = "publish"}
+                >
+                    {t("publish")}
+                </Button>
+            </>
+        );
+    }
+
+    function buildButtons(isSubmitting: boolean, modified: boolean, values: EntityValues<M>) {
+        const disabled = isSubmitting || publishingActionPending || (!modified && status === "existing");
         return (
             <Box textAlign="right">
 
+                {publishing && buildScheduledMessage(values)}
+
                 {status === "existing" &&
                 <Button
                     variant="text"
@@ -229,19 +363,23 @@ function EntityForm<M extends { [Key: string]: any }>({
                     className={classes.button}
                     type="reset"
                 >
-                    Discard
+                    {t("discard")}
                 </Button>}
 
+                {buildPublishingButtons(isSubmitting, modified)}
+
                 <Button
                     variant="contained"
                     color="primary"
                     type="submit"
                     disabled={disabled}
                     className={classes.button}
+                    onClick={() => submitActionRef.current = "save"}
                 >
-                    {status === "existing" && "Save"}
-                    {status === "copy" && "Create copy"}
-                    {status === "new" && "Create"}
+                    {publishing && t("saveDraft")}
+                    {!publishing && status === "existing" && t("save")}
+                    {!publishing && status === "copy" && t("createCopy")}
+                    {!publishing && status === "new" && t("create")}
                 </Button>
 
             </Box>
@@ -290,41 +428,46 @@ function EntityForm<M extends { [Key: string]: any }>({
                     values
                 };
 
-                const schemaProperties: Properties<M> = computeSchemaProperties(schema, collectionPath, entity?.id, values as EntityValues<M>);
+                const schemaProperties: Properties<M> = applyPropertyPermissions(
+                    computeSchemaProperties(schema, collectionPath, entity?.id, values as EntityValues<M>),
+                    authController,
+                    t("noEditPermission"));
                 const formFields = (
                     <Grid container spacing={4}>
 
-                        {Object.entries<Property>(schemaProperties).map(([key, property]) => {
-
-                            const underlyingValueHasChanged: boolean =
-                                !!underlyingChanges
-                                && Object.keys(underlyingChanges).includes(key)
-                                && !!(touched as any)[key];
-
-                            const dependsOnOtherProperties = typeof (schema.properties as any)[key] === "function";
-
-                            const disabled = isSubmitting || isReadOnly(property) || !!property.disabled;
-                            const cmsFormFieldProps: CMSFormFieldProps<any> = {
-                                name: key,
-                                disabled: disabled,
-                                property: property,
-                                includeDescription: true,
-                                underlyingValueHasChanged: underlyingValueHasChanged,
-                                context: context,
-                                tableMode: false,
-                                partOfArray: false,
-                                autoFocus: false,
-                                dependsOnOtherProperties: dependsOnOtherProperties
-                            };
-                            return (
-                                <Grid item
-                                      xs={12}
-                                      id={`form_field_${key}`}
-                                      key={`field_${schema.name}_${key}`}>
-                                    {buildPropertyField(cmsFormFieldProps)}
-                                </Grid>
-                            );
-                        })}
+                        {Object.entries<Property>(schemaProperties)
+                            .filter(([key, property]) => isPropertyVisible(property, values))
+                            .map(([key, property]) => {
+
+                                const underlyingValueHasChanged: boolean =
+                                    !!underlyingChanges
+                                    && Object.keys(underlyingChanges).includes(key)
+                                    && !!(touched as any)[key];
+
+                                const dependsOnOtherProperties = typeof (schema.properties as any)[key] === "function";
+
+                                const disabled = isSubmitting || isReadOnly(property) || !!property.disabled;
+                                const cmsFormFieldProps: CMSFormFieldProps<any> = {
+                                    name: key,
+                                    disabled: disabled,
+                                    property: property,
+                                    includeDescription: true,
+                                    underlyingValueHasChanged: underlyingValueHasChanged,
+                                    context: context,
+                                    tableMode: false,
+                                    partOfArray: false,
+                                    autoFocus: false,
+                                    dependsOnOtherProperties: dependsOnOtherProperties
+                                };
+                                return (
+                                    <Grid item
+                                          xs={12}
+                                          id={`form_field_${key}`}
+                                          key={`field_${schema.name}_${key}`}>
+                                        {buildPropertyField(cmsFormFieldProps)}
+                                    </Grid>
+                                );
+                            })}
 
                     </Grid>
                 );
@@ -353,7 +496,7 @@ function EntityForm<M extends { [Key: string]: any }>({
                                     </Typography>
                                 </Box>}
 
-                                {buildButtons(isSubmitting, modified)}
+                                {buildButtons(isSubmitting, modified, values)}
 
                             </div>
 
@@ -362,6 +505,8 @@ function EntityForm<M extends { [Key: string]: any }>({
 
                         <ErrorFocus containerRef={containerRef}/>
 
+                        <ComputedValues properties={schemaProperties}/>
+
                     </Container>
                 );
             }}
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import firebase from "firebase/app";
+import "firebase/firestore";
+import {
+    Box,
+    FormControl,
+    FormHelperText,
+    TextField as MuiTextField,
+    Typography
+} from "@material-ui/core";
+
+import { FieldProps, parseGeoPoint } from "../../models";
+import { toGeoPoint } from "../../models/geopoints";
+import { FieldDescription } from "../../form/components";
+import LabelWithIcon from "../components/LabelWithIcon";
+import { useClearRestoreValue, useTranslation } from "../../hooks";
+
+type GeoPointFieldProps = FieldProps<firebase.firestore.GeoPoint>;
+
+/**
+ * Field to set the latitude and longitude of a geopoint. Coordinates written
+ * as `lat,lng` can be pasted in any of the inputs.
+ *
+ * This is one of the internal components that get mapped natively inside forms
+ * and tables to the specified properties.
+ * @category Form fields
+ */
+export default function GeoPointField({
+                                          value,
+                                          setValue,
+                                          error,
+                                          showError,
+                                          disabled,
+                                          autoFocus,
+                                          property,
+                                          includeDescription
+                                      }: GeoPointFieldProps) {
+
+    useClearRestoreValue({
+        property,
+        value,
+        setValue
+    });
+
+    const { t } = useTranslation();
+
+    const [latitude, setLatitude] = useState<string>(value ? String(value.latitude) : "");
+    const [longitude, setLongitude] = useState<string>(value ? String(value.longitude) : "");
+
+    useEffect(() => {
+        if (!value) {
+            setLatitude("");
+            setLongitude("");
+        } else if (Number(latitude) !== value.latitude || Number(longitude) !== value.longitude) {
+            setLatitude(isNaN(value.latitude) ? "" : String(value.latitude));
+            setLongitude(isNaN(value.longitude) ? "" : String(value.longitude));
+        }
+    }, [value]);
+
+    const updateValue = (newLatitude: string, newLongitude: string) => {
+        setLatitude(newLatitude);
+        setLongitude(newLongitude);
+        if (!newLatitude && !newLongitude) {
+            setValue(null);
+        } else {
+            // invalid coordinates are kept, so they are reported by the validation
+            setValue(toGeoPoint({
+                latitude: newLatitude ? Number(newLatitude) : NaN,
+                longitude: newLongitude ? Number(newLongitude) : NaN
+            }) as firebase.firestore.GeoPoint);
+        }
+    };
+
+    const onPaste = (event: React.ClipboardEvent) => {
+        const coordinates = parseGeoPoint(event.clipboardData.getData("text"));
+        if (coordinates) {
+            event.preventDefault();
+            updateValue(String(coordinates.latitude), String(coordinates.longitude));
+        }
+    };
+
+    return (
+        <FormControl fullWidth
+                     required={property.validation?.required}
+                     error={showError}>
+
+            <Box mb={1}>
+                <Typography variant={"caption"} color={"textSecondary"}>
+                    <LabelWithIcon property={property}/>
+                </Typography>
+            </Box>
+
+            <Box display={"flex"}>
+                <Box flexGrow={1} mr={1}>
+                    <MuiTextField variant={"filled"}
+                                  fullWidth
+                                  type={"number"}
+                                  label={t("latitude")}
+                                  autoFocus={autoFocus}
+                                  disabled={disabled}
+                                  error={showError}
+                                  value={latitude}
+                                  inputProps={{ min: -90, max: 90, step: "any" }}
+                                  onPaste={onPaste}
+                                  onChange={(evt) => updateValue(evt.target.value, longitude)}/>
+                </Box>
+                <Box flexGrow={1}>
+                    <MuiTextField variant={"filled"}
+                                  fullWidth
+                                  type={"number"}
+                                  label={t("longitude")}
+                                  disabled={disabled}
+                                  error={showError}
+                                  value={longitude}
+                                  inputProps={{ min: -180, max: 180, step: "any" }}
+                                  onPaste={onPaste}
+                                  onChange={(evt) => updateValue(latitude, evt.target.value)}/>
+                </Box>
+            </Box>
+
+            {showError && <FormHelperText>{error}</FormHelperText>}
+
+            {includeDescription &&
+            <FieldDescription property={property}/>}
+
+        </FormControl>
+    );
+}
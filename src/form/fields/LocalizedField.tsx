@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import {
+    Box,
+    FormControl,
+    FormHelperText,
+    Paper,
+    Tab,
+    Tabs
+} from "@material-ui/core";
+import { FieldProps, LocalizedValue, localizeProperty } from "../../models";
+import { formStyles } from "../styles";
+import LabelWithIcon from "../components/LabelWithIcon";
+import { useClearRestoreValue } from "../../hooks";
+import { buildPropertyField } from "../form_factory";
+import { FieldDescription } from "../components";
+import { useCMSAppContext } from "../../contexts";
+
+/**
+ * Field of a localized property, with a tab for each locale of the
+ * `localization` config of the CMS. Each tab renders the field of the
+ * property in that locale.
+ *
+ * This is one of the internal components that get mapped natively inside forms
+ * and tables to the specified properties.
+ * @category Form fields
+ */
+export default function LocalizedField({
+                                           name,
+                                           value,
+                                           error,
+                                           showError,
+                                           disabled,
+                                           property,
+                                           setValue,
+                                           tableMode,
+                                           includeDescription,
+                                           underlyingValueHasChanged,
+                                           context
+                                       }: FieldProps<LocalizedValue<any>>) {
+
+    const classes = formStyles();
+
+    const { cmsAppConfig, contentLocale } = useCMSAppContext();
+    const locales = cmsAppConfig.localization?.locales;
+    if (!locales || !locales.length) {
+        throw Error(`You need to specify the locales in the 'localization' config of the CMS to use the localized property ${name}`);
+    }
+
+    const [selectedLocale, setSelectedLocale] = useState<string>(
+        contentLocale && locales.includes(contentLocale) ? contentLocale : locales[0]
+    );
+
+    useClearRestoreValue({
+        property,
+        value,
+        setValue
+    });
+
+    // errors of the values in each locale, or of the whole value
+    const localeErrors = error && typeof error === "object" ? error as Record<string, any> : undefined;
+
+    return (
+        <FormControl fullWidth error={showError}>
+
+            {!tableMode && <FormHelperText filled
+                                           required={property.validation?.required}>
+                <LabelWithIcon scaledIcon={true} property={property}/>
+            </FormHelperText>}
+
+            <Paper elevation={0} variant={"outlined"} className={classes.paper}>
+                <Tabs value={selectedLocale}
+                      indicatorColor="primary"
+                      textColor="inherit"
+                      variant="scrollable"
+                      scrollButtons="auto"
+                      onChange={(ev, locale) => setSelectedLocale(locale)}>
+                    {locales.map((locale) =>
+                        <Tab key={`localized_${name}_${locale}`}
+                             value={locale}
+                             label={
+                                 <Box color={showError && localeErrors?.[locale] ? "error.main" : undefined}>
+                                     {locale}
+                                 </Box>
+                             }/>
+                    )}
+                </Tabs>
+
+                <Box mt={2}>
+                    {buildPropertyField<any>({
+                        name: `${name}.${selectedLocale}`,
+                        disabled,
+                        property: localizeProperty(property, selectedLocale),
+                        includeDescription: false,
+                        underlyingValueHasChanged,
+                        context,
+                        tableMode,
+                        partOfArray: false,
+                        autoFocus: false,
+                        dependsOnOtherProperties: false
+                    })}
+                </Box>
+            </Paper>
+
+            {showError && typeof error === "string" &&
+            <FormHelperText>{error}</FormHelperText>}
+
+            {includeDescription &&
+            <FieldDescription property={property}/>}
+
+        </FormControl>
+    );
+}
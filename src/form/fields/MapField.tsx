@@ -1,5 +1,10 @@
 import React from "react";
-import { FieldProps, Properties, Property } from "../../models";
+import {
+    FieldProps,
+    isPropertyVisible,
+    Properties,
+    Property
+} from "../../models";
 import {
     Box,
     FormControl,
@@ -105,12 +110,13 @@ export default function MapField<T extends object>({
             <Paper elevation={0} variant={"outlined"} className={classes.paper}>
                 <Grid container spacing={2}>
                     {Object.entries(mapProperties)
-                        .map(([entryKey, childProperty], index) => {
+                        .filter(([entryKey, childProperty]) => isPropertyVisible(childProperty, value ?? {}, context.values))
+                        .map(([entryKey, childProperty]) => {
                                 return (
                                     <Grid item
                                           sm={12}
                                           xs={12}
-                                          key={`map-${name}-${index}`}>
+                                          key={`map-${name}-${entryKey}`}>
                                         {
                                             buildPropertyField<any, T>({
                                                 name: `${name}[${entryKey}]`,
@@ -30,7 +30,7 @@ import ReferenceDialog from "../../core/components/ReferenceDialog";
 import ErrorBoundary from "../../core/internal/ErrorBoundary";
 import { PreviewComponent, SkeletonComponent } from "../../preview";
 import LabelWithIcon from "../components/LabelWithIcon";
-import { useSideEntityController } from "../../contexts";
+import { useCMSAppContext, useSideEntityController } from "../../contexts";
 import { useSchemasRegistry } from "../../contexts/SchemaRegistry";
 import { useClearRestoreValue } from "../../hooks";
 
@@ -92,6 +92,7 @@ export default function ReferenceField<M extends { [Key: string]: any }>({
     const [open, setOpen] = React.useState(autoFocus);
     const [entity, setEntity] = React.useState<Entity<M>>();
     const sideEntityController = useSideEntityController();
+    const { dataSource } = useCMSAppContext();
 
     const schemaRegistry = useSchemasRegistry();
 
@@ -108,7 +109,7 @@ export default function ReferenceField<M extends { [Key: string]: any }>({
         if (validValue && schema) {
             const cancel = listenEntityFromRef(value, schema, (e => {
                 setEntity(e);
-            }));
+            }), dataSource);
             return () => cancel();
         } else {
             setEntity(undefined);
@@ -30,7 +30,13 @@ import {
     EntitySchema,
     EntityStatus,
     FieldProps,
+    getParentValues,
+    hasPropertyConditions,
+    isLocalizedProperty,
+    isPropertyVisible,
+    matchesPropertyConditions,
     NumberProperty, Property,
+    resolvePropertyConditions,
     StringProperty
 } from "../models";
 
@@ -40,12 +46,14 @@ import StorageUploadField from "./fields/StorageUploadField";
 import TextField from "./fields/TextField";
 import SwitchField from "./fields/SwitchField";
 import DateTimeField from "./fields/DateTimeField";
+import GeoPointField from "./fields/GeoPointField";
 import ReferenceField from "./fields/ReferenceField";
 import MapField from "./fields/MapField";
 import ArrayDefaultField from "./fields/ArrayDefaultField";
 import ArrayOneOfField from "./fields/ArrayOneOfField";
 import ReadOnlyField from "./fields/ReadOnlyField";
 import MarkdownField from "./fields/MarkdownField";
+import LocalizedField from "./fields/LocalizedField";
 
 import ArrayOfReferencesField from "./fields/ArrayOfReferencesField";
 import { useCMSAppContext, useSnackbarController } from "../contexts";
@@ -64,6 +72,9 @@ import deepEqual from "deep-equal";
  * need to build a complex property mapping, like an array where each index
  * is a different property.
  *
+ * The `visibleWhen`, `requiredWhen` and `disabledWhen` conditions of the
+ * property are evaluated against the values in the context.
+ *
  * @param name You can use nested names such as `address.street` or `friends[2]`
  * @param property
  * @param context
@@ -79,22 +90,32 @@ import deepEqual from "deep-equal";
 export function buildPropertyField<T extends CMSType = any, M = any>
 ({
      name,
-     property,
+     property: propertyWithConditions,
      context,
      includeDescription,
      underlyingValueHasChanged,
-     disabled,
+     disabled: disabledProp,
      tableMode,
      partOfArray,
      autoFocus,
      dependsOnOtherProperties
  }: CMSFormFieldProps< M>): ReactElement<CMSFormFieldProps< M>> {
 
+    const parentValues = getParentValues(name, context.values) ?? {};
+    if (!isPropertyVisible(propertyWithConditions, parentValues, context.values))
+        return <React.Fragment key={`form_field_${name}`}/>;
+
+    const property = resolvePropertyConditions(propertyWithConditions, parentValues, context.values);
+    const disabled = disabledProp || Boolean(propertyWithConditions.disabledWhen
+        && matchesPropertyConditions(propertyWithConditions.disabledWhen, parentValues, context.values));
+
     let component: ComponentType<FieldProps<T>> | undefined;
     if (isReadOnly(property)) {
         component = ReadOnlyField;
     } else if (property.config?.field) {
         component = property.config?.field as ComponentType<FieldProps<T>>;
+    } else if (isLocalizedProperty(property)) {
+        component = LocalizedField as ComponentType<FieldProps<T>>;
     } else if (property.dataType === "array") {
         const of = (property as ArrayProperty).of;
         if (of) {
@@ -121,6 +142,8 @@ export function buildPropertyField<T extends CMSType = any, M = any>
         component = ReferenceField as ComponentType<FieldProps<T>>;
     } else if (property.dataType === "timestamp") {
         component = DateTimeField as ComponentType<FieldProps<T>>;
+    } else if (property.dataType === "geopoint") {
+        component = GeoPointField as ComponentType<FieldProps<T>>;
     } else if (property.dataType === "boolean") {
         component = SwitchField as ComponentType<FieldProps<T>>;
     } else if (property.dataType === "number") {
@@ -158,7 +181,7 @@ export function buildPropertyField<T extends CMSType = any, M = any>
 
         // we use the standard Field for user defined fields, since it rebuilds
         // when there are changes in other values, in contrast to FastField
-        const FieldComponent = dependsOnOtherProperties || property.config?.field ? Field : FastField;
+        const FieldComponent = dependsOnOtherProperties || property.config?.field || hasPropertyConditions(propertyWithConditions) ? Field : FastField;
 
         return (
             <FieldComponent
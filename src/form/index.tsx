@@ -4,6 +4,7 @@ import StorageUploadField from "./fields/StorageUploadField";
 import TextField from "./fields/TextField";
 import SwitchField from "./fields/SwitchField";
 import DateTimeField from "./fields/DateTimeField";
+import GeoPointField from "./fields/GeoPointField";
 import ReferenceField from "./fields/ReferenceField";
 import MapField from "./fields/MapField";
 import ArrayDefaultField from "./fields/ArrayDefaultField";
@@ -11,6 +12,7 @@ import ReadOnlyField from "./fields/ReadOnlyField";
 import ArrayOfReferencesField from "./fields/ArrayOfReferencesField";
 import ArrayOneOfField from "./fields/ArrayOneOfField";
 import MarkdownField from "./fields/MarkdownField";
+import LocalizedField from "./fields/LocalizedField";
 
 export {
     ArrayDefaultField,
@@ -18,6 +20,8 @@ export {
     ArrayOfReferencesField,
     ArrayOneOfField,
     DateTimeField,
+    GeoPointField,
+    LocalizedField,
     ReadOnlyField,
     MapField,
     ReferenceField,
@@ -26,6 +26,12 @@ import {
     StringSchema
 } from "yup";
 import { enumToObjectEntries } from "../util/enums";
+import { isValidGeoPoint } from "../models/geopoints";
+import { isLocalizedProperty, localizeProperty } from "../models/localization";
+import {
+    isPropertyVisible,
+    resolvePropertyConditions
+} from "../models/conditions";
 
 // Add custom unique function for array values
 declare module "yup" {
@@ -55,13 +61,21 @@ type PropertyContext<PT extends Property> = {
     property: PT,
     parentProperty?: MapProperty | ArrayProperty,
     customFieldValidator?: CustomFieldValidator,
-    name?: any
+    name?: any,
+    /**
+     * Locales in which localized properties are validated
+     */
+    locales?: string[]
 }
 
 export function mapPropertyToYup(propertyContext: PropertyContext<any>): AnySchema<unknown> {
 
     const property = propertyContext.property;
-    if (property.dataType === "string") {
+    if (property.visibleWhen || property.requiredWhen) {
+        return getYupConditionalSchema(propertyContext);
+    } else if (isLocalizedProperty(property)) {
+        return getYupLocalizedSchema(propertyContext);
+    } else if (property.dataType === "string") {
         return getYupStringSchema(propertyContext);
     } else if (property.dataType === "number") {
         return getYupNumberSchema(propertyContext);
@@ -86,13 +100,15 @@ export function getYupEntitySchema<T extends CMSType, M extends { [Key: string]:
  values: Partial<EntityValues<M>>,
  collectionPath: string,
  customFieldValidator?: CustomFieldValidator,
- entityId?: string): ObjectSchema<any> {
+ entityId?: string,
+ locales?: string[]): ObjectSchema<any> {
     const objectSchema: any = {};
     Object.entries(properties).forEach(([name, propertyOrBuilder]) => {
         objectSchema[name] = mapPropertyToYup({
             property: buildPropertyFrom(propertyOrBuilder as PropertyOrBuilder<any, M>, values, collectionPath, entityId),
             customFieldValidator,
-            name
+            name,
+            locales
         });
     });
     return yup.object().shape(objectSchema);
@@ -102,7 +118,8 @@ export function getYupMapObjectSchema<M extends { [Key: string]: any }>({
                                                                                            property,
                                                                                            parentProperty,
                                                                                            customFieldValidator,
-                                                                                           name
+                                                                                           name,
+                                                                                           locales
                                                                                        }: PropertyContext<MapProperty>): ObjectSchema<any> {
     const objectSchema: any = {};
     if (property.properties)
@@ -111,12 +128,58 @@ export function getYupMapObjectSchema<M extends { [Key: string]: any }>({
                 property: childProperty,
                 parentProperty: property,
                 customFieldValidator,
-                name: `${name}[${childName}]`
+                name: `${name}[${childName}]`,
+                locales
             });
         });
     return yup.object().shape(objectSchema);
 }
 
+/**
+ * The conditions of a property are evaluated against the values being
+ * validated: the parent map and the whole entity. Hidden values are not
+ * validated
+ */
+function getYupConditionalSchema(propertyContext: PropertyContext<Property>): AnySchema {
+    return yup.lazy((value: any, options: any) => {
+        const parentValues = options.parent ?? {};
+        const from: { value: any }[] | undefined = options.from;
+        const entityValues = from && from.length ? from[from.length - 1].value : parentValues;
+        const property = propertyContext.property;
+        if (!isPropertyVisible(property, parentValues, entityValues))
+            return yup.mixed().notRequired();
+        return mapPropertyToYup({
+            ...propertyContext,
+            property: resolvePropertyConditions(property, parentValues, entityValues)
+        });
+    }) as any;
+}
+
+/**
+ * Localized properties are validated in every locale, so `required` values
+ * need to be set in all of them
+ */
+function getYupLocalizedSchema({
+                                   property,
+                                   customFieldValidator,
+                                   name,
+                                   locales
+                               }: PropertyContext<StringProperty | MapProperty>): ObjectSchema<any> {
+    const objectSchema: any = {};
+    (locales ?? []).forEach((locale) => {
+        objectSchema[locale] = mapPropertyToYup({
+            property: localizeProperty(property, locale),
+            customFieldValidator,
+            name: `${name}[${locale}]`,
+            locales
+        });
+    });
+    const schema = yup.object().shape(objectSchema);
+    return property.validation?.required
+        ? schema.nullable(true).required(property.validation?.requiredMessage ? property.validation.requiredMessage : "Required")
+        : schema.nullable(true).notRequired();
+}
+
 function getYupStringSchema({
                                 property,
                                 parentProperty,
@@ -200,7 +263,10 @@ function getYupGeoPointSchema({
                                   customFieldValidator,
                                   name
                               }: PropertyContext<GeopointProperty>): AnySchema {
-    let schema: ObjectSchema<any> = yup.object();
+    let schema: ObjectSchema<any> = yup.object()
+        .test("geopoint",
+            `${property.title} needs a latitude between -90 and 90 and a longitude between -180 and 180`,
+            (value: any) => !value || isValidGeoPoint(value));
     const validation = property.validation;
     if (validation?.unique && customFieldValidator && name)
         schema = schema.test("unique",
@@ -319,7 +385,8 @@ function getYupArraySchema<T>({
                                   property,
                                   parentProperty,
                                   customFieldValidator,
-                                  name
+                                  name,
+                                  locales
                               }: PropertyContext<ArrayProperty>): ArraySchema<any> {
 
     let schema: ArraySchema<any> = yup.array();
@@ -327,7 +394,8 @@ function getYupArraySchema<T>({
     if (property.of) {
         schema = schema.of(mapPropertyToYup({
             property: property.of,
-            parentProperty: property
+            parentProperty: property,
+            locales
         }));
         const arrayUniqueFields = hasUniqueInArrayModifier(property.of);
         if (arrayUniqueFields) {
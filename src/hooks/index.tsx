@@ -23,3 +23,19 @@ export {
     getNavigationFrom,
     useNavigationFrom
 } from "./useNavigationFrom";
+
+export type {
+    RolesController
+} from "./useRoles";
+
+export {
+    useRoles
+} from "./useRoles";
+
+export type {
+    TranslationController
+} from "./useTranslation";
+
+export {
+    useTranslation
+} from "./useTranslation";
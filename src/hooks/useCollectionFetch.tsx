@@ -2,9 +2,10 @@ import { useEffect, useState } from "react";
 import {
     Entity,
     EntitySchema,
-    FilterValues,
-    listenCollection
+    filterByGeoPointBounds,
+    FilterValues
 } from "../models";
+import { useCMSAppContext } from "../contexts/CMSAppContext";
 
 type Order = "asc" | "desc" | undefined;
 
@@ -71,6 +72,8 @@ export function useCollectionFetch<M extends { [Key: string]: any }>(
         entitiesDisplayedFirst
     }: CollectionFetchProps<M>): CollectionFetchResult<M> {
 
+    const { dataSource } = useCMSAppContext();
+
     const initialEntities = entitiesDisplayedFirst ? entitiesDisplayedFirst.filter(e => !!e.values) : [];
     const [data, setData] = useState<Entity<M>[]>(initialEntities);
 
@@ -91,27 +94,28 @@ export function useCollectionFetch<M extends { [Key: string]: any }>(
 
         setDataLoading(true);
 
-        return listenCollection<M>(
-            collectionPath,
+        return dataSource.listenCollection<M>({
+            path: collectionPath,
             schema,
-            entities => {
+            onUpdate: entities => {
                 setDataLoading(false);
                 setDataLoadingError(undefined);
-                updateData(entities);
+                // the longitudes of bounding boxes can't be filtered in the query
+                updateData(filterByGeoPointBounds(entities, filterValues));
                 setNoMoreToLoad(!itemCount || entities.length < itemCount);
             },
-            (error) => {
+            onError: (error) => {
                 console.error("ERROR", error);
                 setDataLoading(false);
                 setData([]);
                 setDataLoadingError(error);
             },
-            filterValues,
-            itemCount,
-            undefined,
-            sortByProperty,
-            currentSort);
-    }, [collectionPath, schema, itemCount, currentSort, sortByProperty, filterValues]);
+            filter: filterValues,
+            limit: itemCount,
+            orderBy: sortByProperty,
+            order: currentSort
+        });
+    }, [dataSource, collectionPath, schema, itemCount, currentSort, sortByProperty, filterValues]);
 
     return {
         data,
@@ -1,8 +1,7 @@
 import {
     Entity,
     EntityCollection,
-    EntityCustomView,
-    fetchEntity
+    EntityCustomView
 } from "../models";
 import { getNavigationEntriesFromPathInternal } from "../core/navigation";
 import { useEffect, useState } from "react";
@@ -87,7 +86,11 @@ export function getNavigationFrom<M>({
             if (!schemaConfig?.schema) {
                 throw Error(`No schema defined in the navigation for the entity with path ${entry.collectionPath}`);
             }
-            return fetchEntity(entry.collectionPath, entry.entityId, schemaConfig?.schema)
+            return context.dataSource.fetchEntity({
+                path: entry.collectionPath,
+                entityId: entry.entityId,
+                schema: schemaConfig?.schema
+            })
                 .then((entity) => {
                     return { ...entry, entity };
                 });
@@ -0,0 +1,34 @@
+import { useAuthController } from "../contexts";
+
+/**
+ * @category Hooks and utilities
+ */
+export interface RolesController {
+    /**
+     * Roles of the logged user
+     */
+    roles: string[];
+    /**
+     * Does the logged user have the given role, or any of the given roles
+     * @param role
+     */
+    hasRole: (role: string | string[]) => boolean;
+}
+
+/**
+ * Hook to retrieve the roles of the logged user, assigned by the `roles`
+ * resolver of the CMS.
+ *
+ * Consider that in order to use this hook you need to have a parent
+ * `CMSApp` or a `CMSAppProvider`
+ *
+ * @category Hooks and utilities
+ */
+export function useRoles(): RolesController {
+    const { roles } = useAuthController();
+    return {
+        roles,
+        hasRole: (role: string | string[]) =>
+            (Array.isArray(role) ? role : [role]).some((r) => roles.includes(r))
+    };
+}
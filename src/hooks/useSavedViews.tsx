@@ -0,0 +1,109 @@
+import { useCallback, useState } from "react";
+import firebase from "firebase/app";
+import { SavedCollectionView } from "../models";
+import { useCMSAppContext } from "../contexts";
+import { deserializeValue, serializeValue } from "../util/serialization";
+
+/**
+ * Name of the URL query param used to share a view
+ * @ignore
+ */
+export const SHARED_VIEW_PARAM = "view";
+
+/**
+ * @ignore
+ */
+export interface SavedViewsController<M extends { [Key: string]: any }> {
+    /**
+     * Views saved by the user for this collection
+     */
+    views: SavedCollectionView<M>[];
+
+    /**
+     * Save a view, replacing any view with the same name
+     */
+    saveView: (view: SavedCollectionView<M>) => void;
+
+    /**
+     * Delete the view with the given name
+     */
+    deleteView: (name: string) => void;
+}
+
+/**
+ * Hook used to persist the views a user saves for a collection, in the local
+ * storage of the browser
+ * @param collectionPath
+ * @ignore
+ */
+export function useSavedViews<M extends { [Key: string]: any }>(collectionPath: string): SavedViewsController<M> {
+
+    const { dataSource } = useCMSAppContext();
+    const storageKey = `firecms::saved_views::${collectionPath}`;
+    const [views, setViews] = useState<SavedCollectionView<M>[]>(() => readViews(storageKey, (path) => dataSource.buildReference(path)));
+
+    const updateViews = useCallback((newViews: SavedCollectionView<M>[]) => {
+        setViews(newViews);
+        try {
+            localStorage.setItem(storageKey, JSON.stringify(serializeValue(newViews)));
+        } catch (e) {
+            console.error("Error saving views", e);
+        }
+    }, [storageKey]);
+
+    const saveView = useCallback((view: SavedCollectionView<M>) => {
+        updateViews([...views.filter((v) => v.name !== view.name), view]);
+    }, [views, updateViews]);
+
+    const deleteView = useCallback((name: string) => {
+        updateViews(views.filter((v) => v.name !== name));
+    }, [views, updateViews]);
+
+    return {
+        views,
+        saveView,
+        deleteView
+    };
+}
+
+function readViews<M extends { [Key: string]: any }>(storageKey: string,
+                                                    buildReference: (path: string) => firebase.firestore.DocumentReference): SavedCollectionView<M>[] {
+    try {
+        const item = localStorage.getItem(storageKey);
+        return item ? deserializeValue(JSON.parse(item), buildReference) : [];
+    } catch (e) {
+        console.error("Error reading saved views", e);
+        return [];
+    }
+}
+
+/**
+ * Encode a view so it can be shared in the query params of a URL
+ * @param view
+ * @param collectionPath
+ * @ignore
+ */
+export function encodeSharedView<M extends { [Key: string]: any }>(view: SavedCollectionView<M>, collectionPath: string): string {
+    return JSON.stringify(serializeValue({ ...view, collectionPath }));
+}
+
+/**
+ * Decode a view shared in a URL, if it belongs to the given collection
+ * @param encoded
+ * @param collectionPath
+ * @param buildReference Used to create the references in filters
+ * @ignore
+ */
+export function decodeSharedView<M extends { [Key: string]: any }>(encoded: string | null,
+                                                                   collectionPath: string,
+                                                                   buildReference: (path: string) => firebase.firestore.DocumentReference): SavedCollectionView<M> | undefined {
+    if (!encoded)
+        return undefined;
+    try {
+        const { collectionPath: viewPath, ...view } = deserializeValue(JSON.parse(encoded), buildReference);
+        return viewPath === collectionPath && typeof view.name === "string" ? view : undefined;
+    } catch (e) {
+        console.error("Error reading shared view", e);
+        return undefined;
+    }
+}
@@ -1,10 +1,12 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
     Entity,
     EntitySchema,
-    fetchEntity,
-    TextSearchDelegate
+    TextSearchDelegate,
+    TextSearchHighlight,
+    TextSearchHit
 } from "../models";
+import { useCMSAppContext } from "../contexts/CMSAppContext";
 
 /**
  * @category Hooks and utilities
@@ -19,6 +21,11 @@ export interface TextSearchProps<M extends { [Key: string]: any }> {
 
     schema: EntitySchema<M>;
 
+    /**
+     * Number of results requested per page
+     */
+    pageSize?: number;
+
 }
 
 /**
@@ -27,6 +34,19 @@ export interface TextSearchProps<M extends { [Key: string]: any }> {
 export type TextSearchResult<M extends { [Key: string]: any }> = {
     textSearchData: Entity<M>[]
     textSearchLoading: boolean,
+    /**
+     * Highlighted values of the matching properties, by entity id
+     */
+    textSearchHighlights: Record<string, Record<string, TextSearchHighlight>>,
+    /**
+     * Total number of results, if the delegate provides it
+     */
+    textSearchTotal?: number,
+    textSearchNoMoreToLoad: boolean,
+    /**
+     * Fetch the next page of results, if there are more
+     */
+    loadMoreTextSearchResults: () => void
 }
 
 /**
@@ -35,6 +55,7 @@ export type TextSearchResult<M extends { [Key: string]: any }> = {
  * @param textSearchDelegate
  * @param collectionPath
  * @param schema
+ * @param pageSize
  * @category Hooks and utilities
  */
 export function useTextSearch<M extends { [Key: string]: any }>(
@@ -42,34 +63,73 @@ export function useTextSearch<M extends { [Key: string]: any }>(
         searchString,
         textSearchDelegate,
         collectionPath,
-        schema
+        schema,
+        pageSize
     }: TextSearchProps<M>): TextSearchResult<M> {
 
+    const { dataSource } = useCMSAppContext();
+
     const [textSearchLoading, setTextSearchLoading] = useState<boolean>(false);
     const [textSearchData, setTextSearchData] = useState<Entity<M>[]>([]);
+    const [textSearchHighlights, setTextSearchHighlights] = useState<Record<string, Record<string, TextSearchHighlight>>>({});
+    const [textSearchTotal, setTextSearchTotal] = useState<number | undefined>();
+    const [cursor, setCursor] = useState<string | undefined>();
+
+    // used to discard the results of outdated searches
+    const searchCount = useRef<number>(0);
+
+    async function fetchHits(hits: TextSearchHit[]): Promise<Entity<M>[]> {
+        const promises: Promise<Entity<M> | null>[] = hits
+            .map(async ({ id }) => {
+                    try {
+                        return await dataSource.fetchEntity({
+                            path: collectionPath,
+                            entityId: id,
+                            schema
+                        });
+                    } catch (e) {
+                        console.error(e);
+                        return null;
+                    }
+                }
+            );
+        return (await Promise.all(promises))
+            .filter((e) => e !== null && e.values) as Entity<M>[];
+    }
 
-    async function onTextSearch(searchString?: string) {
-        if (textSearchDelegate) {
-            setTextSearchLoading(true);
-            if (!searchString) {
-                setTextSearchData([]);
+    async function onTextSearch(searchString: string, nextCursor?: string) {
+        if (!textSearchDelegate)
+            return;
+        const currentSearch = ++searchCount.current;
+        setTextSearchLoading(true);
+        try {
+            const results = await textSearchDelegate.performTextSearch({
+                query: searchString,
+                collectionPath,
+                cursor: nextCursor,
+                limit: pageSize
+            });
+            const entities = await fetchHits(results.hits);
+            if (currentSearch !== searchCount.current)
+                return;
+            const highlights = results.hits
+                .filter((hit) => hit.highlights)
+                .map((hit) => ({ [hit.id]: hit.highlights! }))
+                .reduce((a, b) => ({ ...a, ...b }), {});
+            if (nextCursor) {
+                setTextSearchData((data) => [...data, ...entities]);
+                setTextSearchHighlights((current) => ({ ...current, ...highlights }));
             } else {
-                const ids = await textSearchDelegate.performTextSearch(searchString);
-                const promises: Promise<Entity<M> | null>[] = ids
-                    .map(async (id) => {
-                            try {
-                                return await fetchEntity(collectionPath, id, schema);
-                            } catch (e) {
-                                console.error(e);
-                                return null;
-                            }
-                        }
-                    );
-                const entities = (await Promise.all(promises))
-                    .filter((e) => e !== null && e.values) as Entity<M>[];
                 setTextSearchData(entities);
+                setTextSearchHighlights(highlights);
             }
-            setTextSearchLoading(false);
+            setTextSearchTotal(results.total);
+            setCursor(results.cursor);
+        } catch (e) {
+            console.error("Error performing text search", e);
+        } finally {
+            if (currentSearch === searchCount.current)
+                setTextSearchLoading(false);
         }
     }
 
@@ -78,15 +138,28 @@ export function useTextSearch<M extends { [Key: string]: any }>(
         if (searchString) {
             onTextSearch(searchString).then();
         } else {
+            searchCount.current++;
             setTextSearchData([]);
+            setTextSearchHighlights({});
+            setTextSearchTotal(undefined);
+            setCursor(undefined);
             setTextSearchLoading(false);
         }
 
     }, [collectionPath, schema, textSearchDelegate, searchString]);
 
+    const loadMoreTextSearchResults = () => {
+        if (searchString && cursor && !textSearchLoading)
+            onTextSearch(searchString, cursor).then();
+    };
+
     return {
         textSearchData,
-        textSearchLoading
+        textSearchLoading,
+        textSearchHighlights,
+        textSearchTotal,
+        textSearchNoMoreToLoad: !cursor,
+        loadMoreTextSearchResults
     };
 
 }
@@ -0,0 +1,37 @@
+import { useMemo } from "react";
+import { useCMSAppContext } from "../contexts";
+import { buildTranslate, TranslateFunction } from "../i18n";
+import { Locale } from "../models";
+
+/**
+ * @category Hooks and utilities
+ */
+export interface TranslationController {
+    /**
+     * Translate a key of the user interface into the language of the CMS.
+     * `params` are replaced in the string, and `count` picks its plural
+     * variant
+     */
+    t: TranslateFunction;
+    /**
+     * Locale of the CMS
+     */
+    locale?: Locale;
+}
+
+/**
+ * Hook to translate the strings of the user interface, using the `locale`
+ * of the CMS and the `translations` overriding the bundled ones.
+ *
+ * Consider that in order to use this hook you need to have a parent
+ * `CMSApp` or a `CMSAppProvider`. Otherwise strings are in English
+ *
+ * @category Hooks and utilities
+ */
+export function useTranslation(): TranslationController {
+    const { cmsAppConfig } = useCMSAppContext();
+    const locale = cmsAppConfig.locale;
+    const translations = cmsAppConfig.translations;
+    const t = useMemo(() => buildTranslate(locale, translations), [locale, translations]);
+    return { t, locale };
+}
@@ -0,0 +1,287 @@
+import type { Translations } from "./translations";
+
+const de: Translations = {
+
+    cancel: "Abbrechen",
+    ok: "OK",
+    all: "Alle",
+    history: "Verlauf",
+
+    filter: "Filtern",
+    clearFilter: "Zurücksetzen",
+    addFilterCondition: "Bedingung hinzufügen",
+    filterNotSupported: "Das Feld {dataType} wird derzeit nicht unterstützt",
+
+    save: "Speichern",
+    saveDraft: "Entwurf speichern",
+    create: "Erstellen",
+    createCopy: "Kopie erstellen",
+    discard: "Verwerfen",
+    discardDraft: "Entwurf verwerfen",
+    publish: "Veröffentlichen",
+    unpublish: "Veröffentlichung aufheben",
+    scheduledPublication: "Veröffentlichung geplant am {date}. Speichere den Entwurf, um den Zeitplan beizubehalten",
+    unsavedChanges: "Du hast ungespeicherte Änderungen in diesem {schema}. Möchtest du diese Seite wirklich verlassen?",
+
+    savedCorrectly: "{schema}: Erfolgreich gespeichert",
+    draftSaved: "{schema}: Entwurf gespeichert",
+    errorSaving: "{schema}: Fehler beim Speichern",
+    errorBeforeSaving: "Fehler vor dem Speichern",
+    errorAfterSaving: "{schema}: Fehler nach dem Speichern (der Eintrag ist gespeichert)",
+    published: "{schema}: Veröffentlicht",
+    errorPublishing: "{schema}: Fehler beim Veröffentlichen",
+    errorBeforePublishing: "Fehler vor dem Veröffentlichen",
+    errorAfterPublishing: "{schema}: Fehler nach dem Veröffentlichen (der Eintrag ist veröffentlicht)",
+    unpublished: "{schema}: Veröffentlichung aufgehoben, der Inhalt bleibt als Entwurf erhalten",
+    draftDiscarded: "{schema}: Entwurf verworfen",
+    versionRestored: "{schema}: Version wiederhergestellt",
+    errorRestoringVersion: "{schema}: Fehler beim Wiederherstellen der Version",
+
+    deleteTitle: "Möchtest du diesen Eintrag ({schema}) löschen?",
+    deleteMultipleTitle: {
+        one: "{schema}: {count} Eintrag löschen?",
+        other: "{schema}: {count} Einträge löschen?"
+    },
+    trashTitle: "Möchtest du diesen Eintrag ({schema}) in den Papierkorb verschieben?",
+    trashMultipleTitle: {
+        one: "{schema}: {count} Eintrag in den Papierkorb verschieben?",
+        other: "{schema}: {count} Einträge in den Papierkorb verschieben?"
+    },
+    purgeTitle: "Möchtest du diesen Eintrag ({schema}) endgültig löschen?",
+    purgeMultipleTitle: {
+        one: "{schema}: {count} Eintrag endgültig löschen?",
+        other: "{schema}: {count} Einträge endgültig löschen?"
+    },
+    multipleEntities: {
+        one: "{count} Eintrag",
+        other: "{count} Einträge"
+    },
+    checkingDependencies: "Abhängigkeiten werden geprüft",
+    errorCheckingDependencies: "Die Abhängigkeiten konnten nicht geprüft werden: {error}",
+    noDependencies: {
+        one: "Keine anderen Einträge hängen von diesem Eintrag ab",
+        other: "Keine anderen Einträge hängen von diesen Einträgen ab"
+    },
+    subcollectionEntities: {
+        one: "{count} Eintrag in Untersammlungen",
+        other: "{count} Einträge in Untersammlungen"
+    },
+    referencingThisEntity: {
+        one: "{count} Eintrag verweist auf diesen Eintrag",
+        other: "{count} Einträge verweisen auf diesen Eintrag"
+    },
+    referencingTheseEntities: {
+        one: "{count} Eintrag verweist auf diese Einträge",
+        other: "{count} Einträge verweisen auf diese Einträge"
+    },
+    andMore: "Und {count} weitere",
+    cascadeDependencies: "Die abhängigen Einträge ebenfalls löschen",
+    nullifyDependencies: "Die Untersammlungen löschen und die Verweise entfernen",
+    blockDependencies: "Nicht löschen",
+    deleted: "{schema} gelöscht",
+    movedToTrash: "{schema} in den Papierkorb verschoben",
+    multipleDeleted: {
+        one: "{schema}: {count} Eintrag gelöscht",
+        other: "{schema}: {count} Einträge gelöscht"
+    },
+    multipleMovedToTrash: {
+        one: "{schema}: {count} Eintrag in den Papierkorb verschoben",
+        other: "{schema}: {count} Einträge in den Papierkorb verschoben"
+    },
+    someNotDeleted: "{schema}: Einige der Einträge wurden gelöscht, aber nicht alle",
+    errorDeleting: "{schema}: Fehler beim Löschen",
+    errorDeletingEntities: "{schema}: Fehler beim Löschen der Einträge",
+    errorBeforeDeleting: "{schema}: Fehler vor dem Löschen",
+    errorAfterDeleting: "{schema}: Fehler nach dem Löschen (der Eintrag ist gelöscht)",
+    errorUpdatingDependencies: "{schema}: Fehler beim Aktualisieren der Abhängigkeiten (der Eintrag ist gelöscht)",
+    auditLogError: "Die Änderung wurde gespeichert, konnte aber nicht im Audit-Log erfasst werden",
+
+    export: "Exportieren",
+    exportData: "Daten exportieren",
+    exportDescription: "Den Inhalt dieser Sammlung herunterladen",
+    exportFormat: "Format",
+    ndjsonFormat: "NDJSON (ein Eintrag pro Zeile)",
+    exportEntities: "Einträge",
+    exportCurrentView: "Aktuelle Filter und Sortierung",
+    exportSelected: "Ausgewählte ({count})",
+    exportLanguages: "Sprachen",
+    entitiesFetched: {
+        one: "{count} Eintrag geladen",
+        other: "{count} Einträge geladen"
+    },
+    errorExporting: "Fehler beim Exportieren der Daten: {error}",
+    download: "Herunterladen",
+
+    close: "Schließen",
+    back: "Zurück",
+    next: "Weiter",
+    edit: "Bearbeiten",
+    select: "Auswählen",
+    delete: "Löschen",
+    copy: "Kopieren",
+    remove: "Entfernen",
+    loadMore: "Mehr laden",
+    property: "Eigenschaft",
+    id: "ID",
+    errors: "Fehler",
+    latitude: "Breitengrad",
+    longitude: "Längengrad",
+    noEditPermission: "Du hast keine Berechtigung, dieses Feld zu bearbeiten",
+    notAvailableInLocale: "Nicht verfügbar in {locale}",
+
+    filterContains: "Enthält",
+    filterAny: "Beliebig",
+    filterNotIn: "nicht in",
+    clearPropertyFilter: "{property} löschen",
+    selectReference: "{name} auswählen",
+    noFilter: "Kein Filter",
+    filterIsTrue: "{property} ist wahr",
+    filterIsFalse: "{property} ist falsch",
+    southWestCorner: "Südwest (Lat,Lng)",
+    northEastCorner: "Nordost (Lat,Lng)",
+    invalidCoordinates: "Breitengrade reichen von -90 bis 90 und Längengrade von -180 bis 180",
+    invalidBoundingBox: "Die Südwestecke muss südlich der Nordostecke liegen",
+
+    addEntity: "{schema} hinzufügen",
+    statusColumn: "Status",
+    statusDraft: "Entwurf",
+    statusPublished: "Veröffentlicht",
+    statusModified: "Geändert",
+    statusScheduled: "Geplant",
+    publishedEntities: "Veröffentlicht",
+    draftEntities: "Entwürfe",
+    scheduledEntities: "Geplant",
+    trash: "Papierkorb",
+    collectionTrash: "{name}: Papierkorb",
+    deletedEntities: "Gelöschte Einträge",
+    backToCollection: "Zurück zur Sammlung",
+    restore: "Wiederherstellen",
+    restoreSelected: "Ausgewählte wiederherstellen",
+    restored: "{schema} wiederhergestellt",
+    multipleRestored: {
+        one: "{schema}: {count} Eintrag wiederhergestellt",
+        other: "{schema}: {count} Einträge wiederhergestellt"
+    },
+    errorRestoring: "{schema}: Fehler beim Wiederherstellen",
+    multipleDelete: "Mehrere löschen",
+    cannotDeleteSelected: "Du hast einen Eintrag ausgewählt, den du nicht löschen kannst",
+    bulkEdit: "Mehrere bearbeiten",
+    cannotEditSelected: "Du hast einen Eintrag ausgewählt, den du nicht bearbeiten kannst",
+    copyWithSubcollections: "Mit Untersammlungen kopieren",
+    copyWithSubcollectionsTitle: "{schema}: Mit Untersammlungen kopieren",
+    copyWithSubcollectionsDescription: "Die Einträge in {subcollections} werden ebenfalls kopiert, und die Referenzen zwischen ihnen verweisen auf die Kopien.",
+    copyProgress: "{copied} von {total} kopiert",
+    errorCopying: "Fehler beim Kopieren: {error}",
+    copiedWithSubcollections: "{schema}: Mit Untersammlungen kopiert",
+
+    bulkEditTitle: {
+        one: "{schema}: {count} Eintrag bearbeiten",
+        other: "{schema}: {count} Einträge bearbeiten"
+    },
+    selectProperty: "Eigenschaft auswählen",
+    bulkEditSet: "Wert setzen",
+    bulkEditArrayAdd: "Zur Liste hinzufügen",
+    bulkEditArrayRemove: "Aus der Liste entfernen",
+    bulkEditIncrement: "Zahl erhöhen",
+    incrementBy: "Erhöhen um",
+    addProperty: "Eigenschaft hinzufügen",
+    applyTo: "Auf {count} anwenden",
+    updatingEntities: "{done} von {count} werden aktualisiert",
+    entitiesUpdated: {
+        one: "{count} Eintrag aktualisiert",
+        other: "{count} Einträge aktualisiert"
+    },
+    bulkEditResult: "{schema}: {count} aktualisiert",
+    bulkEditResultWithFailures: "{schema}: {count} aktualisiert, {failed} fehlgeschlagen",
+    entityNotFound: "Diese Entität existiert nicht mehr",
+
+    import: "Importieren",
+    importTitle: "{schema} importieren",
+    selectFile: "Datei auswählen",
+    mapColumns: "Spalten zuordnen",
+    preview: "Vorschau",
+    importFileDescription: "Wähle eine CSV- oder JSON-Datei aus. CSV-Dateien benötigen eine Kopfzeile und können mit dem Export dieser Sammlung erstellt werden.",
+    importEmptyFile: "Die Datei enthält keine Einträge",
+    errorReadingFile: "Fehler beim Lesen der Datei: {error}",
+    importColumn: "Spalte",
+    importExample: "Beispiel",
+    doNotImport: "Nicht importieren",
+    importValidEntities: {
+        one: "{valid} von {count} Eintrag ist gültig und wird importiert.",
+        other: "{valid} von {count} Einträgen sind gültig und werden importiert."
+    },
+    importInvalidSkipped: "Einträge mit Fehlern werden übersprungen.",
+    importingEntities: "{done} von {count} werden importiert",
+    entitiesImported: {
+        one: "{count} Eintrag importiert",
+        other: "{count} Einträge importiert"
+    },
+    importCount: "{count} importieren",
+    importResult: "{schema}: {count} importiert",
+    importResultWithFailures: "{schema}: {count} importiert, {failed} fehlgeschlagen",
+    importRow: "Zeile",
+
+    noRevisions: "Es gibt noch keine früheren Versionen von {schema}",
+    historyAvailableOnceSaved: "Der Verlauf dieses Eintrags ist verfügbar, sobald er gespeichert ist",
+    changesFromPreviousVersion: "Änderungen gegenüber der vorherigen Version",
+    initialVersion: "Erste Version",
+    restoreVersion: "Diese Version wiederherstellen",
+    noChangesInVersion: "Keine Änderungen in dieser Version",
+    valueBefore: "Vorher",
+    valueAfter: "Nachher",
+
+    views: "Ansichten",
+    collectionViews: "Ansichten der Sammlung",
+    myViews: "Meine Ansichten",
+    deleteView: "{name} löschen",
+    saveCurrentView: "Aktuelle Ansicht speichern",
+    copyViewLink: "Link zur aktuellen Ansicht kopieren",
+    viewLinkCopied: "Link zur aktuellen Ansicht kopiert",
+    saveView: "Ansicht speichern",
+    viewName: "Name",
+    viewNameExists: "Es gibt bereits eine Ansicht der Sammlung mit diesem Namen",
+    sharedView: "Geteilte Ansicht",
+
+    usersView: "Benutzer",
+    usersViewDescription: "Benutzer zum CMS einladen und ihre Rollen verwalten",
+    inviteUser: "Benutzer einladen",
+    inviteUserDescription: "Der Benutzer kann sich mit dieser E-Mail-Adresse über jede Anmeldemethode des CMS anmelden",
+    invite: "Einladen",
+    userInvited: "{email} kann sich jetzt beim CMS anmelden",
+    errorUpdatingUser: "Fehler beim Aktualisieren des Benutzers",
+    email: "E-Mail",
+    userName: "Name",
+    roles: "Rollen",
+    access: "Zugriff",
+    lastLogin: "Letzte Anmeldung",
+    invited: "Eingeladen",
+    invitedBy: "von {email}",
+    enableAccess: "Zugriff aktivieren",
+    disableAccess: "Zugriff deaktivieren",
+    cannotDisableOwnAccess: "Du kannst deinen eigenen Zugriff nicht deaktivieren",
+
+    auditLogView: "Audit-Log",
+    auditLogViewDescription: "Änderungen an den Einträgen des CMS",
+    userEmail: "E-Mail des Benutzers",
+    collection: "Sammlung",
+    allCollections: "Alle Sammlungen",
+    dateFrom: "Von",
+    dateTo: "Bis",
+    noRecords: "Keine Einträge",
+    date: "Datum",
+    user: "Benutzer",
+    operation: "Vorgang",
+    entityId: "ID des Eintrags",
+    changedFields: "Geänderte Felder",
+    operationCreate: "Erstellen",
+    operationUpdate: "Aktualisieren",
+    operationDelete: "Löschen",
+
+    skipLogin: "Anmeldung überspringen",
+    loginProviderNotEnabled: "Du musst den entsprechenden Anmeldeanbieter in deinem Firebase-Projekt aktivieren",
+    openFirebaseConfiguration: "Firebase-Konfiguration öffnen",
+    loginNotAllowed: "Laut der angegebenen Authenticator-Konfiguration hast du anscheinend keinen Zugriff auf das CMS",
+    loginEmailNotVerified: "Wir haben dir eine E-Mail zur Bestätigung deiner Adresse gesendet. Folge dem Link darin und melde dich erneut an"
+};
+
+export default de;
@@ -0,0 +1,289 @@
+/**
+ * Strings of the user interface in English, used for the keys missing
+ * in other languages
+ */
+const en = {
+
+    cancel: "Cancel",
+    ok: "Ok",
+    all: "All",
+    history: "History",
+
+    filter: "Filter",
+    clearFilter: "Clear",
+    addFilterCondition: "Add condition",
+    filterNotSupported: "Currently the field {dataType} is not supported",
+
+    save: "Save",
+    saveDraft: "Save draft",
+    create: "Create",
+    createCopy: "Create copy",
+    discard: "Discard",
+    discardDraft: "Discard draft",
+    publish: "Publish",
+    unpublish: "Unpublish",
+    scheduledPublication: "Scheduled to be published on {date}. Save the draft to keep the schedule",
+    unsavedChanges: "You have unsaved changes in this {schema}. Are you sure you want to leave this page?",
+
+    savedCorrectly: "{schema}: Saved correctly",
+    draftSaved: "{schema}: Draft saved",
+    errorSaving: "{schema}: Error saving",
+    errorBeforeSaving: "Error before saving",
+    errorAfterSaving: "{schema}: Error after saving (entity is saved)",
+    published: "{schema}: Published",
+    errorPublishing: "{schema}: Error publishing",
+    errorBeforePublishing: "Error before publishing",
+    errorAfterPublishing: "{schema}: Error after publishing (entity is published)",
+    unpublished: "{schema}: Unpublished, the content is kept as a draft",
+    draftDiscarded: "{schema}: Draft discarded",
+    versionRestored: "{schema}: Version restored",
+    errorRestoringVersion: "{schema}: Error restoring version",
+
+    deleteTitle: "Would you like to delete this {schema}?",
+    deleteMultipleTitle: {
+        one: "{schema}: Delete {count} entity?",
+        other: "{schema}: Delete {count} entities?"
+    },
+    trashTitle: "Would you like to move this {schema} to the trash?",
+    trashMultipleTitle: {
+        one: "{schema}: Move {count} entity to the trash?",
+        other: "{schema}: Move {count} entities to the trash?"
+    },
+    purgeTitle: "Would you like to permanently delete this {schema}?",
+    purgeMultipleTitle: {
+        one: "{schema}: Permanently delete {count} entity?",
+        other: "{schema}: Permanently delete {count} entities?"
+    },
+    multipleEntities: {
+        one: "{count} entity",
+        other: "{count} entities"
+    },
+    checkingDependencies: "Checking dependencies",
+    errorCheckingDependencies: "Dependencies could not be checked: {error}",
+    noDependencies: {
+        one: "No other entities depend on this entity",
+        other: "No other entities depend on these entities"
+    },
+    subcollectionEntities: {
+        one: "{count} entity in subcollections",
+        other: "{count} entities in subcollections"
+    },
+    referencingThisEntity: {
+        one: "{count} entity references this entity",
+        other: "{count} entities reference this entity"
+    },
+    referencingTheseEntities: {
+        one: "{count} entity references these entities",
+        other: "{count} entities reference these entities"
+    },
+    andMore: "And {count} more",
+    cascadeDependencies: "Delete the dependent entities too",
+    nullifyDependencies: "Delete the subcollections and remove the references",
+    blockDependencies: "Don't delete",
+    deleted: "{schema} deleted",
+    movedToTrash: "{schema} moved to the trash",
+    multipleDeleted: {
+        one: "{schema}: {count} entity deleted",
+        other: "{schema}: {count} entities deleted"
+    },
+    multipleMovedToTrash: {
+        one: "{schema}: {count} entity moved to the trash",
+        other: "{schema}: {count} entities moved to the trash"
+    },
+    someNotDeleted: "{schema}: Some of the entities have been deleted, but not all",
+    errorDeleting: "{schema}: Error deleting",
+    errorDeletingEntities: "{schema}: Error deleting entities",
+    errorBeforeDeleting: "{schema}: Error before deleting",
+    errorAfterDeleting: "{schema}: Error after deleting (entity is deleted)",
+    errorUpdatingDependencies: "{schema}: Error updating the dependencies (entity is deleted)",
+    auditLogError: "The change was saved, but it could not be recorded in the audit log",
+
+    export: "Export",
+    exportData: "Export data",
+    exportDescription: "Download the content of this collection",
+    exportFormat: "Format",
+    ndjsonFormat: "NDJSON (one entity per line)",
+    exportEntities: "Entities",
+    exportCurrentView: "Current filters and sort",
+    exportSelected: "Selected ({count})",
+    exportLanguages: "Languages",
+    entitiesFetched: {
+        one: "{count} entity fetched",
+        other: "{count} entities fetched"
+    },
+    errorExporting: "Error exporting data: {error}",
+    download: "Download",
+
+    close: "Close",
+    back: "Back",
+    next: "Next",
+    edit: "Edit",
+    select: "Select",
+    delete: "Delete",
+    copy: "Copy",
+    remove: "Remove",
+    loadMore: "Load more",
+    property: "Property",
+    id: "Id",
+    errors: "Errors",
+    latitude: "Latitude",
+    longitude: "Longitude",
+    noEditPermission: "You don't have permission to edit this field",
+    notAvailableInLocale: "Not available in {locale}",
+
+    filterContains: "Contains",
+    filterAny: "Any",
+    filterNotIn: "not in",
+    clearPropertyFilter: "Clear {property}",
+    selectReference: "Select {name}",
+    noFilter: "No filter",
+    filterIsTrue: "{property} is true",
+    filterIsFalse: "{property} is false",
+    southWestCorner: "South-west (lat,lng)",
+    northEastCorner: "North-east (lat,lng)",
+    invalidCoordinates: "Latitudes go from -90 to 90 and longitudes from -180 to 180",
+    invalidBoundingBox: "The south-west corner must be south of the north-east one",
+
+    addEntity: "Add {schema}",
+    statusColumn: "Status",
+    statusDraft: "Draft",
+    statusPublished: "Published",
+    statusModified: "Modified",
+    statusScheduled: "Scheduled",
+    publishedEntities: "Published",
+    draftEntities: "Drafts",
+    scheduledEntities: "Scheduled",
+    trash: "Trash",
+    collectionTrash: "{name}: Trash",
+    deletedEntities: "Deleted entities",
+    backToCollection: "Back to the collection",
+    restore: "Restore",
+    restoreSelected: "Restore selected",
+    restored: "{schema} restored",
+    multipleRestored: {
+        one: "{schema}: {count} entity restored",
+        other: "{schema}: {count} entities restored"
+    },
+    errorRestoring: "{schema}: Error restoring",
+    multipleDelete: "Multiple delete",
+    cannotDeleteSelected: "You have selected one entity you cannot delete",
+    bulkEdit: "Bulk edit",
+    cannotEditSelected: "You have selected one entity you cannot edit",
+    copyWithSubcollections: "Copy with subcollections",
+    copyWithSubcollectionsTitle: "{schema}: Copy with subcollections",
+    copyWithSubcollectionsDescription: "The entities in {subcollections} are copied too, and the references between them point at the copies.",
+    copyProgress: "Copied {copied} of {total}",
+    errorCopying: "Error copying: {error}",
+    copiedWithSubcollections: "{schema}: Copied with subcollections",
+
+    bulkEditTitle: {
+        one: "{schema}: Edit {count} entity",
+        other: "{schema}: Edit {count} entities"
+    },
+    selectProperty: "Select property",
+    bulkEditSet: "Set value",
+    bulkEditArrayAdd: "Add to array",
+    bulkEditArrayRemove: "Remove from array",
+    bulkEditIncrement: "Increment number",
+    incrementBy: "Increment by",
+    addProperty: "Add property",
+    applyTo: "Apply to {count}",
+    updatingEntities: "Updating {done} of {count}",
+    entitiesUpdated: {
+        one: "{count} entity updated",
+        other: "{count} entities updated"
+    },
+    bulkEditResult: "{schema}: {count} updated",
+    bulkEditResultWithFailures: "{schema}: {count} updated, {failed} failed",
+    entityNotFound: "This entity no longer exists",
+
+    import: "Import",
+    importTitle: "Import {schema}",
+    selectFile: "Select file",
+    mapColumns: "Map columns",
+    preview: "Preview",
+    importFileDescription: "Select a CSV or JSON file. CSV files need a header row, and can be created with the export of this collection.",
+    importEmptyFile: "The file does not contain any entities",
+    errorReadingFile: "Error reading the file: {error}",
+    importColumn: "Column",
+    importExample: "Example",
+    doNotImport: "Do not import",
+    importValidEntities: {
+        one: "{valid} of {count} entity is valid and will be imported.",
+        other: "{valid} of {count} entities are valid and will be imported."
+    },
+    importInvalidSkipped: "Entities with errors are skipped.",
+    importingEntities: "Importing {done} of {count}",
+    entitiesImported: {
+        one: "{count} entity imported",
+        other: "{count} entities imported"
+    },
+    importCount: "Import {count}",
+    importResult: "{schema}: {count} imported",
+    importResultWithFailures: "{schema}: {count} imported, {failed} failed",
+    importRow: "Row",
+
+    noRevisions: "There are no previous versions of this {schema} yet",
+    historyAvailableOnceSaved: "The history of this entity is available once it is saved",
+    changesFromPreviousVersion: "Changes from the previous version",
+    initialVersion: "Initial version",
+    restoreVersion: "Restore this version",
+    noChangesInVersion: "No changes in this version",
+    valueBefore: "Before",
+    valueAfter: "After",
+
+    views: "Views",
+    collectionViews: "Collection views",
+    myViews: "My views",
+    deleteView: "Delete {name}",
+    saveCurrentView: "Save current view",
+    copyViewLink: "Copy link to current view",
+    viewLinkCopied: "Link to the current view copied",
+    saveView: "Save view",
+    viewName: "Name",
+    viewNameExists: "There is already a collection view with this name",
+    sharedView: "Shared view",
+
+    usersView: "Users",
+    usersViewDescription: "Invite users to the CMS and manage their roles",
+    inviteUser: "Invite user",
+    inviteUserDescription: "The user will be able to log in with this email address, using any of the sign in methods of the CMS",
+    invite: "Invite",
+    userInvited: "{email} can now log in to the CMS",
+    errorUpdatingUser: "Error updating user",
+    email: "Email",
+    userName: "Name",
+    roles: "Roles",
+    access: "Access",
+    lastLogin: "Last login",
+    invited: "Invited",
+    invitedBy: "by {email}",
+    enableAccess: "Enable access",
+    disableAccess: "Disable access",
+    cannotDisableOwnAccess: "You can't disable your own access",
+
+    auditLogView: "Audit log",
+    auditLogViewDescription: "Changes made to the entities of the CMS",
+    userEmail: "User email",
+    collection: "Collection",
+    allCollections: "All collections",
+    dateFrom: "From",
+    dateTo: "To",
+    noRecords: "No records",
+    date: "Date",
+    user: "User",
+    operation: "Operation",
+    entityId: "Entity id",
+    changedFields: "Changed fields",
+    operationCreate: "Create",
+    operationUpdate: "Update",
+    operationDelete: "Delete",
+
+    skipLogin: "Skip login",
+    loginProviderNotEnabled: "You need to enable the corresponding login provider in your Firebase project",
+    openFirebaseConfiguration: "Open Firebase configuration",
+    loginNotAllowed: "It looks like you don't have access to the CMS, based on the specified Authenticator configuration",
+    loginEmailNotVerified: "We sent you an email to verify your address. Follow the link in it and log in again"
+};
+
+export default en;
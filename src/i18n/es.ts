@@ -0,0 +1,287 @@
+import type { Translations } from "./translations";
+
+const es: Translations = {
+
+    cancel: "Cancelar",
+    ok: "Aceptar",
+    all: "Todas",
+    history: "Historial",
+
+    filter: "Filtrar",
+    clearFilter: "Limpiar",
+    addFilterCondition: "Añadir condición",
+    filterNotSupported: "Por ahora el campo {dataType} no está soportado",
+
+    save: "Guardar",
+    saveDraft: "Guardar borrador",
+    create: "Crear",
+    createCopy: "Crear copia",
+    discard: "Descartar",
+    discardDraft: "Descartar borrador",
+    publish: "Publicar",
+    unpublish: "Despublicar",
+    scheduledPublication: "Programado para publicarse el {date}. Guarda el borrador para mantener la programación",
+    unsavedChanges: "Tienes cambios sin guardar en este {schema}. ¿Seguro que quieres salir de esta página?",
+
+    savedCorrectly: "{schema}: Guardado correctamente",
+    draftSaved: "{schema}: Borrador guardado",
+    errorSaving: "{schema}: Error al guardar",
+    errorBeforeSaving: "Error antes de guardar",
+    errorAfterSaving: "{schema}: Error después de guardar (la entidad está guardada)",
+    published: "{schema}: Publicado",
+    errorPublishing: "{schema}: Error al publicar",
+    errorBeforePublishing: "Error antes de publicar",
+    errorAfterPublishing: "{schema}: Error después de publicar (la entidad está publicada)",
+    unpublished: "{schema}: Despublicado, el contenido se conserva como borrador",
+    draftDiscarded: "{schema}: Borrador descartado",
+    versionRestored: "{schema}: Versión restaurada",
+    errorRestoringVersion: "{schema}: Error al restaurar la versión",
+
+    deleteTitle: "¿Quieres eliminar este {schema}?",
+    deleteMultipleTitle: {
+        one: "{schema}: ¿Eliminar {count} entidad?",
+        other: "{schema}: ¿Eliminar {count} entidades?"
+    },
+    trashTitle: "¿Quieres mover este {schema} a la papelera?",
+    trashMultipleTitle: {
+        one: "{schema}: ¿Mover {count} entidad a la papelera?",
+        other: "{schema}: ¿Mover {count} entidades a la papelera?"
+    },
+    purgeTitle: "¿Quieres eliminar este {schema} de forma permanente?",
+    purgeMultipleTitle: {
+        one: "{schema}: ¿Eliminar {count} entidad de forma permanente?",
+        other: "{schema}: ¿Eliminar {count} entidades de forma permanente?"
+    },
+    multipleEntities: {
+        one: "{count} entidad",
+        other: "{count} entidades"
+    },
+    checkingDependencies: "Comprobando dependencias",
+    errorCheckingDependencies: "No se han podido comprobar las dependencias: {error}",
+    noDependencies: {
+        one: "Ninguna otra entidad depende de esta entidad",
+        other: "Ninguna otra entidad depende de estas entidades"
+    },
+    subcollectionEntities: {
+        one: "{count} entidad en subcolecciones",
+        other: "{count} entidades en subcolecciones"
+    },
+    referencingThisEntity: {
+        one: "{count} entidad hace referencia a esta entidad",
+        other: "{count} entidades hacen referencia a esta entidad"
+    },
+    referencingTheseEntities: {
+        one: "{count} entidad hace referencia a estas entidades",
+        other: "{count} entidades hacen referencia a estas entidades"
+    },
+    andMore: "Y {count} más",
+    cascadeDependencies: "Eliminar también las entidades dependientes",
+    nullifyDependencies: "Eliminar las subcolecciones y quitar las referencias",
+    blockDependencies: "No eliminar",
+    deleted: "{schema} eliminado",
+    movedToTrash: "{schema} movido a la papelera",
+    multipleDeleted: {
+        one: "{schema}: {count} entidad eliminada",
+        other: "{schema}: {count} entidades eliminadas"
+    },
+    multipleMovedToTrash: {
+        one: "{schema}: {count} entidad movida a la papelera",
+        other: "{schema}: {count} entidades movidas a la papelera"
+    },
+    someNotDeleted: "{schema}: Se han eliminado algunas de las entidades, pero no todas",
+    errorDeleting: "{schema}: Error al eliminar",
+    errorDeletingEntities: "{schema}: Error al eliminar las entidades",
+    errorBeforeDeleting: "{schema}: Error antes de eliminar",
+    errorAfterDeleting: "{schema}: Error después de eliminar (la entidad está eliminada)",
+    errorUpdatingDependencies: "{schema}: Error al actualizar las dependencias (la entidad está eliminada)",
+    auditLogError: "El cambio se ha guardado, pero no se ha podido registrar en el registro de auditoría",
+
+    export: "Exportar",
+    exportData: "Exportar datos",
+    exportDescription: "Descarga el contenido de esta colección",
+    exportFormat: "Formato",
+    ndjsonFormat: "NDJSON (una entidad por línea)",
+    exportEntities: "Entidades",
+    exportCurrentView: "Filtros y orden actuales",
+    exportSelected: "Seleccionadas ({count})",
+    exportLanguages: "Idiomas",
+    entitiesFetched: {
+        one: "{count} entidad obtenida",
+        other: "{count} entidades obtenidas"
+    },
+    errorExporting: "Error al exportar los datos: {error}",
+    download: "Descargar",
+
+    close: "Cerrar",
+    back: "Atrás",
+    next: "Siguiente",
+    edit: "Editar",
+    select: "Seleccionar",
+    delete: "Eliminar",
+    copy: "Copiar",
+    remove: "Quitar",
+    loadMore: "Cargar más",
+    property: "Propiedad",
+    id: "Id",
+    errors: "Errores",
+    latitude: "Latitud",
+    longitude: "Longitud",
+    noEditPermission: "No tienes permiso para editar este campo",
+    notAvailableInLocale: "No disponible en {locale}",
+
+    filterContains: "Contiene",
+    filterAny: "Alguno",
+    filterNotIn: "no en",
+    clearPropertyFilter: "Borrar {property}",
+    selectReference: "Seleccionar {name}",
+    noFilter: "Sin filtro",
+    filterIsTrue: "{property} es verdadero",
+    filterIsFalse: "{property} es falso",
+    southWestCorner: "Suroeste (lat,lng)",
+    northEastCorner: "Noreste (lat,lng)",
+    invalidCoordinates: "Las latitudes van de -90 a 90 y las longitudes de -180 a 180",
+    invalidBoundingBox: "La esquina suroeste debe estar al sur de la noreste",
+
+    addEntity: "Añadir {schema}",
+    statusColumn: "Estado",
+    statusDraft: "Borrador",
+    statusPublished: "Publicado",
+    statusModified: "Modificado",
+    statusScheduled: "Programado",
+    publishedEntities: "Publicados",
+    draftEntities: "Borradores",
+    scheduledEntities: "Programados",
+    trash: "Papelera",
+    collectionTrash: "{name}: Papelera",
+    deletedEntities: "Entidades eliminadas",
+    backToCollection: "Volver a la colección",
+    restore: "Restaurar",
+    restoreSelected: "Restaurar seleccionadas",
+    restored: "{schema} restaurado",
+    multipleRestored: {
+        one: "{schema}: {count} entidad restaurada",
+        other: "{schema}: {count} entidades restauradas"
+    },
+    errorRestoring: "{schema}: Error al restaurar",
+    multipleDelete: "Eliminación múltiple",
+    cannotDeleteSelected: "Has seleccionado una entidad que no puedes eliminar",
+    bulkEdit: "Edición múltiple",
+    cannotEditSelected: "Has seleccionado una entidad que no puedes editar",
+    copyWithSubcollections: "Copiar con subcolecciones",
+    copyWithSubcollectionsTitle: "{schema}: Copiar con subcolecciones",
+    copyWithSubcollectionsDescription: "Las entidades de {subcollections} también se copian, y las referencias entre ellas apuntan a las copias.",
+    copyProgress: "Copiadas {copied} de {total}",
+    errorCopying: "Error al copiar: {error}",
+    copiedWithSubcollections: "{schema}: Copiado con subcolecciones",
+
+    bulkEditTitle: {
+        one: "{schema}: Editar {count} entidad",
+        other: "{schema}: Editar {count} entidades"
+    },
+    selectProperty: "Seleccionar propiedad",
+    bulkEditSet: "Establecer valor",
+    bulkEditArrayAdd: "Añadir a la lista",
+    bulkEditArrayRemove: "Quitar de la lista",
+    bulkEditIncrement: "Incrementar número",
+    incrementBy: "Incrementar en",
+    addProperty: "Añadir propiedad",
+    applyTo: "Aplicar a {count}",
+    updatingEntities: "Actualizando {done} de {count}",
+    entitiesUpdated: {
+        one: "{count} entidad actualizada",
+        other: "{count} entidades actualizadas"
+    },
+    bulkEditResult: "{schema}: {count} actualizadas",
+    bulkEditResultWithFailures: "{schema}: {count} actualizadas, {failed} con errores",
+    entityNotFound: "Esta entidad ya no existe",
+
+    import: "Importar",
+    importTitle: "Importar {schema}",
+    selectFile: "Seleccionar archivo",
+    mapColumns: "Asignar columnas",
+    preview: "Vista previa",
+    importFileDescription: "Selecciona un archivo CSV o JSON. Los archivos CSV necesitan una fila de cabecera, y se pueden crear con la exportación de esta colección.",
+    importEmptyFile: "El archivo no contiene ninguna entidad",
+    errorReadingFile: "Error al leer el archivo: {error}",
+    importColumn: "Columna",
+    importExample: "Ejemplo",
+    doNotImport: "No importar",
+    importValidEntities: {
+        one: "{valid} de {count} entidad es válida y se importará.",
+        other: "{valid} de {count} entidades son válidas y se importarán."
+    },
+    importInvalidSkipped: "Las entidades con errores se omiten.",
+    importingEntities: "Importando {done} de {count}",
+    entitiesImported: {
+        one: "{count} entidad importada",
+        other: "{count} entidades importadas"
+    },
+    importCount: "Importar {count}",
+    importResult: "{schema}: {count} importadas",
+    importResultWithFailures: "{schema}: {count} importadas, {failed} con errores",
+    importRow: "Fila",
+
+    noRevisions: "Todavía no hay versiones anteriores de este {schema}",
+    historyAvailableOnceSaved: "El historial de esta entidad está disponible una vez guardada",
+    changesFromPreviousVersion: "Cambios respecto a la versión anterior",
+    initialVersion: "Versión inicial",
+    restoreVersion: "Restaurar esta versión",
+    noChangesInVersion: "No hay cambios en esta versión",
+    valueBefore: "Antes",
+    valueAfter: "Después",
+
+    views: "Vistas",
+    collectionViews: "Vistas de la colección",
+    myViews: "Mis vistas",
+    deleteView: "Eliminar {name}",
+    saveCurrentView: "Guardar la vista actual",
+    copyViewLink: "Copiar enlace a la vista actual",
+    viewLinkCopied: "Enlace a la vista actual copiado",
+    saveView: "Guardar vista",
+    viewName: "Nombre",
+    viewNameExists: "Ya existe una vista de la colección con este nombre",
+    sharedView: "Vista compartida",
+
+    usersView: "Usuarios",
+    usersViewDescription: "Invita usuarios al CMS y gestiona sus roles",
+    inviteUser: "Invitar usuario",
+    inviteUserDescription: "El usuario podrá iniciar sesión con esta dirección de correo, usando cualquiera de los métodos de acceso del CMS",
+    invite: "Invitar",
+    userInvited: "{email} ya puede iniciar sesión en el CMS",
+    errorUpdatingUser: "Error al actualizar el usuario",
+    email: "Correo electrónico",
+    userName: "Nombre",
+    roles: "Roles",
+    access: "Acceso",
+    lastLogin: "Último acceso",
+    invited: "Invitado",
+    invitedBy: "por {email}",
+    enableAccess: "Activar el acceso",
+    disableAccess: "Desactivar el acceso",
+    cannotDisableOwnAccess: "No puedes desactivar tu propio acceso",
+
+    auditLogView: "Registro de auditoría",
+    auditLogViewDescription: "Cambios realizados en las entidades del CMS",
+    userEmail: "Correo del usuario",
+    collection: "Colección",
+    allCollections: "Todas las colecciones",
+    dateFrom: "Desde",
+    dateTo: "Hasta",
+    noRecords: "No hay registros",
+    date: "Fecha",
+    user: "Usuario",
+    operation: "Operación",
+    entityId: "Id de la entidad",
+    changedFields: "Campos modificados",
+    operationCreate: "Creación",
+    operationUpdate: "Actualización",
+    operationDelete: "Eliminación",
+
+    skipLogin: "Omitir inicio de sesión",
+    loginProviderNotEnabled: "Tienes que habilitar el proveedor de inicio de sesión correspondiente en tu proyecto de Firebase",
+    openFirebaseConfiguration: "Abrir la configuración de Firebase",
+    loginNotAllowed: "Parece que no tienes acceso al CMS, según la configuración del Authenticator especificada",
+    loginEmailNotVerified: "Te hemos enviado un correo para verificar tu dirección. Sigue el enlace que contiene y vuelve a iniciar sesión"
+};
+
+export default es;
@@ -0,0 +1,287 @@
+import type { Translations } from "./translations";
+
+const fr: Translations = {
+
+    cancel: "Annuler",
+    ok: "OK",
+    all: "Toutes",
+    history: "Historique",
+
+    filter: "Filtrer",
+    clearFilter: "Effacer",
+    addFilterCondition: "Ajouter une condition",
+    filterNotSupported: "Le champ {dataType} n'est pas encore pris en charge",
+
+    save: "Enregistrer",
+    saveDraft: "Enregistrer le brouillon",
+    create: "Créer",
+    createCopy: "Créer une copie",
+    discard: "Annuler les modifications",
+    discardDraft: "Supprimer le brouillon",
+    publish: "Publier",
+    unpublish: "Dépublier",
+    scheduledPublication: "Publication programmée le {date}. Enregistrez le brouillon pour conserver la programmation",
+    unsavedChanges: "Vous avez des modifications non enregistrées dans ce {schema}. Voulez-vous vraiment quitter cette page ?",
+
+    savedCorrectly: "{schema} : Enregistré",
+    draftSaved: "{schema} : Brouillon enregistré",
+    errorSaving: "{schema} : Erreur lors de l'enregistrement",
+    errorBeforeSaving: "Erreur avant l'enregistrement",
+    errorAfterSaving: "{schema} : Erreur après l'enregistrement (l'entité est enregistrée)",
+    published: "{schema} : Publié",
+    errorPublishing: "{schema} : Erreur lors de la publication",
+    errorBeforePublishing: "Erreur avant la publication",
+    errorAfterPublishing: "{schema} : Erreur après la publication (l'entité est publiée)",
+    unpublished: "{schema} : Dépublié, le contenu est conservé comme brouillon",
+    draftDiscarded: "{schema} : Brouillon supprimé",
+    versionRestored: "{schema} : Version restaurée",
+    errorRestoringVersion: "{schema} : Erreur lors de la restauration de la version",
+
+    deleteTitle: "Voulez-vous supprimer ce {schema} ?",
+    deleteMultipleTitle: {
+        one: "{schema} : Supprimer {count} entité ?",
+        other: "{schema} : Supprimer {count} entités ?"
+    },
+    trashTitle: "Voulez-vous déplacer ce {schema} vers la corbeille ?",
+    trashMultipleTitle: {
+        one: "{schema} : Déplacer {count} entité vers la corbeille ?",
+        other: "{schema} : Déplacer {count} entités vers la corbeille ?"
+    },
+    purgeTitle: "Voulez-vous supprimer définitivement ce {schema} ?",
+    purgeMultipleTitle: {
+        one: "{schema} : Supprimer définitivement {count} entité ?",
+        other: "{schema} : Supprimer définitivement {count} entités ?"
+    },
+    multipleEntities: {
+        one: "{count} entité",
+        other: "{count} entités"
+    },
+    checkingDependencies: "Vérification des dépendances",
+    errorCheckingDependencies: "Les dépendances n'ont pas pu être vérifiées : {error}",
+    noDependencies: {
+        one: "Aucune autre entité ne dépend de cette entité",
+        other: "Aucune autre entité ne dépend de ces entités"
+    },
+    subcollectionEntities: {
+        one: "{count} entité dans des sous-collections",
+        other: "{count} entités dans des sous-collections"
+    },
+    referencingThisEntity: {
+        one: "{count} entité fait référence à cette entité",
+        other: "{count} entités font référence à cette entité"
+    },
+    referencingTheseEntities: {
+        one: "{count} entité fait référence à ces entités",
+        other: "{count} entités font référence à ces entités"
+    },
+    andMore: "Et {count} de plus",
+    cascadeDependencies: "Supprimer aussi les entités dépendantes",
+    nullifyDependencies: "Supprimer les sous-collections et retirer les références",
+    blockDependencies: "Ne pas supprimer",
+    deleted: "{schema} supprimé",
+    movedToTrash: "{schema} déplacé vers la corbeille",
+    multipleDeleted: {
+        one: "{schema} : {count} entité supprimée",
+        other: "{schema} : {count} entités supprimées"
+    },
+    multipleMovedToTrash: {
+        one: "{schema} : {count} entité déplacée vers la corbeille",
+        other: "{schema} : {count} entités déplacées vers la corbeille"
+    },
+    someNotDeleted: "{schema} : Certaines entités ont été supprimées, mais pas toutes",
+    errorDeleting: "{schema} : Erreur lors de la suppression",
+    errorDeletingEntities: "{schema} : Erreur lors de la suppression des entités",
+    errorBeforeDeleting: "{schema} : Erreur avant la suppression",
+    errorAfterDeleting: "{schema} : Erreur après la suppression (l'entité est supprimée)",
+    errorUpdatingDependencies: "{schema} : Erreur lors de la mise à jour des dépendances (l'entité est supprimée)",
+    auditLogError: "La modification a été enregistrée, mais n'a pas pu être consignée dans le journal d'audit",
+
+    export: "Exporter",
+    exportData: "Exporter les données",
+    exportDescription: "Télécharger le contenu de cette collection",
+    exportFormat: "Format",
+    ndjsonFormat: "NDJSON (une entité par ligne)",
+    exportEntities: "Entités",
+    exportCurrentView: "Filtres et tri actuels",
+    exportSelected: "Sélectionnées ({count})",
+    exportLanguages: "Langues",
+    entitiesFetched: {
+        one: "{count} entité récupérée",
+        other: "{count} entités récupérées"
+    },
+    errorExporting: "Erreur lors de l'export des données : {error}",
+    download: "Télécharger",
+
+    close: "Fermer",
+    back: "Retour",
+    next: "Suivant",
+    edit: "Modifier",
+    select: "Sélectionner",
+    delete: "Supprimer",
+    copy: "Copier",
+    remove: "Retirer",
+    loadMore: "Charger plus",
+    property: "Propriété",
+    id: "Id",
+    errors: "Erreurs",
+    latitude: "Latitude",
+    longitude: "Longitude",
+    noEditPermission: "Vous n'avez pas l'autorisation de modifier ce champ",
+    notAvailableInLocale: "Non disponible en {locale}",
+
+    filterContains: "Contient",
+    filterAny: "N'importe lequel",
+    filterNotIn: "pas dans",
+    clearPropertyFilter: "Effacer {property}",
+    selectReference: "Sélectionner {name}",
+    noFilter: "Aucun filtre",
+    filterIsTrue: "{property} est vrai",
+    filterIsFalse: "{property} est faux",
+    southWestCorner: "Sud-ouest (lat,lng)",
+    northEastCorner: "Nord-est (lat,lng)",
+    invalidCoordinates: "Les latitudes vont de -90 à 90 et les longitudes de -180 à 180",
+    invalidBoundingBox: "Le coin sud-ouest doit être au sud du coin nord-est",
+
+    addEntity: "Ajouter {schema}",
+    statusColumn: "Statut",
+    statusDraft: "Brouillon",
+    statusPublished: "Publié",
+    statusModified: "Modifié",
+    statusScheduled: "Programmé",
+    publishedEntities: "Publiés",
+    draftEntities: "Brouillons",
+    scheduledEntities: "Programmés",
+    trash: "Corbeille",
+    collectionTrash: "{name} : Corbeille",
+    deletedEntities: "Entités supprimées",
+    backToCollection: "Retour à la collection",
+    restore: "Restaurer",
+    restoreSelected: "Restaurer la sélection",
+    restored: "{schema} restauré",
+    multipleRestored: {
+        one: "{schema} : {count} entité restaurée",
+        other: "{schema} : {count} entités restaurées"
+    },
+    errorRestoring: "{schema} : Erreur lors de la restauration",
+    multipleDelete: "Suppression multiple",
+    cannotDeleteSelected: "Vous avez sélectionné une entité que vous ne pouvez pas supprimer",
+    bulkEdit: "Modification multiple",
+    cannotEditSelected: "Vous avez sélectionné une entité que vous ne pouvez pas modifier",
+    copyWithSubcollections: "Copier avec les sous-collections",
+    copyWithSubcollectionsTitle: "{schema} : Copier avec les sous-collections",
+    copyWithSubcollectionsDescription: "Les entités de {subcollections} sont aussi copiées, et les références entre elles pointent vers les copies.",
+    copyProgress: "{copied} sur {total} copiées",
+    errorCopying: "Erreur lors de la copie : {error}",
+    copiedWithSubcollections: "{schema} : Copié avec les sous-collections",
+
+    bulkEditTitle: {
+        one: "{schema} : Modifier {count} entité",
+        other: "{schema} : Modifier {count} entités"
+    },
+    selectProperty: "Sélectionner une propriété",
+    bulkEditSet: "Définir la valeur",
+    bulkEditArrayAdd: "Ajouter à la liste",
+    bulkEditArrayRemove: "Retirer de la liste",
+    bulkEditIncrement: "Incrémenter le nombre",
+    incrementBy: "Incrémenter de",
+    addProperty: "Ajouter une propriété",
+    applyTo: "Appliquer à {count}",
+    updatingEntities: "Mise à jour de {done} sur {count}",
+    entitiesUpdated: {
+        one: "{count} entité mise à jour",
+        other: "{count} entités mises à jour"
+    },
+    bulkEditResult: "{schema} : {count} mises à jour",
+    bulkEditResultWithFailures: "{schema} : {count} mises à jour, {failed} en échec",
+    entityNotFound: "Cette entité n'existe plus",
+
+    import: "Importer",
+    importTitle: "Importer {schema}",
+    selectFile: "Sélectionner un fichier",
+    mapColumns: "Associer les colonnes",
+    preview: "Aperçu",
+    importFileDescription: "Sélectionnez un fichier CSV ou JSON. Les fichiers CSV ont besoin d'une ligne d'en-tête, et peuvent être créés avec l'export de cette collection.",
+    importEmptyFile: "Le fichier ne contient aucune entité",
+    errorReadingFile: "Erreur lors de la lecture du fichier : {error}",
+    importColumn: "Colonne",
+    importExample: "Exemple",
+    doNotImport: "Ne pas importer",
+    importValidEntities: {
+        one: "{valid} sur {count} entité est valide et sera importée.",
+        other: "{valid} sur {count} entités sont valides et seront importées."
+    },
+    importInvalidSkipped: "Les entités avec des erreurs sont ignorées.",
+    importingEntities: "Import de {done} sur {count}",
+    entitiesImported: {
+        one: "{count} entité importée",
+        other: "{count} entités importées"
+    },
+    importCount: "Importer {count}",
+    importResult: "{schema} : {count} importées",
+    importResultWithFailures: "{schema} : {count} importées, {failed} en échec",
+    importRow: "Ligne",
+
+    noRevisions: "Il n'y a pas encore de versions précédentes de ce {schema}",
+    historyAvailableOnceSaved: "L'historique de cette entité est disponible une fois qu'elle est enregistrée",
+    changesFromPreviousVersion: "Modifications par rapport à la version précédente",
+    initialVersion: "Version initiale",
+    restoreVersion: "Restaurer cette version",
+    noChangesInVersion: "Aucune modification dans cette version",
+    valueBefore: "Avant",
+    valueAfter: "Après",
+
+    views: "Vues",
+    collectionViews: "Vues de la collection",
+    myViews: "Mes vues",
+    deleteView: "Supprimer {name}",
+    saveCurrentView: "Enregistrer la vue actuelle",
+    copyViewLink: "Copier le lien vers la vue actuelle",
+    viewLinkCopied: "Lien vers la vue actuelle copié",
+    saveView: "Enregistrer la vue",
+    viewName: "Nom",
+    viewNameExists: "Il existe déjà une vue de la collection avec ce nom",
+    sharedView: "Vue partagée",
+
+    usersView: "Utilisateurs",
+    usersViewDescription: "Invitez des utilisateurs dans le CMS et gérez leurs rôles",
+    inviteUser: "Inviter un utilisateur",
+    inviteUserDescription: "L'utilisateur pourra se connecter avec cette adresse e-mail, avec n'importe quelle méthode de connexion du CMS",
+    invite: "Inviter",
+    userInvited: "{email} peut maintenant se connecter au CMS",
+    errorUpdatingUser: "Erreur lors de la mise à jour de l'utilisateur",
+    email: "E-mail",
+    userName: "Nom",
+    roles: "Rôles",
+    access: "Accès",
+    lastLogin: "Dernière connexion",
+    invited: "Invité",
+    invitedBy: "par {email}",
+    enableAccess: "Activer l'accès",
+    disableAccess: "Désactiver l'accès",
+    cannotDisableOwnAccess: "Vous ne pouvez pas désactiver votre propre accès",
+
+    auditLogView: "Journal d'audit",
+    auditLogViewDescription: "Modifications apportées aux entités du CMS",
+    userEmail: "E-mail de l'utilisateur",
+    collection: "Collection",
+    allCollections: "Toutes les collections",
+    dateFrom: "Du",
+    dateTo: "Au",
+    noRecords: "Aucun enregistrement",
+    date: "Date",
+    user: "Utilisateur",
+    operation: "Opération",
+    entityId: "Id de l'entité",
+    changedFields: "Champs modifiés",
+    operationCreate: "Création",
+    operationUpdate: "Mise à jour",
+    operationDelete: "Suppression",
+
+    skipLogin: "Passer la connexion",
+    loginProviderNotEnabled: "Vous devez activer le fournisseur de connexion correspondant dans votre projet Firebase",
+    openFirebaseConfiguration: "Ouvrir la configuration Firebase",
+    loginNotAllowed: "Il semble que vous n'ayez pas accès au CMS, d'après la configuration de l'Authenticator spécifiée",
+    loginEmailNotVerified: "Nous vous avons envoyé un e-mail pour vérifier votre adresse. Suivez le lien qu'il contient et reconnectez-vous"
+};
+
+export default fr;
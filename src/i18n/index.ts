@@ -0,0 +1,12 @@
+export type {
+    TranslationKey,
+    PluralTranslation,
+    Translation,
+    Translations,
+    TranslateFunction
+} from "./translations";
+
+export {
+    getTranslations,
+    buildTranslate
+} from "./translations";
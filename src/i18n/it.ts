@@ -0,0 +1,287 @@
+import type { Translations } from "./translations";
+
+const it: Translations = {
+
+    cancel: "Annulla",
+    ok: "OK",
+    all: "Tutte",
+    history: "Cronologia",
+
+    filter: "Filtra",
+    clearFilter: "Pulisci",
+    addFilterCondition: "Aggiungi condizione",
+    filterNotSupported: "Il campo {dataType} non è ancora supportato",
+
+    save: "Salva",
+    saveDraft: "Salva bozza",
+    create: "Crea",
+    createCopy: "Crea copia",
+    discard: "Annulla modifiche",
+    discardDraft: "Elimina bozza",
+    publish: "Pubblica",
+    unpublish: "Annulla pubblicazione",
+    scheduledPublication: "Pubblicazione programmata per il {date}. Salva la bozza per mantenere la programmazione",
+    unsavedChanges: "Ci sono modifiche non salvate in questo {schema}. Vuoi davvero lasciare questa pagina?",
+
+    savedCorrectly: "{schema}: Salvato correttamente",
+    draftSaved: "{schema}: Bozza salvata",
+    errorSaving: "{schema}: Errore durante il salvataggio",
+    errorBeforeSaving: "Errore prima del salvataggio",
+    errorAfterSaving: "{schema}: Errore dopo il salvataggio (l'entità è salvata)",
+    published: "{schema}: Pubblicato",
+    errorPublishing: "{schema}: Errore durante la pubblicazione",
+    errorBeforePublishing: "Errore prima della pubblicazione",
+    errorAfterPublishing: "{schema}: Errore dopo la pubblicazione (l'entità è pubblicata)",
+    unpublished: "{schema}: Pubblicazione annullata, il contenuto è conservato come bozza",
+    draftDiscarded: "{schema}: Bozza eliminata",
+    versionRestored: "{schema}: Versione ripristinata",
+    errorRestoringVersion: "{schema}: Errore durante il ripristino della versione",
+
+    deleteTitle: "Vuoi eliminare questo {schema}?",
+    deleteMultipleTitle: {
+        one: "{schema}: Eliminare {count} entità?",
+        other: "{schema}: Eliminare {count} entità?"
+    },
+    trashTitle: "Vuoi spostare questo {schema} nel cestino?",
+    trashMultipleTitle: {
+        one: "{schema}: Spostare {count} entità nel cestino?",
+        other: "{schema}: Spostare {count} entità nel cestino?"
+    },
+    purgeTitle: "Vuoi eliminare definitivamente questo {schema}?",
+    purgeMultipleTitle: {
+        one: "{schema}: Eliminare definitivamente {count} entità?",
+        other: "{schema}: Eliminare definitivamente {count} entità?"
+    },
+    multipleEntities: {
+        one: "{count} entità",
+        other: "{count} entità"
+    },
+    checkingDependencies: "Verifica delle dipendenze",
+    errorCheckingDependencies: "Non è stato possibile verificare le dipendenze: {error}",
+    noDependencies: {
+        one: "Nessun'altra entità dipende da questa entità",
+        other: "Nessun'altra entità dipende da queste entità"
+    },
+    subcollectionEntities: {
+        one: "{count} entità nelle sottoraccolte",
+        other: "{count} entità nelle sottoraccolte"
+    },
+    referencingThisEntity: {
+        one: "{count} entità fa riferimento a questa entità",
+        other: "{count} entità fanno riferimento a questa entità"
+    },
+    referencingTheseEntities: {
+        one: "{count} entità fa riferimento a queste entità",
+        other: "{count} entità fanno riferimento a queste entità"
+    },
+    andMore: "E altre {count}",
+    cascadeDependencies: "Elimina anche le entità dipendenti",
+    nullifyDependencies: "Elimina le sottoraccolte e rimuovi i riferimenti",
+    blockDependencies: "Non eliminare",
+    deleted: "{schema} eliminato",
+    movedToTrash: "{schema} spostato nel cestino",
+    multipleDeleted: {
+        one: "{schema}: {count} entità eliminata",
+        other: "{schema}: {count} entità eliminate"
+    },
+    multipleMovedToTrash: {
+        one: "{schema}: {count} entità spostata nel cestino",
+        other: "{schema}: {count} entità spostate nel cestino"
+    },
+    someNotDeleted: "{schema}: Alcune entità sono state eliminate, ma non tutte",
+    errorDeleting: "{schema}: Errore durante l'eliminazione",
+    errorDeletingEntities: "{schema}: Errore durante l'eliminazione delle entità",
+    errorBeforeDeleting: "{schema}: Errore prima dell'eliminazione",
+    errorAfterDeleting: "{schema}: Errore dopo l'eliminazione (l'entità è eliminata)",
+    errorUpdatingDependencies: "{schema}: Errore durante l'aggiornamento delle dipendenze (l'entità è eliminata)",
+    auditLogError: "La modifica è stata salvata, ma non è stato possibile registrarla nel registro di controllo",
+
+    export: "Esporta",
+    exportData: "Esporta dati",
+    exportDescription: "Scarica il contenuto di questa raccolta",
+    exportFormat: "Formato",
+    ndjsonFormat: "NDJSON (un'entità per riga)",
+    exportEntities: "Entità",
+    exportCurrentView: "Filtri e ordinamento attuali",
+    exportSelected: "Selezionate ({count})",
+    exportLanguages: "Lingue",
+    entitiesFetched: {
+        one: "{count} entità caricata",
+        other: "{count} entità caricate"
+    },
+    errorExporting: "Errore durante l'esportazione dei dati: {error}",
+    download: "Scarica",
+
+    close: "Chiudi",
+    back: "Indietro",
+    next: "Avanti",
+    edit: "Modifica",
+    select: "Seleziona",
+    delete: "Elimina",
+    copy: "Copia",
+    remove: "Rimuovi",
+    loadMore: "Carica altri",
+    property: "Proprietà",
+    id: "Id",
+    errors: "Errori",
+    latitude: "Latitudine",
+    longitude: "Longitudine",
+    noEditPermission: "Non hai il permesso di modificare questo campo",
+    notAvailableInLocale: "Non disponibile in {locale}",
+
+    filterContains: "Contiene",
+    filterAny: "Qualsiasi",
+    filterNotIn: "non in",
+    clearPropertyFilter: "Cancella {property}",
+    selectReference: "Seleziona {name}",
+    noFilter: "Nessun filtro",
+    filterIsTrue: "{property} è vero",
+    filterIsFalse: "{property} è falso",
+    southWestCorner: "Sud-ovest (lat,lng)",
+    northEastCorner: "Nord-est (lat,lng)",
+    invalidCoordinates: "Le latitudini vanno da -90 a 90 e le longitudini da -180 a 180",
+    invalidBoundingBox: "L'angolo sud-ovest deve essere a sud di quello nord-est",
+
+    addEntity: "Aggiungi {schema}",
+    statusColumn: "Stato",
+    statusDraft: "Bozza",
+    statusPublished: "Pubblicato",
+    statusModified: "Modificato",
+    statusScheduled: "Programmato",
+    publishedEntities: "Pubblicati",
+    draftEntities: "Bozze",
+    scheduledEntities: "Programmati",
+    trash: "Cestino",
+    collectionTrash: "{name}: Cestino",
+    deletedEntities: "Entità eliminate",
+    backToCollection: "Torna alla collezione",
+    restore: "Ripristina",
+    restoreSelected: "Ripristina selezionate",
+    restored: "{schema} ripristinato",
+    multipleRestored: {
+        one: "{schema}: {count} entità ripristinata",
+        other: "{schema}: {count} entità ripristinate"
+    },
+    errorRestoring: "{schema}: Errore durante il ripristino",
+    multipleDelete: "Eliminazione multipla",
+    cannotDeleteSelected: "Hai selezionato un'entità che non puoi eliminare",
+    bulkEdit: "Modifica multipla",
+    cannotEditSelected: "Hai selezionato un'entità che non puoi modificare",
+    copyWithSubcollections: "Copia con sottocollezioni",
+    copyWithSubcollectionsTitle: "{schema}: Copia con sottocollezioni",
+    copyWithSubcollectionsDescription: "Anche le entità in {subcollections} vengono copiate, e i riferimenti tra di esse puntano alle copie.",
+    copyProgress: "Copiate {copied} di {total}",
+    errorCopying: "Errore durante la copia: {error}",
+    copiedWithSubcollections: "{schema}: Copiato con sottocollezioni",
+
+    bulkEditTitle: {
+        one: "{schema}: Modifica {count} entità",
+        other: "{schema}: Modifica {count} entità"
+    },
+    selectProperty: "Seleziona proprietà",
+    bulkEditSet: "Imposta valore",
+    bulkEditArrayAdd: "Aggiungi alla lista",
+    bulkEditArrayRemove: "Rimuovi dalla lista",
+    bulkEditIncrement: "Incrementa numero",
+    incrementBy: "Incrementa di",
+    addProperty: "Aggiungi proprietà",
+    applyTo: "Applica a {count}",
+    updatingEntities: "Aggiornamento di {done} su {count}",
+    entitiesUpdated: {
+        one: "{count} entità aggiornata",
+        other: "{count} entità aggiornate"
+    },
+    bulkEditResult: "{schema}: {count} aggiornate",
+    bulkEditResultWithFailures: "{schema}: {count} aggiornate, {failed} non riuscite",
+    entityNotFound: "Questa entità non esiste più",
+
+    import: "Importa",
+    importTitle: "Importa {schema}",
+    selectFile: "Seleziona file",
+    mapColumns: "Associa colonne",
+    preview: "Anteprima",
+    importFileDescription: "Seleziona un file CSV o JSON. I file CSV richiedono una riga di intestazione e possono essere creati con l'esportazione di questa collezione.",
+    importEmptyFile: "Il file non contiene alcuna entità",
+    errorReadingFile: "Errore durante la lettura del file: {error}",
+    importColumn: "Colonna",
+    importExample: "Esempio",
+    doNotImport: "Non importare",
+    importValidEntities: {
+        one: "{valid} di {count} entità è valida e verrà importata.",
+        other: "{valid} di {count} entità sono valide e verranno importate."
+    },
+    importInvalidSkipped: "Le entità con errori vengono saltate.",
+    importingEntities: "Importazione di {done} su {count}",
+    entitiesImported: {
+        one: "{count} entità importata",
+        other: "{count} entità importate"
+    },
+    importCount: "Importa {count}",
+    importResult: "{schema}: {count} importate",
+    importResultWithFailures: "{schema}: {count} importate, {failed} non riuscite",
+    importRow: "Riga",
+
+    noRevisions: "Non ci sono ancora versioni precedenti di questo {schema}",
+    historyAvailableOnceSaved: "La cronologia di questa entità è disponibile una volta salvata",
+    changesFromPreviousVersion: "Modifiche rispetto alla versione precedente",
+    initialVersion: "Versione iniziale",
+    restoreVersion: "Ripristina questa versione",
+    noChangesInVersion: "Nessuna modifica in questa versione",
+    valueBefore: "Prima",
+    valueAfter: "Dopo",
+
+    views: "Viste",
+    collectionViews: "Viste della collezione",
+    myViews: "Le mie viste",
+    deleteView: "Elimina {name}",
+    saveCurrentView: "Salva la vista attuale",
+    copyViewLink: "Copia il link alla vista attuale",
+    viewLinkCopied: "Link alla vista attuale copiato",
+    saveView: "Salva vista",
+    viewName: "Nome",
+    viewNameExists: "Esiste già una vista della collezione con questo nome",
+    sharedView: "Vista condivisa",
+
+    usersView: "Utenti",
+    usersViewDescription: "Invita utenti nel CMS e gestisci i loro ruoli",
+    inviteUser: "Invita utente",
+    inviteUserDescription: "L'utente potrà accedere con questo indirizzo email, usando uno qualsiasi dei metodi di accesso del CMS",
+    invite: "Invita",
+    userInvited: "{email} può ora accedere al CMS",
+    errorUpdatingUser: "Errore durante l'aggiornamento dell'utente",
+    email: "Email",
+    userName: "Nome",
+    roles: "Ruoli",
+    access: "Accesso",
+    lastLogin: "Ultimo accesso",
+    invited: "Invitato",
+    invitedBy: "da {email}",
+    enableAccess: "Abilita l'accesso",
+    disableAccess: "Disabilita l'accesso",
+    cannotDisableOwnAccess: "Non puoi disabilitare il tuo accesso",
+
+    auditLogView: "Registro di controllo",
+    auditLogViewDescription: "Modifiche apportate alle entità del CMS",
+    userEmail: "Email dell'utente",
+    collection: "Collezione",
+    allCollections: "Tutte le collezioni",
+    dateFrom: "Da",
+    dateTo: "A",
+    noRecords: "Nessun record",
+    date: "Data",
+    user: "Utente",
+    operation: "Operazione",
+    entityId: "Id dell'entità",
+    changedFields: "Campi modificati",
+    operationCreate: "Creazione",
+    operationUpdate: "Aggiornamento",
+    operationDelete: "Eliminazione",
+
+    skipLogin: "Salta l'accesso",
+    loginProviderNotEnabled: "Devi abilitare il provider di accesso corrispondente nel tuo progetto Firebase",
+    openFirebaseConfiguration: "Apri la configurazione di Firebase",
+    loginNotAllowed: "Sembra che tu non abbia accesso al CMS, in base alla configurazione dell'Authenticator specificata",
+    loginEmailNotVerified: "Ti abbiamo inviato un'email per verificare il tuo indirizzo. Segui il link che contiene e accedi di nuovo"
+};
+
+export default it;
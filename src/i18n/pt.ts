@@ -0,0 +1,287 @@
+import type { Translations } from "./translations";
+
+const pt: Translations = {
+
+    cancel: "Cancelar",
+    ok: "OK",
+    all: "Todas",
+    history: "Histórico",
+
+    filter: "Filtrar",
+    clearFilter: "Limpar",
+    addFilterCondition: "Adicionar condição",
+    filterNotSupported: "O campo {dataType} ainda não é suportado",
+
+    save: "Salvar",
+    saveDraft: "Salvar rascunho",
+    create: "Criar",
+    createCopy: "Criar cópia",
+    discard: "Descartar",
+    discardDraft: "Descartar rascunho",
+    publish: "Publicar",
+    unpublish: "Despublicar",
+    scheduledPublication: "Agendado para publicação em {date}. Salve o rascunho para manter o agendamento",
+    unsavedChanges: "Há alterações não salvas neste {schema}. Tem certeza de que deseja sair desta página?",
+
+    savedCorrectly: "{schema}: Salvo com sucesso",
+    draftSaved: "{schema}: Rascunho salvo",
+    errorSaving: "{schema}: Erro ao salvar",
+    errorBeforeSaving: "Erro antes de salvar",
+    errorAfterSaving: "{schema}: Erro depois de salvar (a entidade está salva)",
+    published: "{schema}: Publicado",
+    errorPublishing: "{schema}: Erro ao publicar",
+    errorBeforePublishing: "Erro antes de publicar",
+    errorAfterPublishing: "{schema}: Erro depois de publicar (a entidade está publicada)",
+    unpublished: "{schema}: Despublicado, o conteúdo é mantido como rascunho",
+    draftDiscarded: "{schema}: Rascunho descartado",
+    versionRestored: "{schema}: Versão restaurada",
+    errorRestoringVersion: "{schema}: Erro ao restaurar a versão",
+
+    deleteTitle: "Deseja excluir este {schema}?",
+    deleteMultipleTitle: {
+        one: "{schema}: Excluir {count} entidade?",
+        other: "{schema}: Excluir {count} entidades?"
+    },
+    trashTitle: "Deseja mover este {schema} para a lixeira?",
+    trashMultipleTitle: {
+        one: "{schema}: Mover {count} entidade para a lixeira?",
+        other: "{schema}: Mover {count} entidades para a lixeira?"
+    },
+    purgeTitle: "Deseja excluir este {schema} permanentemente?",
+    purgeMultipleTitle: {
+        one: "{schema}: Excluir {count} entidade permanentemente?",
+        other: "{schema}: Excluir {count} entidades permanentemente?"
+    },
+    multipleEntities: {
+        one: "{count} entidade",
+        other: "{count} entidades"
+    },
+    checkingDependencies: "Verificando dependências",
+    errorCheckingDependencies: "Não foi possível verificar as dependências: {error}",
+    noDependencies: {
+        one: "Nenhuma outra entidade depende desta entidade",
+        other: "Nenhuma outra entidade depende destas entidades"
+    },
+    subcollectionEntities: {
+        one: "{count} entidade em subcoleções",
+        other: "{count} entidades em subcoleções"
+    },
+    referencingThisEntity: {
+        one: "{count} entidade faz referência a esta entidade",
+        other: "{count} entidades fazem referência a esta entidade"
+    },
+    referencingTheseEntities: {
+        one: "{count} entidade faz referência a estas entidades",
+        other: "{count} entidades fazem referência a estas entidades"
+    },
+    andMore: "E mais {count}",
+    cascadeDependencies: "Excluir também as entidades dependentes",
+    nullifyDependencies: "Excluir as subcoleções e remover as referências",
+    blockDependencies: "Não excluir",
+    deleted: "{schema} excluído",
+    movedToTrash: "{schema} movido para a lixeira",
+    multipleDeleted: {
+        one: "{schema}: {count} entidade excluída",
+        other: "{schema}: {count} entidades excluídas"
+    },
+    multipleMovedToTrash: {
+        one: "{schema}: {count} entidade movida para a lixeira",
+        other: "{schema}: {count} entidades movidas para a lixeira"
+    },
+    someNotDeleted: "{schema}: Algumas entidades foram excluídas, mas não todas",
+    errorDeleting: "{schema}: Erro ao excluir",
+    errorDeletingEntities: "{schema}: Erro ao excluir as entidades",
+    errorBeforeDeleting: "{schema}: Erro antes de excluir",
+    errorAfterDeleting: "{schema}: Erro depois de excluir (a entidade está excluída)",
+    errorUpdatingDependencies: "{schema}: Erro ao atualizar as dependências (a entidade está excluída)",
+    auditLogError: "A alteração foi salva, mas não foi possível registrá-la no log de auditoria",
+
+    export: "Exportar",
+    exportData: "Exportar dados",
+    exportDescription: "Baixe o conteúdo desta coleção",
+    exportFormat: "Formato",
+    ndjsonFormat: "NDJSON (uma entidade por linha)",
+    exportEntities: "Entidades",
+    exportCurrentView: "Filtros e ordenação atuais",
+    exportSelected: "Selecionadas ({count})",
+    exportLanguages: "Idiomas",
+    entitiesFetched: {
+        one: "{count} entidade carregada",
+        other: "{count} entidades carregadas"
+    },
+    errorExporting: "Erro ao exportar os dados: {error}",
+    download: "Baixar",
+
+    close: "Fechar",
+    back: "Voltar",
+    next: "Próximo",
+    edit: "Editar",
+    select: "Selecionar",
+    delete: "Excluir",
+    copy: "Copiar",
+    remove: "Remover",
+    loadMore: "Carregar mais",
+    property: "Propriedade",
+    id: "Id",
+    errors: "Erros",
+    latitude: "Latitude",
+    longitude: "Longitude",
+    noEditPermission: "Você não tem permissão para editar este campo",
+    notAvailableInLocale: "Não disponível em {locale}",
+
+    filterContains: "Contém",
+    filterAny: "Qualquer",
+    filterNotIn: "não em",
+    clearPropertyFilter: "Limpar {property}",
+    selectReference: "Selecionar {name}",
+    noFilter: "Sem filtro",
+    filterIsTrue: "{property} é verdadeiro",
+    filterIsFalse: "{property} é falso",
+    southWestCorner: "Sudoeste (lat,lng)",
+    northEastCorner: "Nordeste (lat,lng)",
+    invalidCoordinates: "As latitudes vão de -90 a 90 e as longitudes de -180 a 180",
+    invalidBoundingBox: "O canto sudoeste deve estar ao sul do nordeste",
+
+    addEntity: "Adicionar {schema}",
+    statusColumn: "Status",
+    statusDraft: "Rascunho",
+    statusPublished: "Publicado",
+    statusModified: "Modificado",
+    statusScheduled: "Agendado",
+    publishedEntities: "Publicados",
+    draftEntities: "Rascunhos",
+    scheduledEntities: "Agendados",
+    trash: "Lixeira",
+    collectionTrash: "{name}: Lixeira",
+    deletedEntities: "Entidades excluídas",
+    backToCollection: "Voltar para a coleção",
+    restore: "Restaurar",
+    restoreSelected: "Restaurar selecionadas",
+    restored: "{schema} restaurado",
+    multipleRestored: {
+        one: "{schema}: {count} entidade restaurada",
+        other: "{schema}: {count} entidades restauradas"
+    },
+    errorRestoring: "{schema}: Erro ao restaurar",
+    multipleDelete: "Exclusão múltipla",
+    cannotDeleteSelected: "Você selecionou uma entidade que não pode excluir",
+    bulkEdit: "Edição em massa",
+    cannotEditSelected: "Você selecionou uma entidade que não pode editar",
+    copyWithSubcollections: "Copiar com subcoleções",
+    copyWithSubcollectionsTitle: "{schema}: Copiar com subcoleções",
+    copyWithSubcollectionsDescription: "As entidades em {subcollections} também são copiadas, e as referências entre elas apontam para as cópias.",
+    copyProgress: "Copiadas {copied} de {total}",
+    errorCopying: "Erro ao copiar: {error}",
+    copiedWithSubcollections: "{schema}: Copiado com subcoleções",
+
+    bulkEditTitle: {
+        one: "{schema}: Editar {count} entidade",
+        other: "{schema}: Editar {count} entidades"
+    },
+    selectProperty: "Selecionar propriedade",
+    bulkEditSet: "Definir valor",
+    bulkEditArrayAdd: "Adicionar à lista",
+    bulkEditArrayRemove: "Remover da lista",
+    bulkEditIncrement: "Incrementar número",
+    incrementBy: "Incrementar em",
+    addProperty: "Adicionar propriedade",
+    applyTo: "Aplicar a {count}",
+    updatingEntities: "Atualizando {done} de {count}",
+    entitiesUpdated: {
+        one: "{count} entidade atualizada",
+        other: "{count} entidades atualizadas"
+    },
+    bulkEditResult: "{schema}: {count} atualizadas",
+    bulkEditResultWithFailures: "{schema}: {count} atualizadas, {failed} com falha",
+    entityNotFound: "Esta entidade não existe mais",
+
+    import: "Importar",
+    importTitle: "Importar {schema}",
+    selectFile: "Selecionar arquivo",
+    mapColumns: "Mapear colunas",
+    preview: "Pré-visualização",
+    importFileDescription: "Selecione um arquivo CSV ou JSON. Os arquivos CSV precisam de uma linha de cabeçalho e podem ser criados com a exportação desta coleção.",
+    importEmptyFile: "O arquivo não contém nenhuma entidade",
+    errorReadingFile: "Erro ao ler o arquivo: {error}",
+    importColumn: "Coluna",
+    importExample: "Exemplo",
+    doNotImport: "Não importar",
+    importValidEntities: {
+        one: "{valid} de {count} entidade é válida e será importada.",
+        other: "{valid} de {count} entidades são válidas e serão importadas."
+    },
+    importInvalidSkipped: "As entidades com erros são ignoradas.",
+    importingEntities: "Importando {done} de {count}",
+    entitiesImported: {
+        one: "{count} entidade importada",
+        other: "{count} entidades importadas"
+    },
+    importCount: "Importar {count}",
+    importResult: "{schema}: {count} importadas",
+    importResultWithFailures: "{schema}: {count} importadas, {failed} com falha",
+    importRow: "Linha",
+
+    noRevisions: "Ainda não há versões anteriores deste {schema}",
+    historyAvailableOnceSaved: "O histórico desta entidade fica disponível depois que ela for salva",
+    changesFromPreviousVersion: "Alterações em relação à versão anterior",
+    initialVersion: "Versão inicial",
+    restoreVersion: "Restaurar esta versão",
+    noChangesInVersion: "Nenhuma alteração nesta versão",
+    valueBefore: "Antes",
+    valueAfter: "Depois",
+
+    views: "Visualizações",
+    collectionViews: "Visualizações da coleção",
+    myViews: "Minhas visualizações",
+    deleteView: "Excluir {name}",
+    saveCurrentView: "Salvar a visualização atual",
+    copyViewLink: "Copiar link para a visualização atual",
+    viewLinkCopied: "Link para a visualização atual copiado",
+    saveView: "Salvar visualização",
+    viewName: "Nome",
+    viewNameExists: "Já existe uma visualização da coleção com este nome",
+    sharedView: "Visualização compartilhada",
+
+    usersView: "Usuários",
+    usersViewDescription: "Convide usuários para o CMS e gerencie suas funções",
+    inviteUser: "Convidar usuário",
+    inviteUserDescription: "O usuário poderá entrar com este endereço de e-mail, usando qualquer um dos métodos de login do CMS",
+    invite: "Convidar",
+    userInvited: "{email} já pode entrar no CMS",
+    errorUpdatingUser: "Erro ao atualizar o usuário",
+    email: "E-mail",
+    userName: "Nome",
+    roles: "Funções",
+    access: "Acesso",
+    lastLogin: "Último login",
+    invited: "Convidado",
+    invitedBy: "por {email}",
+    enableAccess: "Ativar o acesso",
+    disableAccess: "Desativar o acesso",
+    cannotDisableOwnAccess: "Você não pode desativar o seu próprio acesso",
+
+    auditLogView: "Log de auditoria",
+    auditLogViewDescription: "Alterações feitas nas entidades do CMS",
+    userEmail: "E-mail do usuário",
+    collection: "Coleção",
+    allCollections: "Todas as coleções",
+    dateFrom: "De",
+    dateTo: "Até",
+    noRecords: "Nenhum registro",
+    date: "Data",
+    user: "Usuário",
+    operation: "Operação",
+    entityId: "Id da entidade",
+    changedFields: "Campos alterados",
+    operationCreate: "Criação",
+    operationUpdate: "Atualização",
+    operationDelete: "Exclusão",
+
+    skipLogin: "Pular login",
+    loginProviderNotEnabled: "Você precisa ativar o provedor de login correspondente no seu projeto do Firebase",
+    openFirebaseConfiguration: "Abrir a configuração do Firebase",
+    loginNotAllowed: "Parece que você não tem acesso ao CMS, de acordo com a configuração do Authenticator especificada",
+    loginEmailNotVerified: "Enviamos um e-mail para verificar o seu endereço. Siga o link nele e faça login novamente"
+};
+
+export default pt;
@@ -0,0 +1,106 @@
+import { Locale } from "../models/locales";
+import en from "./en";
+import es from "./es";
+import de from "./de";
+import fr from "./fr";
+import it from "./it";
+import pt from "./pt";
+
+/**
+ * Key of a string of the user interface of the CMS
+ * @category Translations
+ */
+export type TranslationKey = keyof typeof en;
+
+/**
+ * Variants of a string depending on a `count` parameter, picked using the
+ * plural rules of the language, e.g.
+ * `{ one: "{count} entity", other: "{count} entities" }`.
+ * `zero` is used for a count of 0 when set, in every language
+ * @category Translations
+ */
+export type PluralTranslation = Partial<Record<Intl.LDMLPluralRule, string>> & {
+    other: string;
+};
+
+/**
+ * A string of the user interface. It can include parameters between
+ * braces, such as `{name}`
+ * @category Translations
+ */
+export type Translation = string | PluralTranslation;
+
+/**
+ * Catalog of the strings of the user interface
+ * @category Translations
+ */
+export type Translations = Record<TranslationKey, Translation>;
+
+/**
+ * Translate a key into a string in the current language
+ * @category Translations
+ */
+export type TranslateFunction = (key: TranslationKey, params?: Record<string, string | number>) => string;
+
+/**
+ * Catalogs bundled with the CMS, by language
+ */
+const catalogs: Record<string, Translations> = { en, es, de, fr, it, pt };
+
+/**
+ * Language of a locale of the CMS, such as `pt` for `ptBR`
+ * @param locale
+ * @ignore
+ */
+export function getLanguage(locale?: Locale | string): string {
+    return locale ? locale.replace(/[A-Z_-].*$/, "") : "en";
+}
+
+/**
+ * Strings of the user interface for the given locale of the CMS, falling
+ * back to English when the language is not bundled. The `overrides`
+ * replace strings of the catalog.
+ * @param locale
+ * @param overrides
+ * @category Translations
+ */
+export function getTranslations(locale?: Locale | string,
+                                overrides?: Partial<Translations>): Translations {
+    const catalog = catalogs[getLanguage(locale)] ?? catalogs.en;
+    return overrides ? { ...catalog, ...overrides } : catalog;
+}
+
+/**
+ * Build the function translating keys in the given locale.
+ * Parameters are replaced in the strings, and plural variants are picked
+ * using the `count` parameter.
+ * @param locale
+ * @param overrides
+ * @category Translations
+ */
+export function buildTranslate(locale?: Locale | string,
+                               overrides?: Partial<Translations>): TranslateFunction {
+    const translations = getTranslations(locale, overrides);
+    const language = getLanguage(locale);
+    const pluralRules = new Intl.PluralRules(catalogs[language] ? language : "en");
+    return (key, params) => {
+        const translation: Translation | undefined = translations[key] ?? catalogs.en[key];
+        if (translation === undefined)
+            return key;
+        let text: string;
+        if (typeof translation === "string") {
+            text = translation;
+        } else {
+            const count = Number(params?.count ?? 0);
+            text = (count === 0 ? translation.zero : undefined)
+                ?? translation[pluralRules.select(count)]
+                ?? translation.other;
+        }
+        return params ? interpolate(text, params) : text;
+    };
+}
+
+function interpolate(text: string, params: Record<string, string | number>): string {
+    return text.replace(/{(\w+)}/g, (match, param) =>
+        params[param] !== undefined ? String(params[param]) : match);
+}
@@ -5,6 +5,7 @@ export * from "./form";
 export * from "./preview";
 export * from "./collection";
 export * from "./hooks";
+export * from "./i18n";
 
 
 
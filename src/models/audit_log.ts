@@ -0,0 +1,244 @@
+import firebase from "firebase/app";
+import "firebase/auth";
+
+import { Entity, EntityValues } from "./entities";
+import { Properties, PropertyOrBuilder } from "./properties";
+import { DataSource } from "./data_source";
+import { FilterCondition, FilterValues } from "./collections";
+import { buildSchema } from "./builders";
+import { getChangedProperties } from "./history";
+import { CMSAppContext } from "../contexts/CMSAppContext";
+
+/**
+ * Configuration of the audit log. When enabled, every entity saved or deleted
+ * from the CMS appends a record to the audit log collection, and admins get
+ * a read-only "Audit log" view.
+ * @category Audit log
+ */
+export interface AuditLogConfig {
+    /**
+     * Path of the collection where the records are stored.
+     * Defaults to `cms_audit_log`
+     */
+    collectionPath?: string;
+
+    /**
+     * Roles that can access the audit log view. Defaults to `["admin"]`
+     */
+    roles?: string[];
+
+    /**
+     * CMS path of the audit log view. Defaults to `audit_log`
+     */
+    path?: string;
+}
+
+/**
+ * @category Audit log
+ */
+export type AuditOperation = "create" | "update" | "delete";
+
+/**
+ * Record of a write made from the CMS
+ * @category Audit log
+ */
+export interface AuditRecord {
+    operation: AuditOperation;
+    /**
+     * Absolute path of the collection of the entity
+     */
+    collection_path: string;
+    entity_id: string;
+    /**
+     * Keys of the properties that were modified. For deletes, the properties
+     * the entity had values for
+     */
+    changed_fields: string[];
+    user_uid: string | null;
+    user_email: string | null;
+    timestamp: Date;
+}
+
+/**
+ * Filter applied to the records of the audit log
+ * @category Audit log
+ */
+export interface AuditLogFilter {
+    userEmail?: string;
+    collectionPath?: string;
+    from?: Date;
+    to?: Date;
+}
+
+/**
+ * @ignore
+ */
+export const DEFAULT_AUDIT_LOG_COLLECTION = "cms_audit_log";
+
+/**
+ * @ignore
+ */
+export const auditRecordSchema = buildSchema<AuditRecord>({
+    name: "Audit record",
+    properties: {
+        operation: {
+            title: "Operation",
+            dataType: "string",
+            config: {
+                enumValues: {
+                    create: "Create",
+                    update: "Update",
+                    delete: "Delete"
+                }
+            }
+        },
+        collection_path: {
+            title: "Collection",
+            dataType: "string"
+        },
+        entity_id: {
+            title: "Entity id",
+            dataType: "string"
+        },
+        changed_fields: {
+            title: "Changed fields",
+            dataType: "array",
+            of: { dataType: "string" }
+        },
+        user_uid: {
+            title: "User id",
+            dataType: "string"
+        },
+        user_email: {
+            title: "User",
+            dataType: "string"
+        },
+        timestamp: {
+            title: "Timestamp",
+            dataType: "timestamp",
+            autoValue: "on_create"
+        }
+    }
+});
+
+/**
+ * Keys of the properties modified by a write. Saved values are merged with
+ * the existing ones, so only the keys included in `values` can change.
+ * Pass undefined `values` for deletes.
+ * @param properties
+ * @param previousValues
+ * @param values
+ * @category Audit log
+ */
+export function getAuditChangedFields<M extends { [Key: string]: any }>(
+    properties: Properties<M> | Record<string, PropertyOrBuilder<any, M>>,
+    previousValues: Partial<EntityValues<M>> | undefined,
+    values: Partial<EntityValues<M>> | undefined
+): string[] {
+    return getChangedProperties(
+        properties as Properties<M>,
+        previousValues,
+        values ? { ...previousValues, ...values } : undefined
+    ) as string[];
+}
+
+/**
+ * Append a record to the audit log
+ * @category Audit log
+ */
+export function saveAuditRecord({
+                                    dataSource,
+                                    config,
+                                    operation,
+                                    collectionPath,
+                                    entityId,
+                                    changedFields,
+                                    user
+                                }: {
+    dataSource: DataSource,
+    config: AuditLogConfig,
+    operation: AuditOperation,
+    collectionPath: string,
+    entityId: string,
+    changedFields: string[],
+    user?: firebase.User | null
+}): Promise<void> {
+    return dataSource.saveEntity<AuditRecord>({
+        collectionPath: config.collectionPath ?? DEFAULT_AUDIT_LOG_COLLECTION,
+        id: undefined,
+        values: {
+            operation,
+            collection_path: collectionPath,
+            entity_id: entityId,
+            changed_fields: changedFields,
+            user_uid: user?.uid ?? null,
+            user_email: user?.email?.toLowerCase() ?? null
+        },
+        schema: auditRecordSchema,
+        status: "new"
+    }).then(() => undefined);
+}
+
+/**
+ * Report an audit record that could not be saved after a write made from
+ * the CMS, so it is not lost silently
+ * @ignore
+ */
+export function onAuditRecordError(context: CMSAppContext, e: Error) {
+    console.error("Error saving audit record", e);
+    if (context.onAuditLogError)
+        context.onAuditLogError(e);
+}
+
+/**
+ * Fetch a page of records of the audit log, the most recent first.
+ * In Firestore, filtering by user or collection requires composite indexes
+ * with `timestamp` descending.
+ * @param dataSource
+ * @param config
+ * @param filter
+ * @param limit
+ * @param startAfter Values of the last record of the previous page
+ * @category Audit log
+ */
+export function fetchAuditRecords({
+                                      dataSource,
+                                      config,
+                                      filter,
+                                      limit,
+                                      startAfter
+                                  }: {
+    dataSource: DataSource,
+    config: AuditLogConfig,
+    filter?: AuditLogFilter,
+    limit?: number,
+    startAfter?: Entity<AuditRecord>
+}): Promise<Entity<AuditRecord>[]> {
+    return dataSource.fetchCollection<AuditRecord>({
+        path: config.collectionPath ?? DEFAULT_AUDIT_LOG_COLLECTION,
+        schema: auditRecordSchema,
+        filter: buildAuditLogFilterValues(filter),
+        orderBy: "timestamp",
+        order: "desc",
+        limit,
+        startAfter: startAfter
+            ? [startAfter.values.timestamp, startAfter.id]
+            : undefined
+    });
+}
+
+function buildAuditLogFilterValues(filter?: AuditLogFilter): FilterValues<AuditRecord> {
+    const filterValues: FilterValues<AuditRecord> = {};
+    if (filter?.userEmail)
+        filterValues.user_email = ["==", filter.userEmail.trim().toLowerCase()];
+    if (filter?.collectionPath)
+        filterValues.collection_path = ["==", filter.collectionPath];
+    const timestampConditions: FilterCondition[] = [];
+    if (filter?.from)
+        timestampConditions.push([">=", filter.from]);
+    if (filter?.to)
+        timestampConditions.push(["<=", filter.to]);
+    if (timestampConditions.length > 0)
+        filterValues.timestamp = timestampConditions;
+    return filterValues;
+}
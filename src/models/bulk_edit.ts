@@ -0,0 +1,107 @@
+import { EntityValues } from "./entities";
+import { Property } from "./properties";
+import { areValuesEqual } from "./history";
+import { TranslationKey } from "../i18n";
+
+/**
+ * Operations that can be applied to a property of multiple entities:
+ * - `set`: replace the value
+ * - `array_add`: add the given items to an array, if not included already
+ * - `array_remove`: remove the given items from an array
+ * - `increment`: add the given number (which can be negative) to a number
+ * @category Collections
+ */
+export type BulkEditOperation = "set" | "array_add" | "array_remove" | "increment";
+
+/**
+ * Change applied to a property of the selected entities
+ * @category Collections
+ */
+export interface BulkEdit {
+    /**
+     * Key of the property
+     */
+    property: string;
+    operation: BulkEditOperation;
+    /**
+     * New value for `set`, items to add or remove for array operations, or
+     * the amount to increment
+     */
+    value: any;
+}
+
+/**
+ * Keys of the translated labels of the operations
+ * @ignore
+ */
+export const bulkEditOperationLabels: Record<BulkEditOperation, TranslationKey> = {
+    set: "bulkEditSet",
+    array_add: "bulkEditArrayAdd",
+    array_remove: "bulkEditArrayRemove",
+    increment: "bulkEditIncrement"
+};
+
+/**
+ * Operations that can be applied to the given property
+ * @param property
+ * @category Collections
+ */
+export function getBulkEditOperations(property: Property): BulkEditOperation[] {
+    if (property.dataType === "array")
+        return ["set", "array_add", "array_remove"];
+    if (property.dataType === "number" && !property.config?.enumValues)
+        return ["set", "increment"];
+    return ["set"];
+}
+
+/**
+ * Values of the edited properties of an entity after applying the edits.
+ * Edits of the same property are applied in order.
+ * @param values Current values of the entity
+ * @param edits
+ * @category Collections
+ */
+export function applyBulkEdits<M extends { [Key: string]: any }>(
+    values: Partial<EntityValues<M>>,
+    edits: BulkEdit[]
+): Partial<EntityValues<M>> {
+    const result: Record<string, any> = {};
+    edits.forEach(({ property, operation, value }) => {
+        const current = property in result ? result[property] : (values as any)[property];
+        result[property] = applyBulkEditOperation(current, operation, value);
+    });
+    return result as Partial<EntityValues<M>>;
+}
+
+function applyBulkEditOperation(current: any, operation: BulkEditOperation, value: any): any {
+    switch (operation) {
+        case "set":
+            return value;
+        case "array_add": {
+            const array: any[] = Array.isArray(current) ? [...current] : [];
+            toArray(value).forEach((item) => {
+                if (!array.some((existing) => areValuesEqual(existing, item)))
+                    array.push(item);
+            });
+            return array;
+        }
+        case "array_remove": {
+            const array: any[] = Array.isArray(current) ? current : [];
+            const items = toArray(value);
+            return array.filter((existing) => !items.some((item) => areValuesEqual(existing, item)));
+        }
+        case "increment": {
+            const base = typeof current === "number" ? current : 0;
+            const amount = typeof value === "number" ? value : Number(value);
+            if (isNaN(amount))
+                throw Error("The increment needs to be a number");
+            return base + amount;
+        }
+    }
+}
+
+function toArray(value: any): any[] {
+    if (value === undefined || value === null)
+        return [];
+    return Array.isArray(value) ? value : [value];
+}
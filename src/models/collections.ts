@@ -94,6 +94,25 @@ export interface EntityCollection<M extends { [Key: string]: any } = any,
      */
     indexes?: CompositeIndex<Extract<keyof M, string>>[];
 
+    /**
+     * If enabled, a snapshot of the entity is stored in a `__history`
+     * subcollection every time it is saved, and a History tab is displayed in
+     * the entity view, where you can compare and restore previous versions.
+     * Defaults to `false`
+     */
+    history?: boolean;
+
+    /**
+     * If enabled, deleted entities are moved to a trash collection
+     * (the path of the collection followed by `__trash`) instead of being
+     * removed, and a Trash view is available in the collection, where they
+     * can be restored or deleted permanently.
+     * The `onPreDelete` and `onDelete` hooks are called when an entity is
+     * moved to the trash, and the save hooks when it is restored.
+     * Defaults to `false`
+     */
+    softDelete?: boolean | SoftDeleteConfig;
+
     /**
      * Should the data in this collection view include an export button.
      * You can also set an `ExportConfig` configuration object to customize
@@ -102,6 +121,15 @@ export interface EntityCollection<M extends { [Key: string]: any } = any,
      */
     exportable?: boolean | ExportConfig;
 
+    /**
+     * Should the data in this collection view include an import button,
+     * used to create or update entities from CSV or JSON files.
+     * You can also set an `ImportConfig` configuration object to customize
+     * the import.
+     * Defaults to `false`
+     */
+    importable?: boolean | ImportConfig;
+
     /**
      * Following the Firestore document and collection schema, you can add
      * subcollections to your entity in the same way you define the root
@@ -139,6 +167,13 @@ export interface EntityCollection<M extends { [Key: string]: any } = any,
      */
     initialSort?: [Extract<keyof M, string>, "asc" | "desc"];
 
+    /**
+     * Predefined views of this collection, that users can select from the
+     * views menu of the collection toolbar. Users can also save their own
+     * views, which are stored locally in their browser.
+     */
+    savedViews?: SavedCollectionView<M>[];
+
     /**
      * Builder for rendering additional components such as buttons in the
      * collection toolbar
@@ -184,11 +219,50 @@ export type ExtraActionsParams<M extends { [Key: string]: any } = any> = {
  */
 export type CollectionSize = "xs" | "s" | "m" | "l" | "xl";
 
+/**
+ * Named preset of the filters, sort, displayed properties and size of a
+ * collection table
+ * @category Collections
+ */
+export interface SavedCollectionView<M extends { [Key: string]: any }> {
+    /**
+     * Name of the view, displayed in the views menu. It must be unique
+     * within a collection
+     */
+    name: string;
+
+    /**
+     * Filters applied when this view is selected
+     */
+    filter?: FilterValues<M>;
+
+    /**
+     * Sort applied when this view is selected
+     */
+    sort?: [Extract<keyof M, string>, "asc" | "desc"];
+
+    /**
+     * Ids of the displayed columns, in order. Defaults to the properties
+     * of the collection
+     */
+    properties?: string[];
+
+    /**
+     * Size of the table rows
+     */
+    size?: CollectionSize;
+}
+
 
 /**
  * @category Collections
  */
 export type Permissions = {
+    /**
+     * Can the user see this collection. Collections that can't be read are
+     * hidden from the navigation. Defaults to `true`
+     */
+    read?: boolean;
     /**
      * Can the user add new entities. Defaults to `true`
      */
@@ -214,6 +288,11 @@ export type PermissionsBuilder<M extends { [Key: string]: any }> =
      * Logged in user
      */
     user: firebase.User | null;
+    /**
+     * Roles of the logged in user, assigned by the `roles` resolver of the
+     * CMS
+     */
+    roles: string[];
     /**
      * Entity being edited, might be null if it is new
      */
@@ -264,16 +343,76 @@ export interface AdditionalColumnDelegate<M extends { [Key: string]: any } = any
 }
 
 /**
- * Used to define filters applied in collections
+ * Used to define filters applied in collections.
+ * Each property can have a single condition, e.g. `{ price: [">=", 10] }`,
+ * or an array of conditions that must all be met, e.g.
+ * `{ price: [[">=", 10], ["<", 50]] }`
  * @category Collections
  */
 export type FilterValues<M extends { [Key: string]: any }>
-    = { [K in keyof M]?: [WhereFilterOp, any] };
+    = { [K in keyof M]?: FilterCondition | FilterCondition[] };
+
+/**
+ * Single condition of a filter, e.g. `[">=", 10]`
+ * @category Collections
+ */
+export type FilterCondition = [WhereFilterOp, any];
+
+/**
+ * Conditions of the filter of a property, as an array, regardless of how
+ * many conditions were set
+ * @param filter
+ * @category Collections
+ */
+export function getFilterConditions(filter?: FilterCondition | FilterCondition[]): FilterCondition[] {
+    if (!filter)
+        return [];
+    if (Array.isArray(filter[0]))
+        return (filter as FilterCondition[]).filter((condition) => !!condition);
+    return [filter as FilterCondition];
+}
+
+/**
+ * Properties of a filter that results are sorted by, in ascending order,
+ * before `orderBy`. Properties with only `==` conditions are left out:
+ * sorting by them has no effect, and it would come before the property
+ * with inequality conditions, which Firestore requires to be sorted first.
+ * @param filter
+ * @param orderBy
+ * @category Collections
+ */
+export function getFilterOrderKeys<M extends { [Key: string]: any }>(filter: FilterValues<M> | undefined,
+                                                                     orderBy: string): string[] {
+    if (!filter)
+        return [];
+    return Object.entries(filter)
+        .filter(([key, entry]) => key !== orderBy
+            && !getFilterConditions(entry as FilterCondition | FilterCondition[])
+                .every(([op]) => op === "=="))
+        .map(([key]) => key);
+}
+
+/**
+ * Property with inequality conditions in a filter, if any. Firestore allows
+ * inequality conditions on a single property, which must be the first one
+ * the results are sorted by.
+ * @param filter
+ * @category Collections
+ */
+export function getInequalityFilterKey<M extends { [Key: string]: any }>(filter?: FilterValues<M>): string | undefined {
+    if (!filter)
+        return undefined;
+    const inequalityOps: WhereFilterOp[] = ["<", "<=", ">", ">=", "!=", "not-in"];
+    return Object.entries(filter)
+        .find(([_, entry]) => getFilterConditions(entry as FilterCondition | FilterCondition[])
+            .some(([op]) => inequalityOps.includes(op)))?.[0];
+}
 
 
 /**
  * Filter conditions in a `Query.where()` clause are specified using the
- * strings '<', '<=', '==', '>=', '>', 'array-contains', 'in', and 'array-contains-any'.
+ * strings '<', '<=', '==', '!=', '>=', '>', 'array-contains', 'in', 'not-in'
+ * and 'array-contains-any'.
  * @category Collections
  */
 export type WhereFilterOp =
@@ -285,6 +424,7 @@ export type WhereFilterOp =
     | ">"
     | "array-contains"
     | "in"
+    | "not-in"
     | "array-contains-any";
 
 /**
@@ -296,6 +436,29 @@ export type ExportConfig = {
     additionalColumns: ExportMappingFunction[]
 }
 
+/**
+ * Configuration of the soft delete of a collection
+ * @category Collections
+ */
+export type SoftDeleteConfig = {
+    /**
+     * Suffix added to the path of the collection to get the path of its
+     * trash collection. Defaults to `__trash`
+     */
+    trashSuffix?: string;
+}
+
+/**
+ * Configuration of the data imports of a collection
+ * @category Collections
+ */
+export type ImportConfig = {
+    /**
+     * Number of entities saved in parallel. Defaults to 20
+     */
+    batchSize?: number;
+}
+
 /**
  * @category Collections
  */
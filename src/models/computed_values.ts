@@ -0,0 +1,63 @@
+import { EntityValues } from "./entities";
+import { Properties, Property } from "./properties";
+
+/**
+ * Is the value of this property computed from other values, and saved
+ * with the entity
+ * @param property
+ * @category Entity properties
+ */
+export function isPersistedComputedProperty(property: Property): boolean {
+    return Boolean(property.compute) && property.persistComputed !== false;
+}
+
+/**
+ * Values with the computed properties, including the ones nested in maps
+ * and arrays, set from the other values
+ * @param properties
+ * @param values
+ * @param persistedOnly Leave out the values of computed properties that
+ * are not persisted, used before saving
+ * @category Entity properties
+ */
+export function computeValues<M extends { [Key: string]: any }>(properties: Properties<M>,
+                                                                 values: Partial<EntityValues<M>>,
+                                                                 persistedOnly: boolean = false): Partial<EntityValues<M>> {
+    if (!hasComputedProperties(properties))
+        return values;
+    return computeMapValues(properties, values ?? {}, values ?? {}, persistedOnly);
+}
+
+function computeMapValues(properties: Properties<any>,
+                          values: any,
+                          entityValues: any,
+                          persistedOnly: boolean): any {
+    const result = { ...values };
+    Object.entries(properties).forEach(([key, property]: [string, Property]) => {
+        if (property.compute) {
+            if (persistedOnly && !isPersistedComputedProperty(property))
+                delete result[key];
+            else
+                result[key] = property.compute(values, entityValues) ?? null;
+        } else if (property.dataType === "map" && property.properties
+            && values[key] && typeof values[key] === "object"
+            && hasComputedProperties(property.properties)) {
+            result[key] = computeMapValues(property.properties, values[key], entityValues, persistedOnly);
+        } else if (property.dataType === "array" && property.of?.dataType === "map" && property.of.properties
+            && Array.isArray(values[key])
+            && hasComputedProperties(property.of.properties)) {
+            const itemProperties = property.of.properties;
+            result[key] = values[key].map((item: any) => item && typeof item === "object"
+                ? computeMapValues(itemProperties, item, entityValues, persistedOnly)
+                : item);
+        }
+    });
+    return result;
+}
+
+function hasComputedProperties(properties: Properties<any>): boolean {
+    return Object.values(properties).some((property: Property) =>
+        Boolean(property.compute)
+        || (property.dataType === "map" && !!property.properties && hasComputedProperties(property.properties))
+        || (property.dataType === "array" && property.of?.dataType === "map" && !!property.of.properties && hasComputedProperties(property.of.properties)));
+}
@@ -0,0 +1,104 @@
+import { getFilterConditions } from "./collections";
+import { Property, PropertyConditions } from "./properties";
+import { matchesFilter } from "./filters";
+
+/**
+ * Do the values meet all the conditions
+ * @param conditions
+ * @param values Values of the map including the property, which relative
+ * keys refer to
+ * @param entityValues Values of the entity, which keys starting with `/`
+ * refer to. Defaults to `values`
+ * @category Entity properties
+ */
+export function matchesPropertyConditions(conditions: PropertyConditions,
+                                          values: any,
+                                          entityValues: any = values): boolean {
+    return Object.entries(conditions).every(([key, condition]) => {
+        const value = key.startsWith("/")
+            ? getConditionValue(entityValues, key.substring(1))
+            : getConditionValue(values, key);
+        return getFilterConditions(condition)
+            .every(([op, expected]) => matchesFilter(value, op, expected));
+    });
+}
+
+/**
+ * Is the field of a property shown, according to its `visibleWhen`
+ * conditions
+ * @param property
+ * @param values
+ * @param entityValues
+ * @category Entity properties
+ */
+export function isPropertyVisible(property: Property,
+                                  values: any,
+                                  entityValues: any = values): boolean {
+    return !property.visibleWhen || matchesPropertyConditions(property.visibleWhen, values, entityValues);
+}
+
+/**
+ * Property with `validation.required` and `disabled` set according to its
+ * `requiredWhen` and `disabledWhen` conditions, and without the conditions
+ * of the property itself
+ * @param property
+ * @param values
+ * @param entityValues
+ * @category Entity properties
+ */
+export function resolvePropertyConditions<P extends Property>(property: P,
+                                                              values: any,
+                                                              entityValues: any = values): P {
+    const { visibleWhen, requiredWhen, disabledWhen } = property;
+    if (!visibleWhen && !requiredWhen && !disabledWhen)
+        return property;
+    const required = requiredWhen && matchesPropertyConditions(requiredWhen, values, entityValues);
+    const disabled = disabledWhen && matchesPropertyConditions(disabledWhen, values, entityValues);
+    return {
+        ...property,
+        visibleWhen: undefined,
+        requiredWhen: undefined,
+        disabledWhen: undefined,
+        disabled: property.disabled || disabled || undefined,
+        validation: required ? { ...property.validation, required: true } : property.validation
+    };
+}
+
+/**
+ * Does the property, or any property nested in it, have conditions
+ * depending on other values
+ * @param property
+ * @ignore
+ */
+export function hasPropertyConditions(property: Property): boolean {
+    if (property.visibleWhen || property.requiredWhen || property.disabledWhen)
+        return true;
+    if (property.dataType === "map" && property.properties)
+        return Object.values(property.properties).some((p) => hasPropertyConditions(p as Property));
+    if (property.dataType === "array") {
+        if (property.of)
+            return hasPropertyConditions(property.of);
+        if (property.oneOf)
+            return Object.values(property.oneOf.properties).some((p) => hasPropertyConditions(p as Property));
+    }
+    return false;
+}
+
+/**
+ * Values of the map including the field with the given name, such as
+ * `address` for `address.street` or `items[2]` for `items[2][price]`
+ * @param name
+ * @param entityValues
+ * @ignore
+ */
+export function getParentValues(name: string, entityValues: any): any {
+    const path = name.replace(/\]/g, "").split(/[.[]/);
+    return path.slice(0, -1)
+        .reduce((value, key) => value !== undefined && value !== null ? value[key] : undefined, entityValues);
+}
+
+function getConditionValue(values: any, key: string): any {
+    const value = key.split(".")
+        .reduce((v, k) => v !== undefined && v !== null ? v[k] : undefined, values);
+    return value === undefined ? null : value;
+}
@@ -0,0 +1,181 @@
+import firebase from "firebase/app";
+
+import { Entity, EntitySchema, EntityStatus, EntityValues } from "./entities";
+import { FilterValues } from "./collections";
+import { Property } from "./properties";
+
+/**
+ * @category Data source
+ */
+export interface FetchCollectionProps<M extends { [Key: string]: any }> {
+    path: string;
+    schema: EntitySchema<M>;
+    filter?: FilterValues<M>;
+    limit?: number;
+    /**
+     * Values of the last fetched entity, used for pagination. They follow
+     * the order of the sorted fields: the filtered properties other than
+     * `orderBy` if it is set, then `orderBy`, or the property with inequality
+     * filters if `orderBy` is not set. The id of the entity can be added
+     * last, to start after entities with the same values.
+     */
+    startAfter?: any[];
+    orderBy?: string;
+    order?: "desc" | "asc";
+}
+
+/**
+ * @category Data source
+ */
+export interface ListenCollectionProps<M extends { [Key: string]: any }>
+    extends FetchCollectionProps<M> {
+    onUpdate: (entities: Entity<M>[]) => void;
+    onError?: (error: Error) => void;
+}
+
+/**
+ * @category Data source
+ */
+export interface FetchEntityProps<M extends { [Key: string]: any }> {
+    path: string;
+    entityId: string;
+    schema: EntitySchema<M>;
+}
+
+/**
+ * @category Data source
+ */
+export interface ListenEntityProps<M extends { [Key: string]: any }>
+    extends FetchEntityProps<M> {
+    onUpdate: (entity: Entity<M>) => void;
+    onError?: (error: Error) => void;
+}
+
+/**
+ * @category Data source
+ */
+export interface SaveEntityProps<M extends { [Key: string]: any }> {
+    /**
+     * Absolute path of the collection the entity is saved in
+     */
+    collectionPath: string;
+
+    /**
+     * Id of the entity. If undefined the data source generates one
+     */
+    id: string | undefined;
+
+    /**
+     * Values to save, after the `onPreSave` hook of the schema has been
+     * applied. The data source sets the timestamps with `autoValue`
+     */
+    values: Partial<EntityValues<M>>;
+
+    schema: EntitySchema<M>;
+
+    status: EntityStatus;
+}
+
+/**
+ * @category Data source
+ */
+export interface DeleteEntityProps<M extends { [Key: string]: any }> {
+    entity: Entity<M>;
+}
+
+/**
+ * @category Data source
+ */
+export interface CopyEntityProps<M extends { [Key: string]: any }> {
+    entity: Entity<M>;
+
+    /**
+     * Absolute path of the collection the entity is copied to, with the
+     * same id
+     */
+    collectionPath: string;
+
+    schema: EntitySchema<M>;
+}
+
+/**
+ * @category Data source
+ */
+export interface CheckUniqueFieldProps {
+    /**
+     * Absolute collection path
+     */
+    path: string;
+    name: string;
+    value: any;
+    property: Property;
+    entityId?: string;
+}
+
+/**
+ * Implement this interface to define where the CMS reads and writes entities.
+ * FireCMS uses Firestore by default (see {@link FirestoreDataSource}), but
+ * you can pass your own implementation to `CMSApp` or `CMSAppProvider` to back
+ * your collections with a REST API or an in-memory store.
+ *
+ * Note that the data source is only in charge of persistence: schema hooks
+ * such as `onPreSave` or `onDelete` are called by the CMS.
+ *
+ * @category Data source
+ */
+export interface DataSource {
+
+    /**
+     * Fetch entities in a collection
+     * @return Promise with the resulting entities
+     */
+    fetchCollection<M extends { [Key: string]: any }>(props: FetchCollectionProps<M>): Promise<Entity<M>[]>;
+
+    /**
+     * Listen to the entities in a collection
+     * @return Function to cancel the subscription
+     */
+    listenCollection<M extends { [Key: string]: any }>(props: ListenCollectionProps<M>): () => void;
+
+    /**
+     * Retrieve an entity given a path and an id
+     */
+    fetchEntity<M extends { [Key: string]: any }>(props: FetchEntityProps<M>): Promise<Entity<M>>;
+
+    /**
+     * Listen to changes of an entity
+     * @return Function to cancel the subscription
+     */
+    listenEntity<M extends { [Key: string]: any }>(props: ListenEntityProps<M>): () => void;
+
+    /**
+     * Save an entity. The values are merged with the existing ones.
+     * @return The saved entity
+     */
+    saveEntity<M extends { [Key: string]: any }>(props: SaveEntityProps<M>): Promise<Entity<M>>;
+
+    /**
+     * Delete an entity
+     */
+    deleteEntity<M extends { [Key: string]: any }>(props: DeleteEntityProps<M>): Promise<void>;
+
+    /**
+     * Copy the data of an entity, as it is stored, to another collection,
+     * replacing the document with the same id if it exists. Timestamps with
+     * `autoValue` are not updated, e.g. when moving entities to the trash.
+     * @return The copied entity
+     */
+    copyEntity<M extends { [Key: string]: any }>(props: CopyEntityProps<M>): Promise<Entity<M>>;
+
+    /**
+     * Check if the given value is unique in the given collection
+     * @return `true` if there are no other entities with that value
+     */
+    checkUniqueField(props: CheckUniqueFieldProps): Promise<boolean>;
+
+    /**
+     * Build a reference to the document in the given path, e.g. when reading
+     * references stored in URLs or imported files
+     */
+    buildReference(path: string): firebase.firestore.DocumentReference;
+}
@@ -0,0 +1,195 @@
+import firebase from "firebase/app";
+
+import { Entity, EntitySchema, EntityValues } from "./entities";
+import { EntityCollection } from "./collections";
+import { CMSAppContext } from "../contexts/CMSAppContext";
+import { saveEntity } from "./firestore";
+import { fetchSubcollectionEntities } from "./dependencies";
+import { areValuesEqual } from "./history";
+import {
+    AuditOperation,
+    getAuditChangedFields,
+    onAuditRecordError,
+    saveAuditRecord
+} from "./audit_log";
+
+/**
+ * Copy an entity together with the entities of its declared subcollections,
+ * at any depth. The copy of the entity is saved with the regular save flow,
+ * with status `copy`, so the `onPreSave` and `onSaveSuccess` hooks of its
+ * schema are called. The entities of the subcollections keep their ids and
+ * are written directly to the data source, without calling their hooks, but
+ * they are recorded in the audit log like any other write.
+ *
+ * References pointing at any entity of the copied tree (for example from a
+ * product to one of its variants) are updated to point at the copies.
+ *
+ * @param entity Entity to copy
+ * @param collectionPath Absolute path of the collection of the entity
+ * @param schema
+ * @param subcollections Subcollections declared in the collection of the entity
+ * @param id Id of the copy. If undefined the data source generates one
+ * @param context
+ * @param history Store a revision of the copy
+ * @param user Author of the revision and of the audit record
+ * @param onProgress Called after each copied entity, with the number of
+ * copied entities and the total
+ * @return the copy of the entity
+ * @category Entities
+ */
+export async function copyEntityWithSubcollections<M extends { [Key: string]: any }>(
+    {
+        entity,
+        collectionPath,
+        schema,
+        subcollections,
+        id,
+        context,
+        history,
+        user,
+        onProgress
+    }: {
+        entity: Entity<M>,
+        collectionPath: string,
+        schema: EntitySchema<M>,
+        subcollections?: EntityCollection[],
+        id?: string,
+        context: CMSAppContext,
+        history?: boolean,
+        user?: firebase.User | null,
+        onProgress?: (copied: number, total: number) => void
+    }): Promise<Entity<M>> {
+
+    const dataSource = context.dataSource;
+    const subcollectionEntities = await fetchSubcollectionEntities(
+        entity.reference.path,
+        subcollections ?? [],
+        dataSource
+    );
+    const total = subcollectionEntities.length + 1;
+    if (onProgress) onProgress(0, total);
+
+    let copy: Entity<M> | undefined;
+    let error: Error | undefined;
+    await saveEntity({
+        collectionPath,
+        id,
+        values: entity.values,
+        schema,
+        status: "copy",
+        onSaveSuccess: (savedEntity) => copy = savedEntity,
+        onSaveFailure: (e) => error = e,
+        onPreSaveHookError: (e) => error = e,
+        context,
+        history,
+        user
+    });
+    if (!copy)
+        throw error ?? Error(`${entity.reference.path} could not be copied`);
+    if (onProgress) onProgress(1, total);
+
+    const sourcePath = entity.reference.path;
+    const copyPath = copy.reference.path;
+    const copiedReferences = new Map<string, firebase.firestore.DocumentReference>();
+    copiedReferences.set(sourcePath, copy.reference);
+
+    const copies: { entity: Entity<any>, collectionPath: string, schema: EntitySchema<any> }[] = [
+        { entity: copy, collectionPath, schema }
+    ];
+    for (const subcollectionEntity of subcollectionEntities) {
+        const copiedCollectionPath = copyPath + subcollectionEntity.collectionPath.substring(sourcePath.length);
+        const subcollectionCopy = await dataSource.saveEntity({
+            collectionPath: copiedCollectionPath,
+            id: subcollectionEntity.entity.id,
+            values: subcollectionEntity.entity.values,
+            schema: subcollectionEntity.collection.schema,
+            status: "copy"
+        });
+        await recordWrite({
+            context,
+            user,
+            operation: "create",
+            collectionPath: copiedCollectionPath,
+            entityId: subcollectionCopy.id,
+            changedFields: getAuditChangedFields(subcollectionEntity.collection.schema.properties, undefined, subcollectionCopy.values)
+        });
+        copiedReferences.set(subcollectionEntity.entity.reference.path, subcollectionCopy.reference);
+        copies.push({
+            entity: subcollectionCopy,
+            collectionPath: copiedCollectionPath,
+            schema: subcollectionEntity.collection.schema
+        });
+        if (onProgress) onProgress(copies.length, total);
+    }
+
+    // the references can point at entities copied later, so they are
+    // updated once all the entities are copied
+    for (const { entity: copiedEntity, collectionPath: copiedCollectionPath, schema: copiedSchema } of copies) {
+        const values = remapReferences(copiedEntity.values, copiedReferences);
+        if (!areValuesEqual(values, copiedEntity.values)) {
+            const updatedEntity = await dataSource.saveEntity({
+                collectionPath: copiedCollectionPath,
+                id: copiedEntity.id,
+                values,
+                schema: copiedSchema,
+                status: "existing"
+            });
+            await recordWrite({
+                context,
+                user,
+                operation: "update",
+                collectionPath: copiedCollectionPath,
+                entityId: copiedEntity.id,
+                changedFields: getAuditChangedFields(copiedSchema.properties, copiedEntity.values, values)
+            });
+            if (copiedEntity === copy)
+                copy = updatedEntity;
+        }
+    }
+
+    return copy;
+}
+
+/**
+ * Add a write made directly to the data source to the audit log, if enabled
+ */
+async function recordWrite({
+                               context,
+                               user,
+                               operation,
+                               collectionPath,
+                               entityId,
+                               changedFields
+                           }: {
+    context: CMSAppContext,
+    user?: firebase.User | null,
+    operation: AuditOperation,
+    collectionPath: string,
+    entityId: string,
+    changedFields: string[]
+}): Promise<void> {
+    const auditLog = context.cmsAppConfig?.auditLog;
+    if (!auditLog)
+        return;
+    await saveAuditRecord({
+        dataSource: context.dataSource,
+        config: auditLog,
+        operation,
+        collectionPath,
+        entityId,
+        changedFields,
+        user
+    }).catch((e) => onAuditRecordError(context, e));
+}
+
+function remapReferences(value: any, references: Map<string, firebase.firestore.DocumentReference>): any {
+    if (value instanceof firebase.firestore.DocumentReference)
+        return references.get(value.path) ?? value;
+    if (Array.isArray(value))
+        return value.map((v) => remapReferences(v, references));
+    if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype)
+        return Object.entries(value)
+            .map(([key, v]) => ({ [key]: remapReferences(v, references) }))
+            .reduce((a, b) => ({ ...a, ...b }), {}) as EntityValues<any>;
+    return value;
+}
@@ -0,0 +1,359 @@
+import firebase from "firebase/app";
+
+import { Entity, EntitySchema, EntityValues } from "./entities";
+import { EntityCollection, FilterValues } from "./collections";
+import { Properties, Property } from "./properties";
+import { DataSource } from "./data_source";
+import { computeSchemaProperties, deleteEntity, saveEntity } from "./firestore";
+import { areValuesEqual } from "./history";
+import { getTrashPath } from "./trash";
+import { normalizePath } from "./utils";
+import { CMSAppContext } from "../contexts/CMSAppContext";
+
+/**
+ * What to do with the entities that depend on a deleted entity:
+ * - `cascade`: delete the entities in its subcollections and the entities
+ * referencing it
+ * - `nullify`: delete the entities in its subcollections and remove the
+ * references to it, setting reference properties to `null` and removing it
+ * from arrays of references
+ * - `block`: don't delete the entity
+ * @category Collections
+ */
+export type DependencyResolution = "cascade" | "nullify" | "block";
+
+/**
+ * Entity with properties that reference a deleted entity
+ * @category Collections
+ */
+export interface ReferencingEntity {
+    entity: Entity<any>;
+    /**
+     * Absolute path of the collection of the entity
+     */
+    collectionPath: string;
+    schema: EntitySchema<any>;
+    collection: EntityCollection;
+    /**
+     * Keys of the properties pointing at the deleted entity, using dots
+     * for the properties of maps
+     */
+    properties: string[];
+}
+
+/**
+ * Entity stored in a subcollection, with the collection it belongs to
+ * @category Collections
+ */
+export interface SubcollectionEntity {
+    entity: Entity<any>;
+    /**
+     * Absolute path of the collection of the entity
+     */
+    collectionPath: string;
+    collection: EntityCollection;
+}
+
+/**
+ * Entities that would be left dangling if an entity was deleted
+ * @category Collections
+ */
+export interface EntityDependencies {
+    /**
+     * Entities in the declared subcollections of the entity, at any depth,
+     * parents before their children
+     */
+    subcollectionEntities: SubcollectionEntity[];
+    /**
+     * Entities of the known collections with reference, or array of
+     * reference, properties pointing at the entity
+     */
+    referencingEntities: ReferencingEntity[];
+}
+
+/**
+ * Find the entities that depend on the given one: the entities stored in its
+ * declared `subcollections` and the entities of the given top level
+ * `collections` with reference properties pointing at it. Only reference
+ * properties at the root of the schema or inside maps can be queried.
+ *
+ * @param entity
+ * @param collectionPath Absolute path of the collection of the entity
+ * @param subcollections Subcollections declared in the collection of the entity
+ * @param collections Collections where to look for references, usually the
+ * collections of the navigation
+ * @param dataSource
+ * @category Collections
+ */
+export async function findEntityDependencies(
+    {
+        entity,
+        collectionPath,
+        subcollections,
+        collections,
+        dataSource
+    }: {
+        entity: Entity<any>,
+        collectionPath: string,
+        subcollections?: EntityCollection[],
+        collections?: EntityCollection[],
+        dataSource: DataSource
+    }): Promise<EntityDependencies> {
+
+    const subcollectionEntities = await fetchSubcollectionEntities(
+        `${normalizePath(collectionPath)}/${entity.id}`,
+        subcollections ?? [],
+        dataSource
+    );
+
+    const referencingEntities: ReferencingEntity[] = [];
+    for (const collection of collections ?? []) {
+        const path = normalizePath(collection.relativePath);
+        const properties = computeSchemaProperties(collection.schema, path);
+        const referenceKeys = getReferencePropertyKeys(properties, normalizePath(collectionPath));
+        for (const [key, isArray] of referenceKeys) {
+            const filter = { [key]: [isArray ? "array-contains" : "==", entity.reference] } as FilterValues<any>;
+            const entities = await dataSource.fetchCollection({
+                path,
+                schema: collection.schema,
+                filter
+            });
+            entities
+                .filter((e) => e.reference.path !== entity.reference.path)
+                .forEach((e) => {
+                    const existing = referencingEntities.find((r) => r.entity.reference.path === e.reference.path);
+                    if (existing)
+                        existing.properties.push(key);
+                    else
+                        referencingEntities.push({
+                            entity: e,
+                            collectionPath: path,
+                            schema: collection.schema,
+                            collection,
+                            properties: [key]
+                        });
+                });
+        }
+    }
+
+    return { subcollectionEntities, referencingEntities };
+}
+
+/**
+ * Does the given entity have any dependency
+ * @param dependencies
+ * @category Collections
+ */
+export function hasEntityDependencies(dependencies: EntityDependencies): boolean {
+    return dependencies.subcollectionEntities.length > 0
+        || dependencies.referencingEntities.length > 0;
+}
+
+/**
+ * Delete or update the dependencies of a deleted entity, according to the
+ * given resolution. The dependent entities are saved and deleted like any
+ * other entity, calling the hooks of their schemas and recording them in
+ * the audit log. Referencing entities of collections with `softDelete` are
+ * moved to their trash, while the entities of the subcollections of the
+ * deleted entity are deleted permanently.
+ * It throws an error if the resolution is `block` and there are dependencies,
+ * or if a dependency can't be resolved.
+ *
+ * @param entity The deleted entity
+ * @param dependencies Dependencies, as returned by {@link findEntityDependencies}
+ * @param resolution
+ * @param context
+ * @param user Author of the revisions and of the audit records
+ * @category Collections
+ */
+export async function resolveEntityDependencies(
+    {
+        entity,
+        dependencies,
+        resolution,
+        context,
+        user
+    }: {
+        entity: Entity<any>,
+        dependencies: EntityDependencies,
+        resolution: DependencyResolution,
+        context: CMSAppContext,
+        user?: firebase.User | null
+    }): Promise<void> {
+
+    if (!hasEntityDependencies(dependencies))
+        return;
+
+    if (resolution === "block")
+        throw Error(`Other entities depend on ${entity.reference.path}`);
+
+    for (const referencing of dependencies.referencingEntities) {
+        const softDelete = referencing.collection.softDelete;
+        if (resolution === "cascade") {
+            await deleteDependency({
+                entity: referencing.entity,
+                collectionPath: referencing.collectionPath,
+                schema: referencing.schema,
+                trashPath: softDelete ? getTrashPath(referencing.collectionPath, softDelete) : undefined,
+                context,
+                user
+            });
+        } else {
+            await saveDependency({
+                entity: referencing.entity,
+                collectionPath: referencing.collectionPath,
+                values: removeReferences(referencing.entity.values, referencing.properties, entity),
+                schema: referencing.schema,
+                history: referencing.collection.history,
+                context,
+                user
+            });
+        }
+    }
+
+    // children before their parents
+    for (const subcollectionEntity of [...dependencies.subcollectionEntities].reverse()) {
+        await deleteDependency({
+            entity: subcollectionEntity.entity,
+            collectionPath: subcollectionEntity.collectionPath,
+            schema: subcollectionEntity.collection.schema,
+            context,
+            user
+        });
+    }
+}
+
+/**
+ * Fetch the entities of the given subcollections of an entity, and of their
+ * own subcollections, parents before their children
+ * @param entityPath Absolute path of the parent entity
+ * @param subcollections
+ * @param dataSource
+ * @ignore
+ */
+export async function fetchSubcollectionEntities(entityPath: string,
+                                                 subcollections: EntityCollection[],
+                                                 dataSource: DataSource): Promise<SubcollectionEntity[]> {
+    const result: SubcollectionEntity[] = [];
+    for (const subcollection of subcollections) {
+        const collectionPath = `${normalizePath(entityPath)}/${normalizePath(subcollection.relativePath)}`;
+        const entities = await dataSource.fetchCollection({
+            path: collectionPath,
+            schema: subcollection.schema
+        });
+        for (const entity of entities) {
+            result.push({ entity, collectionPath, collection: subcollection });
+            if (subcollection.subcollections) {
+                result.push(...await fetchSubcollectionEntities(
+                    `${collectionPath}/${entity.id}`,
+                    subcollection.subcollections,
+                    dataSource));
+            }
+        }
+    }
+    return result;
+}
+
+async function deleteDependency({
+                                    entity,
+                                    collectionPath,
+                                    schema,
+                                    trashPath,
+                                    context,
+                                    user
+                                }: {
+    entity: Entity<any>,
+    collectionPath: string,
+    schema: EntitySchema<any>,
+    trashPath?: string,
+    context: CMSAppContext,
+    user?: firebase.User | null
+}): Promise<void> {
+    let error: Error | undefined;
+    await deleteEntity({
+        entity,
+        collectionPath,
+        schema,
+        trashPath,
+        context,
+        user,
+        onDeleteFailure: (_, e) => error = e,
+        onPreDeleteHookError: (_, e) => error = e,
+        onDeleteSuccessHookError: (_, e) => console.error(e)
+    });
+    if (error) throw error;
+}
+
+async function saveDependency({
+                                  entity,
+                                  collectionPath,
+                                  values,
+                                  schema,
+                                  history,
+                                  context,
+                                  user
+                              }: {
+    entity: Entity<any>,
+    collectionPath: string,
+    values: EntityValues<any>,
+    schema: EntitySchema<any>,
+    history?: boolean,
+    context: CMSAppContext,
+    user?: firebase.User | null
+}): Promise<void> {
+    let error: Error | undefined;
+    await saveEntity({
+        collectionPath,
+        id: entity.id,
+        values,
+        schema,
+        status: "existing",
+        context,
+        history,
+        user,
+        onSaveFailure: (e) => error = e,
+        onPreSaveHookError: (e) => error = e,
+        onSaveSuccessHookError: (e) => console.error(e)
+    });
+    if (error) throw error;
+}
+
+/**
+ * Keys of the reference properties pointing at the given collection, and
+ * whether they are arrays
+ */
+function getReferencePropertyKeys(properties: Properties<any>,
+                                  targetPath: string,
+                                  prefix = ""): [string, boolean][] {
+    return (Object.entries(properties) as [string, Property][])
+        .flatMap(([key, property]): [string, boolean][] => {
+            const fullKey = prefix ? `${prefix}.${key}` : key;
+            if (property.dataType === "reference" && normalizePath(property.collectionPath) === targetPath)
+                return [[fullKey, false]];
+            if (property.dataType === "array" && property.of?.dataType === "reference"
+                && normalizePath(property.of.collectionPath) === targetPath)
+                return [[fullKey, true]];
+            if (property.dataType === "map" && property.properties)
+                return getReferencePropertyKeys(property.properties as Properties<any>, targetPath, fullKey);
+            return [];
+        });
+}
+
+function removeReferences(values: EntityValues<any>,
+                          keys: string[],
+                          entity: Entity<any>): EntityValues<any> {
+    return keys.reduce((result, key) => setValue(result, key.split("."), (value: any) =>
+        Array.isArray(value)
+            ? value.filter((item) => !areValuesEqual(item, entity.reference))
+            : null
+    ), values);
+}
+
+function setValue(values: any, path: string[], update: (value: any) => any): any {
+    const [key, ...rest] = path;
+    const current = values ? values[key] : undefined;
+    return {
+        ...values,
+        [key]: rest.length ? setValue(current ?? {}, rest, update) : update(current)
+    };
+}
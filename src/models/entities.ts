@@ -77,6 +77,29 @@ export interface EntitySchema<M extends { [Key: string]: any }> {
      */
     onDelete?(entityDeleteProps: EntityDeleteProps<M>): void;
 
+    /**
+     * If set, saving an entity in the CMS stores a draft, separated from the
+     * live document, and the changes only reach the live document when the
+     * entity is published.
+     */
+    publishing?: PublishingConfig;
+
+    /**
+     * Hook called before publishing, you need to return the values that will
+     * get published. If you throw an error in this method the process stops,
+     * and an error snackbar gets displayed.
+     * @param entitySaveProps
+     */
+    onPrePublish?(entitySaveProps: EntitySaveProps<M>)
+        : Promise<EntityValues<M>> | EntityValues<M>;
+
+    /**
+     * Hook called when publishing is successful
+     * @param entitySaveProps
+     */
+    onPublish?(entitySaveProps: EntitySaveProps<M>)
+        : Promise<void> | void;
+
     /**
      * Array of builders for rendering additional panels in an entity view.
      * Useful if you need to render custom views
@@ -84,6 +107,35 @@ export interface EntitySchema<M extends { [Key: string]: any }> {
     views?: EntityCustomView<M>[];
 }
 
+/**
+ * Configuration of the draft/published workflow of an entity schema
+ * @category Entities
+ */
+export interface PublishingConfig {
+
+    /**
+     * Suffix added to the collection path to build the path of the
+     * collection where the drafts are stored.
+     * Defaults to `__drafts`, so the drafts of the entities in `products` are
+     * stored in `products__drafts`
+     */
+    draftsSuffix?: string;
+
+    /**
+     * Key of a `timestamp` property of the schema. Drafts with a date set in
+     * this property are scheduled to be published at that date.
+     * See {@link getScheduledTransitions}
+     */
+    publishAtProperty?: string;
+
+    /**
+     * Key of a `timestamp` property of the schema. Published entities with a
+     * date set in this property are scheduled to be unpublished at that date.
+     * See {@link getScheduledTransitions}
+     */
+    unpublishAtProperty?: string;
+}
+
 export type InferSchemaType<S extends EntitySchema<any>> = S extends EntitySchema<infer M> ? M : never;
 
 /**
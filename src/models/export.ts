@@ -0,0 +1,267 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+import { Entity, EntitySchema } from "./entities";
+import {
+    ExportConfig,
+    FilterValues,
+    getFilterOrderKeys,
+    getInequalityFilterKey
+} from "./collections";
+import { Properties, Property } from "./properties";
+import { DataSource } from "./data_source";
+import { buildXLSX } from "../util/xlsx";
+import { filterByGeoPointBounds, formatGeoPoint } from "./geopoints";
+
+/**
+ * Formats in which the data of a collection can be exported.
+ * CSV and XLSX files have a column per property, using dots for the
+ * properties of maps, while JSON and NDJSON files keep the nested structure
+ * of the entities.
+ * @category Collections
+ */
+export type ExportFormat = "csv" | "json" | "ndjson" | "xlsx";
+
+/**
+ * Mime types and extensions of the export formats
+ * @category Collections
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { mimeType: string, extension: string }> = {
+    csv: { mimeType: "text/csv", extension: "csv" },
+    json: { mimeType: "application/json", extension: "json" },
+    ndjson: { mimeType: "application/x-ndjson", extension: "ndjson" },
+    xlsx: {
+        mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        extension: "xlsx"
+    }
+};
+
+/**
+ * Fetch all the entities of a collection matching a filter, page by page,
+ * so large collections are not loaded in a single request.
+ * @param dataSource
+ * @param path
+ * @param schema
+ * @param filter
+ * @param orderBy
+ * @param order
+ * @param pageSize
+ * @param onProgress Called after each page with the number of entities
+ * fetched so far
+ * @param isCancelled Checked after each page, to stop fetching
+ * @category Collections
+ */
+export async function fetchEntitiesInPages<M extends { [Key: string]: any }>({
+                                                                                 dataSource,
+                                                                                 path,
+                                                                                 schema,
+                                                                                 filter,
+                                                                                 orderBy,
+                                                                                 order,
+                                                                                 pageSize = 500,
+                                                                                 onProgress,
+                                                                                 isCancelled
+                                                                             }: {
+    dataSource: DataSource,
+    path: string,
+    schema: EntitySchema<M>,
+    filter?: FilterValues<M>,
+    orderBy?: string,
+    order?: "asc" | "desc",
+    pageSize?: number,
+    onProgress?: (count: number) => void,
+    isCancelled?: () => boolean
+}): Promise<Entity<M>[]> {
+
+    // fields the data source sorts by, which the next page starts after
+    const inequalityKey = getInequalityFilterKey(filter);
+    const sortedKeys: string[] = orderBy && order
+        ? [...getFilterOrderKeys(filter, orderBy), orderBy]
+        : (inequalityKey ? [inequalityKey] : []);
+
+    const entities: Entity<M>[] = [];
+    let startAfter: any[] | undefined;
+    while (true) {
+        const page = await dataSource.fetchCollection<M>({
+            path,
+            schema,
+            filter,
+            orderBy,
+            order,
+            limit: pageSize,
+            startAfter
+        });
+        // the longitudes of bounding boxes can't be filtered in the query
+        entities.push(...filterByGeoPointBounds(page, filter));
+        if (onProgress)
+            onProgress(entities.length);
+        if (page.length < pageSize || (isCancelled && isCancelled()))
+            break;
+        const last = page[page.length - 1];
+        startAfter = [...sortedKeys.map((key) => getValueInPath(last.values, key)), last.id];
+    }
+    return entities;
+}
+
+/**
+ * Build the content of an export file
+ * @param entities
+ * @param additionalValues Values of the additional columns of the export
+ * config, in the same order as the entities
+ * @param properties
+ * @param format
+ * @param exportConfig
+ * @category Collections
+ */
+export function buildExportFile<M extends { [Key: string]: any }>({
+                                                                      entities,
+                                                                      additionalValues,
+                                                                      properties,
+                                                                      format,
+                                                                      exportConfig
+                                                                  }: {
+    entities: Entity<M>[],
+    additionalValues?: Record<string, any>[],
+    properties: Properties<M>,
+    format: ExportFormat,
+    exportConfig?: ExportConfig
+}): string | Uint8Array {
+
+    if (format === "json" || format === "ndjson") {
+        const objects = entities.map((entity, index) => ({
+            id: entity.id,
+            ...processNestedValues(entity.values, properties as Properties<any>),
+            ...additionalValues?.[index]
+        }));
+        return format === "json"
+            ? JSON.stringify(objects, null, 2)
+            : objects.map((o) => JSON.stringify(o)).join("\n");
+    }
+
+    const headers = getExportHeaders(properties, exportConfig);
+    const rows = entities.map((entity, index) =>
+        headers.map((header) => {
+            if (header === "id")
+                return entity.id;
+            const additionalValue = additionalValues?.[index]?.[header];
+            if (additionalValue !== undefined)
+                return additionalValue;
+            const property = getPropertyInPath(properties as Properties<any>, header);
+            const value = getValueInPath(entity.values, header);
+            return property ? processFlatValue(value, property, format) : value;
+        }));
+
+    if (format === "xlsx")
+        return buildXLSX([headers, ...rows]);
+
+    return [headers, ...rows]
+        .map((row) => row.map(escapeCSVValue).join(","))
+        .join("\n");
+}
+
+/**
+ * Keys of the columns of CSV and XLSX exports
+ * @param properties
+ * @param exportConfig
+ * @category Collections
+ */
+export function getExportHeaders<M extends { [Key: string]: any }>(properties: Properties<M>,
+                                                                   exportConfig?: ExportConfig): string[] {
+    const headers = [
+        "id",
+        ...Object.entries(properties as Properties<any>)
+            .flatMap(([key, property]) => getHeaders(property, key, ""))
+    ];
+
+    if (exportConfig?.additionalColumns) {
+        headers.push(...exportConfig.additionalColumns.map((column) => column.key));
+    }
+
+    return headers;
+}
+
+function getHeaders(property: Property, propertyKey: string, prefix: string = ""): string[] {
+    const currentKey = prefix ? `${prefix}.${propertyKey}` : propertyKey;
+    if (property.dataType === "map" && property.properties) {
+        return Object.entries(property.properties)
+            .flatMap(([childKey, p]) => getHeaders(p as Property, childKey, currentKey));
+    } else {
+        return [currentKey];
+    }
+}
+
+/**
+ * Values of CSV and XLSX cells. Timestamps are written in milliseconds in
+ * CSV files, geopoints as `lat,lng`, and arrays as comma separated values,
+ * or JSON if they contain objects
+ */
+function processFlatValue(value: any, property: Property, format: ExportFormat): any {
+    if (value === undefined || value === null)
+        return null;
+    if (property.dataType === "timestamp") {
+        return value instanceof Date && format === "csv" ? value.getTime() : value;
+    } else if (property.dataType === "geopoint") {
+        return value instanceof firebase.firestore.GeoPoint ? formatGeoPoint(value) : null;
+    } else if (property.dataType === "array") {
+        const array = Array.isArray(value)
+            ? value.map((v) => processNestedValue(v, property.of as Property | undefined))
+            : value;
+        return Array.isArray(array) && array.some((v) => v !== null && typeof v === "object")
+            ? JSON.stringify(array)
+            : array;
+    }
+    const processed = processNestedValue(value, property);
+    return processed !== null && typeof processed === "object" ? JSON.stringify(processed) : processed;
+}
+
+/**
+ * Values of JSON exports: dates are converted to ISO strings, references
+ * to their paths and geopoints to their coordinates
+ */
+function processNestedValue(value: any, property?: Property): any {
+    if (value === undefined || value === null) {
+        return null;
+    } else if (value instanceof Date) {
+        return value.toISOString();
+    } else if (value instanceof firebase.firestore.DocumentReference) {
+        return value.path;
+    } else if (value instanceof firebase.firestore.GeoPoint) {
+        return { latitude: value.latitude, longitude: value.longitude };
+    } else if (Array.isArray(value)) {
+        const of = property?.dataType === "array" ? property.of as Property | undefined : undefined;
+        return value.map((v) => processNestedValue(v, of));
+    } else if (typeof value === "object") {
+        const childProperties = property?.dataType === "map" ? property.properties as Properties<any> | undefined : undefined;
+        return processNestedValues(value, childProperties ?? {});
+    }
+    return value;
+}
+
+function processNestedValues(values: Record<string, any> | undefined, properties: Properties<any>): Record<string, any> {
+    return Object.entries(values ?? {})
+        .map(([key, value]) => ({ [key]: processNestedValue(value, properties[key]) }))
+        .reduce((a, b) => ({ ...a, ...b }), {});
+}
+
+function escapeCSVValue(value: any): string {
+    if (value === undefined || value === null)
+        return "";
+    const stringValue = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(stringValue)
+        ? `"${stringValue.replace(/"/g, "\"\"")}"`
+        : stringValue;
+}
+
+function getValueInPath(values: Record<string, any> | undefined, path: string): any {
+    return path.split(".")
+        .reduce((value, key) => value !== undefined && value !== null ? value[key] : undefined, values as any);
+}
+
+function getPropertyInPath(properties: Properties<any>, path: string): Property | undefined {
+    const [key, ...rest] = path.split(".");
+    const property: Property | undefined = properties[key];
+    if (!property || rest.length === 0)
+        return property;
+    return property.dataType === "map" && property.properties
+        ? getPropertyInPath(property.properties as Properties<any>, rest.join("."))
+        : undefined;
+}
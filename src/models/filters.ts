@@ -0,0 +1,103 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+import { WhereFilterOp } from "./collections";
+
+/**
+ * Does a value meet a filter condition, with the semantics of Firestore
+ * @param fieldValue
+ * @param op
+ * @param value
+ * @ignore
+ */
+export function matchesFilter(fieldValue: any, op: WhereFilterOp, value: any): boolean {
+    if (fieldValue === undefined)
+        return false;
+    switch (op) {
+        case "==":
+            return compareValues(fieldValue, value) === 0;
+        case "!=":
+            return compareValues(fieldValue, value) !== 0;
+        case "<":
+            return sameType(fieldValue, value) && compareValues(fieldValue, value) < 0;
+        case "<=":
+            return sameType(fieldValue, value) && compareValues(fieldValue, value) <= 0;
+        case ">":
+            return sameType(fieldValue, value) && compareValues(fieldValue, value) > 0;
+        case ">=":
+            return sameType(fieldValue, value) && compareValues(fieldValue, value) >= 0;
+        case "array-contains":
+            return Array.isArray(fieldValue) && fieldValue.some((v) => compareValues(v, value) === 0);
+        case "in":
+            return Array.isArray(value) && value.some((v) => compareValues(fieldValue, v) === 0);
+        case "not-in":
+            return fieldValue !== null && Array.isArray(value) && value.every((v) => compareValues(fieldValue, v) !== 0);
+        case "array-contains-any":
+            return Array.isArray(fieldValue) && Array.isArray(value)
+                && fieldValue.some((v) => value.some((w) => compareValues(v, w) === 0));
+        default:
+            throw Error(`Unsupported filter operation: ${op}`);
+    }
+}
+
+/**
+ * Ordering of the value types, as defined by Firestore
+ */
+function typeOrder(value: any): number {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === "boolean") return 1;
+    if (typeof value === "number") return 2;
+    if (value instanceof Date) return 3;
+    if (typeof value === "string") return 4;
+    if (value instanceof firebase.firestore.DocumentReference) return 5;
+    if (value instanceof firebase.firestore.GeoPoint) return 6;
+    if (Array.isArray(value)) return 7;
+    return 8;
+}
+
+function sameType(a: any, b: any): boolean {
+    return typeOrder(a) === typeOrder(b);
+}
+
+/**
+ * Compare two values with the ordering of Firestore
+ * @param a
+ * @param b
+ * @ignore
+ */
+export function compareValues(a: any, b: any): number {
+    const typeA = typeOrder(a);
+    const typeB = typeOrder(b);
+    if (typeA !== typeB)
+        return typeA - typeB;
+    switch (typeA) {
+        case 0:
+            return 0;
+        case 1:
+        case 2:
+            return Number(a) - Number(b);
+        case 3:
+            return a.getTime() - b.getTime();
+        case 4:
+            return a < b ? -1 : (a > b ? 1 : 0);
+        case 5:
+            return compareValues(a.path, b.path);
+        case 6:
+            return compareValues(a.latitude, b.latitude) || compareValues(a.longitude, b.longitude);
+        case 7:
+            for (let i = 0; i < a.length && i < b.length; i++) {
+                const result = compareValues(a[i], b[i]);
+                if (result !== 0) return result;
+            }
+            return a.length - b.length;
+        default: {
+            const keysA = Object.keys(a).sort();
+            const keysB = Object.keys(b).sort();
+            for (let i = 0; i < keysA.length && i < keysB.length; i++) {
+                const result = compareValues(keysA[i], keysB[i]) || compareValues(a[keysA[i]], b[keysB[i]]);
+                if (result !== 0) return result;
+            }
+            return keysA.length - keysB.length;
+        }
+    }
+}
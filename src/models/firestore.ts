@@ -10,10 +10,207 @@ import {
 } from "./properties";
 import { buildPropertyFrom } from "./builders";
 import { CMSAppContext } from "../contexts/CMSAppContext";
-import { FilterValues, WhereFilterOp } from "./collections";
+import {
+    FilterCondition,
+    FilterValues,
+    getFilterConditions,
+    getFilterOrderKeys,
+    getInequalityFilterKey
+} from "./collections";
+import {
+    CheckUniqueFieldProps,
+    CopyEntityProps,
+    DataSource,
+    DeleteEntityProps,
+    FetchCollectionProps,
+    FetchEntityProps,
+    ListenCollectionProps,
+    ListenEntityProps,
+    SaveEntityProps
+} from "./data_source";
+import { saveEntityRevision } from "./history";
+import {
+    getAuditChangedFields,
+    onAuditRecordError,
+    saveAuditRecord
+} from "./audit_log";
+import { computeValues } from "./computed_values";
+
+/**
+ * Default data source of FireCMS, backed by Firestore.
+ * If no Firestore instance is provided, the default one of the initialised
+ * Firebase app is used.
+ * @param firestore
+ * @category Data source
+ */
+export function FirestoreDataSource(firestore?: firebase.firestore.Firestore): DataSource {
+
+    const getFirestore = () => firestore ?? firebase.firestore();
+
+    function buildQuery<M extends { [Key: string]: any }>(
+        {
+            path,
+            filter,
+            limit,
+            startAfter,
+            orderBy,
+            order
+        }: FetchCollectionProps<M>): firebase.firestore.Query {
+
+        let collectionReference: firebase.firestore.Query = getFirestore().collection(path);
+
+        if (filter)
+            Object.entries(filter)
+                .filter(([_, entry]) => !!entry)
+                .forEach(([key, filterParameter]) => {
+                    getFilterConditions(filterParameter as FilterCondition | FilterCondition[])
+                        .forEach(([op, value]) => collectionReference = collectionReference.where(key, op, value));
+                });
+
+        if (filter && orderBy && order) {
+            getFilterOrderKeys(filter, orderBy).forEach((key) => {
+                collectionReference = collectionReference.orderBy(key, "asc");
+            });
+        }
+
+        if (orderBy && order)
+            collectionReference = collectionReference.orderBy(orderBy, order);
+
+        if (startAfter) {
+            // inequality filters need to be sorted first
+            const inequalityKey = !orderBy ? getInequalityFilterKey(filter) : undefined;
+            if (inequalityKey)
+                collectionReference = collectionReference.orderBy(inequalityKey, "asc");
+            // sorting by id last allows starting after a specific document
+            collectionReference = collectionReference
+                .orderBy(firebase.firestore.FieldPath.documentId(), order ?? "asc")
+                .startAfter(...startAfter);
+        }
+
+        if (limit)
+            collectionReference = collectionReference
+                .limit(limit);
+
+        return collectionReference;
+    }
+
+    return {
+
+        listenCollection<M extends { [Key: string]: any }>(props: ListenCollectionProps<M>): () => void {
+            const { path, schema, onUpdate, onError } = props;
+            return buildQuery(props)
+                .onSnapshot({
+                        next: (colSnapshot) =>
+                            onUpdate(colSnapshot.docs.map((doc) => createEntityFromSchema(doc, schema, path))),
+                        error: onError
+                    }
+                );
+        },
+
+        fetchCollection<M extends { [Key: string]: any }>(props: FetchCollectionProps<M>): Promise<Entity<M>[]> {
+            const { path, schema } = props;
+            return buildQuery(props)
+                .get()
+                .then((colSnapshot) =>
+                    colSnapshot.docs.map((doc) => createEntityFromSchema(doc, schema, path)));
+        },
+
+        fetchEntity<M extends { [Key: string]: any }>({
+                                                          path,
+                                                          entityId,
+                                                          schema
+                                                      }: FetchEntityProps<M>): Promise<Entity<M>> {
+            return getFirestore()
+                .collection(path)
+                .doc(entityId)
+                .get()
+                .then((docSnapshot) => createEntityFromSchema(docSnapshot, schema, path));
+        },
+
+        listenEntity<M extends { [Key: string]: any }>({
+                                                           path,
+                                                           entityId,
+                                                           schema,
+                                                           onUpdate,
+                                                           onError
+                                                       }: ListenEntityProps<M>): () => void {
+            return getFirestore()
+                .collection(path)
+                .doc(entityId)
+                .onSnapshot({
+                    next: (docSnapshot) => onUpdate(createEntityFromSchema(docSnapshot, schema, path)),
+                    error: onError
+                });
+        },
+
+        saveEntity<M extends { [Key: string]: any }>({
+                                                         collectionPath,
+                                                         id,
+                                                         values,
+                                                         schema,
+                                                         status
+                                                     }: SaveEntityProps<M>): Promise<Entity<M>> {
+
+            const properties: Properties<M> = computeSchemaProperties(schema, collectionPath, id);
+            const updatedValues: EntityValues<M> = updateAutoValues(values, properties, status);
+
+            const collectionReference = getFirestore().collection(collectionPath);
+            const documentReference = id ? collectionReference.doc(id) : collectionReference.doc();
+
+            return documentReference
+                .set(updatedValues as any, { merge: true })
+                .then(() => ({
+                    id: documentReference.id,
+                    reference: documentReference,
+                    values: updatedValues
+                }));
+        },
+
+        deleteEntity<M extends { [Key: string]: any }>({ entity }: DeleteEntityProps<M>): Promise<void> {
+            return getFirestore().doc(entity.reference.path).delete();
+        },
+
+        copyEntity<M extends { [Key: string]: any }>({
+                                                         entity,
+                                                         collectionPath,
+                                                         schema
+                                                     }: CopyEntityProps<M>): Promise<Entity<M>> {
+            const documentReference = getFirestore().collection(collectionPath).doc(entity.id);
+            return getFirestore()
+                .doc(entity.reference.path)
+                .get()
+                .then((docSnapshot) => {
+                    if (!docSnapshot.exists)
+                        throw Error(`${entity.reference.path} does not exist`);
+                    return documentReference.set(docSnapshot.data()!);
+                })
+                .then(() => documentReference.get())
+                .then((docSnapshot) => createEntityFromSchema(docSnapshot, schema, collectionPath));
+        },
+
+        checkUniqueField({
+                             path,
+                             name,
+                             value,
+                             entityId
+                         }: CheckUniqueFieldProps): Promise<boolean> {
+            return getFirestore()
+                .collection(path)
+                .where(name, "==", value)
+                .get()
+                .then((snapshots) =>
+                    snapshots.docs.filter(doc => doc.id !== entityId).length === 0
+                );
+        },
+
+        buildReference(path: string): firebase.firestore.DocumentReference {
+            return getFirestore().doc(path);
+        }
+    };
+}
 
 /**
- * Listen to a entities in a Firestore path
+ * Listen to a entities in a path
  * @param path
  * @param schema
  * @param onSnapshot
@@ -23,6 +220,7 @@ import { FilterValues, WhereFilterOp } from "./collections";
  * @param startAfter
  * @param orderBy
  * @param order
+ * @param dataSource Defaults to Firestore
  * @return Function to cancel subscription
  * @see useCollectionFetch if you need this functionality implemented as a hook
  * @category Firestore
@@ -36,51 +234,27 @@ export function listenCollection<M extends { [Key: string]: any }>(
     limit?: number,
     startAfter?: any[],
     orderBy?: string,
-    order?: "desc" | "asc"
+    order?: "desc" | "asc",
+    dataSource: DataSource = FirestoreDataSource()
 ): () => void {
 
     console.debug("Listening collection", path, limit, filter, startAfter, orderBy, order);
 
-    let collectionReference: firebase.firestore.Query = firebase.firestore().collection(path);
-
-    if (filter)
-        Object.entries(filter)
-            .filter(([_, entry]) => !!entry)
-            .forEach(([key, filterParameter]) => {
-                const [op, value] = filterParameter as [WhereFilterOp, any];
-                return collectionReference = collectionReference.where(key, op, value);
-            });
-
-    if (filter && orderBy && order) {
-        Object.entries(filter).forEach(([key, value]) => {
-            if (key !== orderBy) {
-                collectionReference = collectionReference.orderBy(key, "asc");
-            }
-        });
-    }
-
-    if (orderBy && order)
-        collectionReference = collectionReference.orderBy(orderBy, order);
-
-    if (startAfter)
-        collectionReference = collectionReference
-            .startAfter(startAfter);
-
-    if (limit)
-        collectionReference = collectionReference
-            .limit(limit);
-
-    return collectionReference
-        .onSnapshot({
-                next: (colSnapshot) =>
-                    onSnapshot(colSnapshot.docs.map((doc) => createEntityFromSchema(doc, schema, path))),
-                error: onError
-            }
-        );
+    return dataSource.listenCollection({
+        path,
+        schema,
+        onUpdate: onSnapshot,
+        onError,
+        filter,
+        limit,
+        startAfter,
+        orderBy,
+        order
+    });
 }
 
 /**
- * Fetch entities in a Firestore path
+ * Fetch entities in a path
  * @param path
  * @param schema
  * @param filter
@@ -88,6 +262,7 @@ export function listenCollection<M extends { [Key: string]: any }>(
  * @param startAfter
  * @param orderBy
  * @param order
+ * @param dataSource Defaults to Firestore
  * @return Function to cancel subscription
  * @see useCollectionFetch if you need this functionality implemented as a hook
  * @category Firestore
@@ -99,44 +274,21 @@ export function fetchCollection<M extends { [Key: string]: any }>(
     limit?: number,
     startAfter?: any[],
     orderBy?: string,
-    order?: "desc" | "asc"
+    order?: "desc" | "asc",
+    dataSource: DataSource = FirestoreDataSource()
 ): Promise<Entity<M>[]> {
 
     console.debug("Fetching collection", path, limit, filter, startAfter, orderBy, order);
 
-    let collectionReference: firebase.firestore.Query = firebase.firestore().collection(path);
-
-    if (filter)
-        Object.entries(filter)
-            .filter(([_, entry]) => !!entry)
-            .forEach(([key, filterParameter]) => {
-                const [op, value] = filterParameter as [WhereFilterOp, any];
-                return collectionReference = collectionReference.where(key, op, value);
-            });
-
-    if (filter && orderBy && order) {
-        Object.entries(filter).forEach(([key, value]) => {
-            if (key !== orderBy) {
-                collectionReference = collectionReference.orderBy(key, "asc");
-            }
-        });
-    }
-
-    if (orderBy && order)
-        collectionReference = collectionReference.orderBy(orderBy, order);
-
-    if (startAfter)
-        collectionReference = collectionReference
-            .startAfter(startAfter);
-
-    if (limit)
-        collectionReference = collectionReference
-            .limit(limit);
-
-    return collectionReference
-        .get()
-        .then((colSnapshot) =>
-            colSnapshot.docs.map((doc) => createEntityFromSchema(doc, schema, path)));
+    return dataSource.fetchCollection({
+        path,
+        schema,
+        filter,
+        limit,
+        startAfter,
+        orderBy,
+        order
+    });
 }
 
 /**
@@ -144,21 +296,19 @@ export function fetchCollection<M extends { [Key: string]: any }>(
  * @param path
  * @param entityId
  * @param schema
+ * @param dataSource Defaults to Firestore
  * @category Firestore
  */
 export function fetchEntity<M extends { [Key: string]: any }>(
     path: string,
     entityId: string,
-    schema: EntitySchema<M>
+    schema: EntitySchema<M>,
+    dataSource: DataSource = FirestoreDataSource()
 ): Promise<Entity<M>> {
 
     console.debug("Fetch entity", path, entityId);
 
-    return firebase.firestore()
-        .collection(path)
-        .doc(entityId)
-        .get()
-        .then((docSnapshot) => createEntityFromSchema(docSnapshot, schema, path));
+    return dataSource.fetchEntity({ path, entityId, schema });
 }
 
 /**
@@ -167,6 +317,7 @@ export function fetchEntity<M extends { [Key: string]: any }>(
  * @param entityId
  * @param schema
  * @param onSnapshot
+ * @param dataSource Defaults to Firestore
  * @return Function to cancel subscription
  * @category Firestore
  */
@@ -174,13 +325,16 @@ export function listenEntity<M extends { [Key: string]: any }>(
     path: string,
     entityId: string,
     schema: EntitySchema<M>,
-    onSnapshot: (entity: Entity<M>) => void
+    onSnapshot: (entity: Entity<M>) => void,
+    dataSource: DataSource = FirestoreDataSource()
 ): Function {
     console.debug("Listening entity", path, entityId);
-    return firebase.firestore()
-        .collection(path)
-        .doc(entityId)
-        .onSnapshot((docSnapshot) => onSnapshot(createEntityFromSchema(docSnapshot, schema, path)));
+    return dataSource.listenEntity({
+        path,
+        entityId,
+        schema,
+        onUpdate: onSnapshot
+    });
 }
 
 /**
@@ -188,16 +342,22 @@ export function listenEntity<M extends { [Key: string]: any }>(
  * @param ref
  * @param schema
  * @param onSnapshot
+ * @param dataSource Defaults to Firestore
  * @return Function to cancel subscription
  * @category Firestore
  */
 export function listenEntityFromRef<M extends { [Key: string]: any }>(
     ref: firebase.firestore.DocumentReference,
     schema: EntitySchema<M>,
-    onSnapshot: (entity: Entity<M>) => void
+    onSnapshot: (entity: Entity<M>) => void,
+    dataSource: DataSource = FirestoreDataSource()
 ): Function {
-    return ref.onSnapshot(
-        (docSnapshot) => onSnapshot(createEntityFromSchema(docSnapshot, schema, ref.path)));
+    return dataSource.listenEntity({
+        path: ref.parent.path,
+        entityId: ref.id,
+        schema,
+        onUpdate: onSnapshot
+    });
 }
 
 /**
@@ -250,9 +410,9 @@ export function replaceTimestampsWithDates(data: any): any {
  * @param values
  * @param schema
  * @param collectionPath
- * @category Firestore
+ * @ignore
  */
-function sanitizeData<M extends { [Key: string]: any }>
+export function sanitizeData<M extends { [Key: string]: any }>
 (
     values: EntityValues<M>,
     schema: EntitySchema<M>,
@@ -294,6 +454,10 @@ export function createEntityFromSchema<M extends { [Key: string]: any }>
 /**
  * Save entity to the specified path. Note that Firestore does not allow
  * undefined values.
+ * Timestamps with `autoValue` are set by the data source, after the
+ * `onPreSave` hook.
+ * Computed properties are set after the `onPreSave` hook, and the ones not
+ * persisted are left out.
  * @param collectionPath
  * @param id
  * @param data
@@ -303,6 +467,9 @@ export function createEntityFromSchema<M extends { [Key: string]: any }>
  * @param onSaveFailure
  * @param onPreSaveHookError
  * @param onSaveSuccessHookError
+ * @param context
+ * @param history Store a revision of the saved entity
+ * @param user Author of the revision and of the audit record
  * @category Firestore
  */
 export async function saveEntity<M extends { [Key: string]: any }>(
@@ -316,7 +483,9 @@ export async function saveEntity<M extends { [Key: string]: any }>(
         onSaveFailure,
         onPreSaveHookError,
         onSaveSuccessHookError,
-        context
+        context,
+        history,
+        user
     }: {
         collectionPath: string,
         id: string | undefined,
@@ -328,10 +497,11 @@ export async function saveEntity<M extends { [Key: string]: any }>(
         onPreSaveHookError?: (e: Error) => void,
         onSaveSuccessHookError?: (e: Error) => void;
         context: CMSAppContext;
+        history?: boolean;
+        user?: firebase.User | null;
     }): Promise<void> {
 
-    const properties: Properties<M> = computeSchemaProperties(schema, collectionPath, id);
-    let updatedValues: EntityValues<M> = updateAutoValues(values, properties, status);
+    let updatedValues: Partial<EntityValues<M>> = values;
 
     if (schema.onPreSave) {
         try {
@@ -339,7 +509,7 @@ export async function saveEntity<M extends { [Key: string]: any }>(
                 schema,
                 collectionPath,
                 id: id,
-                values: updatedValues,
+                values: updatedValues as EntityValues<M>,
                 status,
                 context
             });
@@ -351,34 +521,56 @@ export async function saveEntity<M extends { [Key: string]: any }>(
         }
     }
 
+    // computed from the values modified by the hook
+    updatedValues = computeValues(computeSchemaProperties(schema, collectionPath, id, updatedValues), updatedValues, true);
+
     console.debug("Saving entity", collectionPath, id, updatedValues);
 
-    let documentReference: firebase.firestore.DocumentReference<firebase.firestore.DocumentData>;
-    if (id)
-        documentReference = firebase.firestore()
-            .collection(collectionPath)
-            .doc(id);
-    else
-        documentReference = firebase.firestore()
-            .collection(collectionPath)
-            .doc();
-
-    const entity: Entity<M> = {
-        id: documentReference.id,
-        reference: documentReference,
-        values: updatedValues
-    };
+    const auditLog = context.cmsAppConfig?.auditLog;
+    // the audit record includes the fields that changed
+    const previousValues = auditLog && status === "existing" && id
+        ? await context.dataSource.fetchEntity({
+            path: collectionPath,
+            entityId: id,
+            schema
+        }).then((entity) => entity.values, () => undefined)
+        : undefined;
 
-    return documentReference
-        .set(updatedValues as any, { merge: true })
-        .then(() => {
+    return context.dataSource
+        .saveEntity({
+            collectionPath,
+            id,
+            values: updatedValues,
+            schema,
+            status
+        })
+        .then(async (entity) => {
+            if (history) {
+                await saveEntityRevision({
+                    entity,
+                    status,
+                    user,
+                    dataSource: context.dataSource
+                }).catch((e) => console.error("Error saving entity revision", e));
+            }
+            if (auditLog) {
+                await saveAuditRecord({
+                    dataSource: context.dataSource,
+                    config: auditLog,
+                    operation: status === "existing" ? "update" : "create",
+                    collectionPath,
+                    entityId: entity.id,
+                    changedFields: getAuditChangedFields(schema.properties, previousValues, updatedValues),
+                    user
+                }).catch((e) => onAuditRecordError(context, e));
+            }
             try {
                 if (schema.onSaveSuccess) {
                     schema.onSaveSuccess({
                         schema,
                         collectionPath,
                         id,
-                        values: updatedValues,
+                        values: entity.values,
                         status,
                         context
                     });
@@ -395,7 +587,7 @@ export async function saveEntity<M extends { [Key: string]: any }>(
                     schema,
                     collectionPath,
                     id: id,
-                    values: updatedValues,
+                    values: updatedValues as EntityValues<M>,
                     status,
                     context
                 });
@@ -415,6 +607,9 @@ export async function saveEntity<M extends { [Key: string]: any }>(
  * @param onPreDeleteHookError
  * @param onDeleteSuccessHookError
  * @param context
+ * @param user Author of the audit record
+ * @param trashPath If set, the entity is moved to this collection instead of
+ * being removed
  * @return was the whole deletion flow successful
  * @category Firestore
  */
@@ -427,7 +622,9 @@ export async function deleteEntity<M extends { [Key: string]: any }>(
         onDeleteFailure,
         onPreDeleteHookError,
         onDeleteSuccessHookError,
-        context
+        context,
+        user,
+        trashPath
     }: {
         entity: Entity<M>;
         collectionPath: string;
@@ -437,6 +634,8 @@ export async function deleteEntity<M extends { [Key: string]: any }>(
         onPreDeleteHookError?: (entity: Entity<M>, e: Error) => void;
         onDeleteSuccessHookError?: (entity: Entity<M>, e: Error) => void;
         context: CMSAppContext;
+        user?: firebase.User | null;
+        trashPath?: string;
     }
 ): Promise<boolean> {
     console.debug("Deleting entity", entity);
@@ -460,7 +659,27 @@ export async function deleteEntity<M extends { [Key: string]: any }>(
         }
     }
 
-    return entity.reference.delete().then(() => {
+    const deletion = trashPath
+        ? context.dataSource.copyEntity({
+            entity,
+            collectionPath: trashPath,
+            schema
+        }).then(() => context.dataSource.deleteEntity({ entity }))
+        : context.dataSource.deleteEntity({ entity });
+
+    return deletion.then(async () => {
+        const auditLog = context.cmsAppConfig?.auditLog;
+        if (auditLog) {
+            await saveAuditRecord({
+                dataSource: context.dataSource,
+                config: auditLog,
+                operation: "delete",
+                collectionPath,
+                entityId: entity.id,
+                changedFields: getAuditChangedFields(schema.properties, entity.values, undefined),
+                user
+            }).catch((e) => onAuditRecordError(context, e));
+        }
         onDeleteSuccess && onDeleteSuccess(entity);
         try {
             if (schema.onDelete) {
@@ -543,26 +762,28 @@ function initPropertyValue(key: string, property: Property, defaultValue: any) {
 
 function updateAutoValue(inputValue: any,
                          property: Property,
-                         status: EntityStatus): any {
+                         status: EntityStatus,
+                         timestampNowValue: () => any,
+                         deleteValue: () => any): any {
 
     let value;
     if (property.dataType === "map" && property.properties) {
-        value = updateAutoValues(inputValue, property.properties, status);
+        value = updateAutoValues(inputValue, property.properties, status, timestampNowValue, deleteValue);
         if (property.config?.clearMissingValues) {
-            value = clearMapMissingValues(inputValue, property.properties);
+            value = clearMapMissingValues(inputValue, property.properties, deleteValue);
         }
     } else if (property.dataType === "array") {
         if (property.of && Array.isArray(inputValue)) {
-            value = inputValue.map((e) => updateAutoValue(e, property.of as Property, status));
+            value = inputValue.map((e) => updateAutoValue(e, property.of as Property, status, timestampNowValue, deleteValue));
         } else {
             value = inputValue;
         }
     } else if (property.dataType === "timestamp") {
         if (status == "existing" && property.autoValue === "on_update") {
-            value = firebase.firestore.FieldValue.serverTimestamp();
+            value = timestampNowValue();
         } else if ((status == "new" || status == "copy")
             && (property.autoValue === "on_update" || property.autoValue === "on_create")) {
-            value = firebase.firestore.FieldValue.serverTimestamp();
+            value = timestampNowValue();
         } else {
             value = inputValue;
         }
@@ -574,21 +795,35 @@ function updateAutoValue(inputValue: any,
 }
 
 function clearMapMissingValues<M extends { [Key: string]: any }>
-(inputValues: Partial<EntityValues<M>>, properties: Properties<M>): EntityValues<M> {
+(inputValues: Partial<EntityValues<M>>, properties: Properties<M>, deleteValue: () => any): EntityValues<M> {
     return Object.entries(properties)
         .map(([key, _]) => {
             const inputValue = inputValues && (inputValues as any)[key];
-            return ({ [key]: inputValue === undefined ? firebase.firestore.FieldValue.delete() : inputValue });
+            return ({ [key]: inputValue === undefined ? deleteValue() : inputValue });
         })
         .reduce((a, b) => ({ ...a, ...b }), {}) as EntityValues<M>;
 }
 
-function updateAutoValues<M extends { [Key: string]: any }>
-(inputValues: Partial<EntityValues<M>>, properties: Properties<M>, status: EntityStatus): EntityValues<M> {
+/**
+ * Update the timestamp properties with `autoValue` and clear the missing
+ * values of maps with `clearMissingValues`, before saving.
+ * @param inputValues
+ * @param properties
+ * @param status
+ * @param timestampNowValue Value used for the current time. Defaults to the Firestore server timestamp
+ * @param deleteValue Value used for deleted fields. Defaults to the Firestore delete sentinel
+ * @ignore
+ */
+export function updateAutoValues<M extends { [Key: string]: any }>
+(inputValues: Partial<EntityValues<M>>,
+ properties: Properties<M>,
+ status: EntityStatus,
+ timestampNowValue: () => any = () => firebase.firestore.FieldValue.serverTimestamp(),
+ deleteValue: () => any = () => firebase.firestore.FieldValue.delete()): EntityValues<M> {
     const updatedValues = Object.entries(properties)
         .map(([key, property]) => {
             const inputValue = inputValues && (inputValues as any)[key];
-            const updatedValue = updateAutoValue(inputValue, property as Property, status);
+            const updatedValue = updateAutoValue(inputValue, property as Property, status, timestampNowValue, deleteValue);
             if (updatedValue === undefined) return {};
             return ({ [key]: updatedValue });
         })
@@ -604,6 +839,7 @@ function updateAutoValues<M extends { [Key: string]: any }>
  * @param value
  * @param property
  * @param entityId
+ * @param dataSource Defaults to Firestore
  * @return `true` if there are no other fields besides the given entity
  * @category Firestore
  */
@@ -612,7 +848,8 @@ export function checkUniqueField(
     name: string,
     value: any,
     property: Property,
-    entityId?: string
+    entityId?: string,
+    dataSource: DataSource = FirestoreDataSource()
 ): Promise<boolean> {
 
     console.debug("Check unique field entity", path, name, value, entityId);
@@ -625,11 +862,11 @@ export function checkUniqueField(
         return Promise.resolve(true);
     }
 
-    return firebase.firestore()
-        .collection(path)
-        .where(name, "==", value)
-        .get()
-        .then((snapshots) =>
-            snapshots.docs.filter(doc => doc.id !== entityId).length === 0
-        );
+    return dataSource.checkUniqueField({
+        path,
+        name,
+        value,
+        property,
+        entityId
+    });
 }
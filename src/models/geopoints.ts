@@ -0,0 +1,128 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+import { Entity } from "./entities";
+import { FilterCondition, FilterValues, getFilterConditions } from "./collections";
+
+/**
+ * Latitude and longitude of a point, in degrees
+ * @category Entity properties
+ */
+export interface GeoPointCoordinates {
+    latitude: number;
+    longitude: number;
+}
+
+/**
+ * Parse a point written as `lat,lng`, such as `40.4168, -3.7038`. Spaces,
+ * semicolons and surrounding parentheses are accepted too, so coordinates
+ * copied from most map services can be pasted.
+ * The coordinates are not checked to be in range, use {@link isValidGeoPoint}
+ * @param value
+ * @return the coordinates, or undefined if the text is not a pair of numbers
+ * @category Entity properties
+ */
+export function parseGeoPoint(value: string): GeoPointCoordinates | undefined {
+    const match = value.trim()
+        .replace(/^\(|\)$/g, "")
+        .match(/^([-+]?\d+(?:\.\d+)?)\s*[,;\s]\s*([-+]?\d+(?:\.\d+)?)$/);
+    if (!match)
+        return undefined;
+    return {
+        latitude: Number(match[1]),
+        longitude: Number(match[2])
+    };
+}
+
+/**
+ * Write a point as `lat,lng`
+ * @param value
+ * @category Entity properties
+ */
+export function formatGeoPoint(value: GeoPointCoordinates): string {
+    return `${value.latitude},${value.longitude}`;
+}
+
+/**
+ * Is the latitude between -90 and 90 and the longitude between -180 and 180
+ * @param value
+ * @category Entity properties
+ */
+export function isValidGeoPoint(value: GeoPointCoordinates): boolean {
+    return typeof value.latitude === "number" && typeof value.longitude === "number"
+        && value.latitude >= -90 && value.latitude <= 90
+        && value.longitude >= -180 && value.longitude <= 180;
+}
+
+/**
+ * Build a Firestore GeoPoint from the given coordinates. Firestore rejects
+ * coordinates out of range, so invalid coordinates are returned as a plain
+ * object, which fails the validation of geopoint properties.
+ * @param value
+ * @ignore
+ */
+export function toGeoPoint(value: GeoPointCoordinates): firebase.firestore.GeoPoint | GeoPointCoordinates {
+    return isValidGeoPoint(value)
+        ? new firebase.firestore.GeoPoint(value.latitude, value.longitude)
+        : { latitude: value.latitude, longitude: value.longitude };
+}
+
+/**
+ * Filter conditions selecting the geopoints inside a bounding box.
+ * Firestore sorts geopoints by latitude and then by longitude, so the
+ * conditions select the latitudes of the box, and the longitudes are checked
+ * after fetching with {@link filterByGeoPointBounds}.
+ * @param southWest
+ * @param northEast
+ * @category Collections
+ */
+export function buildGeoPointBoundsFilter(southWest: GeoPointCoordinates,
+                                          northEast: GeoPointCoordinates): FilterCondition[] {
+    return [
+        [">=", new firebase.firestore.GeoPoint(southWest.latitude, southWest.longitude)],
+        ["<=", new firebase.firestore.GeoPoint(northEast.latitude, northEast.longitude)]
+    ];
+}
+
+/**
+ * Bounding box of the given filter conditions, if they were built with
+ * {@link buildGeoPointBoundsFilter}
+ * @param filter
+ * @category Collections
+ */
+export function getGeoPointBounds(filter?: FilterCondition | FilterCondition[]): [GeoPointCoordinates, GeoPointCoordinates] | undefined {
+    const conditions = getFilterConditions(filter);
+    const southWest = conditions.find(([op, value]) => op === ">=" && value instanceof firebase.firestore.GeoPoint);
+    const northEast = conditions.find(([op, value]) => op === "<=" && value instanceof firebase.firestore.GeoPoint);
+    return southWest && northEast ? [southWest[1], northEast[1]] : undefined;
+}
+
+/**
+ * Remove the entities whose geopoints are outside the longitudes of the
+ * bounding boxes of the filter. Boxes where the west longitude is greater
+ * than the east one cross the antimeridian.
+ * @param entities
+ * @param filter
+ * @category Collections
+ */
+export function filterByGeoPointBounds<M extends { [Key: string]: any }>(entities: Entity<M>[],
+                                                                         filter?: FilterValues<M>): Entity<M>[] {
+    const bounds = Object.entries(filter ?? {})
+        .map(([key, conditions]) => [key, getGeoPointBounds(conditions as FilterCondition | FilterCondition[])] as const)
+        .filter(([_, box]) => !!box) as [string, [GeoPointCoordinates, GeoPointCoordinates]][];
+    if (!bounds.length)
+        return entities;
+    return entities.filter((entity) => bounds.every(([key, [southWest, northEast]]) => {
+        const value = getValueInPath(entity.values, key);
+        if (!value || typeof value.longitude !== "number")
+            return false;
+        return southWest.longitude <= northEast.longitude
+            ? value.longitude >= southWest.longitude && value.longitude <= northEast.longitude
+            : value.longitude >= southWest.longitude || value.longitude <= northEast.longitude;
+    }));
+}
+
+function getValueInPath(values: any, path: string): any {
+    return path.split(".")
+        .reduce((value, key) => value !== undefined && value !== null ? value[key] : undefined, values);
+}
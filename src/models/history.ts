@@ -0,0 +1,191 @@
+import firebase from "firebase/app";
+
+import { Entity, EntityStatus, EntityValues } from "./entities";
+import { Properties } from "./properties";
+import { DataSource } from "./data_source";
+import { buildSchema } from "./builders";
+
+/**
+ * Name of the subcollection where the revisions of an entity are stored,
+ * when `history` is enabled in its collection
+ * @category Entities
+ */
+export const HISTORY_COLLECTION = "__history";
+
+/**
+ * @category Entities
+ */
+export interface EntityRevisionAuthor {
+    uid: string;
+    email: string | null;
+    displayName: string | null;
+}
+
+/**
+ * Snapshot of the values of an entity, stored every time it is saved if
+ * `history` is enabled in its collection
+ * @category Entities
+ */
+export interface EntityRevision<M extends { [Key: string]: any }> {
+    /**
+     * Id of the revision
+     */
+    id: string;
+
+    /**
+     * Values of the entity in this revision
+     */
+    values: EntityValues<M>;
+
+    /**
+     * Status of the entity when it was saved
+     */
+    status: EntityStatus;
+
+    /**
+     * User that saved this revision, if authentication is enabled
+     */
+    author: EntityRevisionAuthor | null;
+
+    savedOn: Date;
+}
+
+const revisionSchema = buildSchema({
+    name: "Revision",
+    properties: {
+        values: {
+            title: "Values",
+            dataType: "map"
+        },
+        status: {
+            title: "Status",
+            dataType: "string"
+        },
+        author: {
+            title: "Author",
+            dataType: "map"
+        },
+        saved_on: {
+            title: "Saved on",
+            dataType: "timestamp",
+            autoValue: "on_create"
+        }
+    }
+});
+
+function getHistoryPath(entity: Entity<any>): string {
+    return `${entity.reference.path}/${HISTORY_COLLECTION}`;
+}
+
+/**
+ * Store a snapshot of the given entity in its history subcollection
+ * @param entity
+ * @param status
+ * @param user
+ * @param dataSource
+ * @category Entities
+ */
+export function saveEntityRevision<M extends { [Key: string]: any }>(
+    {
+        entity,
+        status,
+        user,
+        dataSource
+    }: {
+        entity: Entity<M>,
+        status: EntityStatus,
+        user?: firebase.User | null,
+        dataSource: DataSource
+    }): Promise<void> {
+
+    const author: EntityRevisionAuthor | null = user
+        ? {
+            uid: user.uid,
+            email: user.email,
+            displayName: user.displayName
+        }
+        : null;
+
+    return dataSource.saveEntity({
+        collectionPath: getHistoryPath(entity),
+        id: undefined,
+        values: {
+            values: entity.values,
+            status,
+            author
+        },
+        schema: revisionSchema,
+        status: "new"
+    }).then(() => undefined);
+}
+
+/**
+ * Fetch the stored revisions of an entity, the most recent first
+ * @param entity
+ * @param dataSource
+ * @category Entities
+ */
+export function fetchEntityRevisions<M extends { [Key: string]: any }>(
+    {
+        entity,
+        dataSource
+    }: {
+        entity: Entity<M>,
+        dataSource: DataSource
+    }): Promise<EntityRevision<M>[]> {
+    return dataSource.fetchCollection({
+        path: getHistoryPath(entity),
+        schema: revisionSchema,
+        orderBy: "saved_on",
+        order: "desc"
+    }).then((entities) => entities.map((revision) => ({
+        id: revision.id,
+        values: revision.values.values as EntityValues<M>,
+        status: revision.values.status as EntityStatus,
+        author: (revision.values.author ?? null) as EntityRevisionAuthor | null,
+        savedOn: revision.values.saved_on as Date
+    })));
+}
+
+/**
+ * Keys of the properties whose values are different in two versions of an
+ * entity
+ * @param properties
+ * @param previousValues
+ * @param values
+ * @category Entities
+ */
+export function getChangedProperties<M extends { [Key: string]: any }>(
+    properties: Properties<M>,
+    previousValues: Partial<EntityValues<M>> | undefined,
+    values: Partial<EntityValues<M>> | undefined
+): (keyof M)[] {
+    return Object.keys(properties)
+        .filter((key) => !areValuesEqual(
+            previousValues ? (previousValues as any)[key] : undefined,
+            values ? (values as any)[key] : undefined
+        ));
+}
+
+/**
+ * Deep equality of stored values, comparing dates, references and geopoints
+ * by value
+ * @ignore
+ */
+export function areValuesEqual(a: any, b: any): boolean {
+    if (a === b)
+        return true;
+    if ((a === null || a === undefined) && (b === null || b === undefined))
+        return true;
+    if (a === null || b === null || typeof a !== "object" || typeof b !== "object")
+        return false;
+    if (a instanceof Date && b instanceof Date)
+        return a.getTime() === b.getTime();
+    // references and geopoints
+    if (typeof a.isEqual === "function")
+        return Object.getPrototypeOf(a) === Object.getPrototypeOf(b) && a.isEqual(b);
+    if (Array.isArray(a) !== Array.isArray(b))
+        return false;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every((key) => areValuesEqual(a[key], b[key]));
+}
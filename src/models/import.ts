@@ -0,0 +1,334 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+import { EntityValues } from "./entities";
+import { EnumValues, Properties, Property } from "./properties";
+import { buildEnumLabel, enumToObjectEntries } from "../util/enums";
+import { parseGeoPoint, toGeoPoint } from "./geopoints";
+
+/**
+ * Formats of the files that can be imported into a collection
+ * @category Collections
+ */
+export type ImportFormat = "csv" | "json";
+
+/**
+ * Target of an imported column used for the id of the entities
+ * @category Collections
+ */
+export const IMPORT_ID_TARGET = "id";
+
+/**
+ * Mapping of the columns of an imported file to the property keys they are
+ * written to. Nested properties of maps use dots, e.g. `address.street`, and
+ * {@link IMPORT_ID_TARGET} is used for the entity id. Unmapped columns are
+ * ignored.
+ * @category Collections
+ */
+export type ImportMapping = Record<string, string | undefined>;
+
+/**
+ * Parse CSV text into rows of cells, following RFC 4180: cells may be quoted
+ * with `"`, and quotes inside quoted cells are escaped by doubling them.
+ * @param text
+ * @category Collections
+ */
+export function parseCSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+
+    // remove the byte order mark added by some spreadsheet apps
+    const input = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === "\"" && input[i + 1] === "\"") {
+                cell += "\"";
+                i++;
+            } else if (char === "\"") {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === "\"") {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && input[i + 1] === "\n")
+                i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell.length > 0 || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    // skip empty lines
+    return rows.filter((r) => r.some((c) => c.length > 0));
+}
+
+/**
+ * Parse the content of an imported file into rows keyed by column name.
+ * CSV files need a header row. JSON files can contain an array of objects
+ * or an object of objects keyed by id.
+ * @param text
+ * @param format
+ * @category Collections
+ */
+export function parseImportFile(text: string, format: ImportFormat): Record<string, any>[] {
+    if (format === "csv") {
+        const [header, ...rows] = parseCSV(text);
+        if (!header)
+            return [];
+        return rows.map((row) => header
+            .map((column, index) => row[index] !== undefined && row[index] !== "" ? { [column]: row[index] } : {})
+            .reduce((a, b) => ({ ...a, ...b }), {}));
+    }
+
+    const json = JSON.parse(text);
+    if (Array.isArray(json)) {
+        return json.filter((row) => row && typeof row === "object");
+    } else if (json && typeof json === "object") {
+        return Object.entries(json)
+            .filter(([_, row]) => row && typeof row === "object")
+            .map(([id, row]) => ({ [IMPORT_ID_TARGET]: id, ...(row as object) }));
+    }
+    throw Error("The JSON file must contain an array or an object of entities");
+}
+
+/**
+ * Get the columns of the parsed rows, in order of appearance
+ * @param rows
+ * @category Collections
+ */
+export function getImportColumns(rows: Record<string, any>[]): string[] {
+    const columns = new Set<string>();
+    rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+    return Array.from(columns);
+}
+
+/**
+ * Get the keys that imported columns can be mapped to: the entity id and
+ * every property, using dots for the properties of maps. These are the same
+ * keys used as headers in CSV exports.
+ * @param properties
+ * @category Collections
+ */
+export function getImportTargets<M extends { [Key: string]: any }>(properties: Properties<M>): string[] {
+    return [IMPORT_ID_TARGET, ...getPropertyTargets(properties as Properties<any>, "")];
+}
+
+function getPropertyTargets(properties: Properties<any>, prefix: string): string[] {
+    return Object.entries(properties)
+        .flatMap(([key, property]) => {
+            const target = prefix ? `${prefix}.${key}` : key;
+            // columns can be mapped to a whole map or to its properties
+            return property.dataType === "map" && property.properties
+                ? [target, ...getPropertyTargets(property.properties as Properties<any>, target)]
+                : [target];
+        });
+}
+
+/**
+ * Map each column to the target with the same name or title, ignoring case
+ * @param columns
+ * @param properties
+ * @category Collections
+ */
+export function getDefaultImportMapping<M extends { [Key: string]: any }>(columns: string[],
+                                                                          properties: Properties<M>): ImportMapping {
+    const targets = getImportTargets(properties);
+    return columns
+        .map((column) => {
+            const normalized = column.trim().toLowerCase();
+            const target = targets.find((t) => t.toLowerCase() === normalized
+                || getPropertyAtPath(properties, t)?.title?.toLowerCase() === normalized);
+            return { [column]: target };
+        })
+        .reduce((a, b) => ({ ...a, ...b }), {});
+}
+
+/**
+ * Convert a parsed row into the values of an entity, according to the
+ * mapping and the properties of the schema.
+ *
+ * Values that cannot be converted are kept as they are, so they are
+ * reported when validating the entity.
+ *
+ * @param row
+ * @param mapping
+ * @param properties
+ * @param buildReference Used to create references from paths, usually
+ * `DataSource.buildReference`
+ * @category Collections
+ */
+export function convertImportedRow<M extends { [Key: string]: any }>({
+                                                                          row,
+                                                                          mapping,
+                                                                          properties,
+                                                                          buildReference
+                                                                      }: {
+    row: Record<string, any>,
+    mapping: ImportMapping,
+    properties: Properties<M>,
+    buildReference: (path: string) => firebase.firestore.DocumentReference
+}): { id?: string, values: Partial<EntityValues<M>> } {
+
+    let id: string | undefined;
+    const values: Record<string, any> = {};
+
+    Object.entries(mapping).forEach(([column, target]) => {
+        const value = row[column];
+        if (!target || value === undefined || value === null || value === "")
+            return;
+        if (target === IMPORT_ID_TARGET) {
+            id = String(value);
+            return;
+        }
+        const property = getPropertyAtPath(properties, target);
+        if (!property)
+            return;
+        setValueAtPath(values, target, convertImportedValue(value, property, buildReference));
+    });
+
+    return { id, values: values as Partial<EntityValues<M>> };
+}
+
+/**
+ * Convert an imported value, a string in CSV files, to the type of the
+ * given property
+ * @param value
+ * @param property
+ * @param buildReference
+ * @category Collections
+ */
+export function convertImportedValue(value: any,
+                                     property: Property,
+                                     buildReference: (path: string) => firebase.firestore.DocumentReference): any {
+
+    if (value === undefined || value === null || value === "")
+        return null;
+
+    if (property.dataType === "string") {
+        const stringValue = String(value);
+        return property.config?.enumValues
+            ? getEnumKey(stringValue, property.config.enumValues) ?? stringValue
+            : stringValue;
+    } else if (property.dataType === "number") {
+        if (property.config?.enumValues) {
+            const key = getEnumKey(String(value), property.config.enumValues);
+            if (key !== undefined)
+                return Number(key);
+        }
+        const number = typeof value === "number" ? value : Number(String(value).trim());
+        return isNaN(number) ? value : number;
+    } else if (property.dataType === "boolean") {
+        if (typeof value === "boolean")
+            return value;
+        const normalized = String(value).trim().toLowerCase();
+        if (["true", "yes", "1"].includes(normalized))
+            return true;
+        if (["false", "no", "0"].includes(normalized))
+            return false;
+        return value;
+    } else if (property.dataType === "timestamp") {
+        if (value instanceof Date)
+            return value;
+        // exports write timestamps in milliseconds
+        const date = typeof value === "number" || /^\d+$/.test(String(value).trim())
+            ? new Date(Number(value))
+            : new Date(String(value));
+        return isNaN(date.getTime()) ? value : date;
+    } else if (property.dataType === "reference") {
+        const path = String(value).trim();
+        // plain ids refer to the collection of the property
+        return buildReference(path.includes("/") ? path : `${property.collectionPath}/${path}`);
+    } else if (property.dataType === "geopoint") {
+        if (value instanceof firebase.firestore.GeoPoint)
+            return value;
+        // exports write geopoints as `lat,lng`, or as objects in JSON files
+        const coordinates = typeof value === "object"
+            ? value
+            : parseGeoPoint(String(value));
+        return coordinates && typeof coordinates.latitude === "number" && typeof coordinates.longitude === "number"
+            ? toGeoPoint(coordinates)
+            : value;
+    } else if (property.dataType === "array") {
+        const array = Array.isArray(value) ? value : parseArray(String(value));
+        if (!array || !property.of)
+            return value;
+        return array.map((v) => convertImportedValue(v, property.of as Property, buildReference));
+    } else if (property.dataType === "map") {
+        const map = typeof value === "object" ? value : parseJSON(String(value));
+        if (!map || typeof map !== "object" || !property.properties)
+            return map ?? value;
+        return Object.entries(property.properties)
+            .filter(([key]) => map[key] !== undefined)
+            .map(([key, childProperty]) => ({ [key]: convertImportedValue(map[key], childProperty as Property, buildReference) }))
+            .reduce((a, b) => ({ ...a, ...b }), {});
+    }
+    return value;
+}
+
+/**
+ * Find the key of an enum, given the key itself or its label
+ */
+function getEnumKey(value: string, enumValues: EnumValues): string | undefined {
+    const normalized = value.trim().toLowerCase();
+    const entry = enumToObjectEntries(enumValues)
+        .find(([key, labelOrConfig]) => String(key).toLowerCase() === normalized
+            || buildEnumLabel(labelOrConfig)?.toLowerCase() === normalized);
+    return entry ? entry[0] : undefined;
+}
+
+/**
+ * Arrays can be written as JSON, or as comma separated values
+ */
+function parseArray(value: string): any[] | undefined {
+    const trimmed = value.trim();
+    if (trimmed.startsWith("[")) {
+        const parsed = parseJSON(trimmed);
+        return Array.isArray(parsed) ? parsed : undefined;
+    }
+    return trimmed.split(",").map((v) => v.trim()).filter((v) => v.length > 0);
+}
+
+function parseJSON(value: string): any {
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        return undefined;
+    }
+}
+
+function getPropertyAtPath(properties: Properties<any>, path: string): Property | undefined {
+    const [key, ...rest] = path.split(".");
+    const property: Property | undefined = properties[key];
+    if (!property || rest.length === 0)
+        return property;
+    return property.dataType === "map" && property.properties
+        ? getPropertyAtPath(property.properties as Properties<any>, rest.join("."))
+        : undefined;
+}
+
+function setValueAtPath(values: Record<string, any>, path: string, value: any) {
+    const [key, ...rest] = path.split(".");
+    if (rest.length === 0) {
+        values[key] = value;
+    } else {
+        if (!values[key] || typeof values[key] !== "object")
+            values[key] = {};
+        setValueAtPath(values[key], rest.join("."), value);
+    }
+}
@@ -0,0 +1,366 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+import { Entity, EntitySchema, EntityValues } from "./entities";
+import {
+    CompositeIndex,
+    FilterCondition,
+    getFilterConditions,
+    getFilterOrderKeys,
+    WhereFilterOp
+} from "./collections";
+import { Properties } from "./properties";
+import {
+    CheckUniqueFieldProps,
+    CopyEntityProps,
+    DataSource,
+    DeleteEntityProps,
+    FetchCollectionProps,
+    FetchEntityProps,
+    ListenCollectionProps,
+    ListenEntityProps,
+    SaveEntityProps
+} from "./data_source";
+import {
+    computeSchemaProperties,
+    sanitizeData,
+    updateAutoValues
+} from "./firestore";
+import { compareValues, matchesFilter } from "./filters";
+import { normalizePath } from "./utils";
+
+/**
+ * Initial documents of an {@link InMemoryDataSource}, indexed by collection
+ * path and document id. e.g:
+ * `{ "products": { "B000P0MDMS": { name: "Cookies" } } }`
+ * @category Data source
+ */
+export type InMemoryData = Record<string, Record<string, object>>;
+
+type CollectionListener = { props: ListenCollectionProps<any> };
+type EntityListener = { props: ListenEntityProps<any> };
+
+const INEQUALITY_OPS: WhereFilterOp[] = ["<", "<=", ">", ">=", "!=", "not-in"];
+const EQUALITY_OPS: WhereFilterOp[] = ["==", "in", "array-contains"];
+
+/**
+ * Data source that keeps all the entities in memory, useful for tests and
+ * offline demos. It supports subcollections, filters, ordering, pagination
+ * and realtime listeners, following the same semantics as the Firestore
+ * data source.
+ *
+ * If you provide `indexes`, queries that would require a composite index
+ * in Firestore fail if a matching index is not declared for that path.
+ *
+ * @param initialData Initial documents, indexed by collection path and id
+ * @param indexes Composite indexes, indexed by collection path
+ * @category Data source
+ */
+export function InMemoryDataSource(initialData?: InMemoryData,
+                                   indexes?: Record<string, CompositeIndex<string>[]>): DataSource {
+
+    const store: Record<string, Record<string, object>> = {};
+    Object.entries(initialData ?? {}).forEach(([path, documents]) => {
+        store[normalizePath(path)] = Object.entries(documents)
+            .map(([id, values]) => ({ [id]: cloneValue(values) }))
+            .reduce((a, b) => ({ ...a, ...b }), {});
+    });
+
+    let collectionListeners: CollectionListener[] = [];
+    let entityListeners: EntityListener[] = [];
+
+    function buildEntity<M extends { [Key: string]: any }>(path: string, id: string, schema: EntitySchema<M>): Entity<M> {
+        const values = store[path] && store[path][id];
+        return {
+            id,
+            reference: createReference(`${path}/${id}`),
+            values: values ? sanitizeData(cloneValue(values) as EntityValues<M>, schema, path) : undefined as any
+        };
+    }
+
+    function runQuery<M extends { [Key: string]: any }>(props: FetchCollectionProps<M>): Entity<M>[] {
+        const path = normalizePath(props.path);
+        const { filter, limit, startAfter, orderBy, order, schema } = props;
+
+        const filters: [string, WhereFilterOp, any][] = filter
+            ? Object.entries(filter)
+                .filter(([_, entry]) => !!entry)
+                .flatMap(([key, entry]) => getFilterConditions(entry as FilterCondition | FilterCondition[])
+                    .map(([op, value]): [string, WhereFilterOp, any] => [key, op, value]))
+            : [];
+
+        const orderings: [string, "asc" | "desc"][] = [];
+        if (filter && orderBy && order) {
+            getFilterOrderKeys(filter, orderBy).forEach((key) => orderings.push([key, "asc"]));
+        }
+        if (orderBy && order)
+            orderings.push([orderBy, order]);
+
+        validateQuery(path, filters, orderings, indexes);
+
+        const inequalityFilter = filters.find(([_, op]) => INEQUALITY_OPS.includes(op));
+        if (!orderings.length && inequalityFilter)
+            orderings.push([inequalityFilter[0], "asc"]);
+
+        let documents = Object.entries(store[path] ?? {})
+            .filter(([_, values]) =>
+                filters.every(([key, op, value]) => matchesFilter(getValue(values, key), op, value)))
+            .filter(([_, values]) =>
+                orderings.every(([key]) => getValue(values, key) !== undefined));
+
+        const lastDirection = orderings.length ? orderings[orderings.length - 1][1] : "asc";
+        const compareDocuments = ([idA, a]: [string, object], [idB, b]: [string, object]) => {
+            for (const [key, direction] of orderings) {
+                const result = compareValues(getValue(a, key), getValue(b, key));
+                if (result !== 0) return direction === "asc" ? result : -result;
+            }
+            const result = compareValues(idA, idB);
+            return lastDirection === "asc" ? result : -result;
+        };
+        documents.sort(compareDocuments);
+
+        if (startAfter) {
+            documents = documents.filter(([id, values]) => {
+                for (let i = 0; i < startAfter.length && i <= orderings.length; i++) {
+                    // the value after the sorted fields is the id
+                    const [key, direction] = i < orderings.length ? orderings[i] : [undefined, lastDirection];
+                    const result = compareValues(key !== undefined ? getValue(values, key) : id, startAfter[i]);
+                    if (result !== 0) return direction === "asc" ? result > 0 : result < 0;
+                }
+                return false;
+            });
+        }
+
+        if (limit)
+            documents = documents.slice(0, limit);
+
+        return documents.map(([id]) => buildEntity(path, id, schema));
+    }
+
+    function notifyListeners(path: string, id: string) {
+        collectionListeners
+            .filter(({ props }) => normalizePath(props.path) === path)
+            .forEach(({ props }) => emitCollection(props));
+        entityListeners
+            .filter(({ props }) => normalizePath(props.path) === path && props.entityId === id)
+            .forEach(({ props }) => props.onUpdate(buildEntity(path, id, props.schema)));
+    }
+
+    function emitCollection(props: ListenCollectionProps<any>) {
+        try {
+            props.onUpdate(runQuery(props));
+        } catch (e: any) {
+            if (props.onError) props.onError(e);
+        }
+    }
+
+    return {
+
+        listenCollection<M extends { [Key: string]: any }>(props: ListenCollectionProps<M>): () => void {
+            const listener: CollectionListener = { props };
+            collectionListeners.push(listener);
+            emitCollection(props);
+            return () => {
+                collectionListeners = collectionListeners.filter((l) => l !== listener);
+            };
+        },
+
+        fetchCollection<M extends { [Key: string]: any }>(props: FetchCollectionProps<M>): Promise<Entity<M>[]> {
+            try {
+                return Promise.resolve(runQuery(props));
+            } catch (e: any) {
+                return Promise.reject(e);
+            }
+        },
+
+        fetchEntity<M extends { [Key: string]: any }>({
+                                                          path,
+                                                          entityId,
+                                                          schema
+                                                      }: FetchEntityProps<M>): Promise<Entity<M>> {
+            return Promise.resolve(buildEntity(normalizePath(path), entityId, schema));
+        },
+
+        listenEntity<M extends { [Key: string]: any }>(props: ListenEntityProps<M>): () => void {
+            const listener: EntityListener = { props };
+            entityListeners.push(listener);
+            props.onUpdate(buildEntity(normalizePath(props.path), props.entityId, props.schema));
+            return () => {
+                entityListeners = entityListeners.filter((l) => l !== listener);
+            };
+        },
+
+        saveEntity<M extends { [Key: string]: any }>({
+                                                         collectionPath,
+                                                         id,
+                                                         values,
+                                                         schema,
+                                                         status
+                                                     }: SaveEntityProps<M>): Promise<Entity<M>> {
+            const path = normalizePath(collectionPath);
+            const entityId = id ?? generateId();
+
+            const properties: Properties<M> = computeSchemaProperties(schema, collectionPath, entityId);
+            const updatedValues: EntityValues<M> = updateAutoValues(values, properties, status, () => new Date(), () => undefined);
+
+            if (!store[path]) store[path] = {};
+            store[path][entityId] = mergeValues(store[path][entityId] ?? {}, cloneValue(updatedValues));
+
+            notifyListeners(path, entityId);
+            return Promise.resolve(buildEntity(path, entityId, schema));
+        },
+
+        deleteEntity<M extends { [Key: string]: any }>({ entity }: DeleteEntityProps<M>): Promise<void> {
+            const path = normalizePath(entity.reference.parent.path);
+            if (store[path]) {
+                delete store[path][entity.id];
+                notifyListeners(path, entity.id);
+            }
+            return Promise.resolve();
+        },
+
+        copyEntity<M extends { [Key: string]: any }>({
+                                                         entity,
+                                                         collectionPath,
+                                                         schema
+                                                     }: CopyEntityProps<M>): Promise<Entity<M>> {
+            const sourcePath = normalizePath(entity.reference.parent.path);
+            const values = store[sourcePath] && store[sourcePath][entity.id];
+            if (!values)
+                return Promise.reject(Error(`${sourcePath}/${entity.id} does not exist`));
+            const path = normalizePath(collectionPath);
+            if (!store[path]) store[path] = {};
+            store[path][entity.id] = cloneValue(values);
+            notifyListeners(path, entity.id);
+            return Promise.resolve(buildEntity(path, entity.id, schema));
+        },
+
+        checkUniqueField({
+                             path,
+                             name,
+                             value,
+                             entityId
+                         }: CheckUniqueFieldProps): Promise<boolean> {
+            const documents = Object.entries(store[normalizePath(path)] ?? {});
+            return Promise.resolve(
+                documents.filter(([id, values]) => id !== entityId && compareValues(getValue(values, name), value) === 0).length === 0
+            );
+        },
+
+        buildReference(path: string): firebase.firestore.DocumentReference {
+            return createReference(path);
+        }
+    };
+}
+
+/**
+ * Apply the same restrictions Firestore applies to queries, so queries that
+ * work in memory also work in Firestore.
+ */
+function validateQuery(path: string,
+                       filters: [string, WhereFilterOp, any][],
+                       orderings: [string, "asc" | "desc"][],
+                       indexes?: Record<string, CompositeIndex<string>[]>) {
+
+    const inequalityFields = new Set(filters
+        .filter(([_, op]) => INEQUALITY_OPS.includes(op))
+        .map(([key]) => key));
+    if (inequalityFields.size > 1)
+        throw Error(`Invalid query. All where filters with an inequality must be on the same field. Found: ${Array.from(inequalityFields).join(", ")}`);
+
+    const inequalityField = Array.from(inequalityFields)[0];
+    if (inequalityField && orderings.length && orderings[0][0] !== inequalityField)
+        throw Error(`Invalid query. You have a where filter with an inequality on field ${inequalityField}, so you must also use ${inequalityField} as your first orderBy`);
+
+    if (filters.filter(([_, op]) => op === "in" || op === "array-contains-any" || op === "not-in").length > 1)
+        throw Error("Invalid query. You cannot use more than one 'in', 'not-in' or 'array-contains-any' filter");
+
+    if (filters.some(([_, op]) => op === "not-in") && filters.some(([_, op]) => op === "!="))
+        throw Error("Invalid query. You cannot use 'not-in' filters with '!=' filters");
+
+    if (filters.filter(([_, op]) => op === "array-contains" || op === "array-contains-any").length > 1)
+        throw Error("Invalid query. You cannot use more than one 'array-contains' or 'array-contains-any' filter");
+
+    if (!indexes)
+        return;
+
+    const fields = new Set([...filters.map(([key]) => key), ...orderings.map(([key]) => key)]);
+    const onlyEqualityFilters = !orderings.length && filters.every(([_, op]) => EQUALITY_OPS.includes(op));
+    if (fields.size <= 1 || onlyEqualityFilters)
+        return;
+
+    const compositeIndex = (indexes[path] ?? []).find((index) =>
+        Array.from(fields).every((field) => index[field] !== undefined)
+        && orderings.every(([key, direction]) => index[key] === direction));
+    if (!compositeIndex)
+        throw Error(`The query requires an index in ${path} for the fields: ${Array.from(fields).join(", ")}`);
+}
+
+function getValue(values: any, key: string): any {
+    return key.split(".")
+        .reduce((value, k) => value !== undefined && value !== null ? value[k] : undefined, values);
+}
+
+function isPlainObject(value: any): boolean {
+    return value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function cloneValue(value: any): any {
+    if (Array.isArray(value))
+        return value.map(cloneValue);
+    if (value instanceof Date)
+        return new Date(value.getTime());
+    if (isPlainObject(value))
+        return Object.entries(value)
+            .map(([key, v]) => ({ [key]: cloneValue(v) }))
+            .reduce((a, b) => ({ ...a, ...b }), {});
+    return value;
+}
+
+/**
+ * Deep merge of maps, like `set` with `merge: true` in Firestore.
+ * Undefined values delete the existing field.
+ */
+function mergeValues(target: any, source: any): any {
+    const result = { ...target };
+    Object.entries(source).forEach(([key, value]) => {
+        if (value === undefined)
+            delete result[key];
+        else if (isPlainObject(value) && isPlainObject(result[key]))
+            result[key] = mergeValues(result[key], value);
+        else if (isPlainObject(value))
+            result[key] = mergeValues({}, value);
+        else
+            result[key] = value;
+    });
+    return result;
+}
+
+function generateId(): string {
+    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+    let id = "";
+    for (let i = 0; i < 20; i++) {
+        id += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return id;
+}
+
+/**
+ * References are created with the prototype of the Firestore
+ * `DocumentReference`, so the fields and previews that check for
+ * `instanceof DocumentReference` keep working with in memory data.
+ */
+function createReference(fullPath: string): firebase.firestore.DocumentReference {
+    const path = normalizePath(fullPath);
+    const collectionPath = path.substring(0, path.lastIndexOf("/"));
+    const parent = {
+        id: collectionPath.substring(collectionPath.lastIndexOf("/") + 1),
+        path: collectionPath
+    };
+    return Object.create(firebase.firestore.DocumentReference.prototype, {
+        id: { value: path.substring(path.lastIndexOf("/") + 1), enumerable: true },
+        path: { value: path, enumerable: true },
+        parent: { value: parent },
+        isEqual: { value: (other: firebase.firestore.DocumentReference) => !!other && other.path === path }
+    });
+}
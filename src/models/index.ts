@@ -11,6 +11,21 @@ export type {
     Authenticator
 } from "./authenticator";
 
+export type { RolesResolver, RolePermissions } from "./roles";
+
+export type { UserManagementConfig, CMSUser } from "./user_management";
+export {
+    getCMSUserId,
+    checkCMSUserAccess,
+    inviteCMSUser,
+    needsEmailVerification
+} from "./user_management";
+export {
+    rolesFromCustomClaims,
+    rolesFromCollection,
+    buildRolePermissions
+} from "./roles";
+
 export * from "./colors";
 
 export {
@@ -18,9 +33,140 @@ export {
     listenEntity,
     listenEntityFromRef,
     listenCollection,
-    saveEntity
+    saveEntity,
+    FirestoreDataSource
 } from "./firestore";
 
+export type {
+    DataSource,
+    FetchCollectionProps,
+    ListenCollectionProps,
+    FetchEntityProps,
+    ListenEntityProps,
+    SaveEntityProps,
+    DeleteEntityProps,
+    CopyEntityProps,
+    CheckUniqueFieldProps
+} from "./data_source";
+
+export {
+    HISTORY_COLLECTION,
+    saveEntityRevision,
+    fetchEntityRevisions,
+    getChangedProperties
+} from "./history";
+export type { EntityRevision, EntityRevisionAuthor } from "./history";
+
+export {
+    getAuditChangedFields,
+    saveAuditRecord,
+    fetchAuditRecords
+} from "./audit_log";
+export type {
+    AuditLogConfig,
+    AuditOperation,
+    AuditRecord,
+    AuditLogFilter
+} from "./audit_log";
+
+export {
+    DEFAULT_DRAFTS_SUFFIX,
+    getDraftsPath,
+    getPublishingStatus,
+    saveDraft,
+    publishEntity,
+    unpublishEntity,
+    discardDraft
+} from "./publishing";
+export type { PublishingStatus } from "./publishing";
+
+export {
+    DEFAULT_TRASH_SUFFIX,
+    getTrashPath,
+    restoreEntity,
+    purgeEntity
+} from "./trash";
+
+export {
+    findEntityDependencies,
+    hasEntityDependencies,
+    resolveEntityDependencies
+} from "./dependencies";
+export type {
+    DependencyResolution,
+    EntityDependencies,
+    ReferencingEntity,
+    SubcollectionEntity
+} from "./dependencies";
+
+export { copyEntityWithSubcollections } from "./deep_copy";
+
+export { getScheduledTransitions, isScheduled } from "./scheduling";
+export type {
+    SchedulableEntity,
+    ScheduledTransitions
+} from "./scheduling";
+
+export {
+    IMPORT_ID_TARGET,
+    parseCSV,
+    parseImportFile,
+    getImportColumns,
+    getImportTargets,
+    getDefaultImportMapping,
+    convertImportedRow,
+    convertImportedValue
+} from "./import";
+export type { ImportFormat, ImportMapping } from "./import";
+
+export {
+    EXPORT_FORMATS,
+    fetchEntitiesInPages,
+    buildExportFile,
+    getExportHeaders
+} from "./export";
+export type { ExportFormat } from "./export";
+
+export { getBulkEditOperations, applyBulkEdits } from "./bulk_edit";
+export type { BulkEdit, BulkEditOperation } from "./bulk_edit";
+
+export {
+    parseGeoPoint,
+    formatGeoPoint,
+    isValidGeoPoint,
+    buildGeoPointBoundsFilter,
+    getGeoPointBounds,
+    filterByGeoPointBounds
+} from "./geopoints";
+export type { GeoPointCoordinates } from "./geopoints";
+
+export {
+    isLocalizedProperty,
+    getDefaultLocale,
+    getLocaleFallbackChain,
+    resolveLocalizedValue,
+    localizeProperty,
+    expandLocalizedProperty,
+    expandLocalizedProperties
+} from "./localization";
+export type { LocalizationConfig, LocalizedValue } from "./localization";
+
+export {
+    matchesPropertyConditions,
+    isPropertyVisible,
+    resolvePropertyConditions,
+    hasPropertyConditions,
+    getParentValues
+} from "./conditions";
+
+export {
+    isPersistedComputedProperty,
+    computeValues
+} from "./computed_values";
+
+export { InMemoryDataSource } from "./in_memory_data_source";
+export type { InMemoryData } from "./in_memory_data_source";
+
 export {
     uploadFile,
     getDownloadURL
@@ -32,5 +178,13 @@ export type {
     FieldProps, CMSFormFieldProps, FormContext
 } from "./fields";
 
-export type { TextSearchDelegate } from "./text_search_delegate";
+export type {
+    TextSearchDelegate,
+    TextSearchParams,
+    TextSearchResults,
+    TextSearchHit,
+    TextSearchHighlight
+} from "./text_search_delegate";
 export { AlgoliaTextSearchDelegate } from "./text_search_delegate";
+export type { LocalTextSearchProps } from "./local_text_search_delegate";
+export { LocalTextSearchDelegate } from "./local_text_search_delegate";
@@ -0,0 +1,336 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+import {
+    TextSearchDelegate,
+    TextSearchHighlight,
+    TextSearchHit,
+    TextSearchParams,
+    TextSearchResults
+} from "./text_search_delegate";
+import { DataSource } from "./data_source";
+import { FirestoreDataSource } from "./firestore";
+import { Entity } from "./entities";
+
+/**
+ * @category Collections
+ */
+export interface LocalTextSearchProps {
+    /**
+     * Keys of the properties that are indexed, in order of relevance. Use
+     * dots for the properties of maps, e.g. `address.city`
+     */
+    properties: string[];
+
+    /**
+     * Data source used to listen to the collection. Defaults to Firestore
+     */
+    dataSource?: DataSource;
+
+    /**
+     * Path of the indexed collection. Defaults to the path of the collection
+     * where the search is performed, so the same delegate can be used in
+     * subcollections
+     */
+    path?: string;
+
+    /**
+     * Allow matches with typos, e.g. `jhon` matching `john`.
+     * Defaults to `true`
+     */
+    fuzzy?: boolean;
+
+    /**
+     * Number of results per page, if the search does not specify it.
+     * Defaults to 50
+     */
+    limit?: number;
+}
+
+interface IndexedEntity {
+    id: string;
+    /**
+     * Values of the indexed properties, in the same order as the properties
+     */
+    values: any[];
+    /**
+     * Tokens of each indexed property
+     */
+    tokens: string[][];
+}
+
+interface CollectionIndex {
+    entities: IndexedEntity[];
+    ready: Promise<void>;
+    unsubscribe: () => void;
+}
+
+/**
+ * Text search delegate that indexes the entities in the browser, so no
+ * external search service is needed. It is meant for small and medium
+ * collections, since the whole collection is loaded, and kept up to date
+ * with a listener once the first search is performed. Call `dispose` to
+ * stop the listeners when the delegate is no longer used.
+ *
+ * Searches are case and accent insensitive, and match words by prefix.
+ * Results containing all the words of the query are returned, ranked by
+ * how well and in which properties they match, with the matching words of
+ * string properties highlighted.
+ *
+ * @param properties
+ * @param dataSource
+ * @param path
+ * @param fuzzy
+ * @param limit
+ * @constructor
+ * @category Collections
+ */
+export function LocalTextSearchDelegate({
+                                            properties,
+                                            dataSource,
+                                            path,
+                                            fuzzy = true,
+                                            limit = 50
+                                        }: LocalTextSearchProps): TextSearchDelegate {
+
+    const indexes: Record<string, CollectionIndex> = {};
+
+    function getIndex(collectionPath: string): CollectionIndex {
+        if (indexes[collectionPath])
+            return indexes[collectionPath];
+
+        const usedDataSource = dataSource ?? FirestoreDataSource();
+        let resolveReady: () => void;
+        const index: CollectionIndex = {
+            entities: [],
+            ready: new Promise((resolve) => resolveReady = resolve),
+            unsubscribe: () => {
+            }
+        };
+        index.unsubscribe = usedDataSource.listenCollection({
+            path: collectionPath,
+            schema: { name: collectionPath, properties: {} },
+            onUpdate: (entities: Entity<any>[]) => {
+                index.entities = entities.map((entity) => {
+                    const values = properties.map((key) => getValueInPath(entity.values, key));
+                    return {
+                        id: entity.id,
+                        values,
+                        tokens: values.map(tokenize)
+                    };
+                });
+                resolveReady();
+            },
+            onError: (e) => {
+                console.error("Error indexing collection", collectionPath, e);
+                resolveReady();
+            }
+        });
+        indexes[collectionPath] = index;
+        return index;
+    }
+
+    return {
+        performTextSearch: async ({
+                                      query,
+                                      collectionPath,
+                                      cursor,
+                                      limit: pageLimit
+                                  }: TextSearchParams): Promise<TextSearchResults> => {
+
+            const queryTokens = Array.from(new Set(tokenize(query)));
+            if (queryTokens.length === 0)
+                return { hits: [], total: 0 };
+
+            const index = getIndex(path ?? collectionPath);
+            await index.ready;
+
+            const matches = index.entities
+                .map((entity) => ({ entity, score: scoreEntity(entity, queryTokens, fuzzy) }))
+                .filter(({ score }) => score > 0)
+                .sort((a, b) => b.score - a.score || a.entity.id.localeCompare(b.entity.id));
+
+            const offset = cursor ? parseInt(cursor) : 0;
+            const end = offset + (pageLimit ?? limit);
+            const hits: TextSearchHit[] = matches
+                .slice(offset, end)
+                .map(({ entity, score }) => ({
+                    id: entity.id,
+                    score,
+                    highlights: buildHighlights(entity, properties, queryTokens, fuzzy)
+                }));
+
+            return {
+                hits,
+                total: matches.length,
+                cursor: end < matches.length ? String(end) : undefined
+            };
+        },
+
+        dispose: () => {
+            Object.keys(indexes).forEach((collectionPath) => {
+                indexes[collectionPath].unsubscribe();
+                delete indexes[collectionPath];
+            });
+        }
+    };
+}
+
+/**
+ * Score of an entity for a query. Every token of the query needs to match a
+ * token of the entity, otherwise the score is 0.
+ */
+function scoreEntity(entity: IndexedEntity, queryTokens: string[], fuzzy: boolean): number {
+    let score = 0;
+    for (const queryToken of queryTokens) {
+        let bestScore = 0;
+        entity.tokens.forEach((propertyTokens, propertyIndex) => {
+            // properties listed first are more relevant
+            const propertyWeight = 1 + 1 / (propertyIndex + 1);
+            for (const token of propertyTokens) {
+                const tokenScore = scoreToken(token, queryToken, fuzzy) * propertyWeight;
+                if (tokenScore > bestScore) bestScore = tokenScore;
+            }
+        });
+        if (bestScore === 0)
+            return 0;
+        score += bestScore;
+    }
+    return score;
+}
+
+function scoreToken(token: string, queryToken: string, fuzzy: boolean): number {
+    if (token === queryToken)
+        return 3;
+    if (token.startsWith(queryToken))
+        return 2;
+    if (fuzzy && queryToken.length >= 4) {
+        const maxDistance = queryToken.length >= 8 ? 2 : 1;
+        // typos in the prefix of longer words
+        const candidate = token.length > queryToken.length + maxDistance
+            ? token.substring(0, queryToken.length)
+            : token;
+        if (editDistance(candidate, queryToken, maxDistance) <= maxDistance)
+            return 1;
+    }
+    return 0;
+}
+
+function buildHighlights(entity: IndexedEntity,
+                         properties: string[],
+                         queryTokens: string[],
+                         fuzzy: boolean): Record<string, TextSearchHighlight> {
+    return properties
+        .map((key, i) => {
+            const value = entity.values[i];
+            const text = Array.isArray(value) && value.every((v) => typeof v === "string")
+                ? value.join(", ")
+                : value;
+            if (typeof text !== "string")
+                return {};
+            const highlight = highlightText(text, queryTokens, fuzzy);
+            return highlight.some(({ matched }) => matched) ? { [key]: highlight } : {};
+        })
+        .reduce((a, b) => ({ ...a, ...b }), {});
+}
+
+/**
+ * Split a text in words and separators, marking the words that match the
+ * query
+ */
+function highlightText(text: string, queryTokens: string[], fuzzy: boolean): TextSearchHighlight {
+    const highlight: TextSearchHighlight = [];
+    let current: { text: string, matched: boolean } | undefined;
+    let word = "";
+
+    const flushWord = () => {
+        if (!word) return;
+        const token = normalize(word);
+        const matched = queryTokens.some((queryToken) => scoreToken(token, queryToken, fuzzy) > 0);
+        push(word, matched);
+        word = "";
+    };
+
+    const push = (part: string, matched: boolean) => {
+        if (current && current.matched === matched) {
+            current.text += part;
+        } else {
+            current = { text: part, matched };
+            highlight.push(current);
+        }
+    };
+
+    for (const char of Array.from(text)) {
+        const normalizedChar = normalize(char);
+        // combining accents are part of the current word
+        if (isWordCharacter(normalizedChar) || (word && !normalizedChar)) {
+            word += char;
+        } else {
+            flushWord();
+            push(char, false);
+        }
+    }
+    flushWord();
+    return highlight;
+}
+
+/**
+ * Levenshtein distance, stopping early when it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max)
+        return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max)
+            return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Lowercase words without accents, from strings, numbers, arrays or maps.
+ * Dates, references and geopoints are not indexed
+ */
+function tokenize(value: any): string[] {
+    if (value === undefined || value === null) {
+        return [];
+    } else if (typeof value === "string" || typeof value === "number") {
+        return normalize(String(value))
+            .split(/[^a-z0-9\u00c0-\uffff]+/)
+            .filter((token) => token.length > 0);
+    } else if (Array.isArray(value)) {
+        return value.flatMap(tokenize);
+    } else if (typeof value === "object"
+        && !(value instanceof Date)
+        && !(value instanceof firebase.firestore.Timestamp)
+        && !(value instanceof firebase.firestore.DocumentReference)
+        && !(value instanceof firebase.firestore.GeoPoint)) {
+        return Object.values(value).flatMap(tokenize);
+    }
+    return [];
+}
+
+function normalize(text: string): string {
+    return text
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase();
+}
+
+function isWordCharacter(normalizedChar: string): boolean {
+    return /[a-z0-9\u00c0-\uffff]/.test(normalizedChar);
+}
+
+function getValueInPath(values: Record<string, any> | undefined, path: string): any {
+    return path.split(".")
+        .reduce((value, key) => value !== undefined && value !== null ? value[key] : undefined, values as any);
+}
@@ -0,0 +1,179 @@
+import { MapProperty, Properties, Property, StringProperty } from "./properties";
+
+/**
+ * Languages in which the content of localized properties is written
+ * @category Localization
+ */
+export interface LocalizationConfig {
+
+    /**
+     * Locales of the content, e.g. `["en", "es", "es-MX"]`. Localized
+     * properties store a value for each of them
+     */
+    locales: string[];
+
+    /**
+     * Locale displayed when the current one has no value.
+     * Defaults to the first locale
+     */
+    defaultLocale?: string;
+
+    /**
+     * Locales tried in order when a value is missing in a locale, before
+     * the default one, e.g. `{ "es-MX": ["es"] }`. The language of regional
+     * locales, such as `es` for `es-MX`, is tried even if not specified
+     */
+    fallbacks?: Record<string, string[]>;
+}
+
+/**
+ * Value of a localized property, keyed by locale,
+ * e.g. `{ en: "Hello", es: "Hola" }`
+ * @category Localization
+ */
+export type LocalizedValue<T = string> = Record<string, T>;
+
+/**
+ * Is this a string or map property storing a value per locale
+ * @param property
+ * @category Localization
+ */
+export function isLocalizedProperty(property: Property): boolean {
+    return (property.dataType === "string" || property.dataType === "map")
+        && Boolean(property.localized);
+}
+
+/**
+ * @param config
+ * @category Localization
+ */
+export function getDefaultLocale(config?: LocalizationConfig): string | undefined {
+    return config?.defaultLocale ?? config?.locales[0];
+}
+
+/**
+ * Locales in which a value is looked up, in order: the locale itself, its
+ * configured fallbacks, its language and the default locale
+ * @param locale
+ * @param config
+ * @category Localization
+ */
+export function getLocaleFallbackChain(locale: string | undefined, config?: LocalizationConfig): string[] {
+    const chain: string[] = [];
+    if (locale) {
+        chain.push(locale, ...(config?.fallbacks?.[locale] ?? []));
+        const language = locale.split("-")[0];
+        if (language !== locale && (!config || config.locales.includes(language)))
+            chain.push(language);
+    }
+    const defaultLocale = getDefaultLocale(config);
+    if (defaultLocale)
+        chain.push(defaultLocale);
+    return chain.filter((l, index) => chain.indexOf(l) === index);
+}
+
+/**
+ * Pick the value of a localized property in the given locale, following
+ * the fallback chain when it is missing
+ * @param value
+ * @param locale
+ * @param config
+ * @return the value and the locale it was found in, which is not the
+ * requested one if a fallback was used
+ * @category Localization
+ */
+export function resolveLocalizedValue<T>(value: LocalizedValue<T> | null | undefined,
+                                         locale: string | undefined,
+                                         config?: LocalizationConfig): { value?: T, locale?: string } {
+    if (!value || typeof value !== "object")
+        return {};
+    const found = getLocaleFallbackChain(locale, config)
+        .find((l) => value[l] !== undefined && value[l] !== null && (value[l] as any) !== "");
+    return found ? { value: value[found], locale: found } : {};
+}
+
+/**
+ * Find the content locale matching a locale of the CMS, such as `enUS` or
+ * `en-US`, by region or by language
+ * @param locale
+ * @param config
+ * @ignore
+ */
+export function matchContentLocale(locale: string | undefined, config?: LocalizationConfig): string | undefined {
+    if (!config)
+        return undefined;
+    if (locale) {
+        const normalized = locale.replace(/^([a-z]+)([A-Z]+)$/, "$1-$2").toLowerCase();
+        const exact = config.locales.find((l) => l.toLowerCase() === normalized);
+        if (exact)
+            return exact;
+        const language = config.locales.find((l) => l.toLowerCase() === normalized.split("-")[0]);
+        if (language)
+            return language;
+    }
+    return getDefaultLocale(config);
+}
+
+/**
+ * Property of the value of a localized property in one locale
+ * @param property
+ * @param locale
+ * @category Localization
+ */
+export function localizeProperty(property: Property, locale: string): Property {
+    return {
+        ...property,
+        localized: false,
+        title: property.title ? `${property.title} (${locale})` : locale
+    };
+}
+
+/**
+ * Replace localized properties, including those nested in maps and arrays,
+ * with map properties including a property for each locale. Exports,
+ * imports and validation use them, so every locale gets its own column
+ * and is validated separately.
+ * @param property
+ * @param locales
+ * @category Localization
+ */
+export function expandLocalizedProperty(property: Property, locales: string[]): Property {
+    if (isLocalizedProperty(property)) {
+        const localizedProperty = property as StringProperty | MapProperty;
+        return {
+            dataType: "map",
+            title: property.title,
+            description: property.description,
+            disabled: property.disabled,
+            readOnly: property.readOnly,
+            permissions: property.permissions,
+            properties: locales
+                .map((locale) => ({ [locale]: expandLocalizedProperty(localizeProperty(localizedProperty, locale), locales) }))
+                .reduce((a, b) => ({ ...a, ...b }), {})
+        };
+    } else if (property.dataType === "map" && property.properties) {
+        return {
+            ...property,
+            properties: expandLocalizedProperties(property.properties, locales)
+        };
+    } else if (property.dataType === "array" && property.of) {
+        return {
+            ...property,
+            of: expandLocalizedProperty(property.of, locales)
+        };
+    }
+    return property;
+}
+
+/**
+ * @see expandLocalizedProperty
+ * @param properties
+ * @param locales
+ * @category Localization
+ */
+export function expandLocalizedProperties<M extends { [Key: string]: any }>(properties: Properties<M>,
+                                                                              locales: string[]): Properties<M> {
+    return Object.entries(properties)
+        .map(([key, property]) => ({ [key]: expandLocalizedProperty(property as Property, locales) }))
+        .reduce((a, b) => ({ ...a, ...b }), {}) as Properties<M>;
+}
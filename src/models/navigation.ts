@@ -76,6 +76,12 @@ export interface CMSView {
      */
     view: React.ReactNode;
 
+    /**
+     * Roles that can access this view. If not set, it is available to every
+     * user
+     */
+    roles?: string[];
+
     /**
      * Optional field used to group top level navigation entries under a
      * navigation view.
@@ -6,6 +6,7 @@ import { FieldProps } from "./fields";
 import { PreviewComponentProps } from "../preview";
 import { ChipColor } from "./colors";
 import { EntityValues } from "./entities";
+import { FilterCondition } from "./collections";
 
 /**
  * @category Entity properties
@@ -111,6 +112,57 @@ interface BaseProperty {
      */
     disabled?: boolean | PropertyDisabledConfig;
 
+    /**
+     * Roles that can see or edit this property. Users without permission to
+     * see it don't get it in forms, tables, previews or exports, and users
+     * that can see it but not edit it get a disabled field.
+     */
+    permissions?: PropertyPermissions;
+
+    /**
+     * Store a value per locale of the `localization` config of the CMS,
+     * e.g. `{ en: "Hello", es: "Hola" }`. The field shows a tab per locale,
+     * and tables and previews show the current locale.
+     * Only string and map properties can be localized
+     */
+    localized?: boolean;
+
+    /**
+     * Show the field of this property only when the values of the entity
+     * meet these conditions, e.g. `{ status: ["!=", "draft"] }`.
+     * Hidden values are kept, but not validated
+     */
+    visibleWhen?: PropertyConditions;
+
+    /**
+     * This property is required when the values of the entity meet these
+     * conditions, in addition to `validation.required`
+     */
+    requiredWhen?: PropertyConditions;
+
+    /**
+     * Disable the field of this property when the values of the entity meet
+     * these conditions
+     */
+    disabledWhen?: PropertyConditions;
+
+    /**
+     * Compute the value of this property from other values, e.g.
+     * `(values) => values.price * values.quantity`. Computed properties are
+     * read only, and forms update them while the other values are edited.
+     * `values` are the values of the map including the property, which are
+     * the values of the entity for top level properties, and `entityValues`
+     * are the values of the entity
+     */
+    compute?: (values: any, entityValues: any) => any;
+
+    /**
+     * Save the computed value with the entity, so collections can be
+     * sorted and filtered by it. Otherwise it is computed every time it is
+     * displayed. Defaults to `true`
+     */
+    persistComputed?: boolean;
+
     /**
      * Rules for validating this property
      */
@@ -118,6 +170,21 @@ interface BaseProperty {
 
 }
 
+/**
+ * Conditions on the values of an entity, met when all of them are met.
+ * Like filters, each key can have a single condition, e.g.
+ * `{ status: ["==", "draft"] }`, or an array of conditions, e.g.
+ * `{ price: [[">=", 10], ["<", 50]] }`.
+ *
+ * Keys are relative to the map including the property: the entity for
+ * top level properties, or the map value for nested ones, including maps
+ * in arrays. You can use nested keys such as `address.country`, and keys
+ * starting with `/` are relative to the entity, e.g. `/status`.
+ * Missing values are compared as `null`.
+ * @category Entity properties
+ */
+export type PropertyConditions = { [key: string]: FilterCondition | FilterCondition[] };
+
 /**
  * @category Entity properties
  */
@@ -139,6 +206,25 @@ export type PropertyDisabledConfig = {
     disabledMessage?: string;
 }
 
+/**
+ * Roles allowed to see or edit a property, assigned by the `roles` resolver
+ * of the CMS
+ * @category Entity properties
+ */
+export type PropertyPermissions = {
+
+    /**
+     * Roles that can see this property. If not set, every user can
+     */
+    read?: string[];
+
+    /**
+     * Roles that can edit this property, if they can also see it.
+     * If not set, every user that can see it can edit it
+     */
+    edit?: string[];
+}
+
 /**
  * @category Entity properties
  */
@@ -379,7 +465,6 @@ export interface TimestampProperty extends BaseProperty {
 /**
  * @category Entity properties
  */
-// TODO: currently this is the only unsupported field
 export interface GeopointProperty extends BaseProperty {
     dataType: "geopoint";
 
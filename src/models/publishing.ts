@@ -0,0 +1,320 @@
+import firebase from "firebase/app";
+
+import {
+    Entity,
+    EntitySchema,
+    EntityStatus,
+    EntityValues,
+    PublishingConfig
+} from "./entities";
+import { CMSAppContext } from "../contexts/CMSAppContext";
+import { computeSchemaProperties, saveEntity } from "./firestore";
+import { computeValues } from "./computed_values";
+import {
+    getAuditChangedFields,
+    onAuditRecordError,
+    saveAuditRecord
+} from "./audit_log";
+
+/**
+ * @category Entities
+ */
+export const DEFAULT_DRAFTS_SUFFIX = "__drafts";
+
+/**
+ * Publishing status of an entity with a publishing workflow:
+ * - `draft`: the entity has never been published
+ * - `published`: the live document is up to date
+ * - `modified`: the entity is published, with unpublished changes in a draft
+ * @category Entities
+ */
+export type PublishingStatus = "draft" | "published" | "modified";
+
+/**
+ * Path of the collection where the drafts of the given collection are stored
+ * @param collectionPath
+ * @param config
+ * @category Entities
+ */
+export function getDraftsPath(collectionPath: string, config: PublishingConfig): string {
+    return `${collectionPath}${config.draftsSuffix ?? DEFAULT_DRAFTS_SUFFIX}`;
+}
+
+/**
+ * @param liveEntity Entity in the live collection
+ * @param draftEntity Entity in the drafts collection
+ * @return undefined if neither of them exist
+ * @category Entities
+ */
+export function getPublishingStatus(liveEntity?: Entity<any>,
+                                    draftEntity?: Entity<any>): PublishingStatus | undefined {
+    const liveExists = !!liveEntity?.values;
+    const draftExists = !!draftEntity?.values;
+    if (liveExists && draftExists) return "modified";
+    if (liveExists) return "published";
+    if (draftExists) return "draft";
+    return undefined;
+}
+
+/**
+ * Save the draft of an entity, leaving the live document untouched.
+ * The save hooks of the schema are not called for drafts, but computed
+ * values are updated like in any other save.
+ * @param collectionPath Path of the live collection
+ * @param id
+ * @param values
+ * @param schema
+ * @param status
+ * @param context
+ * @category Entities
+ */
+export function saveDraft<M extends { [Key: string]: any }>(
+    {
+        collectionPath,
+        id,
+        values,
+        schema,
+        status,
+        context
+    }: {
+        collectionPath: string,
+        id: string | undefined,
+        values: Partial<EntityValues<M>>,
+        schema: EntitySchema<M>,
+        status: EntityStatus,
+        context: CMSAppContext
+    }): Promise<Entity<M>> {
+
+    if (!schema.publishing)
+        throw Error("Trying to save a draft of a schema without publishing config");
+
+    const computedValues = computeValues(computeSchemaProperties(schema, collectionPath, id, values), values, true);
+
+    console.debug("Saving draft", collectionPath, id, computedValues);
+
+    return context.dataSource.saveEntity({
+        collectionPath: getDraftsPath(collectionPath, schema.publishing),
+        id,
+        values: computedValues,
+        schema,
+        status
+    });
+}
+
+/**
+ * Publish the values of an entity to the live document, and remove its draft.
+ * The `onPrePublish` hook is called before saving, followed by the regular
+ * save hooks, and `onPublish` after the entity is published.
+ * @param collectionPath Path of the live collection
+ * @param id
+ * @param values
+ * @param schema
+ * @param status
+ * @param onPublishSuccess
+ * @param onPublishFailure
+ * @param onPrePublishHookError
+ * @param onPublishHookError
+ * @param context
+ * @param history Store a revision of the published entity
+ * @param user Author of the revision
+ * @category Entities
+ */
+export async function publishEntity<M extends { [Key: string]: any }>(
+    {
+        collectionPath,
+        id,
+        values,
+        schema,
+        status,
+        onPublishSuccess,
+        onPublishFailure,
+        onPrePublishHookError,
+        onPublishHookError,
+        context,
+        history,
+        user
+    }: {
+        collectionPath: string,
+        id: string | undefined,
+        values: EntityValues<M>,
+        schema: EntitySchema<M>,
+        status: EntityStatus,
+        onPublishSuccess?: (entity: Entity<M>) => void,
+        onPublishFailure?: (e: Error) => void,
+        onPrePublishHookError?: (e: Error) => void,
+        onPublishHookError?: (e: Error) => void,
+        context: CMSAppContext,
+        history?: boolean,
+        user?: firebase.User | null
+    }): Promise<void> {
+
+    if (!schema.publishing)
+        throw Error("Trying to publish an entity of a schema without publishing config");
+
+    const draftsPath = getDraftsPath(collectionPath, schema.publishing);
+
+    let publishedValues: EntityValues<M> = values;
+    if (schema.onPrePublish) {
+        try {
+            publishedValues = await schema.onPrePublish({
+                schema,
+                collectionPath,
+                id,
+                values,
+                status,
+                context
+            });
+        } catch (e: any) {
+            console.error(e);
+            if (onPrePublishHookError)
+                onPrePublishHookError(e);
+            return;
+        }
+    }
+
+    let publishedEntity: Entity<M> | undefined;
+    await saveEntity({
+        collectionPath,
+        id,
+        values: publishedValues,
+        schema,
+        status,
+        onSaveSuccess: (entity) => publishedEntity = entity,
+        onSaveFailure: onPublishFailure,
+        onPreSaveHookError: onPrePublishHookError,
+        onSaveSuccessHookError: onPublishHookError,
+        context,
+        history,
+        user
+    });
+
+    if (!publishedEntity)
+        return;
+
+    try {
+        const draft = await context.dataSource.fetchEntity({
+            path: draftsPath,
+            entityId: publishedEntity.id,
+            schema
+        });
+        if (draft.values)
+            await context.dataSource.deleteEntity({ entity: draft });
+    } catch (e: any) {
+        console.error("Error removing draft after publishing", e);
+    }
+
+    try {
+        if (schema.onPublish) {
+            await schema.onPublish({
+                schema,
+                collectionPath,
+                id: publishedEntity.id,
+                values: publishedEntity.values,
+                status,
+                context
+            });
+        }
+    } catch (e: any) {
+        if (onPublishHookError)
+            onPublishHookError(e);
+    }
+
+    if (onPublishSuccess)
+        onPublishSuccess(publishedEntity);
+}
+
+/**
+ * Remove the live document of an entity. Its values are kept as a draft,
+ * unless a draft already exists.
+ * @param entity Live entity
+ * @param collectionPath Path of the live collection
+ * @param schema
+ * @param context
+ * @param user Author of the audit record
+ * @category Entities
+ */
+export async function unpublishEntity<M extends { [Key: string]: any }>(
+    {
+        entity,
+        collectionPath,
+        schema,
+        context,
+        user
+    }: {
+        entity: Entity<M>,
+        collectionPath: string,
+        schema: EntitySchema<M>,
+        context: CMSAppContext,
+        user?: firebase.User | null
+    }): Promise<void> {
+
+    if (!schema.publishing)
+        throw Error("Trying to unpublish an entity of a schema without publishing config");
+
+    console.debug("Unpublishing entity", collectionPath, entity.id);
+
+    const draft = await context.dataSource.fetchEntity({
+        path: getDraftsPath(collectionPath, schema.publishing),
+        entityId: entity.id,
+        schema
+    });
+    if (!draft.values) {
+        await saveDraft({
+            collectionPath,
+            id: entity.id,
+            values: entity.values,
+            schema,
+            status: "existing",
+            context
+        });
+    }
+
+    await context.dataSource.deleteEntity({ entity });
+
+    const auditLog = context.cmsAppConfig?.auditLog;
+    if (auditLog) {
+        await saveAuditRecord({
+            dataSource: context.dataSource,
+            config: auditLog,
+            operation: "delete",
+            collectionPath,
+            entityId: entity.id,
+            changedFields: getAuditChangedFields(schema.properties, entity.values, undefined),
+            user
+        }).catch((e) => onAuditRecordError(context, e));
+    }
+}
+
+/**
+ * Delete the draft of an entity. If the entity was never published, this
+ * removes it completely.
+ * @param entityId
+ * @param collectionPath Path of the live collection
+ * @param schema
+ * @param context
+ * @category Entities
+ */
+export async function discardDraft<M extends { [Key: string]: any }>(
+    {
+        entityId,
+        collectionPath,
+        schema,
+        context
+    }: {
+        entityId: string,
+        collectionPath: string,
+        schema: EntitySchema<M>,
+        context: CMSAppContext
+    }): Promise<void> {
+
+    if (!schema.publishing)
+        throw Error("Trying to discard a draft of a schema without publishing config");
+
+    const draft = await context.dataSource.fetchEntity({
+        path: getDraftsPath(collectionPath, schema.publishing),
+        entityId,
+        schema
+    });
+    if (draft.values)
+        await context.dataSource.deleteEntity({ entity: draft });
+}
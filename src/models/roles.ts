@@ -0,0 +1,104 @@
+import firebase from "firebase/app";
+import "firebase/auth";
+import { Permissions, PermissionsBuilder } from "./collections";
+import { DataSource } from "./data_source";
+
+/**
+ * Implement this function to assign roles to the logged in user, e.g. from
+ * custom claims or a collection of CMS users.
+ * You can use {@link rolesFromCustomClaims} or {@link rolesFromCollection}
+ * @category Authentication
+ */
+export type RolesResolver = (props: {
+    user: firebase.User,
+    dataSource: DataSource
+}) => string[] | Promise<string[]>;
+
+/**
+ * Permissions of each role
+ * @category Authentication
+ */
+export type RolePermissions = Record<string, Permissions>;
+
+/**
+ * Read the roles of the user from a custom claim of their ID token,
+ * set with the Firebase Admin SDK.
+ * @param claim Name of the claim containing an array of roles, or a single
+ * role. Defaults to `roles`
+ * @category Authentication
+ */
+export function rolesFromCustomClaims(claim: string = "roles"): RolesResolver {
+    return async ({ user }) => {
+        const { claims } = await user.getIdTokenResult();
+        return toRoles(claims[claim]);
+    };
+}
+
+/**
+ * Read the roles of the user from a document in a collection, with the uid
+ * of the user as its id.
+ * @param path Path of the collection. Defaults to `cms_roles`
+ * @param field Field containing an array of roles, or a single role.
+ * Defaults to `roles`
+ * @category Authentication
+ */
+export function rolesFromCollection(path: string = "cms_roles", field: string = "roles"): RolesResolver {
+    return async ({ user, dataSource }) => {
+        const entity = await dataSource.fetchEntity({
+            path,
+            entityId: user.uid,
+            schema: { name: path, properties: {} }
+        });
+        return toRoles(entity.values ? (entity.values as any)[field] : undefined);
+    };
+}
+
+/**
+ * Build the permissions of a collection from the permissions of each role.
+ * Users with several roles get the permissions granted by any of them.
+ * Users without any of the roles get the `defaultPermissions`, which deny
+ * everything if not set, hiding the collection.
+ *
+ * @param rolePermissions Permissions of each role. Unspecified permissions
+ * default to `true`, so `{ admin: {} }` grants admins full access
+ * @param defaultPermissions Permissions of the users without any of the roles
+ * @category Authentication
+ */
+export function buildRolePermissions<M extends { [Key: string]: any }>(
+    rolePermissions: RolePermissions,
+    defaultPermissions?: Permissions): PermissionsBuilder<M> {
+    return ({ roles }) => resolveRolePermissions(rolePermissions, roles, defaultPermissions);
+}
+
+/**
+ * @ignore
+ */
+export function resolveRolePermissions(rolePermissions: RolePermissions,
+                                       roles: string[],
+                                       defaultPermissions: Permissions = NO_PERMISSIONS): Permissions {
+    const userPermissions = roles
+        .filter((role) => rolePermissions[role] !== undefined)
+        .map((role) => rolePermissions[role]);
+    if (userPermissions.length === 0)
+        return defaultPermissions;
+    const granted = (key: keyof Permissions) => userPermissions.some((permissions) => permissions[key] ?? true);
+    return {
+        read: granted("read"),
+        create: granted("create"),
+        edit: granted("edit"),
+        delete: granted("delete")
+    };
+}
+
+const NO_PERMISSIONS: Permissions = {
+    read: false,
+    create: false,
+    edit: false,
+    delete: false
+};
+
+function toRoles(value: any): string[] {
+    if (Array.isArray(value))
+        return value.filter((role) => typeof role === "string");
+    return typeof value === "string" ? [value] : [];
+}
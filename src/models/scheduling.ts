@@ -0,0 +1,102 @@
+import { PublishingConfig } from "./entities";
+
+/**
+ * Minimal shape of an entity needed to compute scheduled transitions, so
+ * documents fetched with other SDKs (e.g. `firebase-admin` in a Cloud
+ * Function) can be used as well
+ * @category Entities
+ */
+export interface SchedulableEntity {
+    id: string;
+    values?: { [key: string]: any };
+}
+
+/**
+ * @category Entities
+ */
+export interface ScheduledTransitions<E extends SchedulableEntity> {
+    /**
+     * Drafts that need to be published
+     */
+    toPublish: E[];
+    /**
+     * Live entities that need to be unpublished
+     */
+    toUnpublish: E[];
+}
+
+/**
+ * Compute which entities need to transition, according to the
+ * `publishAtProperty` and `unpublishAtProperty` of a publishing config.
+ *
+ * A draft is published when its publish date has passed, unless its unpublish
+ * date has passed as well. A live entity is unpublished when its unpublish
+ * date has passed.
+ *
+ * This function has no side effects, so you can run it on a schedule from a
+ * Cloud Function or a script, and apply the transitions with the SDK of your
+ * choice.
+ *
+ * @param liveEntities Entities in the live collection
+ * @param draftEntities Entities in the drafts collection
+ * @param config Publishing config of the schema
+ * @param now
+ * @category Entities
+ */
+export function getScheduledTransitions<E extends SchedulableEntity>(
+    {
+        liveEntities,
+        draftEntities,
+        config,
+        now
+    }: {
+        liveEntities: E[],
+        draftEntities: E[],
+        config: PublishingConfig,
+        now: Date
+    }): ScheduledTransitions<E> {
+
+    const isDue = (entity: E, property?: string) => {
+        const date = getScheduledDate(entity, property);
+        return !!date && date.getTime() <= now.getTime();
+    };
+
+    const toPublish = config.publishAtProperty
+        ? draftEntities.filter((draft) =>
+            isDue(draft, config.publishAtProperty) && !isDue(draft, config.unpublishAtProperty))
+        : [];
+
+    const publishedIds = new Set(toPublish.map((draft) => draft.id));
+    const toUnpublish = config.unpublishAtProperty
+        ? liveEntities.filter((entity) =>
+            !publishedIds.has(entity.id) && isDue(entity, config.unpublishAtProperty))
+        : [];
+
+    return { toPublish, toUnpublish };
+}
+
+/**
+ * Is this draft waiting to be published at a later date
+ * @param draft
+ * @param config
+ * @param now
+ * @category Entities
+ */
+export function isScheduled(draft: SchedulableEntity,
+                            config: PublishingConfig,
+                            now: Date = new Date()): boolean {
+    const date = getScheduledDate(draft, config.publishAtProperty);
+    return !!date && date.getTime() > now.getTime();
+}
+
+function getScheduledDate(entity: SchedulableEntity, property?: string): Date | undefined {
+    if (!property || !entity.values)
+        return undefined;
+    const value = entity.values[property];
+    if (value instanceof Date)
+        return value;
+    // Firestore timestamps, from any SDK
+    if (value && typeof value.toDate === "function")
+        return value.toDate();
+    return undefined;
+}
@@ -6,12 +6,84 @@ import { SearchClient } from "algoliasearch";
  */
 export interface TextSearchDelegate {
     /**
-     * @param query string
-     * @return array containing the Firestore ids of the search results
+     * @param params query, collection and page of the search
+     * @return hits of the search, in order of relevance, and the cursor
+     * to the next page, if there are more results
      */
-    performTextSearch(query: string): Promise<readonly string[]>;
+    performTextSearch(params: TextSearchParams): Promise<TextSearchResults>;
+
+    /**
+     * Release the resources held by the delegate, such as listeners
+     */
+    dispose?(): void;
+}
+
+/**
+ * @category Collections
+ */
+export interface TextSearchParams {
+    /**
+     * Text entered by the user
+     */
+    query: string;
+    /**
+     * Path of the collection where the search is performed
+     */
+    collectionPath: string;
+    /**
+     * Cursor returned with the previous page of results, if any
+     */
+    cursor?: string;
+    /**
+     * Maximum number of hits of this page. Delegates pick their own default
+     * if not set
+     */
+    limit?: number;
 }
 
+/**
+ * @category Collections
+ */
+export interface TextSearchResults {
+    hits: TextSearchHit[];
+    /**
+     * Total number of results, if known
+     */
+    total?: number;
+    /**
+     * Cursor to request the next page of results. Undefined if there are no
+     * more results
+     */
+    cursor?: string;
+}
+
+/**
+ * Result of a text search
+ * @category Collections
+ */
+export interface TextSearchHit {
+    /**
+     * Firestore id of the entity
+     */
+    id: string;
+    /**
+     * Relevance of the hit, higher is better
+     */
+    score?: number;
+    /**
+     * Highlighted values of the properties that matched the query, by
+     * property key. Use dots for the properties of maps, e.g. `address.city`
+     */
+    highlights?: Record<string, TextSearchHighlight>;
+}
+
+/**
+ * Text of a property split in parts, so the ones matching the query can be
+ * highlighted
+ * @category Collections
+ */
+export type TextSearchHighlight = { text: string, matched: boolean }[];
+
 /**
  * Specific implementation of a TextSearchDelegate that uses Algolia as the
  * search engine
@@ -24,18 +96,84 @@ export function AlgoliaTextSearchDelegate(algoliaClient: SearchClient, indexKey:
 
     const index = algoliaClient.initIndex(indexKey);
     return {
-        performTextSearch: (query: string): Promise<readonly string[]> => {
+        performTextSearch: ({
+                                query,
+                                cursor,
+                                limit
+                            }: TextSearchParams): Promise<TextSearchResults> => {
             console.log("Performing Algolia query", index, query);
+            const page = cursor ? parseInt(cursor) : 0;
             return index
-                .search(query)
-                .then(({ hits }: any) => {
-                    console.log(hits);
-                    return hits.map((hit: any) => hit.objectID as string);
+                .search(query, {
+                    page,
+                    ...(limit ? { hitsPerPage: limit } : {})
+                })
+                .then(({ hits, nbHits, nbPages, hitsPerPage }: any) => {
+                    return {
+                        hits: hits.map((hit: any, i: number) => ({
+                            id: hit.objectID as string,
+                            // Algolia does not expose scores, so the rank is used
+                            score: nbHits - page * hitsPerPage - i,
+                            highlights: hit._highlightResult
+                                ? getAlgoliaHighlights(hit._highlightResult)
+                                : undefined
+                        })),
+                        total: nbHits,
+                        cursor: page + 1 < nbPages ? String(page + 1) : undefined
+                    };
                 })
                 .catch((err: any) => {
                     console.log(err);
-                    return [];
+                    return { hits: [] };
                 });
         }
     };
 }
+
+/**
+ * Highlights of the matching attributes of an Algolia `_highlightResult`.
+ * Values of arrays are joined, and nested objects use dotted keys
+ */
+function getAlgoliaHighlights(highlightResult: Record<string, any>, prefix: string = ""): Record<string, TextSearchHighlight> {
+    return Object.entries(highlightResult)
+        .map(([key, result]) => {
+            const currentKey = prefix ? `${prefix}.${key}` : key;
+            if (Array.isArray(result)) {
+                const matches = result.filter((r) => typeof r?.value === "string");
+                if (!matches.some((r) => r.matchLevel !== "none"))
+                    return {};
+                return {
+                    [currentKey]: matches.flatMap((r, i) => [
+                        ...(i > 0 ? [{ text: ", ", matched: false }] : []),
+                        ...parseAlgoliaHighlight(r.value)
+                    ])
+                };
+            } else if (result && typeof result.value === "string") {
+                return result.matchLevel !== "none"
+                    ? { [currentKey]: parseAlgoliaHighlight(result.value) }
+                    : {};
+            } else if (result && typeof result === "object") {
+                return getAlgoliaHighlights(result, currentKey);
+            }
+            return {};
+        })
+        .reduce((a, b) => ({ ...a, ...b }), {});
+}
+
+/**
+ * Algolia marks the matching parts of the escaped values with `<em>` tags
+ */
+function parseAlgoliaHighlight(value: string): TextSearchHighlight {
+    return value.split(/<\/?em>/)
+        .map((text, i) => ({ text: unescapeHTML(text), matched: i % 2 === 1 }))
+        .filter(({ text }) => text.length > 0);
+}
+
+function unescapeHTML(value: string): string {
+    return value
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, "&");
+}
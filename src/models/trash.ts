@@ -0,0 +1,145 @@
+import firebase from "firebase/app";
+
+import { Entity, EntitySchema } from "./entities";
+import { SoftDeleteConfig } from "./collections";
+import { CMSAppContext } from "../contexts/CMSAppContext";
+import { saveEntityRevision } from "./history";
+import {
+    getAuditChangedFields,
+    onAuditRecordError,
+    saveAuditRecord
+} from "./audit_log";
+
+/**
+ * @category Collections
+ */
+export const DEFAULT_TRASH_SUFFIX = "__trash";
+
+/**
+ * Path of the collection where the deleted entities of the given collection
+ * are stored, when `softDelete` is enabled
+ * @param collectionPath
+ * @param config
+ * @category Collections
+ */
+export function getTrashPath(collectionPath: string, config: boolean | SoftDeleteConfig): string {
+    const suffix = typeof config === "object" ? config.trashSuffix : undefined;
+    return `${collectionPath}${suffix ?? DEFAULT_TRASH_SUFFIX}`;
+}
+
+/**
+ * Move an entity from the trash back to its collection, with its data as it
+ * was when it was deleted. The save hooks of the schema are not called and
+ * the timestamps with `autoValue` are not updated.
+ * @param entity Entity in the trash collection
+ * @param collectionPath Path of the live collection
+ * @param schema
+ * @param context
+ * @param history Store a revision of the restored entity
+ * @param user Author of the revision and of the audit record
+ * @param onRestoreFailure
+ * @return was the entity restored
+ * @category Collections
+ */
+export async function restoreEntity<M extends { [Key: string]: any }>(
+    {
+        entity,
+        collectionPath,
+        schema,
+        context,
+        history,
+        user,
+        onRestoreFailure
+    }: {
+        entity: Entity<M>,
+        collectionPath: string,
+        schema: EntitySchema<M>,
+        context: CMSAppContext,
+        history?: boolean,
+        user?: firebase.User | null,
+        onRestoreFailure?: (e: Error) => void
+    }): Promise<boolean> {
+
+    console.debug("Restoring entity", collectionPath, entity.id);
+
+    let restored: Entity<M>;
+    try {
+        restored = await context.dataSource.copyEntity({ entity, collectionPath, schema });
+    } catch (e: any) {
+        console.error(e);
+        if (onRestoreFailure)
+            onRestoreFailure(e);
+        return false;
+    }
+
+    if (history) {
+        await saveEntityRevision({
+            entity: restored,
+            status: "existing",
+            user,
+            dataSource: context.dataSource
+        }).catch((e) => console.error("Error saving entity revision", e));
+    }
+    const auditLog = context.cmsAppConfig?.auditLog;
+    if (auditLog) {
+        await saveAuditRecord({
+            dataSource: context.dataSource,
+            config: auditLog,
+            operation: "update",
+            collectionPath,
+            entityId: entity.id,
+            changedFields: getAuditChangedFields(schema.properties, undefined, restored.values),
+            user
+        }).catch((e) => onAuditRecordError(context, e));
+    }
+
+    try {
+        await context.dataSource.deleteEntity({ entity });
+    } catch (e: any) {
+        console.error("Error removing entity from the trash after restoring", e);
+    }
+    return true;
+}
+
+/**
+ * Permanently delete an entity in the trash. The delete hooks of the schema
+ * are not called again, since they were called when it was moved to the trash.
+ * @param entity Entity in the trash collection
+ * @param trashPath Path of the trash collection
+ * @param schema
+ * @param context
+ * @param user Author of the audit record
+ * @category Collections
+ */
+export async function purgeEntity<M extends { [Key: string]: any }>(
+    {
+        entity,
+        trashPath,
+        schema,
+        context,
+        user
+    }: {
+        entity: Entity<M>,
+        trashPath: string,
+        schema: EntitySchema<M>,
+        context: CMSAppContext,
+        user?: firebase.User | null
+    }): Promise<void> {
+
+    console.debug("Purging entity", trashPath, entity.id);
+
+    await context.dataSource.deleteEntity({ entity });
+
+    const auditLog = context.cmsAppConfig?.auditLog;
+    if (auditLog) {
+        await saveAuditRecord({
+            dataSource: context.dataSource,
+            config: auditLog,
+            operation: "delete",
+            collectionPath: trashPath,
+            entityId: entity.id,
+            changedFields: getAuditChangedFields(schema.properties, entity.values, undefined),
+            user
+        }).catch((e) => onAuditRecordError(context, e));
+    }
+}
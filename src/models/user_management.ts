@@ -0,0 +1,257 @@
+import firebase from "firebase/app";
+import "firebase/auth";
+
+import { Entity } from "./entities";
+import { DataSource } from "./data_source";
+import { buildSchema } from "./builders";
+
+/**
+ * Configuration of the built-in user management. When enabled, only the
+ * users stored in the users collection can access the CMS, and admins get
+ * a "Users" view to invite users, assign their roles and disable their
+ * access.
+ * @category Authentication
+ */
+export interface UserManagementConfig {
+    /**
+     * Path of the collection where the users are stored, with their email
+     * as id. Defaults to `cms_users`
+     */
+    collectionPath?: string;
+
+    /**
+     * Roles that can be assigned to the users
+     */
+    roles?: string[];
+
+    /**
+     * Roles that can access the users view. Defaults to `["admin"]`
+     */
+    adminRoles?: string[];
+
+    /**
+     * Emails of users that can access the CMS even if they are not in the
+     * users collection. They are added to it, with the admin roles, the first
+     * time they log in, so you can invite the rest of the users.
+     */
+    initialAdmins?: string[];
+
+    /**
+     * Reject the users that signed up with email and password until they
+     * verify their email, since anyone could sign up with the email of an
+     * invited user. The CMS sends them a verification email when they try
+     * to log in. Defaults to `true`
+     */
+    requireVerifiedEmail?: boolean;
+
+    /**
+     * CMS path of the users view. Defaults to `users`
+     */
+    path?: string;
+}
+
+/**
+ * User allowed to access the CMS, stored in the users collection
+ * @category Authentication
+ */
+export interface CMSUser {
+    email: string;
+    display_name?: string;
+    roles: string[];
+    /**
+     * Users with disabled access can't log in
+     */
+    disabled?: boolean;
+    invited_on?: Date;
+    /**
+     * Email of the user that sent the invite
+     */
+    invited_by?: string;
+    last_login?: Date;
+    /**
+     * Firebase uid, set the first time the user logs in
+     */
+    uid?: string;
+}
+
+/**
+ * @ignore
+ */
+export const DEFAULT_USERS_COLLECTION = "cms_users";
+
+/**
+ * @ignore
+ */
+export const DEFAULT_ADMIN_ROLES = ["admin"];
+
+/**
+ * @ignore
+ */
+export const cmsUserSchema = buildSchema<CMSUser>({
+    name: "User",
+    properties: {
+        email: {
+            title: "Email",
+            dataType: "string",
+            validation: { required: true, email: true }
+        },
+        display_name: {
+            title: "Name",
+            dataType: "string"
+        },
+        roles: {
+            title: "Roles",
+            dataType: "array",
+            of: { dataType: "string" }
+        },
+        disabled: {
+            title: "Disabled",
+            dataType: "boolean"
+        },
+        invited_on: {
+            title: "Invited on",
+            dataType: "timestamp"
+        },
+        invited_by: {
+            title: "Invited by",
+            dataType: "string"
+        },
+        last_login: {
+            title: "Last login",
+            dataType: "timestamp"
+        },
+        uid: {
+            title: "UID",
+            dataType: "string"
+        }
+    }
+});
+
+/**
+ * Ids of the users are their emails, in lowercase
+ * @param email
+ * @category Authentication
+ */
+export function getCMSUserId(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * Does a Firebase user need to verify their email before accessing the
+ * CMS, because they signed up with email and password
+ * @param user
+ * @param config
+ * @category Authentication
+ */
+export function needsEmailVerification(user: firebase.User,
+                                       config: UserManagementConfig): boolean {
+    return (config.requireVerifiedEmail ?? true)
+        && !user.emailVerified
+        && user.providerData.some((provider) => provider?.providerId === "password");
+}
+
+/**
+ * Check if a Firebase user is allowed to access the CMS, and register their
+ * login. Initial admins are added to the users collection the first time
+ * they log in. Users that signed up with email and password need a verified
+ * email, see {@link needsEmailVerification}.
+ * Registering the login only updates the `uid`, `last_login` and
+ * `display_name` of the user, and it doesn't prevent the access if it fails.
+ * @return the stored user, or undefined if they are not allowed
+ * @category Authentication
+ */
+export async function checkCMSUserAccess({
+                                             user,
+                                             dataSource,
+                                             config
+                                         }: {
+    user: firebase.User,
+    dataSource: DataSource,
+    config: UserManagementConfig
+}): Promise<CMSUser | undefined> {
+
+    if (!user.email || needsEmailVerification(user, config))
+        return undefined;
+
+    const collectionPath = config.collectionPath ?? DEFAULT_USERS_COLLECTION;
+    const id = getCMSUserId(user.email);
+    const entity = await dataSource.fetchEntity<CMSUser>({
+        path: collectionPath,
+        entityId: id,
+        schema: cmsUserSchema
+    });
+
+    const storedUser = entity.values as CMSUser | undefined;
+    if (storedUser?.disabled)
+        return undefined;
+
+    const initialAdmin = !storedUser && (config.initialAdmins ?? [])
+        .some((email) => getCMSUserId(email) === id);
+    if (!storedUser && !initialAdmin)
+        return undefined;
+
+    const displayName = storedUser?.display_name ?? user.displayName;
+    const login: Partial<CMSUser> = {
+        ...(displayName ? { display_name: displayName } : {}),
+        uid: user.uid,
+        last_login: new Date()
+    };
+    const cmsUser: CMSUser = {
+        ...(storedUser ?? { email: id, roles: config.adminRoles ?? DEFAULT_ADMIN_ROLES }),
+        ...login
+    };
+
+    try {
+        await dataSource.saveEntity<CMSUser>({
+            collectionPath,
+            id,
+            values: storedUser ? login : cmsUser,
+            schema: cmsUserSchema,
+            status: storedUser ? "existing" : "new"
+        });
+    } catch (e) {
+        console.error("Error registering the login of the user", e);
+    }
+    return cmsUser;
+}
+
+/**
+ * Add a user to the users collection, so they can log in with that email
+ * @category Authentication
+ */
+export async function inviteCMSUser({
+                                        dataSource,
+                                        config,
+                                        email,
+                                        roles,
+                                        invitedBy
+                                    }: {
+    dataSource: DataSource,
+    config: UserManagementConfig,
+    email: string,
+    roles: string[],
+    invitedBy?: string
+}): Promise<Entity<CMSUser>> {
+    const collectionPath = config.collectionPath ?? DEFAULT_USERS_COLLECTION;
+    const id = getCMSUserId(email);
+    const existing = await dataSource.fetchEntity<CMSUser>({
+        path: collectionPath,
+        entityId: id,
+        schema: cmsUserSchema
+    });
+    if (existing.values)
+        throw Error(`${id} has already been invited`);
+    return dataSource.saveEntity<CMSUser>({
+        collectionPath,
+        id,
+        values: {
+            email: id,
+            roles,
+            disabled: false,
+            invited_on: new Date(),
+            ...(invitedBy ? { invited_by: invitedBy } : {})
+        },
+        schema: cmsUserSchema,
+        status: "new"
+    });
+}
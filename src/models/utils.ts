@@ -1,7 +1,7 @@
 import { Property } from "./properties";
 
 export function isReadOnly(property: Property<any>): boolean {
-    if (property.readOnly)
+    if (property.readOnly || property.compute)
         return true;
     if (property.dataType === "timestamp") {
         if (Boolean(property.autoValue))
@@ -9,3 +9,7 @@ export function isReadOnly(property: Property<any>): boolean {
     }
     return false;
 }
+
+export function normalizePath(path: string): string {
+    return path.replace(/^\/+|\/+$/g, "");
+}
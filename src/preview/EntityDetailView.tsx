@@ -22,7 +22,7 @@ import CloseIcon from "@material-ui/icons/Close";
 import EditIcon from "@material-ui/icons/Edit";
 import { getCMSPathFrom, removeInitialSlash } from "../core/navigation";
 import { EntityCollectionTable } from "../core/components/EntityCollectionTable";
-import { useSideEntityController } from "../contexts";
+import { useCMSAppContext, useSideEntityController } from "../contexts";
 
 
 export const useStyles = makeStyles(theme => createStyles({
@@ -60,6 +60,7 @@ export function EntityDetailView<M extends { [Key: string]: any }>({
 
     const classes = useStyles();
     const sideEntityController = useSideEntityController();
+    const { dataSource } = useCMSAppContext();
 
     const [updatedEntity, setUpdatedEntity] = useState<Entity<M> | undefined>(entity);
     const [tabsPosition, setTabsPosition] = React.useState(0);
@@ -78,7 +79,8 @@ export function EntityDetailView<M extends { [Key: string]: any }>({
                         if (e) {
                             setUpdatedEntity(e);
                         }
-                    })
+                    },
+                    dataSource)
                 :
                 () => {
                 };
@@ -3,6 +3,9 @@ import {
     ArrayProperty,
     BooleanProperty,
     CMSType,
+    GeopointProperty,
+    isLocalizedProperty,
+    LocalizedValue,
     MapProperty,
     NumberProperty,
     ReferenceProperty,
@@ -26,6 +29,8 @@ import UrlComponentPreview from "./components/UrlComponentPreview";
 import StorageThumbnail from "./components/StorageThumbnail";
 import MapPreview from "./components/MapPreview";
 import ArrayOfReferencesPreview from "./components/ArrayOfReferencesPreview";
+import GeoPointPreview from "./components/GeoPointPreview";
+import LocalizedPreview from "./components/LocalizedPreview";
 import ErrorView from "../core/components/ErrorView";
 
 import { PreviewComponentProps } from "./preview_component_props";
@@ -34,11 +39,16 @@ import firebase from "firebase/app";
 import "firebase/firestore";
 import ArrayOneOfPreview from "./components/ArrayOneOfPreview";
 import Markdown from "./components/Markdown";
+import { useAuthController } from "../contexts";
+import { canReadProperty } from "../util/permissions";
 
 /**
  * @category Preview components
  */
 export default function PreviewComponent<T extends CMSType>(props: PreviewComponentProps<T>) {
+    const authController = useAuthController();
+    if (!canReadProperty(props.property, authController))
+        return null;
     return <MemoPreviewComponent {...props} />;
 }
 
@@ -65,6 +75,13 @@ export function PreviewComponentInternal<T extends CMSType>(props: PreviewCompon
             });
     } else if (value === null) {
         content = <EmptyValue/>;
+    } else if (isLocalizedProperty(property)) {
+        if (typeof value === "object") {
+            content = <LocalizedPreview {...fieldProps}
+                                        value={value as LocalizedValue<any>}/>;
+        } else {
+            content = buildWrongValueType(name, property.dataType, value);
+        }
     } else if (property.dataType === "string") {
         const stringProperty = property as StringProperty;
         if (typeof value === "string") {
@@ -161,6 +178,14 @@ export function PreviewComponentInternal<T extends CMSType>(props: PreviewCompon
         } else {
             content = buildWrongValueType(name, property.dataType, value);
         }
+    } else if (property.dataType === "geopoint") {
+        if (value instanceof firebase.firestore.GeoPoint) {
+            content = <GeoPointPreview {...fieldProps}
+                                       value={value}
+                                       property={property as GeopointProperty}/>;
+        } else {
+            content = buildWrongValueType(name, property.dataType, value);
+        }
     } else if (property.dataType === "boolean") {
         if (typeof value === "boolean") {
             content = <BooleanPreview {...fieldProps}
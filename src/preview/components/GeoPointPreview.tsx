@@ -0,0 +1,23 @@
+import React from "react";
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+import { PreviewComponentProps } from "../../preview";
+
+/**
+ * Coordinates of a geopoint, with their hemispheres
+ * @category Preview components
+ */
+export default function GeoPointPreview({
+                                            value
+                                        }: PreviewComponentProps<firebase.firestore.GeoPoint>): React.ReactElement {
+
+    const latitude = `${Math.abs(value.latitude)}° ${value.latitude >= 0 ? "N" : "S"}`;
+    const longitude = `${Math.abs(value.longitude)}° ${value.longitude >= 0 ? "E" : "W"}`;
+
+    return (
+        <>
+            {`${latitude}, ${longitude}`}
+        </>
+    );
+}
@@ -0,0 +1,60 @@
+import React from "react";
+import { Box, Tooltip, Typography } from "@material-ui/core";
+
+import PreviewComponent from "../PreviewComponent";
+import {
+    localizeProperty,
+    resolveLocalizedValue
+} from "../../models";
+import { useCMSAppContext } from "../../contexts";
+import { useTranslation } from "../../hooks";
+import EmptyValue from "./EmptyValue";
+import { PreviewComponentProps } from "../preview_component_props";
+
+/**
+ * Value of a localized property in the current locale of the CMS. If it is
+ * missing, the value in the first locale of the fallback chain is shown,
+ * tagged with its locale.
+ * @category Preview components
+ */
+export default function LocalizedPreview({
+                                             name,
+                                             value,
+                                             property,
+                                             size,
+                                             height,
+                                             width
+                                         }: PreviewComponentProps<any>) {
+
+    const { contentLocale, cmsAppConfig } = useCMSAppContext();
+    const { t } = useTranslation();
+    const resolved = resolveLocalizedValue<any>(value, contentLocale, cmsAppConfig.localization);
+
+    if (resolved.value === undefined || !resolved.locale)
+        return <EmptyValue/>;
+
+    const preview = <PreviewComponent name={name}
+                                      value={resolved.value}
+                                      property={localizeProperty(property, resolved.locale)}
+                                      size={size}
+                                      height={height}
+                                      width={width}/>;
+
+    if (resolved.locale === contentLocale)
+        return preview;
+
+    return (
+        <Box display={"flex"} alignItems={"baseline"}>
+            <Tooltip title={t("notAvailableInLocale", { locale: contentLocale ?? "" })}>
+                <Box mr={1}>
+                    <Typography variant={"caption"} color={"textSecondary"}>
+                        {resolved.locale.toUpperCase()}
+                    </Typography>
+                </Box>
+            </Tooltip>
+            <Box flexGrow={1}>
+                {preview}
+            </Box>
+        </Box>
+    );
+}
@@ -20,7 +20,7 @@ import {
 
 import KeyboardTabIcon from "@material-ui/icons/KeyboardTab";
 import { PreviewComponentProps, PreviewSize } from "../preview_component_props";
-import { useSideEntityController } from "../../contexts";
+import { useCMSAppContext, useSideEntityController } from "../../contexts";
 
 import firebase from "firebase/app";
 import "firebase/firestore";
@@ -122,13 +122,14 @@ function ReferencePreviewComponent<M extends { [Key: string]: any }>(
     const [entity, setEntity] = React.useState<Entity<typeof schema>>();
 
     const sideEntityController = useSideEntityController();
+    const { dataSource } = useCMSAppContext();
 
     useEffect(() => {
         const cancel = listenEntityFromRef(reference, schema, (e => {
             setEntity(e);
-        }));
+        }), dataSource);
         return () => cancel();
-    }, [reference, schema]);
+    }, [reference, schema, dataSource]);
 
     let listProperties = previewProperties;
     if (!listProperties || !listProperties.length) {
@@ -24,6 +24,8 @@ export { default as ArrayOfMapsPreview } from "./components/ArrayOfMapsPreview";
 export { default as NumberPreview } from "./components/NumberPreview";
 export { default as StringPreview } from "./components/StringPreview";
 export { default as TimestampPreview } from "./components/TimestampPreview";
+export { default as GeoPointPreview } from "./components/GeoPointPreview";
+export { default as LocalizedPreview } from "./components/LocalizedPreview";
 export {
     default as UrlComponentPreview
 } from "./components/UrlComponentPreview";
@@ -11,6 +11,6 @@ it("Test Algolia search", async () => {
         client,
         "users");
 
-    await algoliaTextSearchDelegate.performTextSearch("john").then(console.log);
+    await algoliaTextSearchDelegate.performTextSearch({ query: "john", collectionPath: "users" }).then(console.log);
     console.log("done");
 });
@@ -0,0 +1,154 @@
+import {
+    buildSchema,
+    fetchAuditRecords,
+    getAuditChangedFields,
+    InMemoryDataSource,
+    saveEntity
+} from "../models";
+import { deleteEntity } from "../models/firestore";
+
+const schema = buildSchema({
+    name: "Product",
+    properties: {
+        name: { dataType: "string" },
+        price: { dataType: "number" },
+        tags: { dataType: "array", of: { dataType: "string" } }
+    }
+});
+
+const editor: any = { uid: "editor_uid", email: "editor@example.com" };
+const admin: any = { uid: "admin_uid", email: "admin@example.com" };
+
+it("computes the fields changed by a write", () => {
+    expect(getAuditChangedFields(schema.properties, undefined, { name: "Mug", price: 5 }))
+        .toEqual(["name", "price"]);
+    expect(getAuditChangedFields(schema.properties, { name: "Mug", price: 5, tags: ["a"] }, { price: 6, tags: ["a"] }))
+        .toEqual(["price"]);
+    expect(getAuditChangedFields(schema.properties, { name: "Mug", price: 5 }, undefined))
+        .toEqual(["name", "price"]);
+});
+
+it("records saves and deletes in the audit log", async () => {
+    const dataSource = InMemoryDataSource({
+        products: {
+            p1: { name: "Mug", price: 5 },
+            p2: { name: "Cup", price: 3 }
+        }
+    });
+    const context: any = {
+        dataSource,
+        cmsAppConfig: { auditLog: {} }
+    };
+
+    await saveEntity({
+        collectionPath: "products",
+        id: "p1",
+        values: { name: "Mug", price: 6 },
+        schema,
+        status: "existing",
+        context,
+        user: editor
+    });
+    await saveEntity({
+        collectionPath: "products",
+        id: "p3",
+        values: { name: "Plate" },
+        schema,
+        status: "new",
+        context,
+        user: admin
+    });
+    const p2 = await dataSource.fetchEntity({ path: "products", entityId: "p2", schema });
+    await deleteEntity({
+        entity: p2,
+        collectionPath: "products",
+        schema,
+        context,
+        user: editor
+    });
+
+    const records = await fetchAuditRecords({ dataSource, config: {} });
+    expect(records.map((r) => [r.values.operation, r.values.entity_id, r.values.changed_fields, r.values.user_email]))
+        .toEqual(expect.arrayContaining([
+            ["update", "p1", ["price"], "editor@example.com"],
+            ["create", "p3", ["name"], "admin@example.com"],
+            ["delete", "p2", ["name", "price"], "editor@example.com"]
+        ]));
+    expect(records).toHaveLength(3);
+
+    const editorRecords = await fetchAuditRecords({
+        dataSource,
+        config: {},
+        filter: { userEmail: "editor@example.com", collectionPath: "products" }
+    });
+    expect(editorRecords.map((r) => r.values.entity_id).sort()).toEqual(["p1", "p2"]);
+
+    const futureRecords = await fetchAuditRecords({
+        dataSource,
+        config: {},
+        filter: { from: new Date(Date.now() + 60000) }
+    });
+    expect(futureRecords).toHaveLength(0);
+});
+
+it("filters the audit log by user and dates, one page at a time", async () => {
+    const dataSource = InMemoryDataSource({});
+    const context: any = { dataSource, cmsAppConfig: { auditLog: {} } };
+    const from = new Date(Date.now() - 60000);
+
+    for (const [id, user] of [["p1", editor], ["p2", admin], ["p3", { ...editor, email: "Editor@Example.com" }]]) {
+        await saveEntity({
+            collectionPath: "products",
+            id,
+            values: { name: id },
+            schema,
+            status: "new",
+            context,
+            user
+        });
+    }
+
+    const filter = { userEmail: "EDITOR@example.com ", collectionPath: "products", from, to: new Date(Date.now() + 60000) };
+    const firstPage = await fetchAuditRecords({ dataSource, config: {}, filter, limit: 1 });
+    expect(firstPage).toHaveLength(1);
+    const secondPage = await fetchAuditRecords({ dataSource, config: {}, filter, limit: 1, startAfter: firstPage[0] });
+    expect(secondPage).toHaveLength(1);
+    expect([...firstPage, ...secondPage].map((r) => r.values.entity_id).sort()).toEqual(["p1", "p3"]);
+    expect(secondPage[0].values.user_email).toEqual("editor@example.com");
+    expect(await fetchAuditRecords({ dataSource, config: {}, filter, startAfter: secondPage[0] })).toHaveLength(0);
+});
+
+it("reports audit records that can't be saved", async () => {
+    const inMemoryDataSource = InMemoryDataSource({ products: { p1: { name: "Mug", price: 5 } } });
+    const auditError = new Error("Missing or insufficient permissions");
+    const dataSource = {
+        ...inMemoryDataSource,
+        saveEntity: (props: any) => props.collectionPath === "cms_audit_log"
+            ? Promise.reject(auditError)
+            : inMemoryDataSource.saveEntity(props)
+    };
+    const onAuditLogError = jest.fn();
+    const onSaveSuccess = jest.fn();
+    const context: any = {
+        dataSource,
+        cmsAppConfig: { auditLog: {} },
+        onAuditLogError
+    };
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await saveEntity({
+        collectionPath: "products",
+        id: "p1",
+        values: { name: "Mug", price: 6 },
+        schema,
+        status: "existing",
+        context,
+        user: editor,
+        onSaveSuccess
+    });
+    // the entity is saved anyway
+    expect(onSaveSuccess).toHaveBeenCalled();
+    expect((await inMemoryDataSource.fetchEntity({ path: "products", entityId: "p1", schema })).values.price)
+        .toEqual(6);
+    expect(onAuditLogError).toHaveBeenCalledWith(auditError);
+});
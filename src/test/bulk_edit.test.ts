@@ -0,0 +1,47 @@
+import { applyBulkEdits, getBulkEditOperations } from "../models";
+
+it("offers operations based on the property type", () => {
+    expect(getBulkEditOperations({ dataType: "string" })).toEqual(["set"]);
+    expect(getBulkEditOperations({ dataType: "number" })).toEqual(["set", "increment"]);
+    expect(getBulkEditOperations({ dataType: "number", config: { enumValues: { 1: "One" } } }))
+        .toEqual(["set"]);
+    expect(getBulkEditOperations({ dataType: "array", of: { dataType: "string" } }))
+        .toEqual(["set", "array_add", "array_remove"]);
+});
+
+it("applies the edits to the values of an entity", () => {
+    const values = {
+        name: "Mug",
+        price: 10,
+        tags: ["kitchen", "sale"],
+        available_on: new Date(1000)
+    };
+
+    expect(applyBulkEdits(values, [
+        { property: "name", operation: "set", value: "Cup" },
+        { property: "price", operation: "increment", value: -2.5 },
+        { property: "tags", operation: "array_add", value: ["sale", "new"] }
+    ])).toEqual({
+        name: "Cup",
+        price: 7.5,
+        tags: ["kitchen", "sale", "new"]
+    });
+
+    expect(applyBulkEdits(values, [
+        { property: "tags", operation: "array_remove", value: ["sale", "missing"] },
+        { property: "tags", operation: "array_add", value: "gift" }
+    ])).toEqual({ tags: ["kitchen", "gift"] });
+
+    expect(applyBulkEdits({}, [
+        { property: "price", operation: "increment", value: 3 },
+        { property: "dates", operation: "array_add", value: [new Date(1000)] }
+    ])).toEqual({ price: 3, dates: [new Date(1000)] });
+
+    expect(applyBulkEdits({ dates: [new Date(1000)] }, [
+        { property: "dates", operation: "array_add", value: [new Date(1000)] }
+    ])).toEqual({ dates: [new Date(1000)] });
+
+    expect(() => applyBulkEdits(values, [
+        { property: "price", operation: "increment", value: "a lot" }
+    ])).toThrow();
+});
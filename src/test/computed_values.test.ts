@@ -0,0 +1,82 @@
+import {
+    buildSchema,
+    computeValues,
+    InMemoryDataSource,
+    saveEntity
+} from "../models";
+import { isReadOnly } from "../models/utils";
+
+const orderSchema = buildSchema({
+    name: "Order",
+    properties: {
+        name: {
+            title: "Name",
+            dataType: "string"
+        },
+        slug: {
+            title: "Slug",
+            dataType: "string",
+            compute: (values) => values.name ? values.name.toLowerCase().replace(/\s+/g, "-") : null
+        },
+        items: {
+            title: "Items",
+            dataType: "array",
+            of: {
+                dataType: "map",
+                properties: {
+                    price: { dataType: "number" },
+                    quantity: { dataType: "number" },
+                    total: {
+                        dataType: "number",
+                        compute: (item) => (item.price ?? 0) * (item.quantity ?? 0)
+                    }
+                }
+            }
+        },
+        itemCount: {
+            title: "Item count",
+            dataType: "number",
+            compute: (values) => (values.items ?? []).length,
+            persistComputed: false
+        }
+    }
+});
+
+it("computes values from the other values, including nested ones", () => {
+    const values = {
+        name: "Summer Order",
+        items: [{ price: 5, quantity: 2 }, { price: 3 }]
+    };
+    expect(computeValues(orderSchema.properties as any, values)).toEqual({
+        name: "Summer Order",
+        slug: "summer-order",
+        items: [{ price: 5, quantity: 2, total: 10 }, { price: 3, total: 0 }],
+        itemCount: 2
+    });
+    expect(computeValues(orderSchema.properties as any, values, true)).not.toHaveProperty("itemCount");
+    expect(isReadOnly(orderSchema.properties.slug as any)).toBe(true);
+});
+
+it("persists computed values when saving", async () => {
+    const dataSource = InMemoryDataSource({});
+    const context: any = { dataSource, cmsAppConfig: {} };
+
+    await saveEntity({
+        collectionPath: "orders",
+        id: "o1",
+        values: { name: "Big Order", slug: "outdated", items: [{ price: 2, quantity: 3 }], itemCount: 10 },
+        schema: {
+            ...orderSchema,
+            onPreSave: ({ values }) => ({ ...values, name: "Bigger Order" })
+        },
+        status: "new",
+        context
+    });
+
+    const entity = await dataSource.fetchEntity({ path: "orders", entityId: "o1", schema: orderSchema });
+    expect(entity.values).toEqual({
+        name: "Bigger Order",
+        slug: "bigger-order",
+        items: [{ price: 2, quantity: 3, total: 6 }]
+    });
+});
@@ -0,0 +1,46 @@
+import React from "react";
+import ReactDOM from "react-dom";
+import { act } from "react-dom/test-utils";
+import { Formik, FormikProps } from "formik";
+import { ComputedValues } from "../form/ComputedValues";
+import { Properties } from "../models";
+
+it("updates the computed values of forms once for every change", () => {
+    const div = document.createElement("div");
+    let computations = 0;
+    let form: FormikProps<any> | undefined;
+
+    act(() => {
+        ReactDOM.render(
+            <Formik initialValues={{ name: "Mug" }} onSubmit={() => undefined}>
+                {(formikProps) => {
+                    form = formikProps;
+                    // properties are built again in every render, like in the entity form
+                    const properties: Properties<any> = {
+                        name: { dataType: "string" },
+                        updated_on: {
+                            dataType: "timestamp",
+                            compute: () => {
+                                computations++;
+                                return new Date();
+                            }
+                        }
+                    };
+                    return <ComputedValues properties={properties}/>;
+                }}
+            </Formik>,
+            div);
+    });
+    expect(computations).toEqual(1);
+    expect(form!.values.updated_on).toBeInstanceOf(Date);
+
+    act(() => {
+        form!.setFieldValue("name", "Big mug");
+    });
+    expect(computations).toEqual(2);
+    expect(form!.values.name).toEqual("Big mug");
+
+    act(() => {
+        ReactDOM.unmountComponentAtNode(div);
+    });
+});
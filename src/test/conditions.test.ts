@@ -0,0 +1,93 @@
+import {
+    buildSchema,
+    getParentValues,
+    isPropertyVisible,
+    matchesPropertyConditions,
+    resolvePropertyConditions
+} from "../models";
+import { getYupEntitySchema } from "../form/validation";
+
+const articleSchema = buildSchema({
+    name: "Article",
+    properties: {
+        status: {
+            title: "Status",
+            dataType: "string",
+            config: { enumValues: { draft: "Draft", published: "Published" } }
+        },
+        publishedAt: {
+            title: "Published at",
+            dataType: "timestamp",
+            visibleWhen: { status: ["==", "published"] },
+            validation: { required: true }
+        },
+        summary: {
+            title: "Summary",
+            dataType: "string",
+            requiredWhen: { status: ["==", "published"] },
+            disabledWhen: { locked: ["==", true] }
+        },
+        locked: {
+            title: "Locked",
+            dataType: "boolean"
+        },
+        links: {
+            title: "Links",
+            dataType: "array",
+            of: {
+                dataType: "map",
+                properties: {
+                    type: {
+                        title: "Type",
+                        dataType: "string"
+                    },
+                    url: {
+                        title: "URL",
+                        dataType: "string",
+                        requiredWhen: { type: ["==", "external"], "/status": ["==", "published"] }
+                    }
+                }
+            }
+        }
+    }
+});
+
+it("evaluates conditions relative to the parent values or the entity", () => {
+    const values = { status: "published", price: 20, address: { country: "ES" } };
+    expect(matchesPropertyConditions({ status: ["==", "published"] }, values)).toBe(true);
+    expect(matchesPropertyConditions({ price: [[">=", 10], ["<", 50]], status: ["in", ["draft"]] }, values)).toBe(false);
+    expect(matchesPropertyConditions({ "address.country": ["==", "ES"] }, values)).toBe(true);
+    expect(matchesPropertyConditions({ missing: ["==", null] }, values)).toBe(true);
+    expect(matchesPropertyConditions({ country: ["==", "ES"], "/status": ["!=", "draft"] }, values.address, values)).toBe(true);
+
+    expect(getParentValues("status", values)).toBe(values);
+    expect(getParentValues("address[country]", values)).toBe(values.address);
+    expect(getParentValues("links[1][url]", { links: [{}, { url: "a" }] })).toEqual({ url: "a" });
+});
+
+it("resolves visibility, requirement and disabling of properties", () => {
+    const properties = articleSchema.properties as any;
+    expect(isPropertyVisible(properties.publishedAt, { status: "draft" })).toBe(false);
+    expect(isPropertyVisible(properties.publishedAt, { status: "published" })).toBe(true);
+
+    const summary = resolvePropertyConditions(properties.summary, { status: "published", locked: true });
+    expect(summary.validation?.required).toBe(true);
+    expect(summary.disabled).toBe(true);
+    expect(summary.requiredWhen).toBeUndefined();
+    expect(resolvePropertyConditions(properties.summary, { status: "draft" }).validation?.required).toBeFalsy();
+});
+
+it("validates values according to the conditions", async () => {
+    const yupSchema = getYupEntitySchema(articleSchema.properties, {}, "articles");
+
+    await expect(yupSchema.isValid({ status: "draft" })).resolves.toBe(true);
+    await expect(yupSchema.isValid({ status: "published", summary: "Summary" })).resolves.toBe(false);
+    await expect(yupSchema.isValid({ status: "published", summary: "Summary", publishedAt: new Date() })).resolves.toBe(true);
+    await expect(yupSchema.validate({ status: "published", publishedAt: new Date() }, { abortEarly: false }))
+        .rejects.toMatchObject({ inner: [expect.objectContaining({ path: "summary" })] });
+
+    const links = [{ type: "internal" }, { type: "external" }];
+    await expect(yupSchema.isValid({ status: "draft", links })).resolves.toBe(true);
+    await expect(yupSchema.validate({ status: "published", summary: "Summary", publishedAt: new Date(), links }, { abortEarly: false }))
+        .rejects.toMatchObject({ inner: [expect.objectContaining({ path: "links[1].url" })] });
+});
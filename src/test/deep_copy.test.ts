@@ -0,0 +1,162 @@
+import {
+    buildCollection,
+    buildSchema,
+    copyEntityWithSubcollections,
+    fetchAuditRecords,
+    InMemoryDataSource
+} from "../models";
+
+const variantSchema = buildSchema({
+    name: "Variant",
+    properties: {
+        name: { dataType: "string" },
+        related: { dataType: "reference", collectionPath: "products/p1/variants" }
+    }
+});
+
+const stockSchema = buildSchema({
+    name: "Stock",
+    properties: {
+        units: { dataType: "number" }
+    }
+});
+
+const productSchema = buildSchema({
+    name: "Product",
+    properties: {
+        name: { dataType: "string" },
+        default_variant: { dataType: "reference", collectionPath: "products/p1/variants" },
+        brand: { dataType: "reference", collectionPath: "brands" }
+    },
+    onPreSave: ({ values }) => ({ ...values, name: `${values.name} (copy)` })
+});
+
+const subcollections = [
+    buildCollection({
+        relativePath: "variants",
+        schema: variantSchema,
+        name: "Variants",
+        subcollections: [
+            buildCollection({ relativePath: "stock", schema: stockSchema, name: "Stock" })
+        ]
+    })
+];
+
+it("copies an entity with its subcollections", async () => {
+    const dataSource = InMemoryDataSource({
+        brands: { b1: {} },
+        products: { p1: { name: "Mug" } },
+        "products/p1/variants": {
+            v1: { name: "Red" },
+            v2: { name: "Blue" }
+        },
+        "products/p1/variants/v1/stock": {
+            s1: { units: 3 }
+        }
+    });
+    const brand = await dataSource.fetchEntity({ path: "brands", entityId: "b1", schema: stockSchema });
+    const v1 = await dataSource.fetchEntity({ path: "products/p1/variants", entityId: "v1", schema: variantSchema });
+    const v2 = await dataSource.fetchEntity({ path: "products/p1/variants", entityId: "v2", schema: variantSchema });
+    await dataSource.saveEntity({
+        collectionPath: "products/p1/variants",
+        id: "v1",
+        values: { related: v2.reference },
+        schema: variantSchema,
+        status: "existing"
+    });
+    await dataSource.saveEntity({
+        collectionPath: "products",
+        id: "p1",
+        values: { default_variant: v1.reference, brand: brand.reference },
+        schema: productSchema,
+        status: "existing"
+    });
+
+    const entity = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema: productSchema });
+    const onProgress = jest.fn();
+    const context: any = { dataSource, cmsAppConfig: {} };
+    const copy = await copyEntityWithSubcollections({
+        entity,
+        collectionPath: "products",
+        schema: productSchema,
+        subcollections,
+        id: "p2",
+        context,
+        onProgress
+    });
+
+    expect(copy.id).toEqual("p2");
+    expect(onProgress).toHaveBeenLastCalledWith(4, 4);
+
+    const values: any = (await dataSource.fetchEntity({ path: "products", entityId: "p2", schema: productSchema })).values;
+    expect(values.name).toEqual("Mug (copy)");
+    expect(values.default_variant.path).toEqual("products/p2/variants/v1");
+    expect(values.brand.path).toEqual("brands/b1");
+
+    const variants = await dataSource.fetchCollection({ path: "products/p2/variants", schema: variantSchema });
+    expect(variants.map((v) => v.id)).toEqual(["v1", "v2"]);
+    expect((variants[0].values as any).related.path).toEqual("products/p2/variants/v2");
+    const stock = await dataSource.fetchCollection({ path: "products/p2/variants/v1/stock", schema: stockSchema });
+    expect(stock.map((s) => s.values)).toEqual([{ units: 3 }]);
+
+    // the original is not modified
+    const original: any = (await dataSource.fetchEntity({ path: "products", entityId: "p1", schema: productSchema })).values;
+    expect(original.default_variant.path).toEqual("products/p1/variants/v1");
+    const originalVariant: any = (await dataSource.fetchEntity({ path: "products/p1/variants", entityId: "v1", schema: variantSchema })).values;
+    expect(originalVariant.related.path).toEqual("products/p1/variants/v2");
+});
+
+it("fails if the copy can't be saved", async () => {
+    const dataSource = InMemoryDataSource({ products: { p1: { name: "Mug" } } });
+    const schema = buildSchema({
+        name: "Product",
+        properties: { name: { dataType: "string" } },
+        onPreSave: (): any => {
+            throw Error("Not allowed");
+        }
+    });
+    const entity = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema });
+    const context: any = { dataSource, cmsAppConfig: {} };
+    await expect(copyEntityWithSubcollections({ entity, collectionPath: "products", schema, subcollections, context }))
+        .rejects.toThrow("Not allowed");
+    expect(await dataSource.fetchCollection({ path: "products", schema })).toHaveLength(1);
+});
+
+it("records the copied entities in the audit log", async () => {
+    const dataSource = InMemoryDataSource({
+        products: { p1: { name: "Mug" } },
+        "products/p1/variants": {
+            v1: { name: "Red" }
+        }
+    });
+    const v1 = await dataSource.fetchEntity({ path: "products/p1/variants", entityId: "v1", schema: variantSchema });
+    await dataSource.saveEntity({
+        collectionPath: "products",
+        id: "p1",
+        values: { default_variant: v1.reference },
+        schema: productSchema,
+        status: "existing"
+    });
+    const entity = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema: productSchema });
+    const context: any = { dataSource, cmsAppConfig: { auditLog: {} } };
+    const user: any = { uid: "u1", email: "editor@example.com" };
+
+    await copyEntityWithSubcollections({
+        entity,
+        collectionPath: "products",
+        schema: productSchema,
+        subcollections,
+        id: "p2",
+        context,
+        user
+    });
+
+    const records = await fetchAuditRecords({ dataSource, config: {} });
+    expect(records.map((r) => [r.values.operation, r.values.collection_path, r.values.entity_id, r.values.changed_fields, r.values.user_email]))
+        .toEqual(expect.arrayContaining([
+            ["create", "products", "p2", ["name", "default_variant"], "editor@example.com"],
+            ["create", "products/p2/variants", "v1", ["name"], "editor@example.com"],
+            ["update", "products", "p2", ["default_variant"], "editor@example.com"]
+        ]));
+    expect(records).toHaveLength(3);
+});
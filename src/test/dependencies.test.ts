@@ -0,0 +1,203 @@
+import {
+    buildCollection,
+    buildSchema,
+    fetchAuditRecords,
+    findEntityDependencies,
+    hasEntityDependencies,
+    InMemoryDataSource,
+    resolveEntityDependencies
+} from "../models";
+
+const authorSchema = buildSchema({
+    name: "Author",
+    properties: {
+        name: { dataType: "string" }
+    }
+});
+
+const bookSchema = buildSchema({
+    name: "Book",
+    properties: {
+        title: { dataType: "string" },
+        author: { dataType: "reference", collectionPath: "authors" },
+        details: {
+            dataType: "map",
+            properties: {
+                editor: { dataType: "reference", collectionPath: "authors" }
+            }
+        },
+        contributors: {
+            dataType: "array",
+            of: { dataType: "reference", collectionPath: "authors" }
+        }
+    }
+});
+
+const noteSchema = buildSchema({
+    name: "Note",
+    properties: {
+        text: { dataType: "string" }
+    }
+});
+
+const collections = [
+    buildCollection({ relativePath: "authors", schema: authorSchema, name: "Authors" }),
+    buildCollection({ relativePath: "books", schema: bookSchema, name: "Books" })
+];
+
+const subcollections = [
+    buildCollection({
+        relativePath: "notes",
+        schema: noteSchema,
+        name: "Notes",
+        subcollections: [
+            buildCollection({ relativePath: "replies", schema: noteSchema, name: "Replies" })
+        ]
+    })
+];
+
+async function buildDataSource() {
+    const dataSource = InMemoryDataSource({
+        authors: {
+            a1: { name: "Ursula" },
+            a2: { name: "Italo" }
+        },
+        "authors/a1/notes": {
+            n1: { text: "Note" }
+        },
+        "authors/a1/notes/n1/replies": {
+            r1: { text: "Reply" }
+        }
+    });
+    const a1 = await dataSource.fetchEntity({ path: "authors", entityId: "a1", schema: authorSchema });
+    const a2 = await dataSource.fetchEntity({ path: "authors", entityId: "a2", schema: authorSchema });
+    await dataSource.saveEntity({
+        collectionPath: "books",
+        id: "b1",
+        values: { title: "Earthsea", author: a1.reference, contributors: [a1.reference, a2.reference] },
+        schema: bookSchema,
+        status: "new"
+    });
+    await dataSource.saveEntity({
+        collectionPath: "books",
+        id: "b2",
+        values: { title: "Cities", author: a2.reference, details: { editor: a1.reference } },
+        schema: bookSchema,
+        status: "new"
+    });
+    const context: any = { dataSource, cmsAppConfig: {} };
+    return { dataSource, context, a1, a2 };
+}
+
+it("finds the entities depending on an entity", async () => {
+    const { dataSource, a1, a2 } = await buildDataSource();
+
+    const dependencies = await findEntityDependencies({
+        entity: a1,
+        collectionPath: "authors",
+        subcollections,
+        collections,
+        dataSource
+    });
+    expect(hasEntityDependencies(dependencies)).toBe(true);
+    expect(dependencies.subcollectionEntities.map((e) => e.entity.reference.path))
+        .toEqual(["authors/a1/notes/n1", "authors/a1/notes/n1/replies/r1"]);
+    expect(dependencies.referencingEntities.map((r) => [r.entity.id, r.properties]))
+        .toEqual([
+            ["b1", ["author", "contributors"]],
+            ["b2", ["details.editor"]]
+        ]);
+
+    const a2Dependencies = await findEntityDependencies({
+        entity: a2,
+        collectionPath: "authors",
+        subcollections,
+        collections,
+        dataSource
+    });
+    expect(a2Dependencies.subcollectionEntities).toHaveLength(0);
+    expect(a2Dependencies.referencingEntities.map((r) => r.entity.id)).toEqual(["b2", "b1"]);
+});
+
+it("removes the references to a deleted entity", async () => {
+    const { dataSource, context, a1, a2 } = await buildDataSource();
+    const dependencies = await findEntityDependencies({
+        entity: a1,
+        collectionPath: "authors",
+        subcollections,
+        collections,
+        dataSource
+    });
+
+    await expect(resolveEntityDependencies({ entity: a1, dependencies, resolution: "block", context }))
+        .rejects.toThrow();
+
+    await dataSource.deleteEntity({ entity: a1 });
+    await resolveEntityDependencies({ entity: a1, dependencies, resolution: "nullify", context });
+
+    const b1: any = (await dataSource.fetchEntity({ path: "books", entityId: "b1", schema: bookSchema })).values;
+    expect(b1.author).toBeNull();
+    expect(b1.contributors.map((r: any) => r.path)).toEqual([a2.reference.path]);
+    const b2: any = (await dataSource.fetchEntity({ path: "books", entityId: "b2", schema: bookSchema })).values;
+    expect(b2.details.editor).toBeNull();
+    expect(b2.author.path).toEqual(a2.reference.path);
+    expect(await dataSource.fetchCollection({ path: "authors/a1/notes", schema: noteSchema })).toHaveLength(0);
+    expect(await dataSource.fetchCollection({ path: "authors/a1/notes/n1/replies", schema: noteSchema })).toHaveLength(0);
+});
+
+it("deletes the entities depending on a deleted entity", async () => {
+    const { dataSource, context, a1 } = await buildDataSource();
+    const dependencies = await findEntityDependencies({
+        entity: a1,
+        collectionPath: "authors",
+        subcollections,
+        collections,
+        dataSource
+    });
+
+    await dataSource.deleteEntity({ entity: a1 });
+    await resolveEntityDependencies({ entity: a1, dependencies, resolution: "cascade", context });
+
+    expect(await dataSource.fetchCollection({ path: "books", schema: bookSchema })).toHaveLength(0);
+    expect(await dataSource.fetchCollection({ path: "authors/a1/notes", schema: noteSchema })).toHaveLength(0);
+    expect(await dataSource.fetchCollection({ path: "authors", schema: authorSchema })).toHaveLength(1);
+});
+
+it("resolves dependencies like any other write", async () => {
+    const { dataSource, a1 } = await buildDataSource();
+    const onBookDelete = jest.fn();
+    const softDeleteCollections = [
+        buildCollection({
+            relativePath: "books",
+            schema: { ...bookSchema, onDelete: onBookDelete },
+            name: "Books",
+            softDelete: true
+        })
+    ];
+    const context: any = { dataSource, cmsAppConfig: { auditLog: {} } };
+    const user: any = { uid: "u1", email: "editor@example.com" };
+    const dependencies = await findEntityDependencies({
+        entity: a1,
+        collectionPath: "authors",
+        subcollections,
+        collections: softDeleteCollections,
+        dataSource
+    });
+
+    await resolveEntityDependencies({ entity: a1, dependencies, resolution: "cascade", context, user });
+
+    // referencing entities are moved to the trash of their collection
+    expect(await dataSource.fetchCollection({ path: "books", schema: bookSchema })).toHaveLength(0);
+    expect((await dataSource.fetchCollection({ path: "books__trash", schema: bookSchema })).map((e) => e.id).sort())
+        .toEqual(["b1", "b2"]);
+    expect(onBookDelete).toHaveBeenCalledTimes(2);
+    const records = await fetchAuditRecords({ dataSource, config: {} });
+    expect(records.map((r) => [r.values.collection_path, r.values.entity_id, r.values.user_email]))
+        .toEqual(expect.arrayContaining([
+            ["books", "b1", "editor@example.com"],
+            ["books", "b2", "editor@example.com"],
+            ["authors/a1/notes", "n1", "editor@example.com"],
+            ["authors/a1/notes/n1/replies", "r1", "editor@example.com"]
+        ]));
+    expect(records).toHaveLength(4);
+});
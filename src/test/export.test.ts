@@ -0,0 +1,122 @@
+import {
+    buildExportFile,
+    buildSchema,
+    fetchEntitiesInPages,
+    InMemoryDataSource
+} from "../models";
+
+const articleSchema = buildSchema({
+    name: "Article",
+    properties: {
+        title: {
+            title: "Title",
+            dataType: "string"
+        },
+        rating: {
+            title: "Rating",
+            dataType: "number"
+        },
+        author: {
+            title: "Author",
+            dataType: "map",
+            properties: {
+                name: { dataType: "string" },
+                profile: { dataType: "reference", collectionPath: "users" }
+            }
+        },
+        tags: {
+            title: "Tags",
+            dataType: "array",
+            of: { dataType: "string" }
+        },
+        published_on: {
+            title: "Published on",
+            dataType: "timestamp"
+        }
+    }
+});
+
+const date = new Date("2021-09-01T12:00:00Z");
+
+const initialData = {
+    articles: {
+        a1: { title: "First, \"quoted\"", rating: 3, tags: ["a", "b"], published_on: date },
+        a2: { title: "Second", rating: 5, author: { name: "Jane" } },
+        a3: { title: "Third", rating: 3 },
+        a4: { title: "Fourth", rating: 3 },
+        a5: { title: "Fifth", rating: 1 }
+    }
+};
+
+it("fetches entities page by page, without skipping equal values", async () => {
+
+    const dataSource = InMemoryDataSource(initialData);
+    const progress: number[] = [];
+
+    const entities = await fetchEntitiesInPages({
+        dataSource,
+        path: "articles",
+        schema: articleSchema,
+        orderBy: "rating",
+        order: "desc",
+        pageSize: 2,
+        onProgress: (count) => progress.push(count)
+    });
+
+    expect(entities.map((e) => e.id)).toEqual(["a2", "a4", "a3", "a1", "a5"]);
+    expect(progress).toEqual([2, 4, 5]);
+
+    const filtered = await fetchEntitiesInPages({
+        dataSource,
+        path: "articles",
+        schema: articleSchema,
+        filter: { rating: [">", 1] },
+        pageSize: 2
+    });
+    expect(filtered.map((e) => e.id)).toEqual(["a1", "a3", "a4", "a2"]);
+});
+
+it("builds export files in every format", async () => {
+
+    const dataSource = InMemoryDataSource({
+        articles: {
+            a1: initialData.articles.a1
+        }
+    });
+    const [entity] = await dataSource.fetchCollection({
+        path: "articles",
+        schema: articleSchema
+    });
+    const profile = (await dataSource.saveEntity({
+        collectionPath: "users",
+        id: "u1",
+        values: {},
+        schema: articleSchema,
+        status: "new"
+    })).reference;
+    entity.values = { ...entity.values, author: { name: "Jane", profile } };
+
+    const properties = articleSchema.properties as any;
+
+    const json = JSON.parse(buildExportFile({ entities: [entity], properties, format: "json" }) as string);
+    expect(json).toEqual([{
+        id: "a1",
+        title: "First, \"quoted\"",
+        rating: 3,
+        author: { name: "Jane", profile: "users/u1" },
+        tags: ["a", "b"],
+        published_on: "2021-09-01T12:00:00.000Z"
+    }]);
+
+    const ndjson = buildExportFile({ entities: [entity, entity], properties, format: "ndjson" }) as string;
+    expect(ndjson.split("\n").map((line) => JSON.parse(line))).toEqual([json[0], json[0]]);
+
+    expect(buildExportFile({ entities: [entity], properties, format: "csv" })).toEqual(
+        "id,title,rating,author.name,author.profile,tags,published_on\n" +
+        `a1,"First, ""quoted""",3,Jane,users/u1,"a,b",${date.getTime()}`
+    );
+
+    const xlsx = buildExportFile({ entities: [entity], properties, format: "xlsx" }) as Uint8Array;
+    // zip signature
+    expect(Array.from(xlsx.slice(0, 4))).toEqual([0x50, 0x4B, 0x03, 0x04]);
+});
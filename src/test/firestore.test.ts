@@ -1,9 +1,12 @@
 import firebase from "firebase/app";
 import "firebase/firestore";
 import {
+    deleteEntity,
     initEntityValues,
-    replaceTimestampsWithDates
+    replaceTimestampsWithDates,
+    saveEntity
 } from "../models/firestore";
+import { buildSchema, InMemoryDataSource } from "../models";
 import { productSchema } from "./test_site_config";
 
 
@@ -37,3 +40,43 @@ it("Initial values", () => {
 
 });
 
+
+it("saves and deletes entities through the data source of the context", async () => {
+    const hookDate = new Date(2020, 0, 1);
+    const preSaveValues: any[] = [];
+    const schema = buildSchema({
+        name: "Product",
+        properties: {
+            name: { dataType: "string" },
+            updated_on: { dataType: "timestamp", autoValue: "on_update" }
+        },
+        onPreSave: ({ values }) => {
+            preSaveValues.push(values);
+            return { ...values, updated_on: hookDate };
+        }
+    });
+    const dataSource = InMemoryDataSource({});
+    const context: any = { dataSource, cmsAppConfig: {} };
+
+    let saved: any;
+    await saveEntity({
+        collectionPath: "products",
+        id: "p1",
+        values: { name: "Mug" },
+        schema,
+        status: "new",
+        context,
+        onSaveSuccess: (entity) => saved = entity
+    });
+
+    // autoValues are set by the data source, after the hook
+    expect(preSaveValues).toEqual([{ name: "Mug" }]);
+    expect(saved.id).toEqual("p1");
+    const entity = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema });
+    expect(entity.values.name).toEqual("Mug");
+    expect(entity.values.updated_on).toBeInstanceOf(Date);
+    expect(entity.values.updated_on).not.toEqual(hookDate);
+
+    expect(await deleteEntity({ entity, collectionPath: "products", schema, context })).toBe(true);
+    expect(await dataSource.fetchCollection({ path: "products", schema })).toHaveLength(0);
+});
@@ -0,0 +1,103 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+import {
+    buildExportFile,
+    buildGeoPointBoundsFilter,
+    buildSchema,
+    convertImportedValue,
+    filterByGeoPointBounds,
+    formatGeoPoint,
+    getGeoPointBounds,
+    InMemoryDataSource,
+    isValidGeoPoint,
+    parseGeoPoint
+} from "../models";
+import { mapPropertyToYup } from "../form/validation";
+import { deserializeValue, serializeValue } from "../util/serialization";
+
+it("parses and formats geopoints", () => {
+    expect(parseGeoPoint("40.4168,-3.7038")).toEqual({ latitude: 40.4168, longitude: -3.7038 });
+    expect(parseGeoPoint(" (40.4168, -3.7038) ")).toEqual({ latitude: 40.4168, longitude: -3.7038 });
+    expect(parseGeoPoint("-33.86 151.2")).toEqual({ latitude: -33.86, longitude: 151.2 });
+    expect(parseGeoPoint("40.4168")).toBeUndefined();
+    expect(parseGeoPoint("Madrid")).toBeUndefined();
+
+    expect(formatGeoPoint(new firebase.firestore.GeoPoint(40.4168, -3.7038))).toEqual("40.4168,-3.7038");
+
+    expect(isValidGeoPoint({ latitude: 90, longitude: -180 })).toBe(true);
+    expect(isValidGeoPoint({ latitude: 91, longitude: 0 })).toBe(false);
+    expect(isValidGeoPoint({ latitude: 0, longitude: 180.5 })).toBe(false);
+});
+
+it("validates the range of geopoints", async () => {
+    const schema = mapPropertyToYup({
+        property: { title: "Location", dataType: "geopoint", validation: { required: true } }
+    });
+    await expect(schema.isValid(new firebase.firestore.GeoPoint(40.4168, -3.7038))).resolves.toBe(true);
+    await expect(schema.isValid({ latitude: 100, longitude: 0 })).resolves.toBe(false);
+    await expect(schema.isValid(null)).resolves.toBe(false);
+});
+
+it("converts geopoints in exports, imports and filters", () => {
+    const entity: any = {
+        id: "madrid",
+        path: "shops",
+        values: { location: new firebase.firestore.GeoPoint(40.4168, -3.7038) }
+    };
+    const properties = { location: { dataType: "geopoint" as const } };
+    expect(buildExportFile({ entities: [entity], properties, format: "csv" }))
+        .toEqual("id,location\nmadrid,\"40.4168,-3.7038\"");
+    expect(JSON.parse(buildExportFile({ entities: [entity], properties, format: "json" }) as string))
+        .toEqual([{ id: "madrid", location: { latitude: 40.4168, longitude: -3.7038 } }]);
+
+    const property = { dataType: "geopoint" as const };
+    const buildReference: any = undefined;
+    expect(convertImportedValue("40.4168,-3.7038", property, buildReference))
+        .toEqual(new firebase.firestore.GeoPoint(40.4168, -3.7038));
+    expect(convertImportedValue({ latitude: 1, longitude: 2 }, property, buildReference))
+        .toEqual(new firebase.firestore.GeoPoint(1, 2));
+    expect(convertImportedValue("somewhere", property, buildReference)).toEqual("somewhere");
+
+    const filter = buildGeoPointBoundsFilter({ latitude: 1, longitude: 2 }, { latitude: 3, longitude: 4 });
+    expect(getGeoPointBounds(filter)).toEqual([
+        new firebase.firestore.GeoPoint(1, 2),
+        new firebase.firestore.GeoPoint(3, 4)
+    ]);
+    expect(deserializeValue(serializeValue(filter), InMemoryDataSource().buildReference)).toEqual(filter);
+});
+
+it("filters geopoints inside a bounding box", async () => {
+    const schema = buildSchema({
+        name: "Shop",
+        properties: {
+            location: { dataType: "geopoint" }
+        }
+    });
+    const dataSource = InMemoryDataSource({
+        shops: {
+            madrid: { location: new firebase.firestore.GeoPoint(40.4168, -3.7038) },
+            lisbon: { location: new firebase.firestore.GeoPoint(38.7223, -9.1393) },
+            paris: { location: new firebase.firestore.GeoPoint(48.8566, 2.3522) },
+            rome: { location: new firebase.firestore.GeoPoint(41.9028, 12.4964) },
+            tokyo: { location: new firebase.firestore.GeoPoint(35.6762, 139.6503) },
+            auckland: { location: new firebase.firestore.GeoPoint(-36.8485, 174.7633) },
+            honolulu: { location: new firebase.firestore.GeoPoint(21.3069, -157.8583) }
+        }
+    });
+
+    // Iberian peninsula
+    const filter = {
+        location: buildGeoPointBoundsFilter({ latitude: 36, longitude: -10 }, { latitude: 44, longitude: 4 })
+    };
+    const entities = await dataSource.fetchCollection({ path: "shops", schema, filter });
+    expect(entities.map((e) => e.id)).toEqual(["lisbon", "madrid", "rome"]);
+    expect(filterByGeoPointBounds(entities, filter).map((e) => e.id)).toEqual(["lisbon", "madrid"]);
+
+    // Pacific, crossing the antimeridian
+    const pacificFilter = {
+        location: buildGeoPointBoundsFilter({ latitude: -40, longitude: 170 }, { latitude: 25, longitude: -150 })
+    };
+    const pacific = await dataSource.fetchCollection({ path: "shops", schema, filter: pacificFilter });
+    expect(filterByGeoPointBounds(pacific, pacificFilter).map((e) => e.id)).toEqual(["auckland", "honolulu"]);
+});
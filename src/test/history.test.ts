@@ -0,0 +1,107 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+import {
+    buildSchema,
+    fetchEntityRevisions,
+    getChangedProperties,
+    InMemoryDataSource,
+    Properties,
+    saveEntityRevision
+} from "../models";
+import { areValuesEqual } from "../models/history";
+
+const schema = buildSchema({
+    name: "Product",
+    properties: {
+        name: { dataType: "string" },
+        released: { dataType: "timestamp" },
+        brand: { dataType: "reference", collectionPath: "brands" },
+        location: { dataType: "geopoint" },
+        dimensions: {
+            dataType: "map",
+            properties: {
+                width: { dataType: "number" },
+                height: { dataType: "number" }
+            }
+        },
+        tags: { dataType: "array", of: { dataType: "string" } }
+    }
+});
+
+const properties = schema.properties as Properties<any>;
+
+async function fetchReference(dataSource: ReturnType<typeof InMemoryDataSource>, id: string) {
+    return (await dataSource.fetchEntity({ path: "brands", entityId: id, schema })).reference;
+}
+
+it("compares dates, references, geopoints and nested maps by value", async () => {
+    const dataSource = InMemoryDataSource({ brands: { b1: {}, b2: {} } });
+    const b1 = await fetchReference(dataSource, "b1");
+
+    expect(areValuesEqual(new Date(2021, 1, 1), new Date(2021, 1, 1))).toBe(true);
+    expect(areValuesEqual(new Date(2021, 1, 1), new Date(2021, 1, 2))).toBe(false);
+    expect(areValuesEqual(b1, await fetchReference(dataSource, "b1"))).toBe(true);
+    expect(areValuesEqual(b1, await fetchReference(dataSource, "b2"))).toBe(false);
+    expect(areValuesEqual(new firebase.firestore.GeoPoint(1, 2), new firebase.firestore.GeoPoint(1, 2))).toBe(true);
+    expect(areValuesEqual(new firebase.firestore.GeoPoint(1, 2), new firebase.firestore.GeoPoint(2, 1))).toBe(false);
+    expect(areValuesEqual(new firebase.firestore.GeoPoint(1, 2), b1)).toBe(false);
+    expect(areValuesEqual({ a: { b: [1, 2] } }, { a: { b: [1, 2] } })).toBe(true);
+    expect(areValuesEqual({ a: { b: [1, 2] } }, { a: { b: [2, 1] } })).toBe(false);
+    expect(areValuesEqual([], {})).toBe(false);
+    expect(areValuesEqual(null, undefined)).toBe(true);
+    expect(areValuesEqual(0, null)).toBe(false);
+});
+
+it("finds the properties that changed between two versions", async () => {
+    const dataSource = InMemoryDataSource({ brands: { b1: {}, b2: {} } });
+    const previousValues = {
+        name: "Mug",
+        released: new Date(2021, 1, 1),
+        brand: await fetchReference(dataSource, "b1"),
+        location: new firebase.firestore.GeoPoint(40, 3),
+        dimensions: { width: 10, height: 12 },
+        tags: ["kitchen"]
+    };
+
+    expect(getChangedProperties(properties, previousValues, {
+        ...previousValues,
+        released: new Date(2021, 1, 1),
+        brand: await fetchReference(dataSource, "b1"),
+        location: new firebase.firestore.GeoPoint(40, 3),
+        dimensions: { width: 10, height: 12 }
+    })).toEqual([]);
+
+    expect(getChangedProperties(properties, previousValues, {
+        ...previousValues,
+        released: new Date(2021, 1, 2),
+        brand: await fetchReference(dataSource, "b2"),
+        location: new firebase.firestore.GeoPoint(40, 4),
+        dimensions: { width: 10, height: 14 }
+    })).toEqual(["released", "brand", "location", "dimensions"]);
+
+    expect(getChangedProperties(properties, undefined, { name: "Mug", tags: [] }))
+        .toEqual(["name", "tags"]);
+    expect(getChangedProperties(properties, { name: "Mug" }, undefined))
+        .toEqual(["name"]);
+});
+
+it("stores and fetches the revisions of an entity, the most recent first", async () => {
+    const dataSource = InMemoryDataSource({ products: { p1: { name: "Mug" } } });
+    const entity = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema });
+    const user: any = { uid: "u1", email: "ana@example.com", displayName: "Ana" };
+
+    await saveEntityRevision({ entity, status: "new", user, dataSource });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await saveEntityRevision({
+        entity: { ...entity, values: { name: "Big mug" } },
+        status: "existing",
+        dataSource
+    });
+
+    const revisions = await fetchEntityRevisions({ entity, dataSource });
+    expect(revisions.map((revision) => revision.values)).toEqual([{ name: "Big mug" }, { name: "Mug" }]);
+    expect(revisions.map((revision) => revision.status)).toEqual(["existing", "new"]);
+    expect(revisions[0].author).toBeNull();
+    expect(revisions[1].author).toEqual({ uid: "u1", email: "ana@example.com", displayName: "Ana" });
+    expect(revisions[0].savedOn).toBeInstanceOf(Date);
+});
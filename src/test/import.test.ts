@@ -0,0 +1,102 @@
+import {
+    convertImportedRow,
+    getDefaultImportMapping,
+    parseCSV,
+    parseImportFile,
+    Properties
+} from "../models";
+
+const properties: Properties<any> = {
+    name: { dataType: "string", title: "Name" },
+    status: {
+        dataType: "string",
+        config: { enumValues: { draft: "Draft", published: { label: "Published" } } }
+    },
+    price: { dataType: "number" },
+    available: { dataType: "boolean" },
+    created_on: { dataType: "timestamp" },
+    related: { dataType: "reference", collectionPath: "products" },
+    tags: { dataType: "array", of: { dataType: "string" } },
+    address: {
+        dataType: "map",
+        properties: {
+            street: { dataType: "string" },
+            number: { dataType: "number" }
+        }
+    }
+};
+
+const buildReference = (path: string): any => ({ path });
+
+it("parses CSV files with quoted cells", () => {
+    expect(parseCSV("\uFEFFa,b\r\n\"x, \"\"y\"\"\",\"line\nbreak\"\n\n1,\n"))
+        .toEqual([["a", "b"], ["x, \"y\"", "line\nbreak"], ["1", ""]]);
+
+    expect(parseImportFile("id,name\n1,Hello\n2,", "csv"))
+        .toEqual([{ id: "1", name: "Hello" }, { id: "2" }]);
+
+    expect(parseImportFile("{\"a\": {\"name\": \"Hello\"}}", "json"))
+        .toEqual([{ id: "a", name: "Hello" }]);
+});
+
+it("converts imported rows according to the properties", () => {
+
+    const row = {
+        "ID": "p1",
+        "Name": "Product",
+        "status": "published",
+        "price": "12.5",
+        "available": "yes",
+        "created_on": "1630497600000",
+        "related": "p2",
+        "tags": "a, b",
+        "address.street": "Main street",
+        "address.number": "7",
+        "other": "ignored"
+    };
+
+    const mapping = getDefaultImportMapping(Object.keys(row), properties);
+    expect(mapping["ID"]).toEqual("id");
+    expect(mapping["Name"]).toEqual("name");
+    expect(mapping["other"]).toBeUndefined();
+
+    expect(convertImportedRow({ row, mapping, properties, buildReference })).toEqual({
+        id: "p1",
+        values: {
+            name: "Product",
+            status: "published",
+            price: 12.5,
+            available: true,
+            created_on: new Date(1630497600000),
+            related: { path: "products/p2" },
+            tags: ["a", "b"],
+            address: { street: "Main street", number: 7 }
+        }
+    });
+
+    // enum labels, JSON values and invalid values
+    expect(convertImportedRow({
+        row: {
+            status: "Draft",
+            price: "cheap",
+            created_on: "2021-09-01T12:00:00Z",
+            tags: "[\"a\"]",
+            address: { number: "3" }
+        },
+        mapping: {
+            status: "status",
+            price: "price",
+            created_on: "created_on",
+            tags: "tags",
+            address: "address"
+        },
+        properties,
+        buildReference
+    }).values).toEqual({
+        status: "draft",
+        price: "cheap",
+        created_on: new Date("2021-09-01T12:00:00Z"),
+        tags: ["a"],
+        address: { number: 3 }
+    });
+});
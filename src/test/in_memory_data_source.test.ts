@@ -0,0 +1,217 @@
+import {
+    buildSchema,
+    Entity,
+    InMemoryDataSource,
+    Property
+} from "../models";
+
+const bookSchema = buildSchema({
+    name: "Book",
+    properties: {
+        title: {
+            title: "Title",
+            dataType: "string"
+        },
+        year: {
+            title: "Year",
+            dataType: "number"
+        },
+        tags: {
+            title: "Tags",
+            dataType: "array",
+            of: {
+                dataType: "string"
+            }
+        },
+        updated_on: {
+            title: "Updated on",
+            dataType: "timestamp",
+            autoValue: "on_update"
+        }
+    }
+});
+
+const initialData = {
+    books: {
+        b1: { title: "Dune", year: 1965, tags: ["scifi"] },
+        b2: { title: "Emma", year: 1815, tags: ["romance", "classic"] },
+        b3: { title: "Ubik", year: 1969, tags: ["scifi", "classic"] },
+        b4: { title: "Ulysses", year: 1922, tags: ["classic"] }
+    }
+};
+
+it("filters and orders collections", async () => {
+
+    const dataSource = InMemoryDataSource(initialData);
+
+    const scifi = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { tags: ["array-contains", "scifi"] }
+    });
+    expect(scifi.map((e) => e.id)).toEqual(["b1", "b3"]);
+
+    const sorted = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { year: [">", 1900] },
+        orderBy: "year",
+        order: "desc"
+    });
+    expect(sorted.map((e) => e.id)).toEqual(["b3", "b1", "b4"]);
+
+    const any = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { tags: ["array-contains-any", ["romance", "scifi"]] }
+    });
+    expect(any.map((e) => e.id)).toEqual(["b1", "b2", "b3"]);
+});
+
+it("combines multiple conditions on the same property", async () => {
+
+    const dataSource = InMemoryDataSource(initialData);
+
+    const range = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { year: [[">=", 1900], ["<", 1966]] }
+    });
+    expect(range.map((e) => e.id)).toEqual(["b4", "b1"]);
+
+    const notIn = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { title: ["not-in", ["Dune", "Emma"]] }
+    });
+    expect(notIn.map((e) => e.id)).toEqual(["b3", "b4"]);
+
+    await expect(dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { title: [["not-in", ["Dune"]], ["!=", "Emma"]] }
+    })).rejects.toThrow();
+});
+
+it("paginates with startAfter and limit", async () => {
+
+    const dataSource = InMemoryDataSource(initialData);
+
+    const firstPage = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        orderBy: "year",
+        order: "asc",
+        limit: 2
+    });
+    expect(firstPage.map((e) => e.id)).toEqual(["b2", "b4"]);
+
+    const secondPage = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        orderBy: "year",
+        order: "asc",
+        startAfter: [firstPage[1].values.year],
+        limit: 2
+    });
+    expect(secondPage.map((e) => e.id)).toEqual(["b1", "b3"]);
+});
+
+it("rejects queries not supported by Firestore", async () => {
+
+    const dataSource = InMemoryDataSource(initialData, {
+        books: [{ tags: "asc", year: "desc" }]
+    });
+
+    await expect(dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { year: [">", 1900], title: [">", "A"] }
+    })).rejects.toThrow();
+
+    await expect(dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { title: ["==", "Dune"] },
+        orderBy: "year",
+        order: "desc"
+    })).rejects.toThrow();
+
+    const indexed = await dataSource.fetchCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { tags: ["array-contains", "classic"] },
+        orderBy: "year",
+        order: "desc"
+    });
+    expect(indexed.map((e) => e.id)).toEqual(["b4", "b2", "b3"]);
+});
+
+it("notifies listeners on save and delete", async () => {
+
+    const dataSource = InMemoryDataSource(initialData);
+
+    let entities: Entity<any>[] = [];
+    const cancel = dataSource.listenCollection({
+        path: "books",
+        schema: bookSchema,
+        filter: { tags: ["array-contains", "scifi"] },
+        onUpdate: (result) => entities = result
+    });
+    expect(entities).toHaveLength(2);
+
+    const saved = await dataSource.saveEntity({
+        collectionPath: "books",
+        id: undefined,
+        values: { title: "Solaris", year: 1961, tags: ["scifi"] },
+        schema: bookSchema,
+        status: "new"
+    });
+    expect(entities).toHaveLength(3);
+    expect(saved.values.updated_on).toBeInstanceOf(Date);
+    expect(saved.reference.path).toEqual(`books/${saved.id}`);
+
+    await dataSource.deleteEntity({ entity: saved });
+    expect(entities).toHaveLength(2);
+
+    cancel();
+    await dataSource.deleteEntity({ entity: entities[0] });
+    expect(entities).toHaveLength(2);
+});
+
+it("stores subcollections and merges values", async () => {
+
+    const dataSource = InMemoryDataSource();
+
+    await dataSource.saveEntity({
+        collectionPath: "/authors/a1/books/",
+        id: "b1",
+        values: { title: "Dune", year: 1965 },
+        schema: bookSchema,
+        status: "new"
+    });
+    await dataSource.saveEntity({
+        collectionPath: "authors/a1/books",
+        id: "b1",
+        values: { year: 1966 },
+        schema: bookSchema,
+        status: "existing"
+    });
+
+    const entity = await dataSource.fetchEntity({
+        path: "authors/a1/books",
+        entityId: "b1",
+        schema: bookSchema
+    });
+    expect(entity.values.title).toEqual("Dune");
+    expect(entity.values.year).toEqual(1966);
+    expect(entity.reference.parent.path).toEqual("authors/a1/books");
+
+    expect(await dataSource.checkUniqueField({
+        path: "authors/a1/books",
+        name: "title",
+        value: "Dune",
+        property: bookSchema.properties.title as Property,
+        entityId: "b2"
+    })).toBe(false);
+});
@@ -0,0 +1,126 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+import { InMemoryDataSource, LocalTextSearchDelegate, TextSearchDelegate } from "../models";
+
+const initialData = {
+    products: {
+        p1: { name: "Café crème", description: "Coffee with cream", tags: ["drinks"] },
+        p2: { name: "Cream cheese", description: "Soft cheese" },
+        p3: { name: "Espresso", description: "Strong coffee", address: { city: "Málaga" } },
+        p4: { name: "Chocolate cake", description: "Dessert with cream" }
+    }
+};
+
+async function searchIds(delegate: TextSearchDelegate, query: string) {
+    const { hits } = await delegate.performTextSearch({ query, collectionPath: "products" });
+    return hits.map((hit) => hit.id);
+}
+
+it("searches entities in a local index", async () => {
+
+    const dataSource = InMemoryDataSource(initialData);
+    const delegate = LocalTextSearchDelegate({
+        dataSource,
+        properties: ["name", "description", "tags", "address.city"]
+    });
+
+    // accent insensitive, ranked by property relevance
+    expect(await searchIds(delegate, "CREME")).toEqual(["p1"]);
+    expect(await searchIds(delegate, "cream")).toEqual(["p2", "p1", "p4"]);
+    // prefix and all words
+    expect(await searchIds(delegate, "coff str")).toEqual(["p3"]);
+    expect(await searchIds(delegate, "malaga")).toEqual(["p3"]);
+    expect(await searchIds(delegate, "drinks")).toEqual(["p1"]);
+    // typos
+    expect(await searchIds(delegate, "chocolat cak")).toEqual(["p4"]);
+    expect(await searchIds(delegate, "expresso")).toEqual(["p3"]);
+    expect(await searchIds(delegate, "tea")).toEqual([]);
+
+    // the index is kept up to date
+    await dataSource.saveEntity({
+        collectionPath: "products",
+        id: "p5",
+        values: { name: "Green tea" },
+        schema: { name: "Product", properties: { name: { dataType: "string" } } },
+        status: "new"
+    });
+    expect(await searchIds(delegate, "tea")).toEqual(["p5"]);
+});
+
+it("returns highlights and pages of results", async () => {
+
+    const delegate = LocalTextSearchDelegate({
+        dataSource: InMemoryDataSource(initialData),
+        properties: ["name", "description", "tags"]
+    });
+
+    const firstPage = await delegate.performTextSearch({
+        query: "cream",
+        collectionPath: "products",
+        limit: 2
+    });
+    expect(firstPage.total).toEqual(3);
+    expect(firstPage.hits.map((hit) => hit.id)).toEqual(["p2", "p1"]);
+    expect(firstPage.hits[0].highlights).toEqual({
+        name: [{ text: "Cream", matched: true }, { text: " cheese", matched: false }]
+    });
+    expect(firstPage.hits[1].highlights).toEqual({
+        description: [{ text: "Coffee with ", matched: false }, { text: "cream", matched: true }]
+    });
+
+    const accented = await delegate.performTextSearch({ query: "creme", collectionPath: "products" });
+    expect(accented.hits[0].highlights?.name).toEqual([
+        { text: "Café ", matched: false },
+        { text: "crème", matched: true }
+    ]);
+
+    const secondPage = await delegate.performTextSearch({
+        query: "cream",
+        collectionPath: "products",
+        limit: 2,
+        cursor: firstPage.cursor
+    });
+    expect(secondPage.hits.map((hit) => hit.id)).toEqual(["p4"]);
+    expect(secondPage.cursor).toBeUndefined();
+});
+
+it("skips references and geopoints, and stops listening when disposed", async () => {
+
+    const dataSource = InMemoryDataSource(initialData);
+    const brand = dataSource.buildReference("brands/coffee");
+    await dataSource.saveEntity({
+        collectionPath: "products",
+        id: "p6",
+        values: { name: "Mocha", details: { brand, location: new firebase.firestore.GeoPoint(40, 3) } },
+        schema: { name: "Product", properties: {} as any },
+        status: "new"
+    });
+
+    let listeners = 0;
+    const delegate = LocalTextSearchDelegate({
+        dataSource: {
+            ...dataSource,
+            listenCollection: (props) => {
+                listeners++;
+                const unsubscribe = dataSource.listenCollection(props);
+                return () => {
+                    listeners--;
+                    unsubscribe();
+                };
+            }
+        },
+        properties: ["name", "details"]
+    });
+
+    expect(await searchIds(delegate, "mocha")).toEqual(["p6"]);
+    expect(await searchIds(delegate, "brands")).toEqual([]);
+    expect(listeners).toEqual(1);
+
+    delegate.dispose!();
+    expect(listeners).toEqual(0);
+
+    // the collection is indexed again in the next search
+    expect(await searchIds(delegate, "mocha")).toEqual(["p6"]);
+    expect(listeners).toEqual(1);
+    delegate.dispose!();
+});
@@ -0,0 +1,92 @@
+import {
+    buildExportFile,
+    buildSchema,
+    convertImportedRow,
+    expandLocalizedProperties,
+    getDefaultImportMapping,
+    getImportTargets,
+    getLocaleFallbackChain,
+    InMemoryDataSource,
+    LocalizationConfig,
+    parseCSV,
+    resolveLocalizedValue
+} from "../models";
+import { getYupEntitySchema } from "../form/validation";
+
+const localization: LocalizationConfig = {
+    locales: ["en", "es", "es-MX", "fr"],
+    fallbacks: { fr: ["es"] }
+};
+
+const productSchema = buildSchema({
+    name: "Product",
+    properties: {
+        name: {
+            title: "Name",
+            dataType: "string",
+            localized: true,
+            validation: { required: true }
+        },
+        description: {
+            title: "Description",
+            dataType: "string",
+            localized: true
+        },
+        price: {
+            title: "Price",
+            dataType: "number"
+        }
+    }
+});
+
+it("resolves localized values with a fallback chain", () => {
+    expect(getLocaleFallbackChain("es-MX", localization)).toEqual(["es-MX", "es", "en"]);
+    expect(getLocaleFallbackChain("fr", localization)).toEqual(["fr", "es", "en"]);
+    expect(getLocaleFallbackChain(undefined, localization)).toEqual(["en"]);
+
+    const value = { en: "Shirt", es: "Camisa", "es-MX": "" };
+    expect(resolveLocalizedValue(value, "es", localization)).toEqual({ value: "Camisa", locale: "es" });
+    expect(resolveLocalizedValue(value, "es-MX", localization)).toEqual({ value: "Camisa", locale: "es" });
+    expect(resolveLocalizedValue({ en: "Shirt" }, "fr", localization)).toEqual({ value: "Shirt", locale: "en" });
+    expect(resolveLocalizedValue({ de: "Hemd" }, "fr", localization)).toEqual({});
+    expect(resolveLocalizedValue(null, "fr", localization)).toEqual({});
+});
+
+it("validates required localized values in every locale", async () => {
+    const yupSchema = getYupEntitySchema(productSchema.properties, {}, "products", undefined, undefined, ["en", "es"]);
+
+    await expect(yupSchema.isValid({ name: { en: "Shirt", es: "Camisa" } })).resolves.toBe(true);
+    await expect(yupSchema.validate({ name: { en: "Shirt" } }, { abortEarly: false }))
+        .rejects.toMatchObject({ inner: [expect.objectContaining({ path: "name.es" })] });
+    await expect(yupSchema.isValid({ name: null })).resolves.toBe(false);
+    await expect(yupSchema.isValid({ name: { en: "Shirt", es: "Camisa" }, description: null })).resolves.toBe(true);
+});
+
+it("exports and imports a column per locale", () => {
+    const properties = expandLocalizedProperties(productSchema.properties as any, ["en", "es"]);
+    const entity: any = {
+        id: "p1",
+        path: "products",
+        values: { name: { en: "Shirt", es: "Camisa" }, description: { en: "Cotton" }, price: 10 }
+    };
+
+    const csv = buildExportFile({ entities: [entity], properties, format: "csv" }) as string;
+    expect(csv).toEqual("id,name.en,name.es,description.en,description.es,price\n" +
+        "p1,Shirt,Camisa,Cotton,,10");
+
+    const spanish = expandLocalizedProperties(productSchema.properties as any, ["es"]);
+    expect(buildExportFile({ entities: [entity], properties: spanish, format: "csv" }))
+        .toEqual("id,name.es,description.es,price\np1,Camisa,,10");
+
+    expect(getImportTargets(properties)).toEqual(expect.arrayContaining(["name.en", "name.es", "description.en", "description.es"]));
+    const [header, row] = parseCSV(csv);
+    const mapping = getDefaultImportMapping(header, properties);
+    const { id, values } = convertImportedRow({
+        row: header.reduce((a, column, index) => ({ ...a, [column]: row[index] }), {}),
+        mapping,
+        properties,
+        buildReference: InMemoryDataSource().buildReference
+    });
+    expect(id).toEqual("p1");
+    expect(values).toEqual({ name: { en: "Shirt", es: "Camisa" }, description: { en: "Cotton" }, price: 10 });
+});
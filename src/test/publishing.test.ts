@@ -0,0 +1,128 @@
+import {
+    buildSchema,
+    discardDraft,
+    getDraftsPath,
+    getPublishingStatus,
+    InMemoryDataSource,
+    publishEntity,
+    saveDraft,
+    unpublishEntity
+} from "../models";
+
+const publishedIds: string[] = [];
+const schema = buildSchema({
+    name: "Article",
+    properties: {
+        title: { dataType: "string" }
+    },
+    publishing: {},
+    onPrePublish: ({ values }) => ({ ...values, title: (values.title as string).trim() }),
+    onPublish: ({ id }) => {
+        publishedIds.push(id as string);
+    }
+});
+
+async function fetchValues(dataSource: ReturnType<typeof InMemoryDataSource>, path: string, id: string) {
+    return (await dataSource.fetchEntity({ path, entityId: id, schema })).values;
+}
+
+it("computes the publishing status from the live and draft entities", () => {
+    const live: any = { id: "a1", values: { title: "Live" } };
+    const draft: any = { id: "a1", values: { title: "Draft" } };
+    const missing: any = { id: "a1", values: undefined };
+    expect(getPublishingStatus(live, draft)).toEqual("modified");
+    expect(getPublishingStatus(live, missing)).toEqual("published");
+    expect(getPublishingStatus(undefined, draft)).toEqual("draft");
+    expect(getPublishingStatus(missing, undefined)).toBeUndefined();
+    expect(getDraftsPath("articles", {})).toEqual("articles__drafts");
+    expect(getDraftsPath("articles", { draftsSuffix: "_wip" })).toEqual("articles_wip");
+});
+
+it("moves entities between the drafts and live collections", async () => {
+    const dataSource = InMemoryDataSource({});
+    const context: any = { dataSource, cmsAppConfig: {} };
+    const draftsPath = getDraftsPath("articles", schema.publishing!);
+
+    const draft = await saveDraft({
+        collectionPath: "articles",
+        id: "a1",
+        values: { title: " Hello " },
+        schema,
+        status: "new",
+        context
+    });
+    expect(draft.reference.path).toEqual(`${draftsPath}/a1`);
+    expect(await fetchValues(dataSource, "articles", "a1")).toBeUndefined();
+
+    let published: any;
+    await publishEntity({
+        collectionPath: "articles",
+        id: "a1",
+        values: { title: " Hello " },
+        schema,
+        status: "new",
+        context,
+        onPublishSuccess: (entity) => published = entity
+    });
+    expect(published.id).toEqual("a1");
+    expect(publishedIds).toEqual(["a1"]);
+    expect(await fetchValues(dataSource, "articles", "a1")).toEqual({ title: "Hello" });
+    expect(await fetchValues(dataSource, draftsPath, "a1")).toBeUndefined();
+
+    // unpublishing keeps the values as a draft
+    const live = await dataSource.fetchEntity({ path: "articles", entityId: "a1", schema });
+    await unpublishEntity({ entity: live, collectionPath: "articles", schema, context });
+    expect(await fetchValues(dataSource, "articles", "a1")).toBeUndefined();
+    expect(await fetchValues(dataSource, draftsPath, "a1")).toEqual({ title: "Hello" });
+
+    await discardDraft({ entityId: "a1", collectionPath: "articles", schema, context });
+    expect(await fetchValues(dataSource, draftsPath, "a1")).toBeUndefined();
+});
+
+it("keeps an existing draft when unpublishing", async () => {
+    const dataSource = InMemoryDataSource({
+        articles: { a1: { title: "Live" } },
+        articles__drafts: { a1: { title: "Work in progress" } }
+    });
+    const context: any = { dataSource, cmsAppConfig: {} };
+
+    const live = await dataSource.fetchEntity({ path: "articles", entityId: "a1", schema });
+    await unpublishEntity({ entity: live, collectionPath: "articles", schema, context });
+    expect(await fetchValues(dataSource, "articles__drafts", "a1")).toEqual({ title: "Work in progress" });
+
+    // discarding the draft of an entity never published removes it completely
+    await discardDraft({ entityId: "a1", collectionPath: "articles", schema, context });
+    expect(await dataSource.fetchCollection({ path: "articles", schema })).toHaveLength(0);
+    expect(await dataSource.fetchCollection({ path: "articles__drafts", schema })).toHaveLength(0);
+});
+
+it("computes the values of drafts before saving them", async () => {
+    const dataSource = InMemoryDataSource({});
+    const context: any = { dataSource, cmsAppConfig: {} };
+    const computedSchema = buildSchema({
+        name: "Article",
+        properties: {
+            title: { dataType: "string" },
+            slug: {
+                dataType: "string",
+                compute: (values) => values.title ? (values.title as string).toLowerCase() : null
+            },
+            length: {
+                dataType: "number",
+                compute: (values) => (values.title as string ?? "").length,
+                persistComputed: false
+            }
+        },
+        publishing: {}
+    });
+
+    await saveDraft({
+        collectionPath: "articles",
+        id: "a1",
+        values: { title: "Hello", slug: "outdated", length: 3 },
+        schema: computedSchema,
+        status: "new",
+        context
+    });
+    expect(await fetchValues(dataSource, "articles__drafts", "a1")).toEqual({ title: "Hello", slug: "hello" });
+});
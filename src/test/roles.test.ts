@@ -0,0 +1,141 @@
+import {
+    buildRolePermissions,
+    buildSchema,
+    InMemoryDataSource,
+    rolesFromCollection
+} from "../models";
+import { computeNavigation } from "../core/navigation";
+import {
+    applyPropertyPermissions,
+    getEditableProperties
+} from "../util/permissions";
+import { getYupEntitySchema } from "../form/validation";
+
+const schema = buildSchema({
+    name: "Product",
+    properties: {
+        name: { dataType: "string" }
+    }
+});
+
+function permissionsFor(roles: string[]) {
+    const permissions = buildRolePermissions({
+        admin: {},
+        editor: { delete: false },
+        viewer: { create: false, edit: false, delete: false }
+    });
+    if (typeof permissions !== "function")
+        throw Error("Expected a permissions builder");
+    return permissions({
+        user: null,
+        roles,
+        entity: null,
+        collectionPath: "products",
+        authController: { roles } as any,
+        context: {} as any
+    });
+}
+
+it("merges the permissions of the roles of the user", () => {
+    expect(permissionsFor(["admin"])).toEqual({ read: true, create: true, edit: true, delete: true });
+    expect(permissionsFor(["editor"])).toEqual({ read: true, create: true, edit: true, delete: false });
+    expect(permissionsFor(["viewer", "editor"])).toEqual({ read: true, create: true, edit: true, delete: false });
+    expect(permissionsFor(["viewer"])).toEqual({ read: true, create: false, edit: false, delete: false });
+    expect(permissionsFor([])).toEqual({ read: false, create: false, edit: false, delete: false });
+});
+
+it("reads roles from a collection", async () => {
+    const dataSource = InMemoryDataSource({
+        cms_roles: {
+            u1: { roles: ["admin", "editor"] },
+            u2: { roles: "viewer" }
+        }
+    });
+    const resolver = rolesFromCollection();
+    expect(await resolver({ user: { uid: "u1" } as any, dataSource })).toEqual(["admin", "editor"]);
+    expect(await resolver({ user: { uid: "u2" } as any, dataSource })).toEqual(["viewer"]);
+    expect(await resolver({ user: { uid: "u3" } as any, dataSource })).toEqual([]);
+});
+
+it("hides collections and views a role can't access", () => {
+    const collections = [
+        { name: "Products", relativePath: "products", schema },
+        {
+            name: "Orders",
+            relativePath: "orders",
+            schema,
+            permissions: buildRolePermissions({ admin: {} })
+        }
+    ];
+    const views = [
+        { path: "reports", name: "Reports", view: null, roles: ["admin"] },
+        { path: "help", name: "Help", view: null }
+    ];
+    const entriesFor = (roles: string[]) => computeNavigation(collections, views, false, {
+        authController: { roles } as any,
+        context: {} as any
+    }).navigationEntries.map((entry) => entry.name);
+
+    expect(entriesFor(["admin"])).toEqual(["Products", "Orders", "Reports", "Help"]);
+    expect(entriesFor(["editor"])).toEqual(["Products", "Help"]);
+});
+
+it("hides and disables properties by role", () => {
+    const properties: any = {
+        name: { dataType: "string" },
+        price: { dataType: "number", permissions: { edit: ["admin"] } },
+        status: { dataType: "string", permissions: { read: ["admin", "editor"], edit: ["admin"] } },
+        details: {
+            dataType: "map",
+            properties: {
+                cost: { dataType: "number", permissions: { read: ["admin"] } },
+                notes: { dataType: "string" }
+            }
+        }
+    };
+    const propertiesFor = (roles: string[]) => applyPropertyPermissions(properties, { roles } as any) as any;
+
+    const admin = propertiesFor(["admin"]);
+    expect(Object.keys(admin)).toEqual(["name", "price", "status", "details"]);
+    expect(admin.price.disabled).toBeUndefined();
+    expect(Object.keys(admin.details.properties)).toEqual(["cost", "notes"]);
+
+    const editor = propertiesFor(["editor"]);
+    expect(Object.keys(editor)).toEqual(["name", "price", "status", "details"]);
+    expect(editor.price.disabled).toEqual({ disabledMessage: "You don't have permission to edit this field" });
+    expect(editor.status.disabled).toBeTruthy();
+    expect(editor.name.disabled).toBeUndefined();
+    expect(Object.keys(editor.details.properties)).toEqual(["notes"]);
+
+    expect(Object.keys(propertiesFor([]))).toEqual(["name", "price", "details"]);
+
+    // the message of the disabled properties can be translated
+    const translated = applyPropertyPermissions(properties, { roles: ["editor"] } as any, "Sin permiso") as any;
+    expect(translated.price.disabled).toEqual({ disabledMessage: "Sin permiso" });
+});
+
+it("only validates the properties the user can edit", async () => {
+    const properties: any = {
+        name: { dataType: "string", validation: { required: true } },
+        price: { dataType: "number", validation: { required: true }, permissions: { edit: ["admin"] } },
+        cost: { dataType: "number", validation: { required: true }, permissions: { read: ["admin"] } },
+        code: { dataType: "string", validation: { required: true }, disabled: true },
+        details: {
+            dataType: "map",
+            properties: {
+                notes: { dataType: "string", validation: { required: true }, permissions: { edit: ["admin"] } },
+                size: { dataType: "number" }
+            }
+        }
+    };
+    const editableFor = (roles: string[]) => getEditableProperties(properties, { roles } as any) as any;
+
+    const editor = editableFor(["editor"]);
+    expect(Object.keys(editor)).toEqual(["name", "details"]);
+    expect(Object.keys(editor.details.properties)).toEqual(["size"]);
+    expect(Object.keys(editableFor(["admin"]))).toEqual(["name", "price", "cost", "details"]);
+
+    const values = { name: "Mug", details: {} };
+    await expect(getYupEntitySchema(editor, values, "products").isValid(values)).resolves.toBe(true);
+    await expect(getYupEntitySchema(editableFor(["admin"]), values, "products").isValid(values)).resolves.toBe(false);
+});
@@ -0,0 +1,89 @@
+import React from "react";
+import ReactDOM from "react-dom";
+import { act } from "react-dom/test-utils";
+import {
+    decodeSharedView,
+    encodeSharedView,
+    SavedViewsController,
+    useSavedViews
+} from "../hooks/useSavedViews";
+import { InMemoryDataSource, SavedCollectionView } from "../models";
+import { CMSAppContextProvider } from "../contexts/CMSAppContext";
+
+const dataSource = InMemoryDataSource();
+const { buildReference } = dataSource;
+
+const view: SavedCollectionView<any> = {
+    name: "Recent expensive",
+    filter: {
+        price: [[">=", 100], ["<", 500]],
+        published_on: [">", new Date("2021-09-01T12:00:00Z")],
+        status: ["in", ["published", "scheduled"]],
+        brand: ["==", buildReference("brands/b1")]
+    },
+    sort: ["published_on", "desc"],
+    properties: ["name", "price"],
+    size: "s"
+};
+
+it("round trips shared views in URLs", () => {
+    const encoded = encodeSharedView(view, "products");
+    const params = new URLSearchParams(`?${new URLSearchParams({ view: encoded }).toString()}`);
+
+    expect(decodeSharedView(params.get("view"), "products", buildReference)).toEqual(view);
+    expect(decodeSharedView(encodeSharedView({ name: "Empty" }, "products"), "products", buildReference))
+        .toEqual({ name: "Empty" });
+
+    // views of other collections or invalid ones are ignored
+    expect(decodeSharedView(encoded, "orders", buildReference)).toBeUndefined();
+    expect(decodeSharedView("{invalid", "products", buildReference)).toBeUndefined();
+    expect(decodeSharedView(JSON.stringify({ collectionPath: "products" }), "products", buildReference)).toBeUndefined();
+    expect(decodeSharedView(null, "products", buildReference)).toBeUndefined();
+});
+
+it("saves views in the local storage, per collection", () => {
+    localStorage.clear();
+    const div = document.createElement("div");
+    let controller: SavedViewsController<any> | undefined;
+    function SavedViewsHook({ collectionPath }: { collectionPath: string }) {
+        controller = useSavedViews(collectionPath);
+        return null;
+    }
+    const SavedViews = ({ collectionPath }: { collectionPath: string }) => (
+        <CMSAppContextProvider cmsAppConfig={{} as any}
+                               firebaseConfig={{}}
+                               dataSource={dataSource}
+                               theme={{}}>
+            <SavedViewsHook collectionPath={collectionPath}/>
+        </CMSAppContextProvider>
+    );
+
+    act(() => {
+        ReactDOM.render(<SavedViews collectionPath={"products"}/>, div);
+    });
+    expect(controller!.views).toEqual([]);
+
+    act(() => controller!.saveView(view));
+    act(() => controller!.saveView({ name: "Cheap", filter: { price: ["<", 10] } }));
+    act(() => controller!.saveView({ ...view, size: "l" }));
+    expect(controller!.views).toEqual([{ name: "Cheap", filter: { price: ["<", 10] } }, { ...view, size: "l" }]);
+
+    // views are read back from the storage, with their dates
+    act(() => {
+        ReactDOM.unmountComponentAtNode(div);
+        ReactDOM.render(<SavedViews collectionPath={"products"}/>, div);
+    });
+    expect(controller!.views).toEqual([{ name: "Cheap", filter: { price: ["<", 10] } }, { ...view, size: "l" }]);
+
+    act(() => controller!.deleteView("Cheap"));
+    expect(controller!.views).toEqual([{ ...view, size: "l" }]);
+
+    act(() => {
+        ReactDOM.unmountComponentAtNode(div);
+        ReactDOM.render(<SavedViews collectionPath={"orders"}/>, div);
+    });
+    expect(controller!.views).toEqual([]);
+    act(() => {
+        ReactDOM.unmountComponentAtNode(div);
+    });
+});
@@ -0,0 +1,63 @@
+import { getScheduledTransitions, isScheduled, PublishingConfig } from "../models";
+
+const config: PublishingConfig = {
+    publishAtProperty: "publish_at",
+    unpublishAtProperty: "unpublish_at"
+};
+
+const now = new Date("2021-09-01T12:00:00Z");
+const past = new Date("2021-08-01T12:00:00Z");
+const future = new Date("2021-10-01T12:00:00Z");
+
+it("publishes drafts whose publish date has passed", () => {
+
+    const drafts = [
+        { id: "due", values: { publish_at: past } },
+        { id: "scheduled", values: { publish_at: future } },
+        { id: "unscheduled", values: { publish_at: null } },
+        { id: "expired", values: { publish_at: past, unpublish_at: past } },
+        // Firestore timestamps
+        { id: "timestamp", values: { publish_at: { toDate: () => past } } }
+    ];
+
+    const { toPublish, toUnpublish } = getScheduledTransitions({
+        liveEntities: [],
+        draftEntities: drafts,
+        config,
+        now
+    });
+
+    expect(toPublish.map((e) => e.id)).toEqual(["due", "timestamp"]);
+    expect(toUnpublish).toHaveLength(0);
+    expect(isScheduled(drafts[1], config, now)).toBe(true);
+    expect(isScheduled(drafts[0], config, now)).toBe(false);
+});
+
+it("unpublishes live entities whose unpublish date has passed", () => {
+
+    const live = [
+        { id: "expired", values: { unpublish_at: past } },
+        { id: "live", values: { unpublish_at: future } },
+        { id: "replaced", values: { unpublish_at: past } }
+    ];
+    const drafts = [
+        { id: "replaced", values: { publish_at: past, unpublish_at: future } }
+    ];
+
+    const { toPublish, toUnpublish } = getScheduledTransitions({
+        liveEntities: live,
+        draftEntities: drafts,
+        config,
+        now
+    });
+
+    expect(toPublish.map((e) => e.id)).toEqual(["replaced"]);
+    expect(toUnpublish.map((e) => e.id)).toEqual(["expired"]);
+
+    expect(getScheduledTransitions({
+        liveEntities: live,
+        draftEntities: drafts,
+        config: {},
+        now
+    })).toEqual({ toPublish: [], toUnpublish: [] });
+});
@@ -0,0 +1,33 @@
+import { buildTranslate, getTranslations } from "../i18n";
+
+it("translates into the language of the locale, falling back to English", () => {
+    expect(buildTranslate("es")("save")).toEqual("Guardar");
+    expect(buildTranslate("ptBR")("save")).toEqual("Salvar");
+    expect(buildTranslate("enGB")("save")).toEqual("Save");
+    expect(buildTranslate("ja")("save")).toEqual("Save");
+    expect(buildTranslate()("save")).toEqual("Save");
+    expect(getTranslations("frCA").filter).toEqual("Filtrer");
+});
+
+it("replaces the parameters and picks the plural variants", () => {
+    const t = buildTranslate("enUS");
+    expect(t("savedCorrectly", { schema: "Product" })).toEqual("Product: Saved correctly");
+    expect(t("deleteMultipleTitle", { schema: "Product", count: 3 })).toEqual("Product: Delete 3 entities?");
+    expect(t("deleteMultipleTitle", { schema: "Product", count: 1 })).toEqual("Product: Delete 1 entity?");
+    expect(t("entitiesFetched", { count: 0 })).toEqual("0 entities fetched");
+    expect(buildTranslate("fr")("entitiesFetched", { count: 0 })).toEqual("0 entité récupérée");
+    expect(buildTranslate("de")("multipleDeleted", { schema: "Produkt", count: 2 }))
+        .toEqual("Produkt: 2 Einträge gelöscht");
+});
+
+it("overrides the bundled strings", () => {
+    const t = buildTranslate("es", {
+        save: "Enviar",
+        entitiesFetched: { zero: "Ninguna entidad", one: "Una entidad", other: "{count} entidades" }
+    });
+    expect(t("save")).toEqual("Enviar");
+    expect(t("create")).toEqual("Crear");
+    expect(t("entitiesFetched", { count: 0 })).toEqual("Ninguna entidad");
+    expect(t("entitiesFetched", { count: 1 })).toEqual("Una entidad");
+    expect(t("entitiesFetched", { count: 5 })).toEqual("5 entidades");
+});
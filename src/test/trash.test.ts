@@ -0,0 +1,89 @@
+import {
+    buildSchema,
+    getTrashPath,
+    InMemoryDataSource,
+    purgeEntity,
+    restoreEntity
+} from "../models";
+import { deleteEntity } from "../models/firestore";
+
+it("moves deleted entities to the trash and restores them", async () => {
+    const onPreDelete = jest.fn();
+    const onDelete = jest.fn();
+    const onPreSave = jest.fn(({ values }) => values);
+    const schema = buildSchema({
+        name: "Product",
+        properties: {
+            name: { dataType: "string" }
+        },
+        onPreDelete,
+        onDelete,
+        onPreSave
+    });
+
+    const dataSource = InMemoryDataSource({
+        products: {
+            p1: { name: "Mug" }
+        }
+    });
+    const context: any = { dataSource, cmsAppConfig: {} };
+    const trashPath = getTrashPath("products", true);
+    expect(trashPath).toEqual("products__trash");
+    expect(getTrashPath("products", { trashSuffix: "_deleted" })).toEqual("products_deleted");
+
+    const entity = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema });
+    expect(await deleteEntity({ entity, collectionPath: "products", schema, context, trashPath }))
+        .toBe(true);
+    expect(onPreDelete).toHaveBeenCalledTimes(1);
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect((await dataSource.fetchEntity({ path: "products", entityId: "p1", schema })).values)
+        .toBeUndefined();
+
+    const trashed = await dataSource.fetchEntity({ path: trashPath, entityId: "p1", schema });
+    expect(trashed.values).toEqual({ name: "Mug" });
+
+    expect(await restoreEntity({ entity: trashed, collectionPath: "products", schema, context }))
+        .toBe(true);
+    expect(onPreSave).not.toHaveBeenCalled();
+    expect((await dataSource.fetchEntity({ path: "products", entityId: "p1", schema })).values)
+        .toEqual({ name: "Mug" });
+    expect(await dataSource.fetchCollection({ path: trashPath, schema })).toHaveLength(0);
+
+    const restored = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema });
+    await deleteEntity({ entity: restored, collectionPath: "products", schema, context, trashPath });
+    const trashedAgain = await dataSource.fetchEntity({ path: trashPath, entityId: "p1", schema });
+    await purgeEntity({ entity: trashedAgain, trashPath, schema, context });
+    expect(await dataSource.fetchCollection({ path: trashPath, schema })).toHaveLength(0);
+    expect(await dataSource.fetchCollection({ path: "products", schema })).toHaveLength(0);
+    expect(onDelete).toHaveBeenCalledTimes(2);
+});
+
+it("keeps the data of entities as stored when moving them to the trash and back", async () => {
+    const updatedOn = new Date(2021, 1, 1);
+    const schema = buildSchema({
+        name: "Product",
+        properties: {
+            name: { dataType: "string", validation: { required: true } },
+            updated_on: { dataType: "timestamp", autoValue: "on_update" }
+        }
+    });
+    const dataSource = InMemoryDataSource({
+        products: {
+            p1: { updated_on: updatedOn }
+        }
+    });
+    const context: any = { dataSource, cmsAppConfig: {} };
+    const trashPath = getTrashPath("products", true);
+    // fetched without the required property, to see the values as stored
+    const rawSchema: any = { name: "Product", properties: { updated_on: { dataType: "timestamp" } } };
+
+    const entity = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema });
+    await deleteEntity({ entity, collectionPath: "products", schema, context, trashPath });
+    expect((await dataSource.fetchEntity({ path: trashPath, entityId: "p1", schema: rawSchema })).values)
+        .toEqual({ updated_on: updatedOn });
+
+    const trashed = await dataSource.fetchEntity({ path: trashPath, entityId: "p1", schema });
+    await restoreEntity({ entity: trashed, collectionPath: "products", schema, context });
+    const restored = await dataSource.fetchEntity({ path: "products", entityId: "p1", schema: rawSchema });
+    expect(restored.values).toEqual({ updated_on: updatedOn });
+});
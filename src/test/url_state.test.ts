@@ -0,0 +1,61 @@
+import {
+    decodeCollectionUrlState,
+    encodeCollectionUrlState
+} from "../core/url_state";
+import { InMemoryDataSource } from "../models";
+
+const { buildReference } = InMemoryDataSource();
+
+it("encodes the collection state in a stable way", () => {
+
+    const date = new Date("2021-09-01T12:00:00Z");
+    const brand = buildReference("brands/b1");
+
+    const search = encodeCollectionUrlState<any>({
+        filterValues: {
+            status: ["in", ["draft", "published"]],
+            publish_date: [[">=", date], ["<", date]],
+            price: ["==", 12],
+            brand: ["==", brand]
+        },
+        sort: ["publish_date", "desc"],
+        searchString: "hello world",
+        itemCount: 100
+    }, "?view=shared&other=1", ["view"]);
+
+    const reorderedSearch = encodeCollectionUrlState<any>({
+        filterValues: {
+            brand: ["==", brand],
+            price: ["==", 12],
+            publish_date: [[">=", date], ["<", date]],
+            status: ["in", ["draft", "published"]]
+        },
+        sort: ["publish_date", "desc"],
+        searchString: "hello world",
+        itemCount: 100
+    }, "?view=shared&other=1", ["view"]);
+
+    expect(search).toEqual(reorderedSearch);
+    expect(search.startsWith("?other=1&")).toBe(true);
+
+    const decoded = decodeCollectionUrlState(search, buildReference);
+    expect(decoded).toEqual({
+        filterValues: {
+            status: ["in", ["draft", "published"]],
+            publish_date: [[">=", date], ["<", date]],
+            price: ["==", 12],
+            brand: ["==", expect.objectContaining({ path: "brands/b1" })]
+        },
+        sort: ["publish_date", "desc"],
+        searchString: "hello world",
+        itemCount: 100
+    });
+
+    expect(brand.isEqual((decoded.filterValues as any).brand[1])).toBe(true);
+
+    expect(encodeCollectionUrlState({})).toEqual("");
+});
+
+it("ignores invalid params", () => {
+    expect(decodeCollectionUrlState("?filter={invalid&sort=name:up&limit=-1", buildReference)).toEqual({});
+});
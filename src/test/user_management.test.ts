@@ -0,0 +1,152 @@
+import {
+    checkCMSUserAccess,
+    InMemoryDataSource,
+    inviteCMSUser,
+    UserManagementConfig
+} from "../models";
+
+const config: UserManagementConfig = {
+    roles: ["admin", "editor"],
+    initialAdmins: ["Owner@Example.com"]
+};
+
+function firebaseUser(email: string,
+                      uid: string = "uid_" + email,
+                      emailVerified: boolean = true,
+                      providerId: string = "password"): any {
+    return { email, uid, displayName: null, emailVerified, providerData: [{ providerId }] };
+}
+
+it("only lets invited users and initial admins in", async () => {
+    const dataSource = InMemoryDataSource();
+
+    expect(await checkCMSUserAccess({
+        user: firebaseUser("someone@example.com"),
+        dataSource,
+        config
+    })).toBeUndefined();
+
+    const owner = await checkCMSUserAccess({
+        user: firebaseUser("owner@example.com", "owner_uid"),
+        dataSource,
+        config
+    });
+    expect(owner?.roles).toEqual(["admin"]);
+    expect(owner?.uid).toEqual("owner_uid");
+
+    const stored = await dataSource.fetchEntity({
+        path: "cms_users",
+        entityId: "owner@example.com",
+        schema: { name: "User", properties: { email: { dataType: "string" } } }
+    });
+    expect(stored.values).toMatchObject({ email: "owner@example.com", roles: ["admin"] });
+});
+
+it("rejects users without a verified email", async () => {
+    const dataSource = InMemoryDataSource();
+
+    expect(await checkCMSUserAccess({
+        user: firebaseUser("owner@example.com", "impostor_uid", false),
+        dataSource,
+        config
+    })).toBeUndefined();
+    expect(await dataSource.fetchCollection({
+        path: "cms_users",
+        schema: { name: "User", properties: { email: { dataType: "string" } } }
+    })).toHaveLength(0);
+
+    await inviteCMSUser({ email: "editor@example.com", roles: ["editor"], dataSource, config });
+    expect(await checkCMSUserAccess({
+        user: firebaseUser("editor@example.com", "impostor_uid", false),
+        dataSource,
+        config
+    })).toBeUndefined();
+    expect((await checkCMSUserAccess({
+        user: firebaseUser("editor@example.com"),
+        dataSource,
+        config
+    }))?.roles).toEqual(["editor"]);
+
+    // only email and password accounts need to be verified, if required
+    expect(await checkCMSUserAccess({
+        user: firebaseUser("editor@example.com", "github_uid", false, "github.com"),
+        dataSource,
+        config
+    })).toBeDefined();
+    expect(await checkCMSUserAccess({
+        user: firebaseUser("editor@example.com", "impostor_uid", false),
+        dataSource,
+        config: { ...config, requireVerifiedEmail: false }
+    })).toBeDefined();
+});
+
+it("registers logins without rewriting the roles of the user", async () => {
+    const dataSource = InMemoryDataSource();
+    await inviteCMSUser({ email: "editor@example.com", roles: ["editor"], dataSource, config });
+
+    const saved: any[] = [];
+    const readOnlyDataSource = {
+        ...dataSource,
+        saveEntity: (props: any) => {
+            saved.push(props.values);
+            return Promise.reject(new Error("Missing or insufficient permissions"));
+        }
+    };
+    const editor = await checkCMSUserAccess({
+        user: firebaseUser("editor@example.com", "editor_uid"),
+        dataSource: readOnlyDataSource,
+        config
+    });
+    expect(editor?.roles).toEqual(["editor"]);
+    expect(saved).toHaveLength(1);
+    expect(Object.keys(saved[0]).sort()).toEqual(["last_login", "uid"]);
+
+    // initial admins are let in even if they can't be added to the collection
+    expect((await checkCMSUserAccess({
+        user: firebaseUser("owner@example.com"),
+        dataSource: readOnlyDataSource,
+        config
+    }))?.roles).toEqual(["admin"]);
+});
+
+it("invites users and blocks disabled ones", async () => {
+    const dataSource = InMemoryDataSource();
+
+    const invited = await inviteCMSUser({
+        dataSource,
+        config,
+        email: " Editor@Example.com ",
+        roles: ["editor"],
+        invitedBy: "owner@example.com"
+    });
+    expect(invited.id).toEqual("editor@example.com");
+    expect(invited.values).toMatchObject({ roles: ["editor"], invited_by: "owner@example.com" });
+
+    await expect(inviteCMSUser({
+        dataSource,
+        config,
+        email: "editor@example.com",
+        roles: []
+    })).rejects.toThrow("already been invited");
+
+    const editor = await checkCMSUserAccess({
+        user: firebaseUser("editor@example.com"),
+        dataSource,
+        config
+    });
+    expect(editor?.roles).toEqual(["editor"]);
+    expect(editor?.last_login).toBeInstanceOf(Date);
+
+    await dataSource.saveEntity({
+        collectionPath: "cms_users",
+        id: "editor@example.com",
+        values: { ...invited.values, disabled: true },
+        schema: { name: "User", properties: { disabled: { dataType: "boolean" } } },
+        status: "existing"
+    });
+    expect(await checkCMSUserAccess({
+        user: firebaseUser("editor@example.com"),
+        dataSource,
+        config
+    })).toBeUndefined();
+});
@@ -1,12 +1,19 @@
 import {
+    CMSView,
     Entity,
     EntitySchema,
+    MapProperty,
     Permissions,
-    PermissionsBuilder
+    PermissionsBuilder,
+    Properties,
+    Property
 } from "../models";
 import { AuthController, CMSAppContext } from "../contexts";
+import { isReadOnly } from "../models/utils";
+import { buildTranslate } from "../i18n";
 
 const DEFAULT_PERMISSIONS = {
+    read: true,
     edit: true,
     create: true,
     delete: true
@@ -26,6 +33,7 @@ function checkHasPermissionOnEntity<M extends { [Key: string]: any }>
     } else if (typeof permission === "function") {
         return permission({
             user: authController.loggedUser,
+            roles: authController.roles,
             entity,
             authController,
             collectionPath,
@@ -36,6 +44,18 @@ function checkHasPermissionOnEntity<M extends { [Key: string]: any }>
     throw Error("New type of HasPermission added and not mapped");
 }
 
+export function canRead<M extends { [Key: string]: any }>
+(permission: PermissionsBuilder<M> | Permissions | undefined,
+ authController: AuthController,
+ collectionPath:string,
+ context: CMSAppContext): boolean {
+    return checkHasPermissionOnEntity(permission,  null, authController, collectionPath, context).read ?? DEFAULT_PERMISSIONS.read;
+}
+
+export function canAccessView(view: CMSView, authController: AuthController): boolean {
+    return !view.roles || view.roles.some((role) => authController.roles.includes(role));
+}
+
 export function canEdit<M extends { [Key: string]: any }>
 (permission: PermissionsBuilder<M> | Permissions | undefined,
  entity: Entity<M>,
@@ -62,3 +82,67 @@ export function canDelete<M extends { [Key: string]: any }>
     return checkHasPermissionOnEntity(permission,  entity, authController, collectionPath, context).delete ?? DEFAULT_PERMISSIONS.delete;
 }
 
+export function canReadProperty(property: Property, authController: AuthController): boolean {
+    const roles = property.permissions?.read;
+    return !roles || roles.some((role) => authController.roles.includes(role));
+}
+
+export function canEditProperty(property: Property, authController: AuthController): boolean {
+    const roles = property.permissions?.edit;
+    return canReadProperty(property, authController)
+        && (!roles || roles.some((role) => authController.roles.includes(role)));
+}
+
+/**
+ * Remove the properties the logged user can't see, and disable the ones
+ * they can't edit, including the properties of maps
+ * @param properties
+ * @param authController
+ * @param disabledMessage Message displayed in the properties the user can't
+ * edit, in English by default
+ */
+export function applyPropertyPermissions<M extends { [Key: string]: any }>(properties: Properties<M>,
+                                                                           authController: AuthController,
+                                                                           disabledMessage: string = buildTranslate()("noEditPermission")): Properties<M> {
+    return Object.entries<Property>(properties as Record<string, Property>)
+        .filter(([_, property]) => canReadProperty(property, authController))
+        .map(([key, property]) => {
+            let result: Property = property;
+            if (!canEditProperty(property, authController) && !property.disabled) {
+                result = { ...result, disabled: { disabledMessage } };
+            }
+            if (property.dataType === "map" && property.properties) {
+                result = {
+                    ...result,
+                    properties: applyPropertyPermissions(property.properties, authController, disabledMessage)
+                } as MapProperty;
+            }
+            return { [key]: result };
+        })
+        .reduce((a, b) => ({ ...a, ...b }), {}) as Properties<M>;
+}
+
+/**
+ * Keep only the properties the logged user can edit, including the
+ * properties of maps. Read only and disabled properties are removed too,
+ * so forms and imports don't validate or write values the user can't change
+ * @param properties
+ * @param authController
+ */
+export function getEditableProperties<M extends { [Key: string]: any }>(properties: Properties<M>,
+                                                                        authController: AuthController): Properties<M> {
+    return Object.entries<Property>(properties as Record<string, Property>)
+        .filter(([_, property]) => canEditProperty(property, authController) && !isReadOnly(property) && !property.disabled)
+        .map(([key, property]) => {
+            if (property.dataType === "map" && property.properties) {
+                return {
+                    [key]: {
+                        ...property,
+                        properties: getEditableProperties(property.properties, authController)
+                    } as MapProperty
+                };
+            }
+            return { [key]: property };
+        })
+        .reduce((a, b) => ({ ...a, ...b }), {}) as Properties<M>;
+}
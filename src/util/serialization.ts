@@ -0,0 +1,57 @@
+import firebase from "firebase/app";
+import "firebase/firestore";
+
+/**
+ * Convert a value that may contain dates or Firestore references into a
+ * plain JSON structure, so it can be stored in local storage or in a URL.
+ * Timestamps are converted to dates.
+ * @param value
+ * @ignore
+ */
+export function serializeValue(value: any): any {
+    if (value === null || value === undefined) {
+        return value;
+    } else if (value instanceof Date) {
+        return { __type: "date", value: value.toISOString() };
+    } else if (value instanceof firebase.firestore.Timestamp) {
+        return { __type: "date", value: value.toDate().toISOString() };
+    } else if (value instanceof firebase.firestore.DocumentReference) {
+        return { __type: "reference", path: value.path };
+    } else if (value instanceof firebase.firestore.GeoPoint) {
+        return { __type: "geopoint", latitude: value.latitude, longitude: value.longitude };
+    } else if (Array.isArray(value)) {
+        return value.map(serializeValue);
+    } else if (typeof value === "object") {
+        return Object.entries(value)
+            .map(([key, v]) => ({ [key]: serializeValue(v) }))
+            .reduce((a, b) => ({ ...a, ...b }), {});
+    }
+    return value;
+}
+
+/**
+ * Inverse of {@link serializeValue}
+ * @param value
+ * @param buildReference Used to create references from their paths,
+ * usually `DataSource.buildReference`
+ * @ignore
+ */
+export function deserializeValue(value: any,
+                                 buildReference: (path: string) => firebase.firestore.DocumentReference): any {
+    if (value === null || value === undefined) {
+        return value;
+    } else if (Array.isArray(value)) {
+        return value.map((v) => deserializeValue(v, buildReference));
+    } else if (typeof value === "object") {
+        if (value.__type === "date")
+            return new Date(value.value);
+        if (value.__type === "reference")
+            return buildReference(value.path);
+        if (value.__type === "geopoint")
+            return new firebase.firestore.GeoPoint(value.latitude, value.longitude);
+        return Object.entries(value)
+            .map(([key, v]) => ({ [key]: deserializeValue(v, buildReference) }))
+            .reduce((a, b) => ({ ...a, ...b }), {});
+    }
+    return value;
+}